@@ -1,5 +1,14 @@
 // Slack Alert Proxy
 // Forwards alert messages to SLACK_WEBHOOK_URL
+//
+// POST { message, source?, error?, severity?, dedup_key?, cooldown_s? }
+//
+// With a dedup_key, a repeat of the same key inside cooldown_s (default 30m)
+// is dropped and answered { sent: false, suppressed: true }. The last-sent
+// time lives in the trading DB's market_cache so every browser shares it;
+// without a DB it falls back to this lambda instance's memory.
+
+const t = require('./lib/tradingDb.cjs');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,6 +16,31 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+const DEFAULT_COOLDOWN_S = 30 * 60;
+const SEVERITY_EMOJI = { critical: ':rotating_light:', warning: ':warning:' };
+
+// key → last sent epoch ms, for when there is no DB
+const sentInMemory = new Map();
+
+async function lastSentAt(db, key) {
+  if (!db) return sentInMemory.get(key) ?? null;
+  const cached = await t.getMarketCache(db, `alert:${key}`);
+  return cached ? Date.now() - cached.age_ms : null;
+}
+
+async function markSent(db, key, message) {
+  sentInMemory.set(key, Date.now());
+  if (db) await t.setMarketCache(db, `alert:${key}`, 'alert-slack', { message });
+}
+
+function reply(body) {
+  return {
+    statusCode: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
 exports.handler = async (event) => {
   if (event.httpMethod === 'OPTIONS') {
     return { statusCode: 200, headers: corsHeaders, body: '' };
@@ -23,10 +57,24 @@ exports.handler = async (event) => {
   }
 
   try {
-    const { message, source, error: errorMsg } = JSON.parse(event.body);
+    const { message, source, error: errorMsg, severity, dedup_key: dedupKey, cooldown_s: cooldownS } = JSON.parse(event.body);
+
+    let db = null;
+    if (dedupKey) {
+      db = t.getDb();
+      if (db) {
+        // Dedup is best-effort: a DB hiccup must not swallow the alert
+        try { await t.ensureSchema(db); } catch (e) { console.error('alert-slack: DB unavailable', e.message); db = null; }
+      }
+      const cooldownMs = (Number(cooldownS) > 0 ? Number(cooldownS) : DEFAULT_COOLDOWN_S) * 1000;
+      const last = await lastSentAt(db, dedupKey).catch(() => null);
+      if (last != null && Date.now() - last < cooldownMs) {
+        return reply({ sent: false, suppressed: true });
+      }
+    }
 
     const text = [
-      `:warning: *${source || 'Trade Page'}*`,
+      `${SEVERITY_EMOJI[severity] || ':warning:'} *${source || 'Trade Page'}*`,
       message,
       errorMsg ? `\`\`\`${errorMsg}\`\`\`` : null,
     ].filter(Boolean).join('\n');
@@ -37,17 +85,11 @@ exports.handler = async (event) => {
       body: JSON.stringify({ text }),
     });
 
-    return {
-      statusCode: 200,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sent: true }),
-    };
+    if (dedupKey) await markSent(db, dedupKey, message).catch(e => console.error('alert-slack: dedup write failed', e.message));
+
+    return reply({ sent: true });
   } catch (err) {
     console.error('Slack alert error:', err);
-    return {
-      statusCode: 200,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sent: false }),
-    };
+    return reply({ sent: false });
   }
 };
@@ -0,0 +1,210 @@
+// alpaca-broker.cjs
+// Alpaca Trading API proxy — the Alpaca side of the frontend BrokerAdapter.
+// Keys stay server-side; every response is already mapped onto the same
+// shapes robinhood-portfolio returns so the two adapters are interchangeable.
+//
+//   GET /.netlify/functions/alpaca-broker?action=status
+//   GET /.netlify/functions/alpaca-broker?action=portfolio
+//   GET /.netlify/functions/alpaca-broker?action=orders
+//   GET /.netlify/functions/alpaca-broker?action=options
+//
+// Env: ALPACA_API_KEY_ID, ALPACA_API_SECRET_KEY. ALPACA_BASE_URL defaults to
+// the paper-trading endpoint; point it at api.alpaca.markets only on purpose.
+
+'use strict';
+
+const PAPER_BASE_URL = 'https://paper-api.alpaca.markets';
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+function respond(statusCode, body) {
+  return {
+    statusCode,
+    headers: { ...CORS, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+function baseUrl() {
+  return (process.env.ALPACA_BASE_URL || PAPER_BASE_URL).replace(/\/+$/, '');
+}
+
+function hasKeys() {
+  return !!(process.env.ALPACA_API_KEY_ID && process.env.ALPACA_API_SECRET_KEY);
+}
+
+async function alpacaGet(path) {
+  if (!hasKeys()) throw new Error('Not authenticated. Set ALPACA_API_KEY_ID and ALPACA_API_SECRET_KEY.');
+  const res = await fetch(`${baseUrl()}${path}`, {
+    headers: {
+      'APCA-API-KEY-ID': process.env.ALPACA_API_KEY_ID,
+      'APCA-API-SECRET-KEY': process.env.ALPACA_API_SECRET_KEY,
+    },
+  });
+  if (res.status === 401 || res.status === 403) {
+    throw new Error('Not authenticated. Alpaca rejected the API keys.');
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.message || `Alpaca request failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+const num = (v) => {
+  const n = parseFloat(v);
+  return Number.isFinite(n) ? n : 0;
+};
+const r2 = (n) => Math.round(n * 100) / 100;
+
+/**
+ * OCC option symbol → parts. AAPL240119C00190000 = AAPL, 2024-01-19, call,
+ * strike 190. Returns null for anything that isn't one.
+ */
+function parseOccSymbol(symbol) {
+  const m = /^([A-Z.]{1,6})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/.exec(String(symbol || '').trim());
+  if (!m) return null;
+  return {
+    underlying: m[1],
+    expiration: `20${m[2]}-${m[3]}-${m[4]}`,
+    optionType: m[5] === 'C' ? 'call' : 'put',
+    strike: parseInt(m[6], 10) / 1000,
+  };
+}
+
+function mapPosition(p) {
+  return {
+    symbol: p.symbol,
+    name: p.symbol,
+    quantity: num(p.qty),
+    averageCost: num(p.avg_entry_price),
+    currentPrice: num(p.current_price),
+    totalCost: r2(num(p.cost_basis)),
+    currentValue: r2(num(p.market_value)),
+    gain: r2(num(p.unrealized_pl)),
+    gainPercent: r2(num(p.unrealized_plpc) * 100),
+  };
+}
+
+function mapAccount(account, positions) {
+  const equities = positions.filter(p => p.asset_class !== 'us_option');
+  const mapped = equities.map(mapPosition);
+  mapped.sort((a, b) => b.currentValue - a.currentValue);
+  return {
+    accountNumber: account.account_number,
+    buyingPower: num(account.buying_power),
+    cash: num(account.cash),
+    portfolioValue: num(account.equity),
+    extendedHoursValue: num(account.portfolio_value || account.equity),
+    totalGain: r2(mapped.reduce((sum, p) => sum + p.gain, 0)),
+    positions: mapped,
+  };
+}
+
+function mapOrder(o) {
+  return {
+    id: o.id,
+    symbol: o.symbol,
+    name: o.symbol,
+    side: o.side,
+    type: o.type,
+    // Notional orders carry no qty until they fill
+    quantity: num(o.qty || o.filled_qty),
+    price: num(o.limit_price || o.filled_avg_price || o.stop_price),
+    state: o.status,
+    createdAt: o.created_at,
+    updatedAt: o.updated_at,
+  };
+}
+
+function mapOptionPosition(p) {
+  const occ = parseOccSymbol(p.symbol);
+  const quantity = Math.abs(num(p.qty));
+  const multiplier = 100;
+  const markPrice = p.current_price != null ? num(p.current_price) : null;
+  const totalCost = Math.abs(num(p.cost_basis));
+  const currentValue = Math.abs(num(p.market_value));
+  const gain = num(p.unrealized_pl);
+  return {
+    symbol: occ ? occ.underlying : p.symbol,
+    strategy: null,
+    direction: p.side === 'short' ? 'credit' : 'debit',
+    optionType: occ ? occ.optionType : null,
+    strike: occ ? occ.strike : null,
+    expiration: occ ? occ.expiration : null,
+    quantity,
+    avgOpenPrice: num(p.avg_entry_price),
+    markPrice,
+    multiplier,
+    totalCost: r2(totalCost),
+    currentValue: r2(currentValue),
+    gain: r2(gain),
+    gainPercent: totalCost !== 0 ? r2((gain / totalCost) * 100) : 0,
+  };
+}
+
+async function getStatus() {
+  if (!hasKeys()) {
+    return { authenticated: false, message: 'Alpaca API keys not configured' };
+  }
+  try {
+    const account = await alpacaGet('/v2/account');
+    const paper = baseUrl() === PAPER_BASE_URL;
+    return {
+      authenticated: account.status === 'ACTIVE',
+      message: `${paper ? 'Paper' : 'Live'} account ${account.account_number} — ${account.status}`,
+    };
+  } catch (e) {
+    return { authenticated: false, message: e.message, error: e.message };
+  }
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 200, headers: CORS, body: '' };
+  if (event.httpMethod !== 'GET') return respond(405, { error: 'Method not allowed' });
+
+  try {
+    const action = event.queryStringParameters?.action || 'portfolio';
+
+    switch (action) {
+      case 'status':
+        return respond(200, await getStatus());
+
+      case 'portfolio': {
+        const [account, positions] = await Promise.all([alpacaGet('/v2/account'), alpacaGet('/v2/positions')]);
+        return respond(200, mapAccount(account, positions));
+      }
+
+      case 'orders': {
+        const orders = await alpacaGet('/v2/orders?status=all&limit=50&direction=desc');
+        return respond(200, orders.map(mapOrder));
+      }
+
+      case 'options': {
+        const positions = await alpacaGet('/v2/positions');
+        return respond(200, {
+          positions: positions.filter(p => p.asset_class === 'us_option').map(mapOptionPosition),
+        });
+      }
+
+      default:
+        return respond(400, { error: `Unknown action: ${action}. Available: status, portfolio, orders, options` });
+    }
+  } catch (error) {
+    console.error('Alpaca API error:', error);
+    const isAuthError = error.message.includes('Not authenticated');
+    return respond(isAuthError ? 401 : 502, {
+      error: error.message || 'An error occurred',
+      requiresAuth: isAuthError,
+    });
+  }
+};
+
+exports.parseOccSymbol = parseOccSymbol;
+exports.mapAccount = mapAccount;
+exports.mapOrder = mapOrder;
+exports.mapOptionPosition = mapOptionPosition;
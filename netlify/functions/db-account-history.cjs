@@ -0,0 +1,109 @@
+// db-account-history.cjs
+// Account equity curve: the append-only account_history points written by
+// every db-positions sync that carries an account summary (and by
+// snapshot-refresh).
+//
+//   GET /.netlify/functions/db-account-history
+//   GET /.netlify/functions/db-account-history?since=2026-01-01&granularity=raw
+//
+// granularity=day (default) keeps the last point per UTC day and sums that
+// day's net_flow into it, so a chart of a year of 15-minute syncs stays
+// small. raw returns every sync. Returns are computed client-side — flows
+// are reported as-is so the caller can separate contributions from
+// performance. A point's net_flow is what its writer posted plus the ACH
+// transfers snapshot-refresh recorded since the previous point.
+// `flows_tracked` is false while neither source has reported any flow, so
+// the returns can't be told apart from deposits.
+//
+// All responses use the shared envelope: { ok, resource, action, source, as_of, count, data, error }
+
+'use strict';
+
+const t = require('./lib/tradingDb.cjs');
+
+const RESOURCE = 'account-history';
+const GRANULARITIES = ['day', 'raw'];
+
+/**
+ * One point per UTC day: that day's last equity/cash/market value, with the
+ * day's flows summed so none are lost when intraday points are dropped.
+ */
+function collapseDaily(points) {
+  const byDay = new Map();
+  for (const p of points) {
+    if (!p.captured_at) continue;
+    const day  = p.captured_at.slice(0, 10);
+    const prev = byDay.get(day);
+    byDay.set(day, { ...p, net_flow: t.r2((prev?.net_flow ?? 0) + p.net_flow) });
+  }
+  return [...byDay.values()];
+}
+
+/**
+ * Add each transfer to the first point captured at or after it — the first
+ * point whose equity includes the cash. Transfers at or before the first
+ * point predate the curve, and ones after the last wait for the next sync.
+ */
+function attachTransferFlows(points, transfers) {
+  const flows = new Array(points.length).fill(0);
+  for (const tr of transfers) {
+    const i = points.findIndex(p => p.captured_at >= tr.occurred_at);
+    if (i > 0) flows[i] += tr.amount;
+  }
+  return points.map((p, i) => (flows[i] ? { ...p, net_flow: t.r2(p.net_flow + flows[i]) } : p));
+}
+
+async function handleGet(db, event) {
+  const params      = event.queryStringParameters || {};
+  const granularity = (params.granularity || 'day').toLowerCase();
+  const since       = params.since ? t.toIso(params.since) : null;
+
+  if (!GRANULARITIES.includes(granularity)) {
+    return t.respond(400, t.errorEnvelope(RESOURCE, 'list', 'BAD_GRANULARITY',
+      `granularity must be one of: ${GRANULARITIES.join(', ')}`));
+  }
+  if (params.since && !since) {
+    return t.respond(400, t.errorEnvelope(RESOURCE, 'list', 'MISSING_PARAM',
+      'since must be an ISO date or timestamp'));
+  }
+
+  const [rows, transferRows] = await Promise.all([
+    t.fetchAccountHistory(db, since),
+    t.fetchCashTransfers(db),
+  ]);
+  const posted = rows.map(t.rowToAccountHistory);
+  const all    = attachTransferFlows(posted, transferRows.map(t.rowToCashTransfer));
+  const points = granularity === 'day' ? collapseDaily(all) : all;
+
+  const data = {
+    points,
+    granularity,
+    net_flows: t.r2(all.reduce((s, p) => s + p.net_flow, 0)),
+    first_at:  all.length ? all[0].captured_at : null,
+    last_at:   all.length ? all[all.length - 1].captured_at : null,
+    flows_tracked: transferRows.length > 0 || posted.some(p => p.net_flow !== 0),
+  };
+  return t.respond(200, t.envelope({ resource: RESOURCE, action: 'list', data, count: points.length }));
+}
+
+module.exports.collapseDaily = collapseDaily;
+module.exports.attachTransferFlows = attachTransferFlows;
+
+exports.handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return t.respond(200, '');
+
+  const db = t.getDb();
+  if (!db) {
+    return t.respond(503, t.errorEnvelope(RESOURCE, 'unavailable', 'DB_NOT_CONFIGURED',
+      'NETLIFY_DATABASE_URL is not set. Point it at the Render Postgres (allocation-manager-db) external connection string — see docs/db.md.'));
+  }
+
+  try {
+    await t.ensureSchema(db);
+    if (event.httpMethod === 'GET') return await handleGet(db, event);
+    return t.respond(405, t.errorEnvelope(RESOURCE, 'unknown', 'METHOD_NOT_ALLOWED', `${event.httpMethod} not supported`));
+  } catch (err) {
+    console.error('db-account-history error:', err);
+    return t.respond(500, t.errorEnvelope(RESOURCE, 'error', 'DB_ERROR', err.message || 'Unexpected database error'));
+  }
+};
@@ -17,6 +17,10 @@
 // unrealized_pl/profit_loss):
 //   { positions: [...], option_positions: [...], account: {...} }
 //
+// Each account write also appends a point to account_history (read by
+// db-account-history). Put deposits minus withdrawals since the last sync in
+// account.net_flow so they are not counted as performance.
+//
 // This replaces the Netlify Blobs "engine snapshot", which was written only
 // when the engine ran with DRY_RUN=false and therefore went stale.
 //
@@ -144,8 +148,15 @@ async function handlePost(db, event) {
     ? await t.pruneMissing(db, 'option_positions', 'position_key', optionKeys) : 0;
 
   const normalizedAccount = t.normalizeAccount(account);
+  let historyRecorded = false;
   if (normalizedAccount) {
     await t.upsertAccountSnapshot(db, normalizedAccount, account);
+    // The book's value is only known when both halves were sent
+    const bookValue = declaresStocks && declaresOptions
+      ? t.r2(stockRows.reduce((s, r) => s + (r.value.equity || 0), 0) +
+             optionRows.reduce((s, r) => s + (r.value.current_value || 0), 0))
+      : null;
+    historyRecorded = await t.insertAccountHistory(db, normalizedAccount, bookValue);
   }
 
   const data = {
@@ -154,6 +165,7 @@ async function handlePost(db, event) {
     pruned_positions,
     pruned_option_positions,
     account_updated:           Boolean(normalizedAccount),
+    history_recorded:          historyRecorded,
     skipped,
     symbols,
   };
@@ -0,0 +1,199 @@
+// db-stop-coverage.cjs
+// Stop-coverage audit: joins the position book against working sell-side
+// stop / trailing-stop orders and reports, per symbol, how much of the
+// position is protected and how far the nearest stop sits below the market.
+// The bot polls this to alert on gaps — keeping every holding covered is the
+// system's main risk mechanism.
+//
+//   GET /.netlify/functions/db-stop-coverage
+//   GET /.netlify/functions/db-stop-coverage?symbol=TSLA
+//   GET /.netlify/functions/db-stop-coverage?status=naked   — naked | partial | covered
+//
+// Only open (RH-confirmed) orders count as coverage. Untracked placement
+// stubs (state null — see isUntrackedOrder) are reported as
+// `unconfirmed_quantity` so a stop that was sent but never confirmed still
+// shows up as a gap.
+//
+// Orders are read by state (open or untracked), not from a recent-orders
+// window, so a GTC stop placed long ago still counts. `truncated: true` means
+// even the working orders exceeded the cap; coverage is then unproven, since
+// the dropped ones may be the stops.
+//
+// All responses use the shared envelope: { ok, resource, action, source, as_of, count, data, error }
+
+'use strict';
+
+const t = require('./lib/tradingDb.cjs');
+
+const RESOURCE = 'stop-coverage';
+const STATUSES = ['naked', 'partial', 'covered'];
+// Safety cap on working orders — far above any real book
+const ORDER_FETCH_LIMIT = 5000;
+
+/** A working sell order with a stop trigger (fixed or trailing). */
+function isStopSell(order) {
+  if ((order.side || '').toUpperCase() !== 'SELL') return false;
+  return order.stop_price != null || (order.trigger || '').toLowerCase() === 'stop';
+}
+
+function remainingQty(order) {
+  return Math.max((order.quantity ?? 0) - (order.filled_quantity ?? 0), 0);
+}
+
+/**
+ * Coverage report for a set of positions.
+ *
+ * Args:
+ *   positions:  SnapshotPosition[] (symbol, quantity, current_price)
+ *   openOrders: SnapshotOrder[] in an open state
+ *   untracked:  SnapshotOrder[] placement stubs (optional)
+ *
+ * Returns:
+ *   { symbols: [...per-symbol rows, naked first], summary: {...} }
+ */
+function computeStopCoverage(positions, openOrders, untracked = []) {
+  const stopsBySymbol = {};
+  for (const o of openOrders) {
+    if (!o.symbol || !isStopSell(o)) continue;
+    (stopsBySymbol[o.symbol] ||= []).push(o);
+  }
+  const stubsBySymbol = {};
+  for (const o of untracked) {
+    if (!o.symbol || !isStopSell(o)) continue;
+    stubsBySymbol[o.symbol] = (stubsBySymbol[o.symbol] || 0) + remainingQty(o);
+  }
+
+  const symbols = [];
+  for (const p of positions) {
+    const held  = p.quantity ?? 0;
+    if (held <= 0) continue;
+    const price = p.current_price ?? 0;
+    const stops = (stopsBySymbol[p.symbol] || [])
+      .filter(o => remainingQty(o) > 0)
+      .sort((a, b) => (b.stop_price ?? 0) - (a.stop_price ?? 0));
+
+    const stopQty   = stops.reduce((s, o) => s + remainingQty(o), 0);
+    const covered   = Math.min(stopQty, held);
+    const uncovered = held - covered;
+
+    // Nearest stop = highest trigger, i.e. the first to fire
+    const nearest  = stops.find(o => o.stop_price != null) ?? null;
+    const stopPx   = nearest ? nearest.stop_price : null;
+    const distance = stopPx != null && price > 0 ? price - stopPx : null;
+
+    // Downside still to absorb before the stops fire, across all stop legs
+    let atRisk = 0;
+    for (const o of stops) {
+      if (o.stop_price != null) atRisk += Math.max(price - o.stop_price, 0) * remainingQty(o);
+    }
+
+    const status = covered <= 0 ? 'naked' : uncovered > 0 ? 'partial' : 'covered';
+
+    symbols.push({
+      symbol:               p.symbol,
+      status,
+      quantity:             held,
+      current_price:        t.r2(price),
+      market_value:         t.r2(held * price),
+      covered_quantity:     covered,
+      uncovered_quantity:   uncovered,
+      uncovered_value:      t.r2(uncovered * price),
+      coverage_pct:         t.r2((covered / held) * 100),
+      // More stop shares than held — RH rejects the excess once one fills
+      excess_quantity:      Math.max(stopQty - held, 0),
+      unconfirmed_quantity: stubsBySymbol[p.symbol] || 0,
+      nearest_stop_price:   stopPx,
+      stop_distance_usd:    distance != null ? t.r2(distance) : null,
+      stop_distance_pct:    distance != null ? t.r2((distance / price) * 100) : null,
+      // A stop at/above the market should already have fired — stale or mispriced
+      stop_above_market:    distance != null && distance <= 0,
+      at_risk_usd:          t.r2(atRisk),
+      stop_orders:          stops.map(o => ({
+        order_id:   o.order_id,
+        quantity:   remainingQty(o),
+        stop_price: o.stop_price,
+        order_type: o.order_type,
+        trigger:    o.trigger,
+        state:      o.state,
+      })),
+    });
+  }
+
+  const rank = { naked: 0, partial: 1, covered: 2 };
+  symbols.sort((a, b) => rank[a.status] - rank[b.status] || b.uncovered_value - a.uncovered_value);
+
+  const totalValue   = symbols.reduce((s, r) => s + r.market_value, 0);
+  const coveredValue = symbols.reduce((s, r) => s + r.covered_quantity * r.current_price, 0);
+
+  return {
+    symbols,
+    summary: {
+      positions:         symbols.length,
+      covered:           symbols.filter(r => r.status === 'covered').length,
+      partial:           symbols.filter(r => r.status === 'partial').length,
+      naked:             symbols.filter(r => r.status === 'naked').length,
+      naked_symbols:     symbols.filter(r => r.status === 'naked').map(r => r.symbol),
+      market_value:      t.r2(totalValue),
+      uncovered_value:   t.r2(symbols.reduce((s, r) => s + r.uncovered_value, 0)),
+      at_risk_usd:       t.r2(symbols.reduce((s, r) => s + r.at_risk_usd, 0)),
+      coverage_pct:      totalValue > 0 ? t.r2((coveredValue / totalValue) * 100) : null,
+    },
+  };
+}
+
+async function handleGet(db, event) {
+  const params = event.queryStringParameters || {};
+  const symbol = (params.symbol || '').toUpperCase() || null;
+  const status = (params.status || '').toLowerCase() || null;
+  if (status && !STATUSES.includes(status)) {
+    return t.respond(400, t.errorEnvelope(RESOURCE, 'compute', 'BAD_STATUS',
+      `Unknown status "${params.status}". Valid: ${STATUSES.join(', ')}`));
+  }
+
+  const [positionRows, orderRows, positionsAsOf, ordersAsOf] = await Promise.all([
+    t.fetchPositions(db),
+    t.fetchWorkingStockOrders(db, ORDER_FETCH_LIMIT + 1),
+    t.fetchLastIngestedAt(db, 'positions'),
+    t.fetchLastIngestedAt(db, 'stock_orders'),
+  ]);
+
+  const positions = positionRows.map(t.rowToPosition);
+  const truncated = orderRows.length > ORDER_FETCH_LIMIT;
+  const orders    = orderRows.slice(0, ORDER_FETCH_LIMIT).map(t.rowToStockOrder);
+  const open      = orders.filter(o => t.OPEN_STATES.has(o.state));
+  const untracked = orders.filter(t.isUntrackedOrder);
+
+  const report = computeStopCoverage(positions, open, untracked);
+  const rows = report.symbols.filter(r =>
+    (!symbol || r.symbol === symbol) && (!status || r.status === status));
+
+  const data = {
+    symbols:        rows,
+    summary:        report.summary,
+    positions_as_of: positionsAsOf,
+    orders_as_of:    ordersAsOf,
+    truncated,
+  };
+  return t.respond(200, t.envelope({ resource: RESOURCE, action: 'compute', data, count: rows.length }));
+}
+
+module.exports.computeStopCoverage = computeStopCoverage;
+
+exports.handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return t.respond(200, '');
+
+  const db = t.getDb();
+  if (!db) {
+    return t.respond(503, t.errorEnvelope(RESOURCE, 'unavailable', 'DB_NOT_CONFIGURED',
+      'NETLIFY_DATABASE_URL is not set. Point it at the Render Postgres (allocation-manager-db) external connection string — see docs/db.md.'));
+  }
+
+  try {
+    await t.ensureSchema(db);
+    if (event.httpMethod === 'GET') return await handleGet(db, event);
+    return t.respond(405, t.errorEnvelope(RESOURCE, 'unknown', 'METHOD_NOT_ALLOWED', `${event.httpMethod} not supported`));
+  } catch (err) {
+    console.error('db-stop-coverage error:', err);
+    return t.respond(500, t.errorEnvelope(RESOURCE, 'error', 'DB_ERROR', err.message || 'Unexpected database error'));
+  }
+};
@@ -217,6 +217,33 @@ const SCHEMA_STATEMENTS = [
      raw             JSONB,
      ingested_at     TIMESTAMPTZ NOT NULL DEFAULT now()
    )`,
+  // Append-only companion to account_snapshot: one row per sync, so the
+  // account has an equity curve. net_flow is cash deposited (+) or withdrawn
+  // (-) since the previous sync — kept apart from equity so returns can be
+  // measured net of contributions.
+  `CREATE TABLE IF NOT EXISTS account_history (
+     id           BIGSERIAL PRIMARY KEY,
+     account_id   TEXT NOT NULL,
+     equity       DOUBLE PRECISION NOT NULL,
+     cash         DOUBLE PRECISION,
+     market_value DOUBLE PRECISION,
+     net_flow     DOUBLE PRECISION NOT NULL DEFAULT 0,
+     captured_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+   )`,
+  `CREATE INDEX IF NOT EXISTS account_history_captured_idx ON account_history (account_id, captured_at)`,
+  // ACH deposits (+) and withdrawals (-) pulled from Robinhood by
+  // snapshot-refresh. db-account-history adds them to the net_flow of the
+  // first equity point at or after each transfer, so the writers that
+  // append points don't have to track cash movements themselves.
+  `CREATE TABLE IF NOT EXISTS cash_transfers (
+     transfer_id TEXT PRIMARY KEY,
+     account_id  TEXT NOT NULL,
+     amount      DOUBLE PRECISION NOT NULL,
+     state       TEXT,
+     occurred_at TIMESTAMPTZ NOT NULL,
+     raw         JSONB,
+     ingested_at TIMESTAMPTZ NOT NULL DEFAULT now()
+   )`,
 ];
 
 async function ensureSchema(db) {
@@ -421,6 +448,29 @@ function normalizeOptionPosition(o) {
   };
 }
 
+// Transfers in these states never moved cash (or moved it back)
+const VOID_TRANSFER_STATES = new Set(['cancelled', 'canceled', 'failed', 'rejected', 'reversed', 'returned']);
+
+/**
+ * A Robinhood ACH transfer as a signed cash flow: deposits positive,
+ * withdrawals negative. Null when it has no id, amount or date, or never
+ * settled.
+ */
+function normalizeCashTransfer(tr) {
+  if (!tr || !tr.id) return null;
+  const amount = toNum(tr.amount);
+  const occurredAt = toIso(tr.created_at);
+  const state = tr.state ? String(tr.state).toLowerCase() : null;
+  if (amount == null || !occurredAt || VOID_TRANSFER_STATES.has(state)) return null;
+  const withdrawal = String(tr.direction || '').toLowerCase().startsWith('withdraw');
+  return {
+    transfer_id: String(tr.id),
+    amount:      withdrawal ? -Math.abs(amount) : Math.abs(amount),
+    state,
+    occurred_at: occurredAt,
+  };
+}
+
 function normalizeAccount(a) {
   if (!a || typeof a !== 'object') return null;
   return {
@@ -428,6 +478,9 @@ function normalizeAccount(a) {
     cash:            toNum(a.cash),
     buying_power:    toNum(a.buying_power),
     portfolio_value: toNum(a.portfolio_value ?? a.market_value),
+    // Deposits minus withdrawals since the previous sync
+    net_flow:        toNum(a.net_flow) ?? 0,
+    captured_at:     toIso(a.captured_at ?? a.as_of),
   };
 }
 
@@ -685,6 +738,43 @@ async function upsertAccountSnapshot(db, account, rawSource, accountId = 'defaul
   );
 }
 
+/**
+ * Append one point to the equity curve. `marketValue` is the posted book's
+ * value; without it the point falls back to equity less cash. Skipped when
+ * the account carries no equity — a zero would read as a total loss.
+ */
+async function insertAccountHistory(db, account, marketValue = null, accountId = 'default') {
+  if (account.equity == null) return false;
+  const market = marketValue ?? (account.cash != null ? r2(account.equity - account.cash) : null);
+  await db.query(
+    `INSERT INTO account_history
+       (account_id, equity, cash, market_value, net_flow, captured_at)
+     VALUES ($1,$2,$3,$4,$5,COALESCE($6::timestamptz, now()))`,
+    [accountId, account.equity, account.cash, market, account.net_flow ?? 0,
+     account.captured_at ?? null]
+  );
+  return true;
+}
+
+/** Insert or refresh one cash transfer; a later sync may move its state. */
+async function upsertCashTransfer(db, transfer, rawSource, accountId = 'default') {
+  await db.query(
+    `INSERT INTO cash_transfers
+       (transfer_id, account_id, amount, state, occurred_at, raw)
+     VALUES ($1,$2,$3,$4,$5,$6::jsonb)
+     ON CONFLICT (transfer_id) DO UPDATE SET
+       amount = EXCLUDED.amount, state = EXCLUDED.state,
+       occurred_at = EXCLUDED.occurred_at, raw = EXCLUDED.raw, ingested_at = now()`,
+    [transfer.transfer_id, accountId, transfer.amount, transfer.state,
+     transfer.occurred_at, JSON.stringify(rawSource ?? null)]
+  );
+}
+
+/** Drop a transfer that has since been cancelled or returned. */
+async function deleteCashTransfer(db, transferId) {
+  await db.query(`DELETE FROM cash_transfers WHERE transfer_id = $1`, [transferId]);
+}
+
 /**
  * Drop rows whose key is not in `keys` — the second half of a whole-book
  * replace. An empty `keys` clears the table, which is correct when the
@@ -707,6 +797,19 @@ async function fetchStockOrders(db, limit, offset = 0) {
   );
 }
 
+/**
+ * Open and untracked (state null) stock orders only, newest first. Working
+ * stops can be older than any recent-orders window, so this filters by state
+ * instead of paging the history.
+ */
+async function fetchWorkingStockOrders(db, limit) {
+  return db.query(
+    `SELECT * FROM stock_orders WHERE state IS NULL OR state = ANY($2)
+     ORDER BY created_at DESC NULLS LAST LIMIT $1`,
+    [limit, [...OPEN_STATES]]
+  );
+}
+
 async function fetchOptionOrders(db, limit, offset = 0) {
   return db.query(
     `SELECT * FROM option_orders ORDER BY created_at DESC NULLS LAST LIMIT $1 OFFSET $2`,
@@ -750,6 +853,24 @@ async function fetchAccountSnapshot(db, accountId = 'default') {
   return rows.length ? rows[0] : null;
 }
 
+/** Equity-curve points since `since` (ISO or null for all), oldest first. */
+async function fetchAccountHistory(db, since = null, accountId = 'default') {
+  return db.query(
+    `SELECT * FROM account_history
+     WHERE account_id = $1 AND ($2::timestamptz IS NULL OR captured_at >= $2::timestamptz)
+     ORDER BY captured_at ASC, id ASC`,
+    [accountId, since]
+  );
+}
+
+/** Every recorded cash transfer for the account, oldest first. */
+async function fetchCashTransfers(db, accountId = 'default') {
+  return db.query(
+    `SELECT * FROM cash_transfers WHERE account_id = $1 ORDER BY occurred_at ASC`,
+    [accountId]
+  );
+}
+
 // ── Row → API object mappers (SnapshotOrder / SnapshotOptionOrder contracts) ──
 
 function rowToStockOrder(r) {
@@ -858,6 +979,25 @@ function rowToAccount(r) {
   };
 }
 
+function rowToAccountHistory(r) {
+  return {
+    captured_at:  toIso(r.captured_at),
+    equity:       toNum(r.equity) ?? 0,
+    cash:         toNum(r.cash),
+    market_value: toNum(r.market_value),
+    net_flow:     toNum(r.net_flow) ?? 0,
+  };
+}
+
+function rowToCashTransfer(r) {
+  return {
+    transfer_id: r.transfer_id,
+    amount:      toNum(r.amount) ?? 0,
+    state:       r.state ?? null,
+    occurred_at: toIso(r.occurred_at),
+  };
+}
+
 // ── Market data cache (shared across all lambda instances and browsers) ──────
 
 async function getMarketCache(db, cacheKey) {
@@ -939,6 +1079,8 @@ function createMemoryClient() {
   const positions       = new Map();
   const optionPositions = new Map();
   const accounts        = new Map();
+  const accountHistory  = [];
+  const cashTransfers   = new Map();
   let seq = 0;
 
   const byCreatedDesc = (a, b) => String(b.created_at ?? '').localeCompare(String(a.created_at ?? ''));
@@ -1000,6 +1142,12 @@ function createMemoryClient() {
         return [{ id: row.id }];
       }
 
+      if (/^SELECT \* FROM stock_orders WHERE state IS NULL/i.test(sql)) {
+        const [limit, states] = params;
+        return [...stockOrders.values()]
+          .filter(o => o.state == null || states.includes(o.state))
+          .sort(byCreatedDesc).slice(0, limit);
+      }
       if (/^SELECT \* FROM stock_orders/i.test(sql)) {
         const [limit = 500, offset = 0] = params;
         return [...stockOrders.values()].sort(byCreatedDesc).slice(offset, offset + limit);
@@ -1053,6 +1201,36 @@ function createMemoryClient() {
         return [];
       }
 
+      if (/^INSERT INTO account_history/i.test(sql)) {
+        const [account_id, equity, cash, market_value, net_flow, captured_at] = params;
+        accountHistory.push({
+          id: ++seq, account_id, equity, cash, market_value, net_flow,
+          captured_at: captured_at ?? new Date(Date.now()).toISOString(),
+        });
+        return [];
+      }
+      if (/^SELECT \* FROM account_history/i.test(sql)) {
+        const [account_id, since] = params;
+        return accountHistory
+          .filter(r => r.account_id === account_id && (!since || r.captured_at >= since))
+          .sort((a, b) => a.captured_at.localeCompare(b.captured_at) || a.id - b.id);
+      }
+
+      if (/^INSERT INTO cash_transfers/i.test(sql)) {
+        const [transfer_id, account_id, amount, state, occurred_at, raw] = params;
+        cashTransfers.set(transfer_id, { transfer_id, account_id, amount, state, occurred_at, raw });
+        return [];
+      }
+      if (/^DELETE FROM cash_transfers/i.test(sql)) {
+        cashTransfers.delete(params[0]);
+        return [];
+      }
+      if (/^SELECT \* FROM cash_transfers/i.test(sql)) {
+        return [...cashTransfers.values()]
+          .filter(r => r.account_id === params[0])
+          .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+      }
+
       if (/^SELECT \* FROM positions/i.test(sql)) {
         return [...positions.values()]
           .sort((a, b) => (b.equity ?? 0) - (a.equity ?? 0));
@@ -1130,6 +1308,7 @@ module.exports = {
   normalizePosition,
   normalizeOptionPosition,
   normalizeAccount,
+  normalizeCashTransfer,
   optionPositionKey,
   upsertStockOrder,
   upsertStockOrders,
@@ -1141,13 +1320,19 @@ module.exports = {
   upsertPosition,
   upsertOptionPosition,
   upsertAccountSnapshot,
+  insertAccountHistory,
+  upsertCashTransfer,
+  deleteCashTransfer,
   pruneMissing,
   fetchStockOrders,
+  fetchWorkingStockOrders,
   fetchOptionOrders,
   fetchBotEvents,
   fetchPositions,
   fetchOptionPositions,
   fetchAccountSnapshot,
+  fetchAccountHistory,
+  fetchCashTransfers,
   fetchLastIngestedAt,
   getMarketCache,
   setMarketCache,
@@ -1157,6 +1342,8 @@ module.exports = {
   rowToPosition,
   rowToOptionPosition,
   rowToAccount,
+  rowToAccountHistory,
+  rowToCashTransfer,
   envelope,
   errorEnvelope,
   respond,
@@ -0,0 +1,134 @@
+// order-ticket.cjs
+// Write path for the TradePage order ticket.
+//
+//   POST /.netlify/functions/order-ticket   { order: {...} }  — stage a pending order intent
+//   POST /.netlify/functions/order-ticket   { event: {...} }  — record a dry run in bot activity
+//
+// The db-orders / db-bot-activity POSTs are guarded by TRADING_DB_TOKEN, and
+// that token must not ship in the browser bundle. This function writes
+// through lib/tradingDb in-process instead, so it never needs the token, and
+// only while the Robinhood session robinhood-bot trades with is connected.
+// It accepts nothing but what the ticket produces: one pending `trade-page`
+// order, or one simulated dry-run event.
+//
+// A connected session says nothing about who is calling, so staging a live
+// order also needs `X-Order-Ticket-Key` matching ORDER_TICKET_SECRET in the
+// function's environment — typed by the operator, never built into the
+// bundle. Without the secret set, live staging is off. Requests from a
+// browser must also come from the site's own origin (URL / DEPLOY_PRIME_URL /
+// DEPLOY_URL, plus ORDER_TICKET_ORIGINS); dry runs need only that.
+//
+// Responses use the shared envelope, with the same data as the db-* writes.
+
+'use strict';
+
+const crypto = require('crypto');
+const t = require('./lib/tradingDb.cjs');
+const tokenStore = require('./lib/tokenStore.cjs');
+
+const RESOURCE = 'order-ticket';
+const CORS = { ...t.CORS, 'Access-Control-Allow-Headers': `${t.CORS['Access-Control-Allow-Headers']}, X-Order-Ticket-Key` };
+
+// Ticket ids are minted as `ui-…` (utils/orderTicket), so an upsert here can
+// never overwrite an order the broker sync wrote
+const TICKET_ID = /^ui-[a-z0-9-]+$/;
+
+function respond(statusCode, body) {
+  const res = t.respond(statusCode, body);
+  return { ...res, headers: { ...res.headers, ...CORS } };
+}
+
+function header(event, name) {
+  const headers = event.headers || {};
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? headers[key] : '';
+}
+
+/** Browser requests must come from this site; header-less callers rely on the key alone. */
+function originAllowed(event) {
+  const origin = header(event, 'origin');
+  if (!origin) return true;
+  const allowed = [process.env.URL, process.env.DEPLOY_PRIME_URL, process.env.DEPLOY_URL,
+    ...(process.env.ORDER_TICKET_ORIGINS || '').split(',')]
+    .map(o => (o || '').trim().replace(/\/$/, ''))
+    .filter(Boolean);
+  return allowed.length === 0 || allowed.includes(origin.replace(/\/$/, ''));
+}
+
+// Compare digests so the check takes the same time whatever the key's length
+function keyMatches(given, secret) {
+  const digest = v => crypto.createHash('sha256').update(String(v)).digest();
+  return crypto.timingSafeEqual(digest(given), digest(secret));
+}
+
+/** Error message when a live order may not be staged, null when it may. */
+function checkLiveAuth(event) {
+  const secret = process.env.ORDER_TICKET_SECRET;
+  if (!secret) return 'Live staging is disabled — set ORDER_TICKET_SECRET on the site to enable it';
+  const given = header(event, 'x-order-ticket-key');
+  if (!given || !keyMatches(given, secret)) return 'Missing or invalid order ticket key';
+  return null;
+}
+
+async function stageOrder(db, order) {
+  const raw = { ...order, state: 'pending', source: 'trade-page' };
+  const value = t.normalizeStockOrder(raw);
+  if (!value || !TICKET_ID.test(value.order_id) || !value.symbol || !value.side || !(value.quantity > 0)) {
+    return respond(400, t.errorEnvelope(RESOURCE, 'upsert', 'NO_ORDERS', 'order needs a ui- order_id, symbol, side and a positive quantity'));
+  }
+  const upserted = await t.upsertStockOrders(db, [{ value, raw }]);
+  const data = { stock_upserted: upserted, option_upserted: 0, skipped: 1 - upserted, order_ids: [value.order_id] };
+  return respond(200, t.envelope({ resource: RESOURCE, action: 'upsert', data, count: upserted }));
+}
+
+async function recordDryRun(db, botEvent) {
+  const ev = t.normalizeBotEvent({ ...botEvent, status: 'simulated', dry_run: true });
+  const id = await t.insertBotEvent(db, ev);
+  const data = { inserted: id != null ? 1 : 0, skipped: id != null ? 0 : 1, ids: id != null ? [id] : [] };
+  return respond(200, t.envelope({ resource: RESOURCE, action: 'append', data, count: data.inserted }));
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return respond(200, '');
+  if (event.httpMethod !== 'POST') {
+    return respond(405, t.errorEnvelope(RESOURCE, 'unknown', 'METHOD_NOT_ALLOWED', `${event.httpMethod} not supported`));
+  }
+
+  let body;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return respond(400, t.errorEnvelope(RESOURCE, 'write', 'BAD_JSON', 'Request body is not valid JSON'));
+  }
+  const { order, event: botEvent } = body || {};
+  if (!order && !botEvent) {
+    return respond(400, t.errorEnvelope(RESOURCE, 'write', 'NO_ORDERS', 'Send { order: {...} } or { event: {...} }'));
+  }
+
+  if (!originAllowed(event)) {
+    return respond(403, t.errorEnvelope(RESOURCE, 'write', 'UNAUTHORIZED', 'Order tickets are only accepted from this site'));
+  }
+  if (order) {
+    const denied = checkLiveAuth(event);
+    if (denied) return respond(401, t.errorEnvelope(RESOURCE, 'write', 'UNAUTHORIZED', denied));
+  }
+
+  const auth = await tokenStore.getAuthStatus();
+  if (!auth.authenticated) {
+    return respond(401, t.errorEnvelope(RESOURCE, 'write', 'UNAUTHORIZED', 'Connect to Robinhood before submitting from the order ticket'));
+  }
+
+  const db = t.getDb();
+  if (!db) {
+    return respond(503, t.errorEnvelope(RESOURCE, 'unavailable', 'DB_NOT_CONFIGURED',
+      'NETLIFY_DATABASE_URL is not set. Point it at the Render Postgres (allocation-manager-db) external connection string — see docs/db.md.'));
+  }
+
+  try {
+    await t.ensureSchema(db);
+    return order ? await stageOrder(db, order) : await recordDryRun(db, botEvent);
+  } catch (err) {
+    console.error('order-ticket error:', err);
+    return respond(500, t.errorEnvelope(RESOURCE, 'error', 'DB_ERROR', err.message || 'Unexpected database error'));
+  }
+};
@@ -4,6 +4,8 @@
 //     1. fresh state-logs blob (positions, options, cash, equity — what the
 //        engine used to publish)
 //     2. trading-DB upsert of stock + option orders (also closes backfill gaps)
+//     3. equity-curve point + ACH transfers, so account returns can be
+//        measured net of deposits and withdrawals
 //
 //   GET /.netlify/functions/snapshot-refresh            — refresh now
 //   GET /.netlify/functions/snapshot-refresh?full=1     — pull full order history
@@ -105,11 +107,14 @@ async function pullSnapshot(rh, { full }, errors) {
   const portfolio = portfolios[0] || {};
 
   // Orders: recent pages by default; everything with ?full=1
-  const [stockOrders, optionOrders] = await Promise.all([
+  const [stockOrders, optionOrders, transfers] = await Promise.all([
     rh.paginate('/orders/', full ? { maxPages: 100 } : { maxPages: 4 }),
     rh.paginate('/options/orders/', full ? { maxPages: 100 } : {
       maxPages: 20, stopWhen: o => (o.created_at || '') < BACKFILL_CUTOFF,
     }),
+    // Deposits / withdrawals; a miss only delays the flows to the next refresh
+    rh.paginate('/ach/transfers/', full ? { maxPages: 20 } : { maxPages: 2 })
+      .catch(e => { errors.push(`ach transfers: ${e.message}`); return []; }),
   ]);
 
   // Resolve instrument URLs → symbols (positions + stock orders share the cache)
@@ -276,7 +281,7 @@ async function pullSnapshot(rh, { full }, errors) {
     recent_option_orders: optionOrdersOut,
   };
 
-  return { blob, stockOrdersOut, optionOrdersOut };
+  return { blob, stockOrdersOut, optionOrdersOut, transfers };
 }
 
 // ── Writers ───────────────────────────────────────────────────────────────────
@@ -307,6 +312,23 @@ async function upsertOrders(db, stockOrders, optionOrders, errors) {
   return { stock, option };
 }
 
+/** Record the transfers (dropping ones that were voided) and append an equity point. */
+async function recordAccount(db, blob, transfers, errors) {
+  let recorded = 0;
+  for (const raw of transfers) {
+    const tr = t.normalizeCashTransfer(raw);
+    try {
+      if (tr) { await t.upsertCashTransfer(db, tr, raw); recorded++; }
+      else if (raw?.id) await t.deleteCashTransfer(db, String(raw.id));
+    } catch (e) { errors.push(`transfer ${raw?.id}: ${e.message}`); }
+  }
+  // A zero equity is a failed pull, not a total loss — leave it off the curve
+  const { equity, market_value: marketValue, cash } = blob.portfolio;
+  const point = await t.insertAccountHistory(db,
+    { equity: equity > 0 ? equity : null, cash: cash.cash, captured_at: blob.timestamp }, marketValue);
+  return { transfers: recorded, history_point: point };
+}
+
 // ── Core (also used by the scheduled wrapper) ─────────────────────────────────
 
 async function runSnapshotRefresh({ full = false, dry = false, force = false } = {}) {
@@ -329,13 +351,14 @@ async function runSnapshotRefresh({ full = false, dry = false, force = false } =
   steps.auth = 'ok';
 
   const rh = rhClient(rhToken);
-  const { blob, stockOrdersOut, optionOrdersOut } = await pullSnapshot(rh, { full }, errors);
+  const { blob, stockOrdersOut, optionOrdersOut, transfers } = await pullSnapshot(rh, { full }, errors);
   steps.pull = {
     positions: blob.portfolio.positions.length,
     option_positions: blob.portfolio.options.length,
     stock_orders: stockOrdersOut.length,
     option_orders: optionOrdersOut.length,
     open_orders: blob.portfolio.open_orders.length,
+    transfers: transfers.length,
     equity: blob.portfolio.equity,
   };
 
@@ -343,6 +366,7 @@ async function runSnapshotRefresh({ full = false, dry = false, force = false } =
     steps.blob_key = await writeBlob(blob);
     if (db) {
       steps.db_upserts = await upsertOrders(db, stockOrdersOut, optionOrdersOut, errors);
+      steps.account = await recordAccount(db, blob, transfers, errors);
       await t.setMarketCache(db, 'snapshot-refresh:last', 'marker', { at: blob.timestamp });
     }
   }
@@ -351,6 +375,7 @@ async function runSnapshotRefresh({ full = false, dry = false, force = false } =
 }
 
 module.exports.runSnapshotRefresh = runSnapshotRefresh;
+module.exports.recordAccount = recordAccount;
 
 exports.handler = async (event) => {
   if (event.httpMethod === 'OPTIONS') return { statusCode: 200, headers: CORS, body: '' };
@@ -19,6 +19,8 @@
 //     refetch but never more than once per REFRESH_FLOOR_S per key
 //   - Upstream failure or TwelveData error body → serve the last cached
 //     payload (X-Cache: stale) rather than surfacing a 429 to the UI
+//   - A 429 with nothing cached carries Retry-After (seconds to the next
+//     per-minute credit window) so the client scheduler can hold off
 
 'use strict';
 
@@ -31,7 +33,12 @@ const REFRESH_FLOOR_S = 15;
 // Params forwarded upstream — apikey (server-owned) and refresh (ours) excluded
 const PARAM_BLOCKLIST = new Set(['apikey', 'refresh']);
 
-const CORS = { ...t.CORS, 'Access-Control-Allow-Methods': 'GET, OPTIONS' };
+const CORS = {
+  ...t.CORS,
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  // Dev builds call the deployed proxy cross-origin and still need to read it
+  'Access-Control-Expose-Headers': 'Retry-After, X-Cache',
+};
 
 // In-flight upstream fetches, deduped per lambda instance
 const inFlight = new Map();
@@ -134,7 +141,10 @@ exports.handler = async (event) => {
     if (cached) {
       return respond(200, cached.payload, { 'X-Cache': 'stale', 'Age': String(Math.floor(cached.age_ms / 1000)) });
     }
-    return respond(502, payload || { status: 'error', code: 502, message: 'TwelveData request failed' });
+    const retryAfter = payload && payload.code === 429
+      ? { 'Retry-After': String(60 - new Date(Date.now()).getUTCSeconds()) }
+      : {};
+    return respond(502, payload || { status: 'error', code: 502, message: 'TwelveData request failed' }, retryAfter);
   } catch (err) {
     console.error('twelvedata proxy error:', err);
     return respond(500, { status: 'error', code: 500, message: err.message || 'proxy error' });
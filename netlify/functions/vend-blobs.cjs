@@ -139,6 +139,7 @@ function mapOptionSnapshot(raw) {
       : undefined,
     greeks: raw.greeks ?? null,
     impliedVolatility: raw.implied_volatility ?? raw.impliedVolatility ?? null,
+    openInterest: raw.open_interest ?? raw.openInterest ?? null,
   };
 }
 
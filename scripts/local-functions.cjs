@@ -16,10 +16,13 @@ const functions = {
   'robinhood-auth': require('../netlify/functions/robinhood-auth.cjs'),
   'robinhood-portfolio': require('../netlify/functions/robinhood-portfolio.cjs'),
   'robinhood-bot': require('../netlify/functions/robinhood-bot.cjs'),
+  'alpaca-broker': require('../netlify/functions/alpaca-broker.cjs'),
   // Trading DB endpoints — run with TRADING_DB_MEMORY=1 for a no-DB local stand-up
   'db-orders': require('../netlify/functions/db-orders.cjs'),
   'db-bot-activity': require('../netlify/functions/db-bot-activity.cjs'),
   'db-pnl': require('../netlify/functions/db-pnl.cjs'),
+  'db-stop-coverage': require('../netlify/functions/db-stop-coverage.cjs'),
+  'db-account-history': require('../netlify/functions/db-account-history.cjs'),
 };
 
 const server = http.createServer(async (req, res) => {
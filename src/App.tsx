@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { Bitcoin, LayoutDashboard, GitCompare, TrendingUp, FlaskConical, Moon, Sun, Menu, X, Settings, Layers, PieChart, Newspaper } from 'lucide-react';
+import { Bitcoin, LayoutDashboard, GitCompare, TrendingUp, FlaskConical, Moon, Sun, Menu, X, Settings, Layers, PieChart, Newspaper, AlertTriangle } from 'lucide-react';
 import { ThemeProvider, useTheme, FontMode } from './contexts/ThemeContext';
+import { ConnectionHealthProvider } from './contexts/ConnectionHealthContext';
+import { useConnectionHealth } from './hooks/useConnectionHealth';
+import { staleSources } from './utils/connectionHealth';
 
 // Import page components
 import LandingPage from './pages/LandingPage';
@@ -49,6 +52,29 @@ function NavLink({ to, children }: { to: string; children: React.ReactNode }) {
   );
 }
 
+function StaleSourceBanner() {
+  const { rows } = useConnectionHealth();
+  const location = useLocation();
+  const stale = staleSources(rows);
+  if (stale.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          {stale.map(s => `${s.label}: ${s.detail}`).join(' · ')}
+        </span>
+        {location.pathname !== '/configure' && (
+          <Link to="/configure" className="font-medium underline hover:no-underline whitespace-nowrap">
+            Connection health
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function AppShell() {
   const { isDark, toggle, font, cycleFont } = useTheme();
   const [mobileOpen, setMobileOpen] = useState(false);
@@ -145,6 +171,7 @@ function AppShell() {
             })}
           </div>
         )}
+        <StaleSourceBanner />
       </header>
 
       <main className="flex-1">
@@ -203,7 +230,14 @@ export function App() {
       <Router>
         <Routes>
           <Route path="/" element={<LandingPage />} />
-          <Route path="/*" element={<AppShell />} />
+          <Route
+            path="/*"
+            element={
+              <ConnectionHealthProvider>
+                <AppShell />
+              </ConnectionHealthProvider>
+            }
+          />
         </Routes>
       </Router>
     </ThemeProvider>
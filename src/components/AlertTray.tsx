@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bell, AlertTriangle, XCircle, X, Send } from 'lucide-react';
+import type { EnrichedSnapshot } from '../services/robinhoodService';
+import {
+  listOptionPositionHistoryKeys,
+  getOptionPositionSnapshot,
+  OptionPositionsHistoryBlob,
+} from '../services/blobDataService';
+import { sendSlackAlert } from '../services/alertService';
+import {
+  evaluateAlerts,
+  selectForDispatch,
+  Alert,
+  COOLDOWN_MS,
+  DispatchLog,
+} from '../utils/alertRules';
+
+const DISPATCH_KEY = 'alertDispatch';
+// Ages keep growing between snapshot refreshes
+const TICK_MS = 60_000;
+
+function loadLog(): DispatchLog {
+  try {
+    return JSON.parse(localStorage.getItem(DISPATCH_KEY) ?? '{}') as DispatchLog;
+  } catch {
+    return {};
+  }
+}
+
+function saveLog(log: DispatchLog) {
+  try {
+    localStorage.setItem(DISPATCH_KEY, JSON.stringify(log));
+  } catch {
+    // Best-effort — alert-slack still dedups server-side
+  }
+}
+
+// Dismissal is per severity, so an escalation shows up again
+const alertKey = (a: Alert) => `${a.id}:${a.severity}`;
+
+/**
+ * Data-quality alerts for the Trade page: reconciliation drift, stale option
+ * marks, stale order data and snapshot age. New alerts are forwarded to
+ * Slack, subject to the cooldowns in alertRules.
+ */
+export default function AlertTray({ snapshot }: { snapshot: EnrichedSnapshot }) {
+  const [optionMarks, setOptionMarks] = useState<OptionPositionsHistoryBlob | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [lastSent, setLastSent] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listOptionPositionHistoryKeys(1)
+      .then(keys => (keys[0] ? getOptionPositionSnapshot(keys[0]) : null))
+      .then(blob => { if (!cancelled) setOptionMarks(blob); })
+      .catch(() => { if (!cancelled) setOptionMarks(null); });
+    return () => { cancelled = true; };
+  }, [snapshot.timestamp]);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(id);
+  }, [snapshot]);
+
+  const alerts = useMemo(() => evaluateAlerts({ now, snapshot, optionMarks }), [now, snapshot, optionMarks]);
+  const signature = alerts.map(alertKey).join(',');
+
+  // Re-run only when the set of firing alerts changes or a tick passes a
+  // cooldown; selectForDispatch decides what actually goes out
+  useEffect(() => {
+    if (alerts.length === 0) return;
+    const { send, log } = selectForDispatch(alerts, loadLog(), now);
+    if (send.length === 0) return;
+    saveLog(log);
+    setLastSent(now);
+    send.forEach(a => {
+      sendSlackAlert({
+        source: `Trade Page — ${a.title}`,
+        message: a.message,
+        severity: a.severity,
+        dedupKey: alertKey(a),
+        cooldownS: COOLDOWN_MS[a.severity] / 1000,
+      }).catch(err => console.error('Slack alert failed:', err));
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signature, now]);
+
+  const visible = alerts.filter(a => !dismissed.has(alertKey(a)));
+  if (visible.length === 0) return null;
+
+  const critical = visible.some(a => a.severity === 'critical');
+
+  return (
+    <div className={`mb-6 rounded-xl border overflow-hidden ${
+      critical
+        ? 'border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30'
+        : 'border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/30'
+    }`}>
+      <div className="px-4 py-2 flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+        <Bell className="w-4 h-4" />
+        Alerts ({visible.length})
+        {lastSent != null && (
+          <span className="ml-auto flex items-center gap-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+            <Send className="w-3 h-3" />
+            Sent to Slack {new Date(lastSent).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-200/60 dark:divide-zinc-700/60">
+        {visible.map(a => {
+          const Icon = a.severity === 'critical' ? XCircle : AlertTriangle;
+          return (
+            <li key={a.id} className="px-4 py-2 flex items-start gap-2 text-sm">
+              <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                a.severity === 'critical' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+              }`} />
+              <div className="flex-1">
+                <span className="font-medium text-gray-900 dark:text-gray-100">{a.title}</span>
+                <span className="text-gray-600 dark:text-gray-400"> — {a.message}</span>
+              </div>
+              <button
+                onClick={() => setDismissed(prev => new Set(prev).add(alertKey(a)))}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Target, AlertTriangle } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import type { SnapshotPosition } from '../services/robinhoodService';
+import { getTimeSeries } from '../services/twelveDataService';
+import { calculateReturns, PortfolioReturnData } from '../utils/portfolioCalculations';
+import { describeAllocation, optimizeAllocation, AllocationPoint } from '../utils/allocationOptimizer';
+
+type Objective = 'maxSharpe' | 'minVariance' | 'riskParity';
+
+const OBJECTIVES: { value: Objective; label: string }[] = [
+  { value: 'maxSharpe', label: 'Max Sharpe' },
+  { value: 'minVariance', label: 'Min Variance' },
+  { value: 'riskParity', label: 'Risk Parity' },
+];
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+const pct = (w: number) => `${(w * 100).toFixed(1)}%`;
+
+/**
+ * Optimized allocations across the current stock holdings from one year of
+ * daily closes, against today's weights (share of stock equity). The
+ * selected objective's weights feed the rebalance panel via `onRecommend`.
+ */
+export default function AllocationOptimizer({ positions, onRecommend }: {
+  positions: SnapshotPosition[];
+  /** Receives the selected objective's weights whenever they change */
+  onRecommend?: (weights: Record<string, number> | null) => void;
+}) {
+  const { isDark } = useTheme();
+  const [series, setSeries] = useState<PortfolioReturnData[] | null>(null);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [longOnly, setLongOnly] = useState(true);
+  const [maxWeightPct, setMaxWeightPct] = useState(40);
+  const [objective, setObjective] = useState<Objective>('maxSharpe');
+
+  const held = useMemo(
+    () => positions.filter(p => p.symbol && p.equity > 0),
+    [positions]
+  );
+  const symbolKey = held.map(p => p.symbol).sort().join(',');
+
+  useEffect(() => {
+    const symbols = symbolKey ? symbolKey.split(',') : [];
+    if (symbols.length < 2) return;
+    let cancelled = false;
+    // A year of history per holding is a fan-out; queue it behind the
+    // page's own charts and quotes
+    const controller = new AbortController();
+    const request = { priority: 'prefetch' as const, signal: controller.signal };
+    setSeries(null);
+    Promise.allSettled(symbols.map(s => getTimeSeries(s, '1Y', false, request)))
+      .then(results => {
+        if (cancelled) return;
+        const ok: PortfolioReturnData[] = [];
+        const bad: string[] = [];
+        results.forEach((r, i) => {
+          if (r.status === 'fulfilled' && r.value.length > 1) {
+            ok.push({ symbol: symbols[i], displayName: symbols[i], color: '', returns: calculateReturns(r.value) });
+          } else {
+            bad.push(symbols[i]);
+          }
+        });
+        setSeries(ok);
+        setFailed(bad);
+        setError(ok.length < 2 ? 'Not enough price history to optimize' : null);
+      });
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [symbolKey]);
+
+  const result = useMemo(
+    () => (series && series.length >= 2
+      ? optimizeAllocation(series, { longOnly, maxWeight: maxWeightPct / 100 })
+      : null),
+    [series, longOnly, maxWeightPct]
+  );
+
+  useEffect(() => {
+    onRecommend?.(result ? result[objective].weights : null);
+  }, [result, objective, onRecommend]);
+
+  if (held.length < 2) return null;
+
+  if (!result) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        {error ?? 'Loading price history for the optimizer…'}
+      </div>
+    );
+  }
+
+  const symbols = result.inputs.symbols;
+  const heldEquity = held.filter(p => symbols.includes(p.symbol)).reduce((s, p) => s + p.equity, 0);
+  const currentW = symbols.map(s => (held.find(p => p.symbol === s)?.equity ?? 0) / (heldEquity || 1));
+  const current = describeAllocation(result.inputs, currentW);
+  const target: AllocationPoint = result[objective];
+
+  const point = (p: AllocationPoint) => [{ x: p.volatility, y: p.expectedReturn, sharpe: p.sharpe }];
+  const axisColor = isDark ? '#a1a1aa' : '#6B7280';
+  const gridColor = isDark ? '#27272a' : '#E5E7EB';
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <Target className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Allocation Optimizer</h3>
+        <span className="text-sm text-gray-400">{result.inputs.observations} daily returns</span>
+        <div className="ml-auto flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+            <input type="checkbox" checked={longOnly} onChange={() => setLongOnly(v => !v)} />
+            Long-only
+          </label>
+          <label className="flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+            Max weight
+            <input
+              type="number"
+              min={5}
+              max={100}
+              step={5}
+              value={maxWeightPct}
+              onChange={e => setMaxWeightPct(Math.min(Math.max(parseFloat(e.target.value) || 0, 5), 100))}
+              className="w-16 px-2 py-1 border border-gray-300 dark:border-zinc-600 rounded text-sm bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+            />
+            %
+          </label>
+        </div>
+      </div>
+
+      {(failed.length > 0 || result.effectiveMaxWeight > maxWeightPct / 100 + 1e-9) && (
+        <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900 flex items-center gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {failed.length > 0 && <span>No price history for {failed.join(', ')} — excluded.</span>}
+          {result.effectiveMaxWeight > maxWeightPct / 100 + 1e-9 && (
+            <span>Max weight raised to {pct(result.effectiveMaxWeight)} so weights can sum to 100%.</span>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        {([
+          ['Current', current],
+          ['Min Variance', result.minVariance],
+          ['Max Sharpe', result.maxSharpe],
+          ['Risk Parity', result.riskParity],
+        ] as const).map(([label, p]) => (
+          <div key={label}>
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">
+              {p.expectedReturn.toFixed(1)}% / {p.volatility.toFixed(1)}% vol
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Sharpe {p.sharpe.toFixed(2)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-b border-gray-200 dark:border-zinc-700">
+        <ResponsiveContainer width="100%" height={300}>
+          <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis
+              type="number"
+              dataKey="x"
+              name="Volatility"
+              unit="%"
+              tickFormatter={(v: number) => v.toFixed(0)}
+              tick={{ fontSize: 11, fill: axisColor }}
+              axisLine={{ stroke: gridColor }}
+              tickLine={{ stroke: gridColor }}
+            />
+            <YAxis
+              type="number"
+              dataKey="y"
+              name="Return"
+              unit="%"
+              tickFormatter={(v: number) => v.toFixed(0)}
+              tick={{ fontSize: 11, fill: axisColor }}
+              axisLine={{ stroke: gridColor }}
+              tickLine={{ stroke: gridColor }}
+            />
+            <Tooltip
+              formatter={(v: number) => `${v.toFixed(2)}%`}
+              contentStyle={{ backgroundColor: isDark ? '#18181b' : '#ffffff', borderColor: gridColor }}
+            />
+            <Legend />
+            <Scatter
+              name="Efficient frontier"
+              data={result.frontier.map(p => ({ x: p.volatility, y: p.expectedReturn, sharpe: p.sharpe }))}
+              fill={axisColor}
+              line
+              shape="circle"
+            />
+            <Scatter name="Current" data={point(current)} fill="#EF4444" />
+            <Scatter name="Min Variance" data={point(result.minVariance)} fill="#3B82F6" />
+            <Scatter name="Max Sharpe" data={point(result.maxSharpe)} fill="#10B981" />
+            <Scatter name="Risk Parity" data={point(result.riskParity)} fill="#F59E0B" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex items-center gap-3">
+        <span className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">Recommend</span>
+        <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+          {OBJECTIVES.map(o => (
+            <button
+              key={o.value}
+              onClick={() => setObjective(o.value)}
+              className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
+                objective === o.value
+                  ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Symbol', 'Current', 'Min Var', 'Max Sharpe', 'Risk Parity', 'Change'].map(h => (
+                <th key={h} className={`${TH} ${h === 'Symbol' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {symbols.map((s, i) => {
+              const change = target.weights[s] - currentW[i];
+              return (
+                <tr key={s} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{s}</td>
+                  <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{pct(currentW[i])}</td>
+                  {(['minVariance', 'maxSharpe', 'riskParity'] as const).map(k => (
+                    <td
+                      key={k}
+                      className={`px-4 py-2 text-right ${k === objective ? 'font-medium text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'}`}
+                    >
+                      {pct(result[k].weights[s])}
+                    </td>
+                  ))}
+                  <td className={`px-4 py-2 text-right font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)} pts
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
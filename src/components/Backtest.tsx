@@ -0,0 +1,297 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { FlaskConical, RefreshCw } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { getDailyBars, OHLCVPriceData } from '../services/twelveDataService';
+import { buildGapData, WEEKEND_GAP_TICKERS } from '../services/weekendGapService';
+import { buildWeekendData } from '../services/weekendMomentumService';
+import {
+  runBacktest,
+  smaCrossoverSignals,
+  weekendSignals,
+  DEFAULT_CONFIG,
+  STRATEGIES,
+  StrategyId,
+} from '../utils/backtest';
+import { formatCurrency } from '../utils/formatters';
+
+const BAR_COUNT = 1000;
+
+const BACKTEST_TICKERS = [
+  { symbol: 'BTC/USD', label: 'BTC/USD' },
+  ...WEEKEND_GAP_TICKERS,
+  { symbol: 'IWM', label: 'IWM' },
+];
+
+function StatCard({ label, value, suffix = '%', signed = true }: {
+  label: string;
+  value: number;
+  suffix?: string;
+  signed?: boolean;
+}) {
+  const color = !signed
+    ? 'text-gray-900 dark:text-white'
+    : value < 0
+      ? 'text-red-600'
+      : 'text-green-600';
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+      <p className={`text-2xl font-bold ${color}`}>
+        {value.toFixed(2)}{suffix}
+      </p>
+    </div>
+  );
+}
+
+function NumberInput({ id, label, value, min, onChange }: {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min={min}
+        value={value}
+        onChange={e => onChange(Math.max(min, parseFloat(e.target.value) || 0))}
+        className="w-28 px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 text-gray-900 dark:text-white"
+      />
+    </div>
+  );
+}
+
+/**
+ * Backtests the Strategies-page ideas on daily bars: weekend gap / momentum
+ * (reusing the Weekend tabs' weekend tables) and an SMA crossover, with
+ * per-side fees and slippage against buy-and-hold.
+ */
+export default function Backtest() {
+  const { isDark } = useTheme();
+  const [symbol, setSymbol] = useState<string>(BACKTEST_TICKERS[0].symbol);
+  const [strategy, setStrategy] = useState<StrategyId>('weekend-gap');
+  const [feeBps, setFeeBps] = useState(DEFAULT_CONFIG.feeBps);
+  const [slippageBps, setSlippageBps] = useState(DEFAULT_CONFIG.slippageBps);
+  const [fast, setFast] = useState(20);
+  const [slow, setSlow] = useState(50);
+  const [cache, setCache] = useState<Record<string, OHLCVPriceData[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bars = cache[symbol];
+
+  const fetchData = async (sym: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getDailyBars(sym, BAR_COUNT);
+      setCache(prev => ({ ...prev, [sym]: result }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to fetch ${sym} data`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!cache[symbol]) {
+      fetchData(symbol);
+    } else {
+      setError(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol]);
+
+  const result = useMemo(() => {
+    if (!bars?.length) return null;
+    let signals;
+    if (strategy === 'sma-crossover') {
+      signals = smaCrossoverSignals(bars, fast, slow);
+    } else {
+      const daily = bars.map(b => ({ datetime: b.date, open: b.open, high: b.high, low: b.low, close: b.close }));
+      // 24/7 pairs have real Saturday/Sunday bars; equities gap Friday → next session
+      const weekends = symbol.includes('/') ? buildWeekendData(daily) : buildGapData(daily);
+      signals = weekendSignals(bars, weekends, strategy === 'weekend-momentum');
+    }
+    return runBacktest(bars, signals, { ...DEFAULT_CONFIG, feeBps, slippageBps });
+  }, [bars, symbol, strategy, fast, slow, feeBps, slippageBps]);
+
+  const axisColor = isDark ? '#a1a1aa' : '#71717a';
+  const gridColor = isDark ? '#27272a' : '#e5e7eb';
+  const strategyInfo = STRATEGIES.find(s => s.id === strategy)!;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Backtest</h2>
+        <p className="text-gray-500 dark:text-gray-400">
+          {strategyInfo.description}. Starting from {formatCurrency(DEFAULT_CONFIG.initialCapital)}, fully invested
+          per trade, fees and slippage charged on both sides.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div>
+          <label htmlFor="bt-symbol" className="block text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2">
+            Ticker
+          </label>
+          <select
+            id="bt-symbol"
+            value={symbol}
+            onChange={e => setSymbol(e.target.value)}
+            className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 text-gray-900 dark:text-white"
+          >
+            {BACKTEST_TICKERS.map(t => <option key={t.symbol} value={t.symbol}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2">Strategy</p>
+          <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+            {STRATEGIES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setStrategy(s.id)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                  strategy === s.id
+                    ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {strategy === 'sma-crossover' && (
+          <>
+            <NumberInput id="bt-fast" label="Fast SMA" value={fast} min={2} onChange={setFast} />
+            <NumberInput id="bt-slow" label="Slow SMA" value={slow} min={3} onChange={setSlow} />
+          </>
+        )}
+        <NumberInput id="bt-fee" label="Fee (bps/side)" value={feeBps} min={0} onChange={setFeeBps} />
+        <NumberInput id="bt-slip" label="Slippage (bps/side)" value={slippageBps} min={0} onChange={setSlippageBps} />
+      </div>
+
+      {loading && !bars && (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center">
+            <FlaskConical className="w-10 h-10 text-gray-300 dark:text-gray-600 animate-pulse mx-auto mb-3" />
+            <p className="text-gray-600 dark:text-gray-400">Loading {symbol} daily bars...</p>
+          </div>
+        </div>
+      )}
+
+      {error && !bars && (
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={() => fetchData(symbol)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 rounded hover:bg-gray-800 dark:hover:bg-gray-200 mx-auto text-sm"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard label="Total return" value={result.stats.totalReturnPct} />
+            <StatCard label="CAGR" value={result.stats.cagrPct} />
+            <StatCard label="Sharpe" value={result.stats.sharpe} suffix="" />
+            <StatCard label="Sortino" value={result.stats.sortino} suffix="" />
+            <StatCard label="Max drawdown" value={result.stats.maxDrawdownPct} />
+            <StatCard label="Win rate" value={result.stats.winRatePct} signed={false} />
+            <StatCard label="Exposure" value={result.stats.exposurePct} signed={false} />
+            <StatCard label="Buy & hold" value={result.stats.benchmarkReturnPct} />
+          </div>
+
+          <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Equity Curve</h3>
+            <ResponsiveContainer width="100%" height={320}>
+              <ComposedChart data={result.equity} margin={{ top: 10, right: 10, bottom: 5, left: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 11, fill: axisColor }}
+                  axisLine={{ stroke: gridColor }}
+                  tickLine={{ stroke: gridColor }}
+                  interval={Math.max(0, Math.floor(result.equity.length / 8) - 1)}
+                />
+                <YAxis
+                  tickFormatter={(v) => formatCurrency(v)}
+                  tick={{ fontSize: 11, fill: axisColor }}
+                  axisLine={{ stroke: gridColor }}
+                  tickLine={{ stroke: gridColor }}
+                  width={80}
+                />
+                <Tooltip
+                  formatter={(v: number) => formatCurrency(v)}
+                  contentStyle={{ backgroundColor: isDark ? '#18181b' : '#ffffff', borderColor: gridColor }}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="equity" name={strategyInfo.label} stroke="#10b981" dot={false} strokeWidth={2} />
+                <Line type="monotone" dataKey="benchmark" name="Buy & hold" stroke={axisColor} dot={false} strokeDasharray="4 4" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+              Trades <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({result.trades.length})</span>
+            </h3>
+            <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 overflow-hidden">
+              <div className="overflow-x-auto max-h-96">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+                      {['Entry', 'Exit', 'Entry Px', 'Exit Px', 'Bars', 'Return', 'P&L'].map(h => (
+                        <th key={h} className={`px-4 py-3 font-medium text-gray-600 dark:text-gray-400 ${h === 'Entry' || h === 'Exit' ? 'text-left' : 'text-right'}`}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...result.trades].reverse().map(t => (
+                      <tr key={t.entryDate} className="border-b border-gray-100 dark:border-zinc-900 hover:bg-gray-50 dark:hover:bg-zinc-900">
+                        <td className="px-4 py-2.5 font-medium text-gray-900 dark:text-white">{t.entryDate}</td>
+                        <td className="px-4 py-2.5 text-gray-700 dark:text-gray-300">{t.exitDate}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300">{formatCurrency(t.entryPrice)}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300">{formatCurrency(t.exitPrice)}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300">{t.bars}</td>
+                        <td className={`px-4 py-2.5 text-right font-medium ${t.returnPct >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {t.returnPct >= 0 ? '+' : ''}{t.returnPct.toFixed(2)}%
+                        </td>
+                        <td className={`px-4 py-2.5 text-right font-medium ${t.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(t.pnl)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Crosshair, AlertTriangle, X } from 'lucide-react';
+import { getGainColor, type EnrichedPortfolio } from '../services/robinhoodService';
+import { getTimeSeries, getRangeConfig, PORTFOLIO_ASSETS } from '../services/twelveDataService';
+import { RISK_FREE_RATE } from '../utils/blackScholes';
+import {
+  attributePerformance,
+  BenchmarkConfig,
+  DEFAULT_BENCHMARK,
+  SLEEVES,
+} from '../utils/attribution';
+
+type Range = '3M' | '6M' | '1Y';
+
+const RANGES: { value: Range; years: number }[] = [
+  { value: '3M', years: 0.25 },
+  { value: '6M', years: 0.5 },
+  { value: '1Y', years: 1 },
+];
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+const INPUT = 'w-16 px-2 py-1 border border-gray-300 dark:border-zinc-600 rounded text-sm bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100';
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const signed = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(2)}%`;
+
+/**
+ * Did the account beat its benchmark over the period, and why: Brinson
+ * allocation vs selection across the stock, option and cash sleeves. The
+ * benchmark is a weighted blend of PORTFOLIO_ASSETS plus an optional cash
+ * share; cash earns the risk-free rate on both sides.
+ */
+export default function BenchmarkAttribution({ portfolio }: { portfolio: EnrichedPortfolio }) {
+  const [range, setRange] = useState<Range>('1Y');
+  const [benchmark, setBenchmark] = useState<BenchmarkConfig>(DEFAULT_BENCHMARK);
+  const [returns, setReturns] = useState<Record<string, number> | null>(null);
+
+  const held = portfolio.positions.filter(p => p.symbol && p.equity > 0).map(p => p.symbol);
+  const symbolKey = [...new Set([...held, ...Object.keys(benchmark.weights)])].sort().join(',');
+
+  useEffect(() => {
+    const symbols = symbolKey ? symbolKey.split(',') : [];
+    let cancelled = false;
+    // One series per holding and benchmark asset — queue the fan-out behind
+    // the page's own charts and drop it when the range or book changes
+    const controller = new AbortController();
+    const request = { priority: 'prefetch' as const, signal: controller.signal };
+    setReturns(null);
+    const visible = getRangeConfig(range).visibleSize;
+    Promise.allSettled(symbols.map(s => getTimeSeries(s, range, false, request)))
+      .then(results => {
+        if (cancelled) return;
+        const out: Record<string, number> = {};
+        results.forEach((r, i) => {
+          if (r.status !== 'fulfilled') return;
+          // The series carries SMA warm-up bars ahead of the visible range
+          const window = r.value.slice(-visible);
+          if (window.length > 1 && window[0].price > 0) {
+            out[symbols[i]] = window[window.length - 1].price / window[0].price - 1;
+          }
+        });
+        setReturns(out);
+      });
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [symbolKey, range]);
+
+  const years = RANGES.find(r => r.value === range)!.years;
+  const result = useMemo(
+    () => (returns
+      ? attributePerformance({
+          portfolio,
+          holdingReturns: returns,
+          benchmarkReturns: returns,
+          benchmark,
+          cashReturn: RISK_FREE_RATE * years,
+        })
+      : null),
+    [portfolio, returns, benchmark, years]
+  );
+
+  const setWeight = (symbol: string, weightPct: number) =>
+    setBenchmark(b => ({ ...b, weights: { ...b.weights, [symbol]: Math.max(weightPct, 0) / 100 } }));
+  const removeAsset = (symbol: string) =>
+    setBenchmark(b => ({ ...b, weights: Object.fromEntries(Object.entries(b.weights).filter(([s]) => s !== symbol)) }));
+  const unused = PORTFOLIO_ASSETS.filter(a => benchmark.weights[a.symbol] == null);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <Crosshair className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Benchmark Attribution</h3>
+        <div className="ml-auto flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+          {RANGES.map(r => (
+            <button
+              key={r.value}
+              onClick={() => setRange(r.value)}
+              className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
+                range === r.value
+                  ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {r.value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">Benchmark</span>
+        {Object.entries(benchmark.weights).map(([symbol, w]) => (
+          <span key={symbol} className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+            {PORTFOLIO_ASSETS.find(a => a.symbol === symbol)?.displayName ?? symbol}
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={Math.round(w * 1000) / 10}
+              onChange={e => setWeight(symbol, parseFloat(e.target.value) || 0)}
+              className={INPUT}
+            />
+            %
+            <button onClick={() => removeAsset(symbol)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Remove">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        ))}
+        {unused.length > 0 && (
+          <select
+            value=""
+            onChange={e => e.target.value && setWeight(e.target.value, 0)}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">Add asset…</option>
+            {unused.map(a => <option key={a.symbol} value={a.symbol}>{a.displayName}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+          Cash
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={benchmark.cashPct}
+            onChange={e => setBenchmark(b => ({ ...b, cashPct: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100) }))}
+            className={INPUT}
+          />
+          %
+        </label>
+      </div>
+
+      {!result ? (
+        <div className="p-6 text-sm text-gray-500">Loading price history for attribution…</div>
+      ) : (
+        <>
+          {result.missing.length > 0 && (
+            <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900 flex items-center gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              No {range} price history for {result.missing.join(', ')} — excluded.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+            <div>
+              <div className="text-xs text-gray-500">Portfolio</div>
+              <div className={`font-medium ${getGainColor(result.portfolioReturn)}`}>{signed(result.portfolioReturn)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Benchmark</div>
+              <div className={`font-medium ${getGainColor(result.benchmarkReturn)}`}>{signed(result.benchmarkReturn)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Active return</div>
+              <div className={`font-medium ${getGainColor(result.activeReturn)}`}>{signed(result.activeReturn)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Allocation / Selection</div>
+              <div className="font-medium">
+                <span className={getGainColor(result.allocation)}>{signed(result.allocation)}</span>
+                <span className="text-gray-400"> / </span>
+                <span className={getGainColor(result.selection)}>{signed(result.selection)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border-b border-gray-200 dark:border-zinc-700">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-zinc-800">
+                <tr>
+                  {['Sleeve', 'Weight', 'Bench Wt', 'Return', 'Bench Ret', 'Allocation', 'Selection', 'Total'].map(h => (
+                    <th key={h} className={`${TH} ${h === 'Sleeve' ? 'text-left' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+                {result.sleeves.map((s, i) => (
+                  <tr key={s.sleeve} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{SLEEVES.find(x => x.id === s.sleeve)!.label}</td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{pct(s.portfolioWeight)}</td>
+                    <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{pct(s.benchmarkWeight)}</td>
+                    <td className={`px-4 py-2 text-right ${s.portfolioReturn != null ? getGainColor(s.portfolioReturn) : 'text-gray-400'}`}>
+                      {s.portfolioReturn != null ? signed(s.portfolioReturn) : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{signed(s.benchmarkReturn)}</td>
+                    <td className={`px-4 py-2 text-right ${getGainColor(s.allocation)}`}>{signed(s.allocation)}</td>
+                    <td className={`px-4 py-2 text-right ${getGainColor(s.selection)}`}>{signed(s.selection)}</td>
+                    <td className={`px-4 py-2 text-right font-medium ${getGainColor(s.total)}`}>{signed(s.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.symbols.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-zinc-800">
+                  <tr>
+                    {['Symbol', 'Weight', 'Return', 'Stock selection'].map(h => (
+                      <th key={h} className={`${TH} ${h === 'Symbol' ? 'text-left' : 'text-right'}`}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+                  {result.symbols.map((s, i) => (
+                    <tr key={s.symbol} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                      <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{s.symbol}</td>
+                      <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{pct(s.weight)}</td>
+                      <td className={`px-4 py-2 text-right ${getGainColor(s.return)}`}>{signed(s.return)}</td>
+                      <td className={`px-4 py-2 text-right font-medium ${getGainColor(s.selection)}`}>{signed(s.selection)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-zinc-700">
+            Stocks are today&apos;s holdings held over the whole {range}. Options have no price history for the period, so
+            the sleeve is unmeasured: it is assumed to earn the benchmark and adds no selection. Cash earns
+            {' '}{(RISK_FREE_RATE * 100).toFixed(0)}%/yr on both sides.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,10 @@ import {
   Cell,
   Customized,
 } from 'recharts';
-import { getBitcoinPriceHistory } from '../services/twelveDataService';
+import { getBitcoinPriceHistoryWithSource } from '../services/twelveDataService';
 import type { OHLCVPriceData } from '../services/twelveDataService';
+import type { ProviderId } from '../services/marketDataProvider';
+import SourceTag from './SourceTag';
 import { formatCurrency } from '../utils/formatters';
 import { useTheme } from '../contexts/ThemeContext';
 
@@ -88,6 +90,7 @@ export default function BitcoinPriceChart({
 }: BitcoinPriceChartProps) {
   const { isDark } = useTheme();
   const [priceData, setPriceData] = useState<OHLCVPriceData[]>([]);
+  const [source, setSource] = useState<ProviderId | undefined>();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedRange, setSelectedRange] = useState(days);
@@ -107,10 +110,13 @@ export default function BitcoinPriceChart({
       setLoading(true);
       setError(null);
       try {
-        const data = await getBitcoinPriceHistory(selectedRange);
+        const { data, source } = await getBitcoinPriceHistoryWithSource(selectedRange);
         // Guard against out-of-order responses: a slow fetch for a range the
         // user already switched away from must not overwrite the newer one.
-        if (!cancelled) setPriceData(data);
+        if (!cancelled) {
+          setPriceData(data);
+          setSource(source);
+        }
       } catch (err) {
         if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch price data');
       } finally {
@@ -192,7 +198,10 @@ export default function BitcoinPriceChart({
     <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
         <div>
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Price History</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Price History</h3>
+            <SourceTag source={source} />
+          </div>
           <p className={`text-sm font-medium ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
             {isPositive ? '+' : ''}{priceChange.toFixed(2)}% in {selectedRange} day{selectedRange > 1 ? 's' : ''}
           </p>
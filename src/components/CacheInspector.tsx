@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Database, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  listCacheEntries,
+  purgeCacheEntry,
+  clearTwelveDataCache,
+  CacheEntryInfo,
+} from '../services/twelveDataCache';
+import { STORE_BUDGET_BYTES } from '../services/marketDataStore';
+import { formatAge, formatCountdown } from '../utils/connectionHealth';
+
+const TH = 'px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider text-left';
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Market data cache contents: what's persisted in IndexedDB (and what's only
+ * in memory), how big and old each entry is, and how often it served a hit.
+ */
+export default function CacheInspector() {
+  const [entries, setEntries] = useState<CacheEntryInfo[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const purge = async (key: string) => {
+    await purgeCacheEntry(key);
+    load();
+  };
+
+  const clearAll = () => {
+    clearTwelveDataCache();
+    setEntries([]);
+  };
+
+  const totalBytes = (entries ?? []).reduce((sum, e) => sum + (e.size ?? 0), 0);
+  const now = Date.now();
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-6 mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-lg bg-gray-100 dark:bg-zinc-800">
+          <Database className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Market Data Cache</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {entries
+              ? `${entries.length} entries · ${formatBytes(totalBytes)} of ${formatBytes(STORE_BUDGET_BYTES)} stored`
+              : 'Loading…'}
+          </p>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-zinc-800 rounded-lg hover:bg-gray-50 dark:hover:bg-zinc-900 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Reload
+        </button>
+        <button
+          onClick={clearAll}
+          disabled={!entries || entries.length === 0}
+          className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 border border-gray-200 dark:border-zinc-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-950/30 disabled:opacity-50"
+        >
+          Clear all
+        </button>
+      </div>
+
+      {entries && entries.length === 0 ? (
+        <p className="text-xs text-gray-400 dark:text-gray-500">Nothing cached in this browser.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-zinc-800">
+                <th className={TH}>Key</th>
+                <th className={TH}>Size</th>
+                <th className={TH}>Age</th>
+                <th className={TH}>Expires</th>
+                <th className={TH}>Last used</th>
+                <th className={TH} title="This session">Hits / misses</th>
+                <th className={TH}></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-zinc-900">
+              {(entries ?? []).map(e => (
+                <tr key={e.key}>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-900 dark:text-white whitespace-nowrap">
+                    {e.key}
+                    {e.size == null && (
+                      <span className="ml-2 font-sans text-gray-400 dark:text-gray-500" title="Too large to persist, or IndexedDB unavailable">
+                        memory only
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {e.size != null ? formatBytes(e.size) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {e.storedAt != null ? formatAge(now - e.storedAt) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {e.expires != null ? formatCountdown(Math.floor((e.expires - now) / 1000)) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {e.lastAccess != null ? formatAge(now - e.lastAccess) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {e.hits} / {e.misses}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => purge(e.key)}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Purge"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
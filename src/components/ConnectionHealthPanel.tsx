@@ -0,0 +1,108 @@
+import { Activity, RefreshCw, CheckCircle, AlertTriangle, XCircle, MinusCircle } from 'lucide-react';
+import { useConnectionHealth } from '../hooks/useConnectionHealth';
+import { formatAge, formatCountdown, HealthLevel } from '../utils/connectionHealth';
+
+const LEVEL_ICON: Record<HealthLevel, { icon: typeof CheckCircle; className: string }> = {
+  ok: { icon: CheckCircle, className: 'text-green-600 dark:text-green-400' },
+  warning: { icon: AlertTriangle, className: 'text-amber-500 dark:text-amber-400' },
+  stale: { icon: XCircle, className: 'text-red-600 dark:text-red-400' },
+  off: { icon: MinusCircle, className: 'text-gray-400 dark:text-gray-500' },
+};
+
+const TH = 'px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider text-left';
+
+/**
+ * Every source in one place: broker token countdowns, refresh-token
+ * presence, snapshot and order freshness, plus the auth-failure log.
+ * Shares its polling with the stale-source banner in AppShell.
+ */
+export default function ConnectionHealthPanel() {
+  const { rows, failures, checkedAt, checking, refresh, clearFailures } = useConnectionHealth();
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-6 mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-lg bg-gray-100 dark:bg-zinc-800">
+          <Activity className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Connection Health</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {checkedAt ? `Checked ${formatAge(Date.now() - checkedAt)}` : 'Checking…'}
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={checking}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-zinc-800 rounded-lg hover:bg-gray-50 dark:hover:bg-zinc-900 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`} />
+          Check now
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-zinc-800">
+              <th className={TH}>Source</th>
+              <th className={TH}>Status</th>
+              <th className={TH}>Token</th>
+              <th className={TH}>Refresh token</th>
+              <th className={TH}>As of</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-zinc-900">
+            {rows.map(r => {
+              const { icon: Icon, className } = LEVEL_ICON[r.level];
+              return (
+                <tr key={r.id}>
+                  <td className="px-3 py-2 font-medium text-gray-900 dark:text-white whitespace-nowrap">{r.label}</td>
+                  <td className="px-3 py-2">
+                    <span className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+                      <Icon className={`w-4 h-4 flex-shrink-0 ${className}`} />
+                      {r.detail}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {r.expiresIn != null ? formatCountdown(r.expiresIn) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                    {r.hasRefreshToken == null ? '—' : r.hasRefreshToken ? 'Yes' : 'No'}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {r.asOf ? new Date(r.asOf).toLocaleString() : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Auth failures</h4>
+          {failures.length > 0 && (
+            <button onClick={clearFailures} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+              Clear
+            </button>
+          )}
+        </div>
+        {failures.length === 0 ? (
+          <p className="text-xs text-gray-400 dark:text-gray-500">None recorded in this browser.</p>
+        ) : (
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {failures.map(f => (
+              <li key={`${f.source}-${f.at}`} className="text-xs text-gray-600 dark:text-gray-400 flex gap-2">
+                <span className="text-gray-400 dark:text-gray-500 whitespace-nowrap">{new Date(f.at).toLocaleString()}</span>
+                <span className="font-medium capitalize">{f.source}</span>
+                <span>{f.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
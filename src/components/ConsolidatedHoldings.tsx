@@ -0,0 +1,119 @@
+import { Fragment, useState } from 'react';
+import { Layers, ChevronRight, ChevronDown } from 'lucide-react';
+import { formatCurrency, formatPercent, getGainColor } from '../services/robinhoodService';
+import { SOURCE_LABEL, type AggregatedPortfolio, type PortfolioSource } from '../utils/portfolioAggregation';
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const SOURCE_STYLE: Record<PortfolioSource, string> = {
+  robinhood: 'bg-green-100 text-green-700 dark:bg-green-950/40 dark:text-green-400',
+  plaid: 'bg-blue-100 text-blue-700 dark:bg-blue-950/40 dark:text-blue-400',
+};
+
+function SourceTag({ source }: { source: PortfolioSource }) {
+  return <span className={`px-1.5 py-0.5 text-xs rounded ${SOURCE_STYLE[source]}`}>{SOURCE_LABEL[source]}</span>;
+}
+
+/**
+ * Holdings unioned across every connected broker. A symbol held in more
+ * than one account shows once, with the per-account split on expand.
+ */
+export default function ConsolidatedHoldings({ consolidated }: { consolidated: AggregatedPortfolio }) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (symbol: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(symbol)) next.delete(symbol); else next.add(symbol);
+    return next;
+  });
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <Layers className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Consolidated Holdings</h3>
+        <span className="text-sm text-gray-400">{consolidated.accounts.length} accounts</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        <div>
+          <div className="text-xs text-gray-500">Positions</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(consolidated.positionsValue)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Cash</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(consolidated.cash)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Unrealized gain</div>
+          <div className={`font-medium ${getGainColor(consolidated.totalGain)}`}>{formatCurrency(consolidated.totalGain)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">By account</div>
+          {consolidated.accounts.map(a => (
+            <div key={`${a.source}-${a.accountNumber}`} className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1.5">
+              <SourceTag source={a.source} />
+              {formatCurrency(a.positionsValue + a.cash)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Symbol', 'Source', 'Shares', 'Avg Cost', 'Value', 'Weight', 'Total Gain'].map(h => (
+                <th key={h} className={`${TH} ${['Symbol', 'Source'].includes(h) ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {consolidated.holdings.map((h, i) => {
+              const open = expanded.has(h.symbol);
+              const splittable = h.accounts.length > 1;
+              const Chevron = open ? ChevronDown : ChevronRight;
+              return (
+                <Fragment key={h.symbol}>
+                  <tr
+                    onClick={splittable ? () => toggle(h.symbol) : undefined}
+                    className={`${i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'} ${splittable ? 'cursor-pointer' : ''}`}
+                  >
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-1 font-medium text-gray-900 dark:text-gray-100">
+                        {splittable ? <Chevron className="w-4 h-4 text-gray-400" /> : <span className="w-4" />}
+                        {h.symbol}
+                      </div>
+                      {h.name !== h.symbol && <div className="ml-5 text-xs text-gray-500 dark:text-gray-400">{h.name}</div>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex gap-1">{h.sources.map(s => <SourceTag key={s} source={s} />)}</div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{h.quantity}</td>
+                    <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatCurrency(h.averageCost)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{formatCurrency(h.currentValue)}</td>
+                    <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{(h.weight * 100).toFixed(1)}%</td>
+                    <td className={`px-4 py-2 text-right ${getGainColor(h.gain)}`}>
+                      {formatCurrency(h.gain)} <span className="text-xs">({formatPercent(h.gainPercent)})</span>
+                    </td>
+                  </tr>
+                  {open && h.accounts.map(a => (
+                    <tr key={`${h.symbol}-${a.source}-${a.accountNumber}`} className="bg-gray-50 dark:bg-zinc-800 text-sm">
+                      <td className="pl-10 pr-4 py-1.5 text-xs text-gray-500 dark:text-gray-400">{a.accountNumber}</td>
+                      <td className="px-4 py-1.5"><SourceTag source={a.source} /></td>
+                      <td className="px-4 py-1.5 text-right text-gray-600 dark:text-gray-300">{a.quantity}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-500 dark:text-gray-400">{formatCurrency(a.averageCost)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600 dark:text-gray-300">{formatCurrency(a.currentValue)}</td>
+                      <td className="px-4 py-1.5" />
+                      <td className={`px-4 py-1.5 text-right ${getGainColor(a.gain)}`}>{formatCurrency(a.gain)}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
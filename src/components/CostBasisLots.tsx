@@ -0,0 +1,198 @@
+import { Fragment, useState } from 'react';
+import { Layers, ChevronDown, ChevronRight } from 'lucide-react';
+import { formatCurrency, getGainColor, SnapshotOrder } from '../services/robinhoodService';
+import { LOT_METHODS, LotMethod, SymbolLots, matchLots } from '../utils/lotEngine';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function LotDrillDown({ lots }: { lots: SymbolLots }) {
+  const th = 'px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const td = 'px-3 py-1.5 text-gray-700 dark:text-gray-300';
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4 bg-gray-50 dark:bg-zinc-800 text-sm">
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">
+          Open lots ({lots.open_lots.length})
+        </div>
+        {lots.open_lots.length === 0 ? (
+          <div className="text-xs text-gray-400">No open lots</div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className={`${th} text-left`}>Opened</th>
+                <th className={`${th} text-right`}>Shares</th>
+                <th className={`${th} text-right`}>Cost / sh</th>
+                <th className={`${th} text-right`}>Basis</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lots.open_lots.map(l => (
+                <tr key={l.lot_id}>
+                  <td className={td}>{formatDate(l.opened_at)}</td>
+                  <td className={`${td} text-right`}>
+                    {l.quantity}{l.quantity !== l.original_quantity && <span className="text-xs text-gray-400"> / {l.original_quantity}</span>}
+                  </td>
+                  <td className={`${td} text-right`}>{formatCurrency(l.cost_per_share)}</td>
+                  <td className={`${td} text-right`}>{formatCurrency(l.cost_basis)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">
+          Closed lots ({lots.closed_lots.length})
+        </div>
+        {lots.closed_lots.length === 0 ? (
+          <div className="text-xs text-gray-400">No closed lots</div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className={`${th} text-left`}>Opened → Closed</th>
+                <th className={`${th} text-right`}>Shares</th>
+                <th className={`${th} text-right`}>Cost / sh</th>
+                <th className={`${th} text-right`}>Sale / sh</th>
+                <th className={`${th} text-right`}>P&amp;L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lots.closed_lots.map(c => (
+                <tr key={`${c.lot_id}-${c.close_order_id}`}>
+                  <td className={td}>
+                    {formatDate(c.opened_at)} → {formatDate(c.closed_at)}
+                    <span className="text-xs text-gray-400"> ({c.holding_days}d)</span>
+                  </td>
+                  <td className={`${td} text-right`}>{c.quantity}</td>
+                  <td className={`${td} text-right`}>{formatCurrency(c.cost_per_share)}</td>
+                  <td className={`${td} text-right`}>{formatCurrency(c.proceeds_per_share)}</td>
+                  <td className={`px-3 py-1.5 text-right font-medium ${getGainColor(c.realized_pnl)}`}>{formatCurrency(c.realized_pnl)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Per-lot cost basis over the trading DB's filled stock orders, with a
+ * FIFO / LIFO / HIFO / average-cost switcher. Matching runs client-side over
+ * the historical orders the page already fetched.
+ */
+export default function CostBasisLots({ orders }: {
+  orders: SnapshotOrder[];
+}) {
+  const [method,   setMethod]   = useState<LotMethod>('fifo');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const report = matchLots(orders, method);
+  if (report.fill_count === 0) return null;
+
+  // Realized P&L under every method, so the switcher shows what it changes
+  const totals = LOT_METHODS.map(m => ({
+    ...m,
+    realized: m.value === method ? report.total_realized_pnl : matchLots(orders, m.value).total_realized_pnl,
+  }));
+  const hasUnmatched = report.symbols.some(s => s.unmatched_quantity > 0);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <Layers className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Cost Basis Lots</h3>
+        <span className="text-sm text-gray-400">{report.fill_count} fills</span>
+        <div className="ml-auto flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+          {LOT_METHODS.map(m => (
+            <button
+              key={m.value}
+              onClick={() => setMethod(m.value)}
+              title={m.description}
+              className={`px-2 sm:px-3 py-1 text-xs sm:text-sm font-medium rounded-md transition-colors whitespace-nowrap ${
+                method === m.value
+                  ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        {totals.map(m => (
+          <div key={m.value}>
+            <div className={`text-xs ${m.value === method ? 'text-gray-900 dark:text-gray-100 font-medium' : 'text-gray-500'}`}>
+              Realized ({m.label})
+            </div>
+            <div className={`font-medium ${getGainColor(m.realized)}`}>{formatCurrency(m.realized)}</div>
+          </div>
+        ))}
+      </div>
+
+      {hasUnmatched && (
+        <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900">
+          Some sells have no matching buy in the loaded history; those shares are excluded from realized P&amp;L.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Symbol', 'Held', 'Avg Cost', 'Cost Basis', 'Open Lots', 'Closed Lots', 'Realized P&L'].map(h => (
+                <th key={h} className={`px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider ${h === 'Symbol' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {report.symbols.map(s => {
+              const isOpen = expanded === s.symbol;
+              const Chevron = isOpen ? ChevronDown : ChevronRight;
+              return (
+                <Fragment key={s.symbol}>
+                  <tr
+                    onClick={() => setExpanded(isOpen ? null : s.symbol)}
+                    className="cursor-pointer bg-white dark:bg-zinc-900 hover:bg-gray-50 dark:hover:bg-zinc-800"
+                  >
+                    <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                      <span className="inline-flex items-center gap-1">
+                        <Chevron className="w-4 h-4 text-gray-400" />{s.symbol}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                      {s.shares_held}
+                      {s.unmatched_quantity > 0 && <span className="text-xs text-amber-600 dark:text-amber-400"> ({s.unmatched_quantity} unmatched)</span>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-500 dark:text-gray-400">{s.avg_cost != null ? formatCurrency(s.avg_cost) : '—'}</td>
+                    <td className="px-4 py-3 text-right text-gray-500 dark:text-gray-400">{formatCurrency(s.cost_basis)}</td>
+                    <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{s.open_lots.length}</td>
+                    <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">{s.closed_lots.length}</td>
+                    <td className="px-4 py-3 text-right">
+                      <div className={`font-medium ${getGainColor(s.realized_pnl)}`}>{formatCurrency(s.realized_pnl)}</div>
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={7} className="p-0">
+                        <LotDrillDown lots={s} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
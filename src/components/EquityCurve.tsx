@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { LineChart as LineChartIcon, AlertTriangle } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  getAccountHistory,
+  formatCurrency,
+  getGainColor,
+  type AccountHistoryPoint,
+} from '../services/robinhoodService';
+import { buildEquityCurve } from '../utils/equityCurve';
+
+type Range = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+type View = 'equity' | 'growth' | 'drawdown';
+
+const RANGES: Range[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+const VIEWS: { value: View; label: string }[] = [
+  { value: 'equity', label: 'Equity' },
+  { value: 'growth', label: 'Growth' },
+  { value: 'drawdown', label: 'Drawdown' },
+];
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+const signedPct = (v: number | null) => (v == null ? '—' : `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`);
+
+function rangeStart(range: Range, now: Date): number {
+  const d = new Date(now);
+  if (range === '1M') d.setMonth(d.getMonth() - 1);
+  else if (range === '3M') d.setMonth(d.getMonth() - 3);
+  else if (range === '1Y') d.setFullYear(d.getFullYear() - 1);
+  else if (range === 'YTD') return Date.UTC(now.getUTCFullYear(), 0, 1);
+  else return -Infinity;
+  return d.getTime();
+}
+
+function Segmented<T extends string>({ options, value, onChange }: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (v: T) => void;
+}) {
+  return (
+    <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+      {options.map(o => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          className={`px-3 py-1 text-sm font-medium rounded-lg transition-colors ${
+            value === o.value
+              ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-gray-100 shadow-sm'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Account equity over time from db-account-history, with deposits and
+ * withdrawals kept out of the return: time-weighted return and drawdowns
+ * measure the holdings, money-weighted return adds contribution timing.
+ * Flows come from the ACH transfers snapshot-refresh records; until any are
+ * recorded the returns are shown as plain equity change, not TWR/MWR.
+ * `refreshKey` re-fetches when the page's snapshot moves.
+ */
+export default function EquityCurve({ refreshKey }: { refreshKey?: string | null }) {
+  const { isDark } = useTheme();
+  const [points, setPoints] = useState<AccountHistoryPoint[] | null>(null);
+  const [flowsTracked, setFlowsTracked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<Range>('1Y');
+  const [view, setView] = useState<View>('equity');
+
+  useEffect(() => {
+    let cancelled = false;
+    getAccountHistory()
+      .then(d => {
+        if (cancelled) return;
+        setPoints(d.points);
+        setFlowsTracked(d.flows_tracked);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const curve = useMemo(() => {
+    if (!points) return null;
+    const cutoff = rangeStart(range, new Date());
+    return buildEquityCurve(points.filter(p => new Date(p.captured_at).getTime() >= cutoff));
+  }, [points, range]);
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 mb-1">
+          <AlertTriangle className="w-4 h-4" />
+          <span className="font-medium">Equity history unavailable</span>
+        </div>
+        <div className="text-xs">{error}</div>
+      </div>
+    );
+  }
+
+  if (points == null) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        Loading equity history…
+      </div>
+    );
+  }
+
+  const axisColor = isDark ? '#a1a1aa' : '#6B7280';
+  const gridColor = isDark ? '#27272a' : '#E5E7EB';
+  const stats = curve?.stats;
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <LineChartIcon className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Equity Curve</h3>
+        {curve && <span className="text-sm text-gray-400">{curve.series.length} points over {curve.stats.days} days</span>}
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Segmented options={VIEWS} value={view} onChange={setView} />
+          <Segmented options={RANGES.map(r => ({ value: r, label: r }))} value={range} onChange={setRange} />
+        </div>
+      </div>
+
+      {!curve || !stats ? (
+        <div className="p-6 text-sm text-gray-500">
+          {points.length < 2
+            ? 'Not enough history yet — a point is recorded on every position sync that includes the account summary.'
+            : 'Not enough history in this range.'}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+            <div>
+              <div className="text-xs text-gray-500">Equity</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(stats.endEquity)}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">from {formatCurrency(stats.startEquity)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Net deposits</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">
+                {flowsTracked ? formatCurrency(stats.netFlows) : 'Not tracked'}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">{flowsTracked ? 'Investment gain' : 'Equity change'}</div>
+              <div className={`font-medium ${getGainColor(stats.investmentGain)}`}>{formatCurrency(stats.investmentGain)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">{flowsTracked ? 'Time-weighted' : 'Return'}</div>
+              <div className={`font-medium ${getGainColor(stats.twrPct)}`}>{signedPct(stats.twrPct)}</div>
+              {stats.twrAnnualPct != null && (
+                <div className="text-xs text-gray-500 dark:text-gray-400">{signedPct(stats.twrAnnualPct)} / yr</div>
+              )}
+            </div>
+            {flowsTracked && (
+              <div>
+                <div className="text-xs text-gray-500">Money-weighted</div>
+                <div className={`font-medium ${getGainColor(stats.mwrPct)}`}>{signedPct(stats.mwrPct)}</div>
+                {stats.mwrAnnualPct != null && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{signedPct(stats.mwrAnnualPct)} / yr</div>
+                )}
+              </div>
+            )}
+            <div>
+              <div className="text-xs text-gray-500">Max drawdown</div>
+              <div className="font-medium text-red-600">{stats.maxDrawdownPct.toFixed(2)}%</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">now {stats.currentDrawdownPct.toFixed(2)}%</div>
+            </div>
+          </div>
+
+          {!flowsTracked && (
+            <div className="flex items-start gap-2 px-4 py-2 border-b border-gray-200 dark:border-zinc-700 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-700 dark:text-amber-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                No deposits or withdrawals recorded yet — snapshot-refresh pulls them from Robinhood. Until it does,
+                the change above counts any cash moved in or out as performance.
+              </span>
+            </div>
+          )}
+
+          <div className="p-4 border-b border-gray-200 dark:border-zinc-700">
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={curve.series} margin={{ top: 10, right: 10, bottom: 5, left: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 11, fill: axisColor }}
+                  axisLine={{ stroke: gridColor }}
+                  tickLine={{ stroke: gridColor }}
+                  interval={Math.max(0, Math.floor(curve.series.length / 8) - 1)}
+                />
+                <YAxis
+                  tickFormatter={(v: number) => (view === 'equity' ? formatCurrency(v) : `${v.toFixed(0)}%`)}
+                  tick={{ fontSize: 11, fill: axisColor }}
+                  axisLine={{ stroke: gridColor }}
+                  tickLine={{ stroke: gridColor }}
+                  width={80}
+                />
+                <Tooltip
+                  formatter={(v: number) => (view === 'equity' ? formatCurrency(v) : `${v.toFixed(2)}%`)}
+                  contentStyle={{ backgroundColor: isDark ? '#18181b' : '#ffffff', borderColor: gridColor }}
+                />
+                <Legend />
+                {view === 'equity' && (
+                  <Line type="monotone" dataKey="equity" name="Equity" stroke="#10b981" dot={false} strokeWidth={2} />
+                )}
+                {view === 'equity' && (
+                  <Line type="stepAfter" dataKey="contributions" name="Net contributions" stroke={axisColor} dot={false} strokeDasharray="4 4" />
+                )}
+                {view === 'growth' && (
+                  <Line type="monotone" dataKey="growthPct" name="Time-weighted return" stroke="#3B82F6" dot={false} strokeWidth={2} />
+                )}
+                {view === 'drawdown' && (
+                  <Area type="monotone" dataKey="drawdownPct" name="Drawdown" stroke="#EF4444" fill="#EF4444" fillOpacity={0.2} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {curve.drawdowns.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-zinc-800">
+                  <tr>
+                    {['Peak', 'Trough', 'Recovered', 'Depth', 'Days'].map(h => (
+                      <th key={h} className={`${TH} ${['Depth', 'Days'].includes(h) ? 'text-right' : 'text-left'}`}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+                  {curve.drawdowns.slice(0, 5).map((d, i) => (
+                    <tr key={d.peakDate} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                      <td className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100">{d.peakDate}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{d.troughDate}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{d.recoveryDate ?? 'Not yet'}</td>
+                      <td className="px-4 py-2 text-right text-sm font-medium text-red-600">{d.depthPct.toFixed(2)}%</td>
+                      <td className="px-4 py-2 text-right text-sm text-gray-500 dark:text-gray-400">{d.days}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
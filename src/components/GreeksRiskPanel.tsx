@@ -0,0 +1,123 @@
+import { Sigma } from 'lucide-react';
+import {
+  formatCurrency,
+  getGainColor,
+  OptionPosition,
+  SnapshotPosition,
+} from '../services/robinhoodService';
+import { aggregateGreeks, SPOT_SHOCKS } from '../utils/optionGreeks';
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+/**
+ * Book-level Greeks per underlying (stock shares count as delta) and a
+ * delta-gamma spot-shock ladder. Client-side aggregation of the snapshot's
+ * per-contract Greeks.
+ */
+export default function GreeksRiskPanel({ options, positions }: {
+  options: OptionPosition[];
+  positions: SnapshotPosition[];
+}) {
+  const { underlyings, total, ladder } = aggregateGreeks(options, positions);
+  // Only names the options book touches — stock-only holdings are plain delta
+  const rows = underlyings.filter(u => u.option_count > 0);
+  if (!rows.length) return null;
+  const missing = rows.reduce((s, u) => s + u.missing_greeks, 0);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex items-center gap-2">
+        <Sigma className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Portfolio Greeks</h3>
+        <span className="text-sm text-gray-400 ml-auto">incl. stock delta</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        {([
+          ['Delta $',       total.delta_usd],
+          ['Gamma $ / 1%',  total.gamma_usd_1pct],
+          ['Vega / vol pt', total.vega_usd],
+          ['Theta / day',   total.theta_usd],
+        ] as const).map(([label, val]) => (
+          <div key={label}>
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className={`font-medium ${getGainColor(val)}`}>{formatCurrency(val)}</div>
+          </div>
+        ))}
+      </div>
+
+      {missing > 0 && (
+        <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900">
+          {missing} contract{missing === 1 ? ' has' : 's have'} no Greeks in the snapshot and {missing === 1 ? 'is' : 'are'} excluded.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Underlying', 'Spot', 'Δ Shares', 'Δ $', 'Γ Shares/$', 'Γ $/1%', 'Vega', 'Theta'].map(h => (
+                <th key={h} className={`${TH} ${h === 'Underlying' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {rows.map((u, i) => (
+              <tr key={u.symbol} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">
+                  {u.symbol}
+                  {u.stock_shares !== 0 && <span className="ml-1 text-xs text-gray-400">+{u.stock_shares} sh</span>}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{u.spot != null ? formatCurrency(u.spot) : '—'}</td>
+                <td className="px-4 py-2 text-right font-mono text-sm text-gray-900 dark:text-gray-100">{u.delta_shares.toFixed(1)}</td>
+                <td className={`px-4 py-2 text-right ${getGainColor(u.delta_usd)}`}>{formatCurrency(u.delta_usd)}</td>
+                <td className="px-4 py-2 text-right font-mono text-sm text-gray-900 dark:text-gray-100">{u.gamma_shares.toFixed(2)}</td>
+                <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{formatCurrency(u.gamma_usd_1pct)}</td>
+                <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{formatCurrency(u.vega_usd)}</td>
+                <td className={`px-4 py-2 text-right ${getGainColor(u.theta_usd)}`}>{formatCurrency(u.theta_usd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-4 py-3 border-t border-gray-200 dark:border-zinc-700">
+        <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+          Spot-shock ladder (delta-gamma estimate, all holdings)
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-xs text-gray-500">Underlying</th>
+                {SPOT_SHOCKS.map(s => (
+                  <th key={s} className="px-2 py-1 text-right text-xs text-gray-500">{s > 0 ? `+${s}` : s}%</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {underlyings.map(u => (
+                <tr key={u.symbol}>
+                  <td className="px-2 py-1 text-gray-700 dark:text-gray-300">{u.symbol}</td>
+                  {ladder.map(r => (
+                    <td key={r.shock_pct} className={`px-2 py-1 text-right font-mono text-xs ${getGainColor(r.by_symbol[u.symbol])}`}>
+                      {formatCurrency(r.by_symbol[u.symbol])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t border-gray-200 dark:border-zinc-700 font-medium">
+                <td className="px-2 py-1 text-gray-900 dark:text-gray-100">Book</td>
+                {ladder.map(r => (
+                  <td key={r.shock_pct} className={`px-2 py-1 text-right font-mono text-xs ${getGainColor(r.total)}`}>
+                    {formatCurrency(r.total)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState, type CSSProperties } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { useTheme } from '../contexts/ThemeContext';
+import type { OptionsChainBlob } from '../services/blobDataService';
+import {
+  DELTA_BUCKETS,
+  latestSurface,
+  previousSurface,
+  diffSurface,
+  type ExpirySlice,
+} from '../utils/ivSurface';
+
+type SurfaceView = 'level' | 'change';
+
+const fmtVol = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+const fmtPts = (v: number | null) => (v != null ? `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}` : '—');
+const ptsColor = (v: number | null) =>
+  v == null || Math.abs(v) < 0.0005 ? 'text-gray-500 dark:text-gray-400' : v > 0 ? 'text-green-600' : 'text-red-500';
+
+/** Cell tint: blue by IV level, green/red by change, scaled to the largest value shown. */
+function cellStyle(v: number | null, view: SurfaceView, lo: number, hi: number): CSSProperties | undefined {
+  if (v == null) return undefined;
+  if (view === 'level') {
+    const t = hi > lo ? (v - lo) / (hi - lo) : 0.5;
+    return { backgroundColor: `rgba(59, 130, 246, ${(0.08 + t * 0.5).toFixed(2)})` };
+  }
+  const t = hi > 0 ? Math.min(1, Math.abs(v) / hi) : 0;
+  const rgb = v >= 0 ? '22, 163, 74' : '239, 68, 68';
+  return { backgroundColor: `rgba(${rgb}, ${(t * 0.45).toFixed(2)})` };
+}
+
+/**
+ * IV surface for every expiry in the chain (delta × DTE), the ATM term
+ * structure and per-expiry 25Δ risk reversal / butterfly. When the blob has
+ * an earlier `history` entry, each view can be compared against it.
+ */
+export default function IVSurface({ blob }: { blob: OptionsChainBlob }) {
+  const { isDark } = useTheme();
+  const [view, setView] = useState<SurfaceView>('level');
+
+  const current = useMemo(() => latestSurface(blob), [blob]);
+  const previous = useMemo(() => previousSurface(blob), [blob]);
+  const changes = useMemo(
+    () => (previous ? diffSurface(current, previous.slices) : []),
+    [current, previous],
+  );
+  const changeByExpiry = useMemo(() => new Map(changes.map((c) => [c.expiry, c])), [changes]);
+
+  const activeView: SurfaceView = previous ? view : 'level';
+  const grid: ExpirySlice[] = activeView === 'level' ? current : changes;
+
+  const [lo, hi] = useMemo(() => {
+    const values = grid.flatMap((s) => DELTA_BUCKETS.map((b) => s.iv[b.id])).filter((v): v is number => v != null);
+    if (values.length === 0) return [0, 0];
+    return activeView === 'level'
+      ? [Math.min(...values), Math.max(...values)]
+      : [0, Math.max(...values.map(Math.abs))];
+  }, [grid, activeView]);
+
+  const termStructure = useMemo(() => {
+    const prevByExpiry = new Map((previous?.slices ?? []).map((s) => [s.expiry, s]));
+    return current
+      .filter((s) => s.iv.ATM != null)
+      .map((s) => {
+        const prevAtm = prevByExpiry.get(s.expiry)?.iv.ATM;
+        return {
+          dte: s.dte,
+          expiry: s.expiry,
+          current: s.iv.ATM! * 100,
+          previous: prevAtm != null ? prevAtm * 100 : undefined,
+        };
+      });
+  }, [current, previous]);
+
+  if (current.length === 0) return null;
+
+  const axisColor = '#a1a1aa';
+  const gridColor = isDark ? '#27272a' : '#e5e7eb';
+  const tooltipStyle = {
+    backgroundColor: isDark ? '#09090b' : '#ffffff',
+    border: `1px solid ${isDark ? '#27272a' : '#e5e7eb'}`,
+    borderRadius: '0.5rem',
+    color: isDark ? '#ffffff' : '#111827',
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Surface grid */}
+      <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Implied Volatility Surface</h4>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              IV by delta and days to expiry
+              {previous && activeView === 'change' && ` — change since ${new Date(previous.timestamp).toLocaleString()}`}
+            </p>
+          </div>
+          {previous && (
+            <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+              {(['level', 'change'] as const).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                    activeView === v
+                      ? 'bg-white dark:bg-zinc-900 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {v === 'level' ? 'Level' : 'Change'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-100 dark:border-zinc-900 text-gray-500 dark:text-gray-400">
+                <th className="px-3 py-2 text-left font-medium">Expiry</th>
+                <th className="px-3 py-2 text-right font-medium">DTE</th>
+                {DELTA_BUCKETS.map((b) => (
+                  <th key={b.id} className="px-3 py-2 text-right font-medium">{b.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {grid.map((s) => (
+                <tr key={s.expiry} className="border-b border-gray-50 dark:border-zinc-900/50">
+                  <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400">{s.expiry}</td>
+                  <td className="px-3 py-1.5 text-right text-gray-600 dark:text-gray-400">{s.dte}</td>
+                  {DELTA_BUCKETS.map((b) => {
+                    const v = s.iv[b.id];
+                    return (
+                      <td
+                        key={b.id}
+                        style={cellStyle(v, activeView, lo, hi)}
+                        className="px-3 py-1.5 text-right text-gray-900 dark:text-white"
+                      >
+                        {activeView === 'level' ? fmtVol(v) : fmtPts(v)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ATM term structure */}
+      <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">ATM Term Structure</h4>
+        <p className="text-xs text-gray-400 dark:text-gray-500 mb-3">
+          ATM IV by days to expiry{previous && ' — dashed line is the previous snapshot'}
+        </p>
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={termStructure}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis
+              dataKey="dte"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(v) => `${v}d`}
+              tick={{ fontSize: 11, fill: axisColor }}
+              axisLine={{ stroke: gridColor }}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickFormatter={(v) => `${v.toFixed(0)}%`}
+              tick={{ fontSize: 11, fill: axisColor }}
+              axisLine={{ stroke: gridColor }}
+              width={50}
+            />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelFormatter={(v) => `${v} DTE`}
+              formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+            />
+            <Legend />
+            <Line type="monotone" dataKey="current" name="Current" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} />
+            {previous && (
+              <Line
+                type="monotone"
+                dataKey="previous"
+                name="Previous"
+                stroke="#a1a1aa"
+                strokeDasharray="4 2"
+                dot={false}
+                connectNulls
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+
+        {/* Skew and convexity per expiry */}
+        <table className="w-full text-xs mt-4">
+          <thead>
+            <tr className="border-b border-gray-100 dark:border-zinc-900 text-gray-500 dark:text-gray-400">
+              <th className="px-3 py-2 text-left font-medium">Expiry</th>
+              <th className="px-3 py-2 text-right font-medium">ATM IV</th>
+              <th className="px-3 py-2 text-right font-medium" title="25Δ call IV − 25Δ put IV">25Δ RR</th>
+              <th className="px-3 py-2 text-right font-medium" title="Mean 25Δ wing IV − ATM IV">25Δ BF</th>
+            </tr>
+          </thead>
+          <tbody>
+            {current.map((s) => {
+              const chg = changeByExpiry.get(s.expiry);
+              return (
+                <tr key={s.expiry} className="border-b border-gray-50 dark:border-zinc-900/50">
+                  <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400">{s.expiry}</td>
+                  {[
+                    { v: s.iv.ATM, d: chg?.iv.ATM ?? null, fmt: fmtVol },
+                    { v: s.rr25, d: chg?.rr25 ?? null, fmt: fmtPts },
+                    { v: s.bf25, d: chg?.bf25 ?? null, fmt: fmtPts },
+                  ].map(({ v, d, fmt }, i) => (
+                    <td key={i} className="px-3 py-1.5 text-right text-gray-900 dark:text-white">
+                      {fmt(v)}
+                      {chg && <span className={`ml-1.5 ${ptsColor(d)}`}>({fmtPts(d)})</span>}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+          RR and BF in vol points{previous && '; bracketed figures are the change vs the previous snapshot'}.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ import {
   type OptionSnapshot,
   type MarketQuote,
 } from '../services/blobDataService';
+import { parseContractSymbol } from '../utils/optionsChain';
+import IVSurface from './IVSurface';
 
 // ── Parsed types for chart data ───────────────────────────
 
@@ -79,22 +81,6 @@ interface FairPriceSummary {
 
 // ── Parse helpers ─────────────────────────────────────────
 
-function parseContractSymbol(sym: string): { underlying: string; expiry: string; type: 'call' | 'put'; strike: number } | null {
-  // OCC format: IWN260418C00205000 → underlying=IWN, expiry=2026-04-18, type=call, strike=205.00
-  const m = sym.match(/^([A-Z]+)(\d{6})([CP])(\d{8})$/);
-  if (!m) return null;
-  const [, underlying, dateStr, cp, strikeStr] = m;
-  const y = 2000 + parseInt(dateStr.slice(0, 2));
-  const mo = dateStr.slice(2, 4);
-  const d = dateStr.slice(4, 6);
-  return {
-    underlying,
-    expiry: `${y}-${mo}-${d}`,
-    type: cp === 'C' ? 'call' : 'put',
-    strike: parseInt(strikeStr) / 1000,
-  };
-}
-
 function extractQuoteTimeSeries(blob: MarketQuotesBlob, symbol: string): QuoteTimePoint[] {
   const points: QuoteTimePoint[] = [];
 
@@ -761,6 +747,9 @@ export default function MarketDepth() {
         </div>
       </div>
 
+      {/* Row 3: IV surface across expiries + term structure */}
+      {optionsBlob && <IVSurface blob={optionsBlob} />}
+
       {/* Greeks Table (collapsible) */}
       <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg">
         <button
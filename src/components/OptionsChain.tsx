@@ -0,0 +1,345 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { RefreshCw, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  listOptionSymbols,
+  listDates,
+  getMarketData,
+  type OptionsChainBlob,
+  type MarketQuotesBlob,
+} from '../services/blobDataService';
+import { buildChain, findAtmStrike, type ChainQuote } from '../utils/optionsChain';
+
+const TH = 'px-3 py-2 text-right font-medium';
+
+const fmtPrice = (n: number | null) => (n != null ? n.toFixed(2) : '—');
+const fmtIv = (n: number | null) => (n != null ? `${(n * 100).toFixed(1)}%` : '—');
+const fmtDelta = (n: number | null) => (n != null ? n.toFixed(2) : '—');
+const fmtOi = (n: number | null) => (n != null ? n.toLocaleString() : '—');
+
+// Calls read outward from the strike, so bid/ask sit next to it on both sides
+const CALL_COLUMNS = ['oi', 'delta', 'iv', 'mid', 'ask', 'bid'] as const;
+const PUT_COLUMNS = ['bid', 'ask', 'mid', 'iv', 'delta', 'oi'] as const;
+type ChainColumn = (typeof PUT_COLUMNS)[number];
+
+const COLUMN_LABEL: Record<ChainColumn, string> = {
+  bid: 'Bid', ask: 'Ask', mid: 'Mid', iv: 'IV', delta: 'Delta', oi: 'OI',
+};
+
+const CELL_COLORS: Record<ChainColumn, string> = {
+  bid: 'text-green-600',
+  ask: 'text-red-500',
+  mid: 'text-gray-900 dark:text-white',
+  iv: 'text-gray-700 dark:text-gray-300',
+  delta: 'text-gray-700 dark:text-gray-300',
+  oi: 'text-gray-500 dark:text-gray-400',
+};
+
+function cellValue(quote: ChainQuote, col: ChainColumn): string {
+  switch (col) {
+    case 'bid': return fmtPrice(quote.bid);
+    case 'ask': return fmtPrice(quote.ask);
+    case 'mid': return fmtPrice(quote.mid);
+    case 'iv': return fmtIv(quote.iv);
+    case 'delta': return fmtDelta(quote.delta);
+    case 'oi': return fmtOi(quote.openInterest);
+  }
+}
+
+function QuoteCells({ quote, side, itm, selected, onSelect }: {
+  quote: ChainQuote | null;
+  side: 'call' | 'put';
+  itm: boolean;
+  selected: string | null;
+  onSelect: (contract: string) => void;
+}) {
+  const columns = side === 'call' ? CALL_COLUMNS : PUT_COLUMNS;
+  const isSelected = quote != null && quote.contract === selected;
+  const bg = isSelected
+    ? 'bg-blue-100 dark:bg-blue-900/40'
+    : itm ? 'bg-gray-50 dark:bg-zinc-900/60' : '';
+  return (
+    <>
+      {columns.map((col) => (
+        <td
+          key={col}
+          onClick={quote ? () => onSelect(quote.contract) : undefined}
+          title={quote?.contract}
+          className={`px-3 py-1.5 text-right ${bg} ${
+            quote ? `${CELL_COLORS[col]} cursor-pointer` : 'text-gray-300 dark:text-zinc-700'
+          }`}
+        >
+          {quote ? cellValue(quote, col) : '—'}
+        </td>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Full options chain from the options-chain blob store: one tab per
+ * expiration, calls and puts side by side by strike, with the at-the-money
+ * strike highlighted. Clicking a contract charts its intraday bars.
+ */
+export default function OptionsChain() {
+  const { isDark } = useTheme();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [symbols, setSymbols] = useState<string[]>([]);
+  const [selectedSymbol, setSelectedSymbol] = useState<string>('');
+  const [availableDates, setAvailableDates] = useState<string[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string>('latest');
+  const [optionsBlob, setOptionsBlob] = useState<OptionsChainBlob | null>(null);
+  const [quotesBlob, setQuotesBlob] = useState<MarketQuotesBlob | null>(null);
+  const [selectedExpiry, setSelectedExpiry] = useState<string | null>(null);
+  const [selectedContract, setSelectedContract] = useState<string | null>(null);
+
+  const axisColor = '#a1a1aa';
+  const gridColor = isDark ? '#27272a' : '#e5e7eb';
+
+  useEffect(() => {
+    let cancelled = false;
+    listOptionSymbols()
+      .then((syms) => {
+        if (cancelled || syms.length === 0) return;
+        setSymbols(syms);
+        setSelectedSymbol(syms[0]);
+      })
+      .catch(() => {
+        // Symbols might not be available yet
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedSymbol) return;
+    let cancelled = false;
+    listDates(selectedSymbol)
+      .then((dates) => {
+        if (cancelled) return;
+        setAvailableDates(dates);
+        setSelectedDate('latest');
+      })
+      .catch(() => {
+        // Dates might not be available
+      });
+    return () => { cancelled = true; };
+  }, [selectedSymbol]);
+
+  useEffect(() => {
+    if (!selectedSymbol) return;
+    let cancelled = false;
+
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { options, quotes } = await getMarketData(
+          selectedSymbol,
+          selectedDate === 'latest' ? undefined : selectedDate,
+        );
+        if (!cancelled) {
+          setOptionsBlob(options);
+          setQuotesBlob(quotes);
+          setSelectedContract(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load options chain');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => { cancelled = true; };
+  }, [selectedSymbol, selectedDate]);
+
+  const chain = useMemo(() => (optionsBlob ? buildChain(optionsBlob.latestChain || {}) : []), [optionsBlob]);
+
+  // Keep the chosen expiry across reloads when it still exists
+  useEffect(() => {
+    if (chain.length === 0) return;
+    if (!selectedExpiry || !chain.some((e) => e.expiry === selectedExpiry)) {
+      setSelectedExpiry(chain[0].expiry);
+    }
+  }, [chain, selectedExpiry]);
+
+  const spot = quotesBlob?.latestQuotes[selectedSymbol]?.mid ?? null;
+  const rows = chain.find((e) => e.expiry === selectedExpiry)?.rows ?? [];
+  const atmStrike = findAtmStrike(rows, spot);
+
+  const bars = useMemo(() => {
+    if (!optionsBlob || !selectedContract) return [];
+    return (optionsBlob.latestBars[selectedContract] ?? [])
+      .map((b) => ({
+        ...b,
+        label: new Date(b.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+      }));
+  }, [optionsBlob, selectedContract]);
+
+  const tooltipStyle = {
+    backgroundColor: isDark ? '#09090b' : '#ffffff',
+    border: `1px solid ${isDark ? '#27272a' : '#e5e7eb'}`,
+    borderRadius: '0.5rem',
+    color: isDark ? '#ffffff' : '#111827',
+  };
+
+  const selectClass =
+    'px-3 py-1.5 bg-white dark:bg-zinc-900 border border-gray-300 dark:border-zinc-700 rounded-md text-sm text-gray-900 dark:text-white';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Underlying</label>
+          <select value={selectedSymbol} onChange={(e) => setSelectedSymbol(e.target.value)} className={selectClass}>
+            {symbols.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+          <select value={selectedDate} onChange={(e) => setSelectedDate(e.target.value)} className={selectClass}>
+            <option value="latest">Latest (end-of-day)</option>
+            {availableDates.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </div>
+        {optionsBlob && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Snapshot: {new Date(optionsBlob.timestamp).toLocaleString()}
+            {spot != null && <> &middot; {selectedSymbol} ${spot.toFixed(2)}</>}
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-3">
+          <RefreshCw className="w-5 h-5 text-gray-400 animate-spin" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading options chain...</p>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : chain.length === 0 ? (
+        <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-8 text-center">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No options chain data{selectedSymbol ? ` for ${selectedSymbol}` : ''}.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Expiration tabs */}
+          <div className="flex flex-wrap bg-gray-100 dark:bg-zinc-800 rounded-xl p-1 gap-1 w-fit">
+            {chain.map((e) => (
+              <button
+                key={e.expiry}
+                onClick={() => setSelectedExpiry(e.expiry)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  e.expiry === selectedExpiry
+                    ? 'bg-white dark:bg-zinc-900 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }`}
+              >
+                {e.expiry}
+              </button>
+            ))}
+          </div>
+
+          {/* Straddle table */}
+          <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg overflow-x-auto">
+            <table className="w-full text-xs table-fixed min-w-[900px]">
+              <thead>
+                <tr className="border-b border-gray-100 dark:border-zinc-900 text-gray-500 dark:text-gray-400">
+                  <th colSpan={6} className="px-3 py-2 text-center font-semibold text-blue-600">Calls</th>
+                  <th className="px-3 py-2 text-center font-medium w-24">Strike</th>
+                  <th colSpan={6} className="px-3 py-2 text-center font-semibold text-orange-500">Puts</th>
+                </tr>
+                <tr className="border-b border-gray-100 dark:border-zinc-900 text-gray-500 dark:text-gray-400">
+                  {CALL_COLUMNS.map((c) => <th key={`c-${c}`} className={TH}>{COLUMN_LABEL[c]}</th>)}
+                  <th className="w-24" />
+                  {PUT_COLUMNS.map((c) => <th key={`p-${c}`} className={TH}>{COLUMN_LABEL[c]}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const isAtm = row.strike === atmStrike;
+                  const itmCall = spot != null && row.strike < spot;
+                  const itmPut = spot != null && row.strike > spot;
+                  return (
+                    <tr
+                      key={row.strike}
+                      className={`border-b border-gray-50 dark:border-zinc-900/50 hover:bg-gray-50 dark:hover:bg-zinc-900/50 ${
+                        isAtm ? 'bg-amber-50 dark:bg-amber-950/30' : ''
+                      }`}
+                    >
+                      <QuoteCells quote={row.call} side="call" itm={itmCall && !isAtm} selected={selectedContract} onSelect={setSelectedContract} />
+                      <td className={`px-3 py-1.5 text-center font-semibold ${
+                        isAtm ? 'text-amber-700 dark:text-amber-400' : 'text-gray-900 dark:text-white'
+                      }`}>
+                        {row.strike.toFixed(2)}
+                        {isAtm && <span className="ml-1 text-[10px] font-medium">ATM</span>}
+                      </td>
+                      <QuoteCells quote={row.put} side="put" itm={itmPut && !isAtm} selected={selectedContract} onSelect={setSelectedContract} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Contract price history */}
+          {selectedContract && (
+            <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <span className="font-mono">{selectedContract}</span> — Price History
+                </h4>
+                <button
+                  onClick={() => setSelectedContract(null)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title="Close"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {bars.length > 0 ? (
+                <ResponsiveContainer width="100%" height={280}>
+                  <ComposedChart data={bars}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                    <XAxis dataKey="label" tick={{ fill: axisColor, fontSize: 11 }} />
+                    <YAxis yAxisId="price" tick={{ fill: axisColor, fontSize: 11 }} domain={['auto', 'auto']} />
+                    <YAxis yAxisId="volume" orientation="right" tick={{ fill: axisColor, fontSize: 11 }} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                    <Bar yAxisId="volume" dataKey="volume" name="Volume" fill={isDark ? '#3f3f46' : '#e5e7eb'} />
+                    <Line yAxisId="price" type="monotone" dataKey="close" name="Close" stroke="#3b82f6" dot={false} strokeWidth={2} />
+                    <Line yAxisId="price" type="monotone" dataKey="vwap" name="VWAP" stroke="#f59e0b" dot={false} strokeDasharray="4 2" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+                  No bars recorded for this contract in the snapshot.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { Send, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import {
+  stageTicketOrder,
+  recordTicketDryRun,
+  EnrichedSnapshot,
+  SnapshotOrder,
+  formatCurrency,
+} from '../services/robinhoodService';
+import {
+  buildOrderIntent,
+  intentToBotEvent,
+  validateOrderTicket,
+  OrderSide,
+  OrderTicket as Ticket,
+  TicketKind,
+  TimeInForce,
+  TICKET_KINDS,
+  TIME_IN_FORCE,
+} from '../utils/orderTicket';
+
+const INPUT_CLASS =
+  'w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100';
+const LABEL_CLASS = 'block text-xs text-gray-500 dark:text-gray-400 mb-1';
+const TICKET_KEY_STORAGE = 'order-ticket-key';
+
+function parseNum(v: string): number | null {
+  if (!v.trim()) return null;
+  const n = parseFloat(v);
+  return Number.isNaN(n) ? null : n;
+}
+
+/** Current price for a symbol: held position first, then the engine's market data. */
+function referencePriceFor(snapshot: EnrichedSnapshot, symbol: string): number | null {
+  const pos = snapshot.portfolio.positions.find(p => p.symbol === symbol);
+  if (pos && pos.current_price > 0) return pos.current_price;
+  const md = snapshot.market_data?.symbols[symbol]?.metrics.current_price;
+  return md != null && md > 0 ? md : null;
+}
+
+export default function OrderTicket({ snapshot, openOrders, onSubmitted }: {
+  snapshot: EnrichedSnapshot;
+  /** Working orders (DB overlay when available) — sells here reduce available shares */
+  openOrders: SnapshotOrder[];
+  onSubmitted?: () => void;
+}) {
+  const { portfolio } = snapshot;
+  const [symbol,     setSymbol]     = useState(portfolio.positions[0]?.symbol ?? '');
+  const [side,       setSide]       = useState<OrderSide>('SELL');
+  const [kind,       setKind]       = useState<TicketKind>('trailing_stop');
+  const [quantity,   setQuantity]   = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice,  setStopPrice]  = useState('');
+  const [trailPct,   setTrailPct]   = useState('5');
+  const [tif,        setTif]        = useState<TimeInForce>('gtc');
+  const [dryRun,     setDryRun]     = useState(true);
+  // Kept for the tab's session only, so the key is typed once, not stored on disk
+  const [ticketKey,  setTicketKey]  = useState(() => sessionStorage.getItem(TICKET_KEY_STORAGE) ?? '');
+  const [submitting, setSubmitting] = useState(false);
+  const [result,     setResult]     = useState<{ ok: boolean; message: string } | null>(null);
+
+  const normalizedSymbol = symbol.trim().toUpperCase();
+  const referencePrice = referencePriceFor(snapshot, normalizedSymbol);
+
+  const ticket: Ticket = {
+    symbol: normalizedSymbol,
+    side,
+    kind,
+    quantity: parseNum(quantity) ?? 0,
+    limitPrice: parseNum(limitPrice),
+    stopPrice: parseNum(stopPrice),
+    trailPercent: parseNum(trailPct),
+    timeInForce: tif,
+  };
+
+  const validation = validateOrderTicket(ticket, portfolio, openOrders, referencePrice);
+  // Rebuilt every render — the order_id is only minted for real on submit
+  const preview = buildOrderIntent(ticket, referencePrice);
+
+  const handleSubmit = async () => {
+    if (validation.errors.length) return;
+    setSubmitting(true);
+    setResult(null);
+    const intent = buildOrderIntent(ticket, referencePrice);
+    try {
+      if (dryRun) {
+        await recordTicketDryRun(intentToBotEvent(intent));
+        setResult({ ok: true, message: `Dry run recorded in bot activity (${intent.order_id})` });
+      } else {
+        sessionStorage.setItem(TICKET_KEY_STORAGE, ticketKey);
+        await stageTicketOrder(intent, ticketKey);
+        setResult({ ok: true, message: `Pending order ${intent.order_id} staged for the engine` });
+      }
+      setQuantity('');
+      onSubmitted?.();
+    } catch (err) {
+      setResult({ ok: false, message: err instanceof Error ? err.message : 'Failed to submit order' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex items-center gap-2">
+        <Send className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Order Ticket</h3>
+        <span className="ml-auto text-xs text-gray-400">
+          Buying power {formatCurrency(portfolio.cash.buying_power)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={LABEL_CLASS} htmlFor="ticket-symbol">Symbol</label>
+            <input
+              id="ticket-symbol"
+              list="ticket-symbols"
+              value={symbol}
+              onChange={e => setSymbol(e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <datalist id="ticket-symbols">
+              {portfolio.positions.map(p => <option key={p.symbol} value={p.symbol} />)}
+            </datalist>
+          </div>
+
+          <div>
+            <span className={LABEL_CLASS}>Side</span>
+            <div className="flex bg-gray-100 dark:bg-zinc-800 rounded p-0.5">
+              {(['BUY', 'SELL'] as const).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSide(s)}
+                  className={`flex-1 px-2 py-1 text-xs font-medium rounded ${
+                    side === s
+                      ? 'bg-white dark:bg-zinc-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                      : 'text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS} htmlFor="ticket-kind">Order type</label>
+            <select id="ticket-kind" value={kind} onChange={e => setKind(e.target.value as TicketKind)} className={INPUT_CLASS}>
+              {TICKET_KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS} htmlFor="ticket-qty">
+              Quantity{side === 'SELL' && normalizedSymbol ? ` (avail. ${validation.availableToSell})` : ''}
+            </label>
+            <input id="ticket-qty" type="number" min="0" step="any" value={quantity} onChange={e => setQuantity(e.target.value)} className={INPUT_CLASS} />
+          </div>
+
+          {kind === 'limit' && (
+            <div>
+              <label className={LABEL_CLASS} htmlFor="ticket-limit">Limit price</label>
+              <input id="ticket-limit" type="number" min="0" step="0.01" value={limitPrice} onChange={e => setLimitPrice(e.target.value)} className={INPUT_CLASS} />
+            </div>
+          )}
+          {kind === 'stop' && (
+            <div>
+              <label className={LABEL_CLASS} htmlFor="ticket-stop">Stop price</label>
+              <input id="ticket-stop" type="number" min="0" step="0.01" value={stopPrice} onChange={e => setStopPrice(e.target.value)} className={INPUT_CLASS} />
+            </div>
+          )}
+          {kind === 'trailing_stop' && (
+            <div>
+              <label className={LABEL_CLASS} htmlFor="ticket-trail">Trail %</label>
+              <input id="ticket-trail" type="number" min="0" max="100" step="0.1" value={trailPct} onChange={e => setTrailPct(e.target.value)} className={INPUT_CLASS} />
+            </div>
+          )}
+
+          <div>
+            <label className={LABEL_CLASS} htmlFor="ticket-tif">Time in force</label>
+            <select id="ticket-tif" value={tif} onChange={e => setTif(e.target.value as TimeInForce)} className={INPUT_CLASS}>
+              {TIME_IN_FORCE.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+          </div>
+
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={dryRun} onChange={e => setDryRun(e.target.checked)} />
+            Dry run — record as bot activity instead of staging an order
+          </label>
+
+          {!dryRun && (
+            <div className="col-span-2">
+              <label className={LABEL_CLASS} htmlFor="ticket-key">Ticket key</label>
+              <input
+                id="ticket-key"
+                type="password"
+                autoComplete="off"
+                value={ticketKey}
+                onChange={e => setTicketKey(e.target.value)}
+                placeholder="ORDER_TICKET_SECRET"
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="bg-gray-50 dark:bg-zinc-800 rounded p-3 text-sm">
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 uppercase tracking-wider">Preview</div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              <dt className="text-gray-500 dark:text-gray-400">Order</dt>
+              <dd className="text-gray-900 dark:text-gray-100 text-right">
+                {preview.side} {preview.quantity || 0} {preview.symbol || '—'}
+              </dd>
+              <dt className="text-gray-500 dark:text-gray-400">Type / trigger</dt>
+              <dd className="text-gray-900 dark:text-gray-100 text-right">{preview.order_type} / {preview.trigger}</dd>
+              {preview.limit_price > 0 && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Limit</dt>
+                  <dd className="text-gray-900 dark:text-gray-100 text-right">{formatCurrency(preview.limit_price)}</dd>
+                </>
+              )}
+              {preview.stop_price != null && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Stop{preview.trailing_peg ? ` (trail ${preview.trailing_peg.percentage}%)` : ''}</dt>
+                  <dd className="text-gray-900 dark:text-gray-100 text-right">{formatCurrency(preview.stop_price)}</dd>
+                </>
+              )}
+              <dt className="text-gray-500 dark:text-gray-400">Current price</dt>
+              <dd className="text-gray-900 dark:text-gray-100 text-right">{referencePrice != null ? formatCurrency(referencePrice) : '—'}</dd>
+              <dt className="text-gray-500 dark:text-gray-400">Est. notional</dt>
+              <dd className="text-gray-900 dark:text-gray-100 text-right">{formatCurrency(validation.estimatedNotional)}</dd>
+              <dt className="text-gray-500 dark:text-gray-400">Time in force</dt>
+              <dd className="text-gray-900 dark:text-gray-100 text-right">{preview.time_in_force.toUpperCase()}</dd>
+            </dl>
+          </div>
+
+          {validation.errors.map(e => (
+            <div key={e} className="flex items-start gap-2 text-xs text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 flex-shrink-0" />{e}
+            </div>
+          ))}
+          {validation.warnings.map(w => (
+            <div key={w} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />{w}
+            </div>
+          ))}
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || validation.errors.length > 0 || (!dryRun && !ticketKey)}
+            className="w-full px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 rounded hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50 text-sm"
+          >
+            {submitting ? 'Submitting…' : dryRun ? 'Record dry run' : 'Stage pending order'}
+          </button>
+
+          {result && (
+            <div className={`flex items-start gap-2 text-xs ${result.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {result.ok ? <CheckCircle className="w-4 h-4 flex-shrink-0" /> : <XCircle className="w-4 h-4 flex-shrink-0" />}
+              {result.message}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
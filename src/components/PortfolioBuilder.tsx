@@ -0,0 +1,123 @@
+import { REBALANCE_MODES, RebalanceMode } from '../utils/portfolioCalculations';
+
+interface BuilderAsset {
+  symbol: string;
+  displayName: string;
+  color: string;
+}
+
+interface PortfolioBuilderProps {
+  assets: BuilderAsset[];
+  enabled: boolean;
+  onToggle: () => void;
+  weights: Record<string, number>;
+  onWeightChange: (symbol: string, value: number) => void;
+  onReset: () => void;
+  rebalance: RebalanceMode;
+  onRebalanceChange: (mode: RebalanceMode) => void;
+  thresholdPct: number;
+  onThresholdChange: (value: number) => void;
+  rebalances: number | null;
+}
+
+// Target weights (in %) for the enabled assets plus the rebalancing schedule.
+// Weights don't have to add to 100 — they are normalized when simulating.
+export function PortfolioBuilder({
+  assets,
+  enabled,
+  onToggle,
+  weights,
+  onWeightChange,
+  onReset,
+  rebalance,
+  onRebalanceChange,
+  thresholdPct,
+  onThresholdChange,
+  rebalances,
+}: PortfolioBuilderProps) {
+  const total = assets.reduce((sum, a) => sum + Math.max(weights[a.symbol] ?? 0, 0), 0);
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300">Portfolio Builder</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={onToggle} />
+          Plot blended portfolio
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+            {assets.map((asset) => (
+              <div key={asset.symbol} className="flex items-center gap-3">
+                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: asset.color }} />
+                <label className="text-sm text-gray-600 dark:text-gray-400 w-24">
+                  {asset.displayName}{' '}
+                  <span className="text-xs font-mono text-gray-400 dark:text-gray-500">{asset.symbol}</span>
+                </label>
+                <div className="relative flex-1">
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={weights[asset.symbol] ?? ''}
+                    onChange={(e) => onWeightChange(asset.symbol, parseFloat(e.target.value) || 0)}
+                    placeholder="0"
+                    className="w-full px-3 py-2 pr-8 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-zinc-900 text-gray-900 dark:text-white focus:ring-1 focus:ring-gray-900 dark:focus:ring-gray-400 focus:border-gray-900 dark:focus:border-gray-400 outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500 text-sm">
+                    %
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="flex gap-1 bg-gray-100 dark:bg-zinc-900 p-1 rounded-lg">
+              {REBALANCE_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  onClick={() => onRebalanceChange(mode.value)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition-colors whitespace-nowrap ${
+                    rebalance === mode.value
+                      ? 'bg-white dark:bg-zinc-800 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {rebalance === 'threshold' && (
+              <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                Band ±
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0.5"
+                  value={thresholdPct}
+                  onChange={(e) => onThresholdChange(Math.max(parseFloat(e.target.value) || 0, 0.5))}
+                  className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-zinc-900 text-gray-900 dark:text-white outline-none"
+                />
+                pts
+              </label>
+            )}
+            <span className="text-gray-500 dark:text-gray-400">
+              {total > 0 ? `Weights total ${total.toFixed(0)}% (normalized to 100%)` : 'No weights set — equal weight'}
+              {rebalances !== null && ` · ${rebalances} rebalance${rebalances === 1 ? '' : 's'}`}
+            </span>
+            <button
+              onClick={onReset}
+              className="ml-auto text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Reset to equal weight
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, BellRing, Plus, Trash2, Slack } from 'lucide-react';
+import {
+  getQuotes,
+  PORTFOLIO_ASSETS,
+  BitcoinQuote,
+  Quote,
+} from '../services/twelveDataService';
+import { getMarketIndicators, MarketIndicatorData } from '../services/marketIndicatorService';
+import { sendSlackAlert } from '../services/alertService';
+import {
+  evaluateUserAlerts,
+  describeRule,
+  needsIndicators,
+  readMetric,
+  METRIC_LABEL,
+  VOL_REGIMES,
+  RuleStates,
+  UserAlertFiring,
+  UserAlertMetric,
+  UserAlertOp,
+  UserAlertRule,
+  VolWindowLabel,
+} from '../utils/userAlerts';
+
+const RULES_KEY = 'userAlertRules';
+const STATES_KEY = 'userAlertStates';
+const HISTORY_KEY = 'userAlertHistory';
+const MAX_HISTORY = 100;
+// Indicators are built from daily/weekly bars — no need to pull them every poll
+const INDICATOR_REFRESH_MS = 15 * 60_000;
+const VOL_WINDOWS: VolWindowLabel[] = ['30d', '60d', '90d', '1Y'];
+
+const INPUT = 'px-2 py-1.5 border border-gray-300 dark:border-zinc-700 rounded text-sm bg-white dark:bg-zinc-900 text-gray-900 dark:text-gray-100';
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function save(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota / private mode — alerts still work for this session
+  }
+}
+
+// Metric <select> values: the metric kind, or quote:SYMBOL
+function metricFromKey(key: string, window: VolWindowLabel): UserAlertMetric {
+  if (key.startsWith('quote:')) return { kind: 'quote', symbol: key.slice(6) };
+  if (key === 'vol_regime') return { kind: 'vol_regime', window };
+  return { kind: key as 'btc_price' | 'btc_change_pct' | 'iv_zscore' | 'ma_ratio' };
+}
+
+function notify(firing: UserAlertFiring) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification('Price alert', { body: `${firing.description} (now ${firing.observed})`, tag: firing.ruleId });
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+  }
+}
+
+const formatObserved = (v: number | string | null) =>
+  v == null ? '—' : typeof v === 'number' ? v.toLocaleString('en-US', { maximumFractionDigits: 2 }) : v;
+
+/**
+ * Conditions over the BTC quote, market indicators and PORTFOLIO_ASSETS
+ * quotes, evaluated each time the Dashboard polls (`updatedAt`). Fired
+ * alerts go to browser notifications, the history below, and optionally
+ * Slack.
+ */
+export default function PriceAlerts({ btcQuote, updatedAt }: { btcQuote: BitcoinQuote | null; updatedAt: Date | null }) {
+  const [rules, setRules] = useState<UserAlertRule[]>(() => load(RULES_KEY, []));
+  const [history, setHistory] = useState<UserAlertFiring[]>(() => load(HISTORY_KEY, []));
+  const [indicators, setIndicators] = useState<MarketIndicatorData | null>(null);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [permission, setPermission] = useState(() => (typeof Notification === 'undefined' ? 'denied' : Notification.permission));
+
+  const [metricKey, setMetricKey] = useState('btc_price');
+  const [volWindow, setVolWindow] = useState<VolWindowLabel>('30d');
+  const [op, setOp] = useState<UserAlertOp>('above');
+  const [value, setValue] = useState('');
+  const [slack, setSlack] = useState(false);
+
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const indicatorsAt = useRef(0);
+
+  useEffect(() => { save(RULES_KEY, rules); }, [rules]);
+
+  // One evaluation per Dashboard poll
+  useEffect(() => {
+    if (!updatedAt) return;
+    let cancelled = false;
+    (async () => {
+      const active = rulesRef.current.filter(r => r.enabled);
+      if (active.length === 0) return;
+
+      let ind = indicators;
+      if (active.some(r => needsIndicators(r.metric)) && Date.now() - indicatorsAt.current > INDICATOR_REFRESH_MS) {
+        try {
+          ind = await getMarketIndicators();
+          indicatorsAt.current = Date.now();
+          if (!cancelled) setIndicators(ind);
+        } catch {
+          // Keep the last indicators; rules on them hold their state
+        }
+      }
+      const symbols = [...new Set(active.flatMap(r => (r.metric.kind === 'quote' ? [r.metric.symbol] : [])))];
+      const q = symbols.length > 0 ? await getQuotes(symbols) : {};
+      if (cancelled) return;
+      setQuotes(q);
+
+      const { fired, states } = evaluateUserAlerts(
+        rulesRef.current,
+        { btc: btcQuote, indicators: ind, quotes: q },
+        load<RuleStates>(STATES_KEY, {}),
+        Date.now(),
+      );
+      save(STATES_KEY, states);
+      if (fired.length === 0) return;
+
+      setHistory(prev => {
+        const next = [...fired, ...prev].slice(0, MAX_HISTORY);
+        save(HISTORY_KEY, next);
+        return next;
+      });
+      for (const f of fired) {
+        notify(f);
+        if (rulesRef.current.find(r => r.id === f.ruleId)?.slack) {
+          sendSlackAlert({
+            source: 'Price alert',
+            message: `${f.description} — now ${formatObserved(f.observed)}`,
+            severity: 'warning',
+            // Edge-triggered already; this only guards against two open tabs
+            dedupKey: `user:${f.ruleId}:${f.at.slice(0, 16)}`,
+            cooldownS: 120,
+          }).catch(err => console.error('Slack alert failed:', err));
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [updatedAt]);
+
+  const isRegime = metricKey === 'vol_regime';
+  const canAdd = isRegime ? VOL_REGIMES.includes(value as typeof VOL_REGIMES[number]) : value.trim() !== '' && Number.isFinite(Number(value));
+
+  const addRule = () => {
+    if (!canAdd) return;
+    const rule: UserAlertRule = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      metric: metricFromKey(metricKey, volWindow),
+      op: isRegime ? 'is' : op,
+      value: isRegime ? value : Number(value),
+      enabled: true,
+      slack,
+      createdAt: new Date().toISOString(),
+    };
+    setRules(prev => [...prev, rule]);
+    setValue('');
+  };
+
+  const updateRule = (id: string, patch: Partial<UserAlertRule>) =>
+    setRules(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const requestPermission = () => {
+    if (typeof Notification === 'undefined') return;
+    Notification.requestPermission().then(setPermission);
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800">
+      <div className="flex items-center gap-3 px-6 py-4 border-b border-gray-100 dark:border-zinc-900">
+        <Bell className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Alerts</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{rules.filter(r => r.enabled).length} active</span>
+        {permission === 'default' && (
+          <button onClick={requestPermission} className="ml-auto text-sm text-gray-600 dark:text-gray-300 hover:underline">
+            Enable browser notifications
+          </button>
+        )}
+        {permission === 'denied' && (
+          <span className="ml-auto text-xs text-gray-400 dark:text-zinc-500">Browser notifications blocked</span>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-b border-gray-100 dark:border-zinc-900 flex flex-wrap items-center gap-2">
+        <select
+          value={metricKey}
+          onChange={e => { setMetricKey(e.target.value); setValue(''); }}
+          className={INPUT}
+        >
+          {(['btc_price', 'btc_change_pct', 'iv_zscore', 'ma_ratio', 'vol_regime'] as const).map(k => (
+            <option key={k} value={k}>{METRIC_LABEL[k]}</option>
+          ))}
+          <optgroup label="Quotes">
+            {PORTFOLIO_ASSETS.map(a => <option key={a.symbol} value={`quote:${a.symbol}`}>{a.displayName}</option>)}
+          </optgroup>
+        </select>
+        {isRegime ? (
+          <>
+            <select value={volWindow} onChange={e => setVolWindow(e.target.value as VolWindowLabel)} className={INPUT}>
+              {VOL_WINDOWS.map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">is</span>
+            <select value={value} onChange={e => setValue(e.target.value)} className={INPUT}>
+              <option value="">Regime…</option>
+              {VOL_REGIMES.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </>
+        ) : (
+          <>
+            <select value={op} onChange={e => setOp(e.target.value as UserAlertOp)} className={INPUT}>
+              <option value="above">above</option>
+              <option value="below">below</option>
+            </select>
+            <input
+              type="number"
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addRule()}
+              placeholder="Value"
+              className={`${INPUT} w-32`}
+            />
+          </>
+        )}
+        <label className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400">
+          <input type="checkbox" checked={slack} onChange={e => setSlack(e.target.checked)} />
+          Slack
+        </label>
+        <button
+          onClick={addRule}
+          disabled={!canAdd}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 rounded text-sm hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {rules.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-zinc-900">
+          {rules.map(r => (
+            <li key={r.id} className="px-6 py-2 flex items-center gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={r.enabled}
+                onChange={e => updateRule(r.id, { enabled: e.target.checked })}
+                title={r.enabled ? 'Disable' : 'Enable'}
+              />
+              <span className={`flex-1 ${r.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-zinc-500'}`}>
+                {describeRule(r)}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                now {formatObserved(readMetric(r.metric, { btc: btcQuote, indicators, quotes }))}
+              </span>
+              <button
+                onClick={() => updateRule(r.id, { slack: !r.slack })}
+                className={r.slack ? 'text-gray-900 dark:text-gray-100' : 'text-gray-300 dark:text-zinc-600'}
+                title={r.slack ? 'Slack on' : 'Slack off'}
+              >
+                <Slack className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setRules(prev => prev.filter(x => x.id !== r.id))}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="px-6 py-4 border-t border-gray-100 dark:border-zinc-900">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">History</h3>
+          {history.length > 0 && (
+            <button
+              onClick={() => { setHistory([]); save(HISTORY_KEY, []); }}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-gray-400 dark:text-zinc-500">No alerts have fired yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {history.map(h => (
+              <li key={`${h.ruleId}-${h.at}`} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <BellRing className="w-3 h-3 text-amber-500 flex-shrink-0" />
+                <span className="text-gray-400 dark:text-zinc-500 whitespace-nowrap">{new Date(h.at).toLocaleString()}</span>
+                <span className="text-gray-900 dark:text-gray-100">{h.description}</span>
+                <span>— {formatObserved(h.observed)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
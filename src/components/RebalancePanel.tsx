@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { Scale, Download, Plus } from 'lucide-react';
+import {
+  formatCurrency,
+  getGainColor,
+  EnrichedPortfolio,
+  MarketData,
+  SnapshotOrder,
+} from '../services/robinhoodService';
+import { getQuotes } from '../services/twelveDataService';
+import { LOT_METHODS, LotMethod } from '../utils/lotEngine';
+import { planRebalance, planToOrders } from '../utils/rebalancer';
+
+const TH = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+const INPUT = 'w-20 px-2 py-1 border border-gray-300 dark:border-zinc-600 rounded text-sm bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100';
+const pct = (w: number) => `${(w * 100).toFixed(1)}%`;
+
+function downloadJson(filename: string, body: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(body, null, 2)], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function NumberField({ label, value, step, onChange }: {
+  label: string;
+  value: number;
+  step: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={e => onChange(Math.max(parseFloat(e.target.value) || 0, 0))}
+        className={INPUT}
+      />
+    </label>
+  );
+}
+
+/**
+ * Trade list that moves the stock book to target weights. Targets start at
+ * the optimizer's recommendation (or today's weights) and can be edited per
+ * symbol, or added for a symbol not held yet — priced from the snapshot's
+ * market data, else a quote. The export is the { orders } body POST
+ * /db-orders accepts.
+ */
+export default function RebalancePanel({ portfolio, orderHistory, recommended, marketData }: {
+  portfolio: Pick<EnrichedPortfolio, 'cash' | 'positions'>;
+  orderHistory: SnapshotOrder[];
+  /** Fractions of stock equity, e.g. from the allocation optimizer */
+  recommended: Record<string, number> | null;
+  marketData?: MarketData | null;
+}) {
+  const [overrides, setOverrides] = useState<Record<string, number>>({});
+  const [newSymbol, setNewSymbol] = useState('');
+  const [quotes, setQuotes] = useState<Record<string, number>>({});
+  const [lotSizes, setLotSizes] = useState<Record<string, number>>({});
+  const [driftBandPct, setDriftBandPct] = useState(2);
+  const [minTradeUsd, setMinTradeUsd] = useState(100);
+  const [cashReservePct, setCashReservePct] = useState(5);
+  const [lotMethod, setLotMethod] = useState<LotMethod>('hifo');
+
+  const positions = portfolio.positions.filter(p => p.quantity > 0 && p.current_price > 0);
+  const marketPrice = (symbol: string) => marketData?.symbols[symbol]?.metrics?.current_price ?? 0;
+  const unheldKey = Object.keys(overrides).filter(s => !positions.some(p => p.symbol === s)).sort().join(',');
+
+  useEffect(() => {
+    const missing = unheldKey
+      ? unheldKey.split(',').filter(s => !((marketData?.symbols[s]?.metrics?.current_price ?? 0) > 0))
+      : [];
+    if (!missing.length) return;
+    const controller = new AbortController();
+    getQuotes(missing, { signal: controller.signal }).then(q => {
+      if (controller.signal.aborted) return;
+      setQuotes(prev => ({ ...prev, ...Object.fromEntries(Object.values(q).map(x => [x.symbol, x.price])) }));
+    });
+    return () => controller.abort();
+  }, [unheldKey, marketData]);
+
+  if (!positions.length) return null;
+
+  const stockValue = positions.reduce((s, p) => s + p.quantity * p.current_price, 0);
+  const base = recommended ?? Object.fromEntries(positions.map(p => [p.symbol, (p.quantity * p.current_price) / stockValue]));
+  const targets = { ...base, ...overrides };
+
+  const prices = Object.fromEntries(unheldKey ? unheldKey.split(',').map(s => [s, marketPrice(s) || quotes[s] || 0]) : []);
+  const plan = planRebalance(portfolio, { targets, driftBandPct, minTradeUsd, cashReservePct, lotSizes, lotMethod, prices }, orderHistory);
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (symbol && !(symbol in targets)) setOverrides(prev => ({ ...prev, [symbol]: 0 }));
+    setNewSymbol('');
+  };
+  const realized = plan.trades.reduce((s, t) => s + (t.estimated_gain ?? 0), 0);
+  const unknownGain = plan.trades.some(t => t.side === 'SELL' && t.estimated_gain == null);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <Scale className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Rebalance</h3>
+        <span className="text-sm text-gray-400">{recommended ? 'targets from optimizer' : 'targets = current weights'}</span>
+        <button
+          onClick={() => downloadJson(`rebalance-orders-${new Date().toISOString().slice(0, 10)}.json`, { orders: planToOrders(plan) })}
+          disabled={plan.trades.length === 0}
+          className="ml-auto flex items-center gap-2 px-3 py-1.5 border border-gray-300 dark:border-zinc-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-zinc-800 disabled:opacity-50 text-sm"
+        >
+          <Download className="w-4 h-4" />
+          Export orders JSON
+        </button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-4">
+        <NumberField label="Drift band (pts)" value={driftBandPct} step={0.5} onChange={setDriftBandPct} />
+        <NumberField label="Min trade ($)" value={minTradeUsd} step={50} onChange={setMinTradeUsd} />
+        <NumberField label="Cash reserve (%)" value={cashReservePct} step={1} onChange={setCashReservePct} />
+        <label className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400">
+          Sell lots
+          <select
+            value={lotMethod}
+            onChange={e => setLotMethod(e.target.value as LotMethod)}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+          >
+            {LOT_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+          </select>
+        </label>
+        <form
+          onSubmit={e => { e.preventDefault(); addSymbol(); }}
+          className="flex items-center gap-1.5"
+        >
+          <input
+            type="text"
+            value={newSymbol}
+            onChange={e => setNewSymbol(e.target.value)}
+            placeholder="Add symbol"
+            className={`${INPUT} w-28 uppercase`}
+          />
+          <button
+            type="submit"
+            disabled={!newSymbol.trim()}
+            className="p-1.5 border border-gray-300 dark:border-zinc-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+            title="Add a target for a symbol not held yet"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+        {Object.keys(overrides).length > 0 && (
+          <button onClick={() => setOverrides({})} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+            Reset targets
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        <div>
+          <div className="text-xs text-gray-500">Book value</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(plan.total_value)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Cash before → after</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {formatCurrency(plan.cash_before)} → {formatCurrency(plan.cash_after)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Turnover</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(plan.turnover)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Est. realized gain</div>
+          <div className={`font-medium ${getGainColor(realized)}`}>
+            {formatCurrency(realized)}{unknownGain && <span className="text-xs text-gray-400"> (partial)</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border-b border-gray-200 dark:border-zinc-700">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Symbol', 'Current', 'Target', 'Lot size'].map(h => (
+                <th key={h} className={`${TH} ${h === 'Symbol' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {Object.keys(targets).sort().map((symbol, i) => {
+              const p = positions.find(x => x.symbol === symbol);
+              const current = p ? (p.quantity * p.current_price) / plan.total_value : 0;
+              return (
+                <tr key={symbol} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{symbol}</td>
+                  <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{pct(current)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={Math.round(targets[symbol] * 1000) / 10}
+                      onChange={e => setOverrides(prev => ({ ...prev, [symbol]: Math.max(parseFloat(e.target.value) || 0, 0) / 100 }))}
+                      className={`${INPUT} text-right`}
+                    />
+                    <span className="ml-1 text-sm text-gray-400">%</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={lotSizes[symbol] ?? 1}
+                      onChange={e => setLotSizes(prev => ({ ...prev, [symbol]: Math.max(parseFloat(e.target.value) || 1, 1) }))}
+                      className={`${INPUT} text-right`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {plan.trades.length === 0 ? (
+        <div className="p-6 text-sm text-gray-500">No trades needed — every symbol is within its band or below the minimum trade.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-zinc-800">
+              <tr>
+                {['Side', 'Symbol', 'Shares', 'Limit', 'Notional', 'Weight', 'Lots', 'Est. Gain'].map(h => (
+                  <th key={h} className={`${TH} ${['Side', 'Symbol', 'Lots'].includes(h) ? 'text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+              {plan.trades.map((t, i) => (
+                <tr key={`${t.side}-${t.symbol}`} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                  <td className={`px-4 py-2 text-sm font-medium ${t.side === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>{t.side}</td>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{t.symbol}</td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{t.quantity}</td>
+                  <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatCurrency(t.price)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{formatCurrency(t.notional)}</td>
+                  <td className="px-4 py-2 text-right text-sm text-gray-500 dark:text-gray-400">
+                    {pct(t.current_weight)} → {pct(t.post_weight)}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {t.lots.map(l => `${l.quantity} @ ${l.cost_per_share.toFixed(2)} (${l.term === 'long' ? 'LT' : 'ST'})`).join(', ') || '—'}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${t.estimated_gain != null ? getGainColor(t.estimated_gain) : 'text-gray-400'}`}>
+                    {t.side === 'SELL' ? (t.estimated_gain != null ? formatCurrency(t.estimated_gain) : 'unknown') : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {plan.skipped.length > 0 && (
+        <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-zinc-700">
+          Skipped: {plan.skipped.map(s => `${s.symbol} — ${s.reason}`).join('; ')}
+        </div>
+      )}
+    </div>
+  );
+}
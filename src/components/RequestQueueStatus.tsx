@@ -0,0 +1,24 @@
+import { Clock } from 'lucide-react';
+import { useTdQueue } from '../hooks/useTdQueue';
+
+/** "3 requests queued" note while the TwelveData scheduler is holding work back. */
+export default function RequestQueueStatus() {
+  const { queued, pausedUntil } = useTdQueue();
+  const total = queued.visible + queued.quote + queued.prefetch;
+  if (total === 0 && !pausedUntil) return null;
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400"
+      title={`Charts ${queued.visible} · quotes ${queued.quote} · background ${queued.prefetch}`}
+    >
+      <Clock className="w-3.5 h-3.5" />
+      {total} request{total === 1 ? '' : 's'} queued
+      {pausedUntil && (
+        <span className="text-amber-600 dark:text-amber-400">
+          {' '}· rate limited until {new Date(pausedUntil).toLocaleTimeString()}
+        </span>
+      )}
+    </span>
+  );
+}
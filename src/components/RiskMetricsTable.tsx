@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { PortfolioReturnData, RiskMetrics } from '../utils/portfolioCalculations';
+import { RollingCorrelationChart } from './RollingCorrelationChart';
+
+type SortKey = Exclude<keyof RiskMetrics, 'symbol' | 'color'>;
+
+interface Column {
+  key: SortKey;
+  label: string;
+  title: string;
+  format: (m: RiskMetrics) => string;
+  // Colour the value green/red by sign
+  signed?: boolean;
+}
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`;
+const ratio = (v: number | null) => (v === null ? '—' : v.toFixed(2));
+
+const COLUMNS: Column[] = [
+  { key: 'displayName', label: 'Asset', title: 'Asset', format: (m) => m.displayName },
+  { key: 'totalReturn', label: 'Return', title: 'Total return over the selected range', format: (m) => pct(m.totalReturn), signed: true },
+  { key: 'cagr', label: 'CAGR', title: 'Compound annual growth rate', format: (m) => pct(m.cagr), signed: true },
+  { key: 'volatility', label: 'Vol', title: 'Annualized volatility', format: (m) => `${m.volatility.toFixed(1)}%` },
+  { key: 'sharpe', label: 'Sharpe', title: 'Annualized Sharpe ratio (0% risk-free)', format: (m) => ratio(m.sharpe), signed: true },
+  { key: 'sortino', label: 'Sortino', title: 'Annualized Sortino ratio', format: (m) => ratio(m.sortino), signed: true },
+  { key: 'maxDrawdown', label: 'Max DD', title: 'Maximum peak-to-trough drawdown', format: (m) => `${m.maxDrawdown.toFixed(2)}%`, signed: true },
+  { key: 'maxDrawdownDays', label: 'DD Days', title: 'Longest time below a prior peak (calendar days)', format: (m) => `${m.maxDrawdownDays}` },
+  { key: 'calmar', label: 'Calmar', title: 'CAGR / |max drawdown|', format: (m) => ratio(m.calmar), signed: true },
+  { key: 'beta', label: 'Beta', title: 'Beta vs S&P 500 (SPY)', format: (m) => ratio(m.beta) },
+  { key: 'correlation30', label: 'ρ 30d', title: 'Correlation with SPY over the last 30 periods', format: (m) => ratio(m.correlation30) },
+  { key: 'correlation90', label: 'ρ 90d', title: 'Correlation with SPY over the last 90 periods', format: (m) => ratio(m.correlation90) },
+];
+
+interface RiskMetricsTableProps {
+  metrics: RiskMetrics[];
+  /** The series the metrics came from, for the rolling correlation chart */
+  data: PortfolioReturnData[];
+  benchmarkSymbol: string;
+}
+
+export function RiskMetricsTable({ metrics, data, benchmarkSymbol }: RiskMetricsTableProps) {
+  const benchmarkLoaded = data.some((asset) => asset.symbol === benchmarkSymbol);
+  const [sortKey, setSortKey] = useState<SortKey>('sharpe');
+  const [descending, setDescending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const rows = [...metrics];
+    rows.sort((a, b) => {
+      const av = a[sortKey];
+      const bv = b[sortKey];
+      // Missing values (no benchmark / no drawdown) always sink to the bottom
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      const cmp = typeof av === 'string' ? av.localeCompare(bv as string) : (av as number) - (bv as number);
+      return descending ? -cmp : cmp;
+    });
+    return rows;
+  }, [metrics, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((d) => !d);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'displayName');
+    }
+  };
+
+  if (metrics.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Risk Metrics</h2>
+      <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 overflow-hidden">
+        {!benchmarkLoaded && (
+          <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900">
+            Enable S&amp;P 500 (SPY) to see beta and correlation vs the benchmark.
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-zinc-900 border-b border-gray-200 dark:border-zinc-800">
+                {COLUMNS.map((col) => (
+                  <th
+                    key={col.key}
+                    title={col.title}
+                    className={`px-4 py-3 font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap ${col.key === 'displayName' ? 'text-left' : 'text-right'}`}
+                  >
+                    <button
+                      onClick={() => handleSort(col.key)}
+                      className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+                    >
+                      {col.label}
+                      {sortKey === col.key &&
+                        (descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((m) => (
+                <tr key={m.symbol} className="border-b border-gray-100 dark:border-zinc-900 hover:bg-gray-50 dark:hover:bg-zinc-900">
+                  {COLUMNS.map((col) => {
+                    if (col.key === 'displayName') {
+                      return (
+                        <td key={col.key} className="px-4 py-2.5 font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                          <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: m.color }} />
+                          {m.displayName}
+                          <span className="ml-1.5 text-xs font-mono text-gray-400 dark:text-gray-500">{m.symbol}</span>
+                        </td>
+                      );
+                    }
+                    const value = m[col.key] as number | null;
+                    const color =
+                      col.signed && value !== null
+                        ? value >= 0 ? 'text-green-600' : 'text-red-600'
+                        : 'text-gray-700 dark:text-gray-300';
+                    return (
+                      <td key={col.key} className={`px-4 py-2.5 text-right font-mono ${color}`}>
+                        {col.format(m)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <RollingCorrelationChart data={data} benchmarkSymbol={benchmarkSymbol} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useTheme } from '../contexts/ThemeContext';
+import { PortfolioReturnData, rollingCorrelation } from '../utils/portfolioCalculations';
+
+const WINDOWS = [30, 90] as const;
+
+interface RollingCorrelationChartProps {
+  data: PortfolioReturnData[];
+  benchmarkSymbol: string;
+}
+
+/**
+ * Each asset's trailing correlation with the benchmark over time — the ρ
+ * columns in the risk table are this series' last point.
+ */
+export function RollingCorrelationChart({ data, benchmarkSymbol }: RollingCorrelationChartProps) {
+  const { isDark } = useTheme();
+  const [corrWindow, setCorrWindow] = useState<(typeof WINDOWS)[number]>(30);
+
+  const benchmark = data.find((a) => a.symbol === benchmarkSymbol);
+  const assets = useMemo(() => data.filter((a) => a.symbol !== benchmarkSymbol), [data, benchmarkSymbol]);
+
+  // One row per date, one column per asset; dates an asset doesn't trade on stay gaps
+  const rows = useMemo(() => {
+    if (!benchmark) return [];
+    const byDate = new Map<string, Record<string, number | string>>();
+    for (const asset of assets) {
+      for (const point of rollingCorrelation(asset, benchmark, corrWindow)) {
+        const row = byDate.get(point.date) ?? { date: point.date };
+        row[asset.symbol] = point.correlation;
+        byDate.set(point.date, row);
+      }
+    }
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [assets, benchmark, corrWindow]);
+
+  if (!benchmark || assets.length === 0) return null;
+
+  const axisColor = '#a1a1aa';
+  const gridColor = isDark ? '#27272a' : '#e5e7eb';
+  const tooltipStyle = {
+    backgroundColor: isDark ? '#09090b' : '#ffffff',
+    border: `1px solid ${gridColor}`,
+    borderRadius: '0.5rem',
+    color: isDark ? '#ffffff' : '#111827',
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-200 dark:border-zinc-800">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Rolling {corrWindow}-period correlation vs {benchmarkSymbol}
+        </h3>
+        <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+          {WINDOWS.map((w) => (
+            <button
+              key={w}
+              onClick={() => setCorrWindow(w)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                corrWindow === w
+                  ? 'bg-white dark:bg-zinc-900 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {w}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-400 dark:text-gray-500">Not enough history in this range for a {corrWindow}-period window.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+            <XAxis dataKey="date" tick={{ fontSize: 11, fill: axisColor }} axisLine={{ stroke: gridColor }} minTickGap={40} />
+            <YAxis domain={[-1, 1]} tick={{ fontSize: 11, fill: axisColor }} axisLine={{ stroke: gridColor }} width={40} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => v.toFixed(2)} />
+            <ReferenceLine y={0} stroke={axisColor} strokeDasharray="3 3" />
+            {assets.map((asset) => (
+              <Line
+                key={asset.symbol}
+                type="monotone"
+                dataKey={asset.symbol}
+                name={asset.displayName}
+                stroke={asset.color}
+                dot={false}
+                strokeWidth={2}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
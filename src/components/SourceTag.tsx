@@ -0,0 +1,18 @@
+import { PROVIDER_LABEL, ProviderId } from '../services/marketDataProvider';
+
+interface SourceTagProps {
+  source?: ProviderId;
+}
+
+/** "via CoinGecko" badge, shown only when data came from a fallback provider. */
+export default function SourceTag({ source }: SourceTagProps) {
+  if (!source || source === 'twelvedata') return null;
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400"
+      title="Primary data source unavailable — served by a fallback provider"
+    >
+      via {PROVIDER_LABEL[source]}
+    </span>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, AlertTriangle } from 'lucide-react';
+import {
+  getStopCoverage,
+  formatCurrency,
+  type StopCoverageData,
+  type StopCoverageStatus,
+} from '../services/robinhoodService';
+
+const STATUS_STYLE: Record<StopCoverageStatus, string> = {
+  naked:   'bg-red-100 text-red-700 dark:bg-red-950/40 dark:text-red-400',
+  partial: 'bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400',
+  covered: 'bg-green-100 text-green-700 dark:bg-green-950/40 dark:text-green-400',
+};
+
+/**
+ * Trailing-stop coverage for every held position. Pre-computed by backend
+ * (db-stop-coverage) — no client-side math. `refreshKey` re-fetches when the
+ * page's order book moves.
+ */
+export default function StopCoveragePanel({ refreshKey }: { refreshKey?: string | null }) {
+  const [data, setData] = useState<StopCoverageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getStopCoverage()
+      .then(d => {
+        if (cancelled) return;
+        setData(d);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  if (loading && data == null) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        Loading stop coverage…
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 mb-1">
+          <AlertTriangle className="w-4 h-4" />
+          <span className="font-medium">Stop coverage unavailable</span>
+        </div>
+        <div className="text-xs">{error}</div>
+      </div>
+    );
+  }
+
+  if (!data || data.symbols.length === 0) {
+    return (
+      <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-6 text-sm text-gray-500">
+        No positions in the trading DB to audit.
+      </div>
+    );
+  }
+
+  const { summary } = data;
+  const HeaderIcon = summary.naked > 0 || summary.partial > 0 ? ShieldAlert : ShieldCheck;
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex items-center gap-2">
+        <HeaderIcon className={`w-5 h-5 ${summary.naked > 0 ? 'text-red-500' : 'text-gray-500'}`} />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Stop Coverage</h3>
+        {data.orders_as_of && (
+          <span className="text-sm text-gray-400 ml-auto">
+            Orders as of {new Date(data.orders_as_of).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        <div>
+          <div className="text-xs text-gray-500">Covered / partial / naked</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {summary.covered} / {summary.partial} / {summary.naked}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Value covered</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {summary.coverage_pct != null ? `${summary.coverage_pct.toFixed(1)}%` : '—'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">Uncovered value</div>
+          <div className={`font-medium ${summary.uncovered_value > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-100'}`}>
+            {formatCurrency(summary.uncovered_value)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">At risk to stops</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(summary.at_risk_usd)}</div>
+        </div>
+      </div>
+
+      {data.truncated && (
+        <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200 dark:border-amber-900">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          Too many working orders to read them all — coverage can&apos;t be proven, and naked or partial rows may have stops that were left out.
+        </div>
+      )}
+
+      {summary.naked > 0 && (
+        <div className="px-4 py-2 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-950/30 border-b border-red-200 dark:border-red-900">
+          No working stop on {summary.naked_symbols.join(', ')}.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-zinc-700">
+              <th className="px-4 py-2">Symbol</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Held</th>
+              <th className="px-4 py-2 text-right">Covered</th>
+              <th className="px-4 py-2 text-right">Price</th>
+              <th className="px-4 py-2 text-right">Nearest stop</th>
+              <th className="px-4 py-2 text-right">Distance</th>
+              <th className="px-4 py-2 text-right">Uncovered value</th>
+              <th className="px-4 py-2">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.symbols.map(r => {
+              const notes: string[] = [];
+              if (r.stop_above_market) notes.push('stop at/above market');
+              if (r.excess_quantity > 0) notes.push(`${r.excess_quantity} excess`);
+              if (r.unconfirmed_quantity > 0) notes.push(`${r.unconfirmed_quantity} unconfirmed`);
+              return (
+                <tr key={r.symbol} className="border-b border-gray-100 dark:border-zinc-800 last:border-0">
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{r.symbol}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLE[r.status]}`}>{r.status}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{r.quantity}</td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {r.covered_quantity} <span className="text-xs text-gray-400">({r.coverage_pct.toFixed(0)}%)</span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{formatCurrency(r.current_price)}</td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {r.nearest_stop_price != null ? formatCurrency(r.nearest_stop_price) : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {r.stop_distance_pct != null ? `${r.stop_distance_pct.toFixed(1)}%` : '—'}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${r.uncovered_value > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {formatCurrency(r.uncovered_value)}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400">{notes.join(' · ')}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { FileText, Download } from 'lucide-react';
+import {
+  formatCurrency,
+  getGainColor,
+  SnapshotOptionOrder,
+  SnapshotOrder,
+} from '../services/robinhoodService';
+import { buildTaxReport, taxReportToCsv, TermTotals } from '../utils/taxLots';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function TermCard({ label, totals }: { label: string; totals: TermTotals }) {
+  return (
+    <div className="bg-gray-50 dark:bg-zinc-800 rounded p-3">
+      <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{label}</div>
+      <div className={`text-xl font-semibold ${getGainColor(totals.gain)}`}>{formatCurrency(totals.gain)}</div>
+      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {totals.count} lot{totals.count === 1 ? '' : 's'} · proceeds {formatCurrency(totals.proceeds)} · basis {formatCurrency(totals.cost_basis)}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Year-end tax lot view over the trading DB's filled orders: short/long-term
+ * split, wash-sale disallowed losses and the basis they carry forward, with a
+ * Form 8949-style CSV export.
+ */
+export default function TaxLotReport({ stockOrders, optionOrders }: {
+  stockOrders: SnapshotOrder[];
+  optionOrders: SnapshotOptionOrder[];
+}) {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const report = buildTaxReport(stockOrders, optionOrders, year);
+  if (report.years.length === 0) return null;
+
+  // Current year first even before its first sale, then every year with sales
+  const years = [...new Set([new Date().getFullYear(), ...report.years])].sort((a, b) => b - a);
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex flex-wrap items-center gap-2">
+        <FileText className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Tax Lots</h3>
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={year}
+            onChange={e => setYear(parseInt(e.target.value, 10))}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+          >
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <button
+            onClick={() => downloadCsv(`form-8949-${year}.csv`, taxReportToCsv(report))}
+            disabled={report.lines.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 dark:border-zinc-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-zinc-800 disabled:opacity-50 text-sm"
+          >
+            <Download className="w-4 h-4" />
+            Form 8949 CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 border-b border-gray-200 dark:border-zinc-700">
+        <TermCard label="Short-term" totals={report.short_term} />
+        <TermCard label="Long-term" totals={report.long_term} />
+        <div className="bg-gray-50 dark:bg-zinc-800 rounded p-3">
+          <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Wash-sale disallowed</div>
+          <div className="text-xl font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(report.disallowed_total)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {report.wash_sales.length} replacement{report.wash_sales.length === 1 ? '' : 's'} within 30 days
+          </div>
+        </div>
+      </div>
+
+      {report.lines.length === 0 ? (
+        <div className="p-6 text-sm text-gray-500">No stock lots closed in {year}.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-zinc-800">
+              <tr>
+                {['Symbol', 'Term', 'Shares', 'Acquired', 'Sold', 'Proceeds', 'Basis', 'Wash Adj.', 'Gain / Loss'].map(h => (
+                  <th key={h} className={`px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider ${['Symbol', 'Term', 'Acquired', 'Sold'].includes(h) ? 'text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+              {report.lines.map((l, i) => (
+                <tr key={`${l.lot_id}-${l.close_order_id}`} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{l.symbol}</td>
+                  <td className="px-4 py-2 text-xs text-gray-500">{l.term === 'long' ? 'Long' : 'Short'}</td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{l.quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{formatDate(l.acquired_at)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{formatDate(l.sold_at)}</td>
+                  <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatCurrency(l.proceeds)}</td>
+                  <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatCurrency(l.cost_basis)}</td>
+                  <td className="px-4 py-2 text-right text-amber-700 dark:text-amber-400">{l.wash_sale ? formatCurrency(l.adjustment) : '—'}</td>
+                  <td className="px-4 py-2 text-right">
+                    <div className={`font-medium ${getGainColor(l.gain)}`}>{formatCurrency(l.gain)}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.carried_forward.length > 0 && (
+        <div className="p-4 border-t border-gray-200 dark:border-zinc-700 text-sm">
+          <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Adjusted basis carried forward</div>
+          <ul className="space-y-1">
+            {report.carried_forward.map(c => (
+              <li key={c.lot_id} className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{c.symbol}</span> {c.quantity} sh — basis {formatCurrency(c.cost_per_share)} → {formatCurrency(c.adjusted_cost_per_share)}/sh
+                <span className="text-xs text-gray-400"> ({formatCurrency(c.deferred_loss)} deferred)</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.option_deferrals.length > 0 && (
+        <div className="p-4 border-t border-gray-200 dark:border-zinc-700 text-sm bg-amber-50 dark:bg-amber-950/30">
+          <div className="text-xs text-amber-700 dark:text-amber-400 uppercase tracking-wider mb-1">Losses deferred into call purchases</div>
+          <p className="text-xs text-amber-700 dark:text-amber-400 mb-2">
+            Option closes aren't lot-matched, so these disallowed losses appear in no line above or in the CSV. Add each to the call's basis when it closes.
+          </p>
+          <ul className="space-y-1">
+            {report.option_deferrals.map(d => (
+              <li key={d.order_id} className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{d.symbol}</span> call bought {formatDate(d.acquired_at)}, replacing {d.shares} sh — {formatCurrency(d.deferred_loss)} added to basis
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="px-4 pb-3 text-xs text-gray-400">
+        FIFO lots from filled stock orders over the full order history; call purchases count as wash-sale replacements. Option closes are not lot-matched. Not tax advice.
+      </p>
+    </div>
+  );
+}
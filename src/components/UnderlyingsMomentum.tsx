@@ -14,6 +14,7 @@ import { RefreshCw, TrendingUp, TrendingDown } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { getTimeSeries, NormalizedPriceData } from '../services/twelveDataService';
 import { listOptionSymbols } from '../services/blobDataService';
+import RequestQueueStatus from './RequestQueueStatus';
 
 // S&P 500 benchmark used to measure relative momentum.
 const BENCHMARK = { symbol: 'SPY', label: 'S&P 500 (SPY)', color: '#9ca3af' };
@@ -64,6 +65,9 @@ export default function UnderlyingsMomentum() {
 
   useEffect(() => {
     let cancelled = false;
+    // Unmount or refresh drops requests still waiting on the rate limiter
+    const controller = new AbortController();
+    const request = { signal: controller.signal };
 
     async function load() {
       setLoading(true);
@@ -85,7 +89,7 @@ export default function UnderlyingsMomentum() {
         // absolute momentum, just without the relative-to-SPY column.
         let benchSeries: NormalizedPriceData[] = [];
         try {
-          benchSeries = await getTimeSeries(BENCHMARK.symbol, '1D');
+          benchSeries = await getTimeSeries(BENCHMARK.symbol, '1D', false, request);
         } catch {
           benchSeries = [];
         }
@@ -94,7 +98,7 @@ export default function UnderlyingsMomentum() {
         const underlyings = await Promise.all(
           symbols.map(async (symbol, i) => {
             try {
-              const series = await getTimeSeries(symbol, '1D');
+              const series = await getTimeSeries(symbol, '1D', false, request);
               const dayChangePct = pctFromOpen(series);
               return {
                 symbol,
@@ -135,6 +139,7 @@ export default function UnderlyingsMomentum() {
     load();
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, [refreshKey]);
 
@@ -182,6 +187,7 @@ export default function UnderlyingsMomentum() {
         <p className="text-sm text-gray-500 dark:text-gray-400">
           Loading underlying spot prices…
         </p>
+        <RequestQueueStatus />
       </div>
     );
   }
@@ -0,0 +1,459 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend,
+} from 'recharts';
+import { FileText, Download, RefreshCw } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { getTimeSeries, NormalizedPriceData } from '../services/twelveDataService';
+import { getEnrichedSnapshot } from '../services/robinhoodService';
+import {
+  listOptionSymbols,
+  getMarketData,
+  type OptionsChainBlob,
+  type MarketQuotesBlob,
+} from '../services/blobDataService';
+import { calculateReturns, rollingCorrelation } from '../utils/portfolioCalculations';
+import { bsPrice } from '../utils/blackScholes';
+import { buildChain } from '../utils/optionsChain';
+import {
+  alignCloses,
+  simpleReturns,
+  regressionBeta,
+  realizedVol,
+  choosePut,
+  sizeHedge,
+  backtestPutHedge,
+} from '../utils/volatilityPuts';
+import { formatCurrency } from '../utils/formatters';
+
+const WHITEPAPER_URL =
+  'https://raw.githubusercontent.com/IamJasonBian/allocation-gym/IamJasonBian/audit-redis-proto/docs/7/iwn_vol_analysis.pdf';
+
+// Grayscale Bitcoin Mini Trust ETF
+const BTC_SYMBOL = 'BTC';
+const DEFAULT_HEDGE = 'IWM';
+const CORRELATION_WINDOWS = [20, 60, 90] as const;
+// Roughly one calendar month of trading days per put roll
+const BACKTEST_TENOR = 21;
+// Tenor assumed for the model price when no listed chain is available
+const MODEL_DTE = 30;
+const DAY_MS = 86_400_000;
+
+const fmtUsd = (v: number) => formatCurrency(Math.round(v));
+
+function StatCard({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{label}</p>
+      <p className="text-xl font-semibold text-gray-900 dark:text-white mt-1">{value}</p>
+      {sub && <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{sub}</p>}
+    </div>
+  );
+}
+
+/**
+ * BTC Mini Trust hedged with equity-index puts: rolling correlation, beta
+ * hedge sizing against the live position, put cost from the options-chain
+ * blob, and a monthly-roll backtest of how the hedge covered drawdowns.
+ */
+export default function VolatilityPuts() {
+  const { isDark } = useTheme();
+  const [hedgeSymbols, setHedgeSymbols] = useState<string[]>([DEFAULT_HEDGE]);
+  const [hedgeSymbol, setHedgeSymbol] = useState(DEFAULT_HEDGE);
+  const [corrWindow, setCorrWindow] = useState<(typeof CORRELATION_WINDOWS)[number]>(60);
+  const [otmPct, setOtmPct] = useState(5);
+  const [positionValue, setPositionValue] = useState<number | null>(null);
+  const [heldValue, setHeldValue] = useState<number | null>(null);
+  const [series, setSeries] = useState<{ btc: NormalizedPriceData[]; hedge: NormalizedPriceData[] } | null>(null);
+  const [optionsBlob, setOptionsBlob] = useState<OptionsChainBlob | null>(null);
+  const [quotesBlob, setQuotesBlob] = useState<MarketQuotesBlob | null>(null);
+  const [selectedExpiry, setSelectedExpiry] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const axisColor = '#a1a1aa';
+  const gridColor = isDark ? '#27272a' : '#e5e7eb';
+  const tooltipStyle = {
+    backgroundColor: isDark ? '#09090b' : '#ffffff',
+    border: `1px solid ${isDark ? '#27272a' : '#e5e7eb'}`,
+    borderRadius: '0.5rem',
+    color: isDark ? '#ffffff' : '#111827',
+  };
+
+  // Live BTC Mini Trust position and the chain underlyings on offer
+  useEffect(() => {
+    let cancelled = false;
+    getEnrichedSnapshot()
+      .then((snap) => {
+        if (cancelled) return;
+        const held = snap.portfolio.positions.find((p) => p.symbol === BTC_SYMBOL);
+        setHeldValue(held ? held.equity : null);
+        setPositionValue((v) => v ?? (held ? Math.round(held.equity) : 10_000));
+      })
+      .catch(() => {
+        if (!cancelled) setPositionValue((v) => v ?? 10_000);
+      });
+    listOptionSymbols()
+      .then((syms) => {
+        if (!cancelled) setHedgeSymbols(Array.from(new Set([DEFAULT_HEDGE, ...syms])));
+      })
+      .catch(() => {
+        // Chain store might not be reachable; IWM still works off the model price
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([getTimeSeries(BTC_SYMBOL, '1Y'), getTimeSeries(hedgeSymbol, '1Y')])
+      .then(([btc, hedge]) => {
+        if (!cancelled) setSeries({ btc, hedge });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load price history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    getMarketData(hedgeSymbol)
+      .then(({ options, quotes }) => {
+        if (cancelled) return;
+        setOptionsBlob(options);
+        setQuotesBlob(quotes);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setOptionsBlob(null);
+          setQuotesBlob(null);
+        }
+      });
+    return () => { cancelled = true; };
+  }, [hedgeSymbol]);
+
+  const aligned = useMemo(() => (series ? alignCloses(series.btc, series.hedge) : null), [series]);
+
+  const correlation = useMemo(() => {
+    if (!series) return [];
+    const asData = (symbol: string, data: NormalizedPriceData[]) => ({
+      symbol, displayName: symbol, color: '', returns: calculateReturns(data),
+    });
+    return rollingCorrelation(asData(BTC_SYMBOL, series.btc), asData(hedgeSymbol, series.hedge), corrWindow);
+  }, [series, hedgeSymbol, corrWindow]);
+
+  const beta = useMemo(() => {
+    if (!aligned) return null;
+    const btc = simpleReturns(aligned.asset).slice(-corrWindow);
+    const hedge = simpleReturns(aligned.hedge).slice(-corrWindow);
+    return hedge.length >= 2 ? regressionBeta(hedge, btc) : null;
+  }, [aligned, corrWindow]);
+
+  const hedgeVol = useMemo(() => (aligned ? realizedVol(aligned.hedge.slice(-(corrWindow + 1))) : 0), [aligned, corrWindow]);
+
+  const chain = useMemo(() => (optionsBlob ? buildChain(optionsBlob.latestChain || {}) : []), [optionsBlob]);
+
+  useEffect(() => {
+    if (chain.length === 0) return;
+    if (!selectedExpiry || !chain.some((e) => e.expiry === selectedExpiry)) {
+      // Default to the first expiry at least three weeks out
+      const asOf = optionsBlob ? Date.parse(optionsBlob.timestamp) : Date.now();
+      const preferred = chain.find((e) => Date.parse(e.expiry) - asOf >= 21 * DAY_MS) ?? chain[chain.length - 1];
+      setSelectedExpiry(preferred.expiry);
+    }
+  }, [chain, selectedExpiry, optionsBlob]);
+
+  const spot = quotesBlob?.latestQuotes[hedgeSymbol]?.mid
+    ?? (aligned && aligned.hedge.length > 0 ? aligned.hedge[aligned.hedge.length - 1] : null);
+
+  // Listed put when the chain covers the hedge underlying, otherwise a
+  // Black-Scholes estimate at trailing realized vol
+  const put = useMemo(() => {
+    if (spot == null) return null;
+    if (selectedExpiry) {
+      const listed = choosePut(chain, selectedExpiry, spot, otmPct);
+      if (listed && listed.quote.mid != null) {
+        const asOf = optionsBlob ? Date.parse(optionsBlob.timestamp) : Date.now();
+        return {
+          source: 'chain' as const,
+          label: listed.quote.contract,
+          strike: listed.strike,
+          mid: listed.quote.mid,
+          delta: listed.quote.delta,
+          dte: Math.max(1, Math.round((Date.parse(listed.expiry) - asOf) / DAY_MS)),
+        };
+      }
+    }
+    if (hedgeVol <= 0) return null;
+    const strike = spot * (1 - otmPct / 100);
+    return {
+      source: 'model' as const,
+      label: `${hedgeSymbol} ${MODEL_DTE}d ${strike.toFixed(0)}P`,
+      strike,
+      mid: bsPrice('put', spot, strike, MODEL_DTE / 365, hedgeVol),
+      delta: null,
+      dte: MODEL_DTE,
+    };
+  }, [spot, chain, selectedExpiry, otmPct, optionsBlob, hedgeVol, hedgeSymbol]);
+
+  const sizing = useMemo(() => {
+    if (!put || spot == null || beta == null || positionValue == null) return null;
+    return sizeHedge({ positionValue, beta, spot, putMid: put.mid, putDelta: put.delta, daysToExpiry: put.dte });
+  }, [put, spot, beta, positionValue]);
+
+  const backtest = useMemo(() => {
+    if (!aligned || beta == null || positionValue == null || aligned.dates.length <= corrWindow + BACKTEST_TENOR) return null;
+    return backtestPutHedge({
+      dates: aligned.dates,
+      asset: aligned.asset,
+      hedge: aligned.hedge,
+      positionValue,
+      beta,
+      otmPct,
+      tenorDays: BACKTEST_TENOR,
+      volWindow: corrWindow,
+    });
+  }, [aligned, beta, positionValue, otmPct, corrWindow]);
+
+  const latestCorr = correlation.length > 0 ? correlation[correlation.length - 1].correlation : null;
+  const inputClass =
+    'px-3 py-1.5 bg-white dark:bg-zinc-900 border border-gray-300 dark:border-zinc-700 rounded-md text-sm text-gray-900 dark:text-white';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-zinc-900 border border-gray-200 dark:border-zinc-800 rounded-lg p-6">
+        <div className="flex items-start gap-4">
+          <div className="p-3 bg-gray-100 dark:bg-zinc-800 rounded-lg">
+            <FileText className="w-6 h-6 text-gray-700 dark:text-gray-300" />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Grayscale BTC Mini-Trust &amp; IWM Put Hedging
+            </h2>
+            <p className="text-gray-500 dark:text-gray-400 mt-1 text-sm">
+              Technical Report &middot; March 4, 2026
+            </p>
+            <p className="text-gray-600 dark:text-gray-300 mt-3 text-sm leading-relaxed">
+              Intra-week volatility trading with a long-term macro viewpoint. Uses BTC Mini
+              Trust with IWM puts to implement momentum-based DCA. BTC and small-cap equities
+              draw down together (&rho; = +0.77 at 20d with IWM), making equity-index puts a
+              viable proxy hedge at 3&ndash;5&times; lower cost than direct BTC puts.
+            </p>
+            <a
+              href={WHITEPAPER_URL}
+              download="iwn_vol_analysis.pdf"
+              className="inline-flex items-center gap-2 mt-4 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-zinc-800 text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Download Whitepaper
+            </a>
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Hedge with</label>
+          <select value={hedgeSymbol} onChange={(e) => setHedgeSymbol(e.target.value)} className={inputClass}>
+            {hedgeSymbols.map((s) => (
+              <option key={s} value={s}>{s} puts</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">BTC position $</label>
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={positionValue ?? ''}
+            onChange={(e) => setPositionValue(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+            className={`${inputClass} w-32`}
+          />
+          {heldValue != null && (
+            <button
+              onClick={() => setPositionValue(Math.round(heldValue))}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Use held ({fmtUsd(heldValue)})
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">OTM %</label>
+          <input
+            type="number"
+            min={0}
+            max={30}
+            step={1}
+            value={otmPct}
+            onChange={(e) => setOtmPct(Math.min(30, Math.max(0, Number(e.target.value) || 0)))}
+            className={`${inputClass} w-20`}
+          />
+        </div>
+        {chain.length > 0 && (
+          <div className="flex items-center gap-3">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Expiry</label>
+            <select value={selectedExpiry ?? ''} onChange={(e) => setSelectedExpiry(e.target.value)} className={inputClass}>
+              {chain.map((e) => (
+                <option key={e.expiry} value={e.expiry}>{e.expiry}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="flex bg-gray-100 dark:bg-zinc-800 rounded-xl p-1">
+          {CORRELATION_WINDOWS.map((w) => (
+            <button
+              key={w}
+              onClick={() => setCorrWindow(w)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                corrWindow === w
+                  ? 'bg-white dark:bg-zinc-900 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {w}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-3">
+          <RefreshCw className="w-5 h-5 text-gray-400 animate-spin" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading {BTC_SYMBOL} and {hedgeSymbol} history...</p>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : (
+        <>
+          {/* Hedge sizing */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard
+              label={`${corrWindow}d Correlation`}
+              value={latestCorr != null ? latestCorr.toFixed(2) : '—'}
+              sub={`${BTC_SYMBOL} vs ${hedgeSymbol} daily returns`}
+            />
+            <StatCard
+              label="Hedge Ratio (β)"
+              value={beta != null ? beta.toFixed(2) : '—'}
+              sub={sizing ? `${fmtUsd(sizing.hedgeNotional)} of ${hedgeSymbol} notional` : undefined}
+            />
+            <StatCard
+              label="Puts"
+              value={sizing ? `${sizing.contracts} × ${put?.strike.toFixed(0)}P` : '—'}
+              sub={put ? `${put.label} @ $${put.mid.toFixed(2)}${put.source === 'model' ? ' (model)' : ''}` : undefined}
+            />
+            <StatCard
+              label="Put Cost"
+              value={sizing ? fmtUsd(sizing.premium) : '—'}
+              sub={sizing ? `${sizing.costPct.toFixed(2)}% of position · ${sizing.annualizedCostPct.toFixed(1)}%/yr rolled` : undefined}
+            />
+          </div>
+          {put?.source === 'model' && (
+            <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 rounded-lg px-4 py-2">
+              <p className="text-xs text-amber-700 dark:text-amber-400">
+                No listed {hedgeSymbol} chain in the options-chain store — put cost is a Black-Scholes estimate at{' '}
+                {(hedgeVol * 100).toFixed(1)}% trailing realized vol, {MODEL_DTE} days to expiry.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Rolling correlation */}
+            <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                Rolling {corrWindow}d Correlation — {BTC_SYMBOL} vs {hedgeSymbol}
+              </h4>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mb-3">
+                The hedge only works while the two draw down together
+              </p>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={correlation}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: axisColor }} axisLine={{ stroke: gridColor }} minTickGap={40} />
+                  <YAxis
+                    domain={[-1, 1]}
+                    tick={{ fontSize: 11, fill: axisColor }}
+                    axisLine={{ stroke: gridColor }}
+                    width={40}
+                  />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => [v.toFixed(2), 'Correlation']} />
+                  <ReferenceLine y={0} stroke={axisColor} strokeDasharray="3 3" />
+                  <Line type="monotone" dataKey="correlation" stroke="#9333EA" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Backtest */}
+            <div className="bg-white dark:bg-zinc-950 border border-gray-200 dark:border-zinc-800 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Drawdown Coverage Backtest</h4>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mb-3">
+                {otmPct}% OTM {hedgeSymbol} puts rolled every {BACKTEST_TENOR} sessions at β × position, priced at trailing realized vol
+              </p>
+              {backtest && backtest.periods.length > 0 ? (
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={backtest.curve}>
+                    <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                    <XAxis dataKey="date" tick={{ fontSize: 11, fill: axisColor }} axisLine={{ stroke: gridColor }} minTickGap={40} />
+                    <YAxis
+                      domain={['auto', 'auto']}
+                      tickFormatter={(v) => `$${(v / 1000).toFixed(0)}k`}
+                      tick={{ fontSize: 11, fill: axisColor }}
+                      axisLine={{ stroke: gridColor }}
+                      width={50}
+                    />
+                    <Tooltip contentStyle={tooltipStyle} formatter={(v: number, name: string) => [fmtUsd(v), name]} />
+                    <Legend />
+                    <Line type="monotone" dataKey="unhedged" name="Unhedged" stroke="#a1a1aa" dot={false} />
+                    <Line type="monotone" dataKey="hedged" name="With puts" stroke="#16a34a" dot={false} strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+                  Not enough overlapping history to backtest.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {backtest && backtest.periods.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard
+                label="Drawdown Coverage"
+                value={backtest.drawdownCoverage != null ? `${(backtest.drawdownCoverage * 100).toFixed(0)}%` : '—'}
+                sub="Put payouts ÷ losses in down periods"
+              />
+              <StatCard
+                label="Premium Paid"
+                value={fmtUsd(backtest.totalCost)}
+                sub={`${backtest.periods.length} rolls`}
+              />
+              <StatCard
+                label="Payouts"
+                value={fmtUsd(backtest.totalPayout)}
+                sub={`Net ${fmtUsd(backtest.totalPayout - backtest.totalCost)}`}
+              />
+              <StatCard
+                label="Max Drawdown"
+                value={`${backtest.maxDrawdownHedged.toFixed(1)}%`}
+                sub={`Unhedged ${backtest.maxDrawdownUnhedged.toFixed(1)}%`}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
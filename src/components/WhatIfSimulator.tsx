@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { formatCurrency, getGainColor, OptionPosition } from '../services/robinhoodService';
+import { pnlSurface, repricePositions } from '../utils/blackScholes';
+
+const SURFACE_SPOTS = [-20, -15, -10, -5, 0, 5, 10, 15, 20];
+const SURFACE_DAYS = [0, 3, 7, 14, 21, 30, 45];
+
+/** Green/red cell tint scaled to the largest absolute P&L on the grid. */
+function heatColor(value: number, maxAbs: number): string {
+  if (!maxAbs) return 'transparent';
+  const alpha = Math.min(Math.abs(value) / maxAbs, 1) * 0.6;
+  return value >= 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+}
+
+function Slider({ id, label, value, min, max, step, unit, onChange }: {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-gray-900 dark:text-gray-100">{value > 0 && unit !== 'd' ? '+' : ''}{value}{unit}</span>
+      </label>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onChange(parseFloat(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+/**
+ * What-if repricer for the current options book: Black-Scholes from the
+ * snapshot's underlying_price, greeks.iv, strike and expiration. Unlike
+ * `expected_pl` (fixed upstream scenarios), spot, IV and time are free.
+ */
+export default function WhatIfSimulator({ options }: { options: OptionPosition[] }) {
+  const [spotShock, setSpotShock] = useState(0);
+  const [ivShift,   setIvShift]   = useState(0);
+  const [days,      setDays]      = useState(0);
+
+  const result = repricePositions(options, { spotShockPct: spotShock, ivShiftPts: ivShift, daysForward: days });
+  if (!result.positions.length) return null;
+
+  const surface = pnlSurface(options, SURFACE_SPOTS, SURFACE_DAYS, ivShift);
+  const maxAbs = Math.max(...surface.flat().map(Math.abs));
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-zinc-700 flex items-center gap-2">
+        <FlaskConical className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">What-If Simulator</h3>
+        <span className="text-sm text-gray-400 ml-auto">Black-Scholes</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 p-4 border-b border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800">
+        <Slider id="whatif-spot" label="Spot" value={spotShock} min={-30} max={30} step={1} unit="%" onChange={setSpotShock} />
+        <Slider id="whatif-iv" label="IV" value={ivShift} min={-30} max={30} step={1} unit=" vol" onChange={setIvShift} />
+        <Slider id="whatif-days" label="Days forward" value={days} min={0} max={60} step={1} unit="d" onChange={setDays} />
+        <div>
+          <div className="text-xs text-gray-500">Scenario P&amp;L</div>
+          <div className={`text-xl font-semibold ${getGainColor(result.total_pnl)}`}>{formatCurrency(result.total_pnl)}</div>
+          <button
+            onClick={() => { setSpotShock(0); setIvShift(0); setDays(0); }}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-zinc-800">
+            <tr>
+              {['Position', 'Expiry', 'Model Now', 'Scenario', 'P&L'].map(h => (
+                <th key={h} className={`px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider ${h === 'Position' || h === 'Expiry' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+            {result.positions.map((p, i) => (
+              <tr key={p.key} className={i % 2 === 0 ? 'bg-white dark:bg-zinc-900' : 'bg-gray-50 dark:bg-zinc-800'}>
+                <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                  <span className="font-medium">{p.symbol}</span> ${p.strike} {p.option_type.toUpperCase()}
+                  <span className="ml-1 text-xs text-gray-400">{p.exposure < 0 ? 'short' : 'long'} {Math.abs(p.exposure)} sh</span>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{p.expiration}</td>
+                <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatCurrency(p.base_value)}</td>
+                <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">{formatCurrency(p.scenario_value)}</td>
+                <td className={`px-4 py-2 text-right font-medium ${getGainColor(p.pnl)}`}>{formatCurrency(p.pnl)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {result.skipped.length > 0 && (
+        <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 border-t border-amber-200 dark:border-amber-900">
+          Not priced (missing spot, IV or expiry): {result.skipped.join(', ')}
+        </div>
+      )}
+
+      <div className="px-4 py-3 border-t border-gray-200 dark:border-zinc-700">
+        <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+          Book P&amp;L — spot × days forward{ivShift !== 0 ? ` (IV ${ivShift > 0 ? '+' : ''}${ivShift} vol)` : ''}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-gray-500">Spot \ Days</th>
+                {SURFACE_DAYS.map(d => <th key={d} className="px-2 py-1 text-right text-gray-500">{d}d</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {SURFACE_SPOTS.map((s, i) => (
+                <tr key={s}>
+                  <td className="px-2 py-1 text-gray-700 dark:text-gray-300">{s > 0 ? `+${s}` : s}%</td>
+                  {surface[i].map((v, j) => (
+                    <td
+                      key={SURFACE_DAYS[j]}
+                      style={{ backgroundColor: heatColor(v, maxAbs) }}
+                      className={`px-2 py-1 text-right font-mono text-gray-900 dark:text-gray-100 ${s === spotShock && SURFACE_DAYS[j] === days ? 'ring-2 ring-gray-900 dark:ring-gray-100' : ''}`}
+                    >
+                      {formatCurrency(v)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
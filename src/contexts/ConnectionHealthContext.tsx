@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { getEnrichedSnapshot, AuthStatus, EnrichedSnapshot } from '../services/robinhoodService';
+import { getPlaidStatus, PlaidAuthStatus } from '../services/plaidService';
+import { getBrokerAdapter, getSelectedBroker } from '../services/brokerAdapter';
+import { evaluateHealth, recordAuthFailures, AuthFailure } from '../utils/connectionHealth';
+import { ConnectionHealthContext } from '../hooks/useConnectionHealth';
+
+const POLL_MS = 5 * 60_000;
+// Re-grade ages and countdowns between polls
+const TICK_MS = 30_000;
+const FAILURES_KEY = 'authFailures';
+
+interface Polled {
+  fetchedAt: number;
+  /** Only the selected broker's status is polled */
+  robinhood?: AuthStatus | null;
+  alpaca?: AuthStatus | null;
+  plaid: PlaidAuthStatus | null;
+  snapshot: EnrichedSnapshot | null;
+}
+
+function loadFailures(): AuthFailure[] {
+  try {
+    const raw = localStorage.getItem(FAILURES_KEY);
+    return raw ? (JSON.parse(raw) as AuthFailure[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveFailures(failures: AuthFailure[]) {
+  try {
+    localStorage.setItem(FAILURES_KEY, JSON.stringify(failures));
+  } catch {
+    // Quota / private mode — history is best-effort
+  }
+}
+
+const settled = <T,>(r: PromiseSettledResult<T>): T | null => (r.status === 'fulfilled' ? r.value : null);
+
+export function ConnectionHealthProvider({ children }: { children: ReactNode }) {
+  const [polled, setPolled] = useState<Polled | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [failures, setFailures] = useState<AuthFailure[]>(loadFailures);
+  const [checking, setChecking] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setChecking(true);
+    const broker = getSelectedBroker();
+    const [auth, plaid, snapshot] = await Promise.allSettled([
+      getBrokerAdapter(broker).getAuthStatus(),
+      getPlaidStatus(),
+      getEnrichedSnapshot(),
+    ]);
+    const fetchedAt = Date.now();
+    setPolled({
+      fetchedAt,
+      [broker]: settled(auth),
+      plaid: settled(plaid),
+      snapshot: settled(snapshot),
+    });
+    setNow(fetchedAt);
+    setChecking(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const poll = setInterval(refresh, POLL_MS);
+    const tick = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [refresh]);
+
+  const rows = polled
+    ? evaluateHealth({ now, robinhood: polled.robinhood, alpaca: polled.alpaca, plaid: polled.plaid, snapshot: polled.snapshot }, polled.fetchedAt)
+    : [];
+
+  // Log auth failures once per poll, not on every tick
+  useEffect(() => {
+    if (!polled) return;
+    const polledRows = evaluateHealth({ ...polled, now: polled.fetchedAt }, polled.fetchedAt);
+    setFailures(prev => {
+      const next = recordAuthFailures(prev, polledRows, polled.fetchedAt);
+      if (next !== prev) saveFailures(next);
+      return next;
+    });
+  }, [polled]);
+
+  const clearFailures = useCallback(() => {
+    setFailures([]);
+    saveFailures([]);
+  }, []);
+
+  return (
+    <ConnectionHealthContext.Provider
+      value={{ rows, failures, checkedAt: polled?.fetchedAt ?? null, checking, refresh, clearFailures }}
+    >
+      {children}
+    </ConnectionHealthContext.Provider>
+  );
+}
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { AuthFailure, SourceHealth } from '../utils/connectionHealth';
+
+export interface ConnectionHealthContextType {
+  rows: SourceHealth[];
+  failures: AuthFailure[];
+  checkedAt: number | null;
+  checking: boolean;
+  refresh: () => void;
+  clearFailures: () => void;
+}
+
+// Lives apart from ConnectionHealthProvider so that file only exports a
+// component (fast refresh)
+export const ConnectionHealthContext = createContext<ConnectionHealthContextType>({
+  rows: [],
+  failures: [],
+  checkedAt: null,
+  checking: false,
+  refresh: () => {},
+  clearFailures: () => {},
+});
+
+/** Source health rows and the auth failure log, polled by ConnectionHealthProvider. */
+export function useConnectionHealth(): ConnectionHealthContextType {
+  return useContext(ConnectionHealthContext);
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { getTdQueueStats, subscribeTdQueue, TdQueueStats } from '../services/tdScheduler';
+
+/** Live view of the TwelveData request scheduler's queue. */
+export function useTdQueue(): TdQueueStats {
+  const [stats, setStats] = useState<TdQueueStats>(getTdQueueStats);
+  useEffect(() => subscribeTdQueue(setStats), []);
+  return stats;
+}
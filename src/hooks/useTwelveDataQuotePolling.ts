@@ -38,11 +38,12 @@ export function useTwelveDataQuotePolling(
     }
 
     let cancelled = false;
+    const controller = new AbortController();
     setStatus('connecting');
 
     const poll = async () => {
       try {
-        const quotes = await getQuotes(symbolsRef.current);
+        const quotes = await getQuotes(symbolsRef.current, { signal: controller.signal });
         if (cancelled) return;
         const next: Record<string, LivePrice> = {};
         for (const [symbol, q] of Object.entries(quotes)) {
@@ -62,6 +63,7 @@ export function useTwelveDataQuotePolling(
 
     return () => {
       cancelled = true;
+      controller.abort();
       clearInterval(timer);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
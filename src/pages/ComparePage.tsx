@@ -1,9 +1,18 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { RefreshCw } from 'lucide-react';
 import { PortfolioChart } from '../components/PortfolioChart';
+import { RiskMetricsTable } from '../components/RiskMetricsTable';
+import { PortfolioBuilder } from '../components/PortfolioBuilder';
+import RequestQueueStatus from '../components/RequestQueueStatus';
 import { getPortfolioData, getRangeConfig, PORTFOLIO_ASSETS, PortfolioAsset, NormalizedPriceData } from '../services/twelveDataService';
 import { clearTwelveDataCache } from '../services/twelveDataCache';
-import { processPortfolioReturns, calculateCorrelations } from '../utils/portfolioCalculations';
+import {
+  processPortfolioReturns,
+  calculateCorrelations,
+  calculateRiskMetrics,
+  simulatePortfolio,
+  RebalanceMode,
+} from '../utils/portfolioCalculations';
 import { useTwelveDataLivePrices } from '../hooks/useTwelveDataLivePrices';
 import { useTwelveDataQuotePolling } from '../hooks/useTwelveDataQuotePolling';
 
@@ -30,6 +39,10 @@ export default function ComparePage() {
   const [fees, setFees] = useState<Record<string, number>>(
     () => Object.fromEntries(PORTFOLIO_ASSETS.map((a) => [a.symbol, 0]))
   );
+  const [builderEnabled, setBuilderEnabled] = useState(false);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [rebalance, setRebalance] = useState<RebalanceMode>('quarterly');
+  const [thresholdPct, setThresholdPct] = useState(5);
 
   // Only the enabled symbols are ever fetched — keeps request bursts small so
   // we stay under Twelve Data's rate limit. Responses are cached, so toggling
@@ -40,7 +53,15 @@ export default function ComparePage() {
   );
   const enabledKey = enabledSymbols.join(',');
 
+  const abortRef = useRef<AbortController | null>(null);
+
   const fetchData = async (isRefresh = false) => {
+    // A newer range/selection supersedes whatever is still queued for the old
+    // one — drop it rather than spend rate-limit budget on a stale chart.
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     if (enabledSymbols.length === 0) {
       setPortfolioData([]);
       setLoading(false);
@@ -51,13 +72,17 @@ export default function ComparePage() {
     setError(null);
 
     try {
-      const data = await getPortfolioData(selectedRange, enabledSymbols, isRefresh);
+      const data = await getPortfolioData(selectedRange, enabledSymbols, isRefresh, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setPortfolioData(data);
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch data');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
@@ -67,6 +92,8 @@ export default function ComparePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedRange, enabledKey]);
 
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   // Refresh is an explicit "get fresh data" action — bypass the cache.
   const handleRefresh = () => {
     clearTwelveDataCache();
@@ -112,7 +139,23 @@ export default function ComparePage() {
     return allData.filter((asset) => enabledAssets[asset.symbol]);
   }, [portfolioData, fees, enabledAssets, selectedRange, livePrices]);
 
-  const correlations = useMemo(() => calculateCorrelations(chartData), [chartData]);
+  // Custom-weight blend of the enabled assets, plotted alongside them
+  const blended = useMemo(
+    () => (builderEnabled && chartData.length > 0
+      ? simulatePortfolio(chartData, weights, rebalance, thresholdPct)
+      : null),
+    [builderEnabled, chartData, weights, rebalance, thresholdPct]
+  );
+  const plottedData = useMemo(
+    () => (blended ? [...chartData, blended.series] : chartData),
+    [chartData, blended]
+  );
+
+  const correlations = useMemo(
+    () => calculateCorrelations(chartData, builderEnabled ? weights : undefined),
+    [chartData, builderEnabled, weights]
+  );
+  const riskMetrics = useMemo(() => calculateRiskMetrics(plottedData, 'SPY'), [plottedData]);
 
   const toggleAsset = (symbol: string) => {
     setEnabledAssets((prev) => ({ ...prev, [symbol]: !prev[symbol] }));
@@ -164,6 +207,7 @@ export default function ComparePage() {
           </p>
         </div>
         <div className="flex items-center gap-4">
+          <RequestQueueStatus />
           <div className="flex items-center gap-2" title="Live prices — Twelve Data WebSocket (tick-by-tick) with REST quote polling fallback">
             <span
               className={`w-2 h-2 rounded-full ${
@@ -265,8 +309,23 @@ export default function ComparePage() {
         </div>
       </div>
 
+      {/* Portfolio Builder */}
+      <PortfolioBuilder
+        assets={PORTFOLIO_ASSETS.filter((a) => enabledAssets[a.symbol])}
+        enabled={builderEnabled}
+        onToggle={() => setBuilderEnabled((v) => !v)}
+        weights={weights}
+        onWeightChange={(symbol, value) => setWeights((prev) => ({ ...prev, [symbol]: value }))}
+        onReset={() => setWeights({})}
+        rebalance={rebalance}
+        onRebalanceChange={setRebalance}
+        thresholdPct={thresholdPct}
+        onThresholdChange={setThresholdPct}
+        rebalances={blended?.rebalances ?? null}
+      />
+
       {/* Chart */}
-      <PortfolioChart data={chartData} height={450} />
+      <PortfolioChart data={plottedData} height={450} />
 
       {/* Legend with current returns and prices */}
       {chartData.length > 0 && (
@@ -315,10 +374,18 @@ export default function ComparePage() {
         </div>
       )}
 
+      {/* Risk Metrics */}
+      <RiskMetricsTable metrics={riskMetrics} data={plottedData} benchmarkSymbol="SPY" />
+
       {/* Correlation Matrix */}
       {correlations.length > 0 && (
         <div className="mt-6">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Correlations</h2>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            Correlations
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {builderEnabled ? 'variance shares at custom weights' : 'variance shares at equal weight'}
+            </span>
+          </h2>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {correlations.map((pair) => {
               const corr = pair.correlation;
@@ -7,6 +7,8 @@ import {
   Loader2,
   Lock,
   Bot,
+  Briefcase,
+  CheckCircle,
 } from 'lucide-react';
 import { usePlaidLink } from 'react-plaid-link';
 import {
@@ -22,8 +24,20 @@ import {
   checkVerification,
   submitMFA,
   disconnectRobinhood,
+  formatCurrency,
   AuthStatus,
+  Portfolio,
 } from '../services/robinhoodService';
+import {
+  BROKERS,
+  getBrokerAdapter,
+  getSelectedBroker,
+  setSelectedBroker,
+  BrokerId,
+} from '../services/brokerAdapter';
+import { useConnectionHealth } from '../hooks/useConnectionHealth';
+import ConnectionHealthPanel from '../components/ConnectionHealthPanel';
+import CacheInspector from '../components/CacheInspector';
 
 function PlaidOnboarding({
   plaidStatus,
@@ -373,10 +387,149 @@ function AgentOnboarding({
   );
 }
 
+interface BrokerSummary {
+  portfolio: Portfolio;
+  openOrders: number;
+  optionPositions: number;
+}
+
+const OPEN_ORDER_STATES = new Set(['new', 'queued', 'confirmed', 'unconfirmed', 'accepted', 'pending_new', 'partially_filled']);
+
+function BrokerSelector({ onBrokerChange }: { onBrokerChange: () => void }) {
+  const [selected, setSelected] = useState<BrokerId>(getSelectedBroker);
+  const [statuses, setStatuses] = useState<Partial<Record<BrokerId, AuthStatus | null>>>({});
+  const [summary, setSummary] = useState<BrokerSummary | null>(null);
+  const [summaryLoading, setSummaryLoading] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    BROKERS.forEach(b => {
+      b.getAuthStatus()
+        .then(status => { if (!cancelled) setStatuses(prev => ({ ...prev, [b.id]: status })); })
+        .catch(() => { if (!cancelled) setStatuses(prev => ({ ...prev, [b.id]: null })); });
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const connected = statuses[selected]?.authenticated ?? false;
+
+  useEffect(() => {
+    if (!connected) {
+      setSummary(null);
+      return;
+    }
+    let cancelled = false;
+    const adapter = getBrokerAdapter(selected);
+    setSummaryLoading(true);
+    setSummaryError(null);
+    Promise.all([adapter.getPortfolio(), adapter.getOrders(), adapter.getOptionPositions()])
+      .then(([portfolio, orders, options]) => {
+        if (cancelled) return;
+        setSummary({
+          portfolio,
+          openOrders: orders.filter(o => OPEN_ORDER_STATES.has(o.state)).length,
+          optionPositions: options.length,
+        });
+      })
+      .catch(err => { if (!cancelled) setSummaryError(err instanceof Error ? err.message : 'Failed to load account'); })
+      .finally(() => { if (!cancelled) setSummaryLoading(false); });
+    return () => { cancelled = true; };
+  }, [selected, connected]);
+
+  const choose = (id: BrokerId) => {
+    setSelected(id);
+    setSelectedBroker(id);
+    onBrokerChange();
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-gray-200 dark:border-zinc-800 p-6 mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 rounded-lg bg-gray-100 dark:bg-zinc-800">
+          <Briefcase className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white">Broker</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Account summarized below and checked by connection health</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {BROKERS.map(b => {
+          const status = statuses[b.id];
+          const active = b.id === selected;
+          return (
+            <button
+              key={b.id}
+              onClick={() => choose(b.id)}
+              className={`text-left p-4 rounded-lg border transition-colors ${
+                active
+                  ? 'border-green-500 bg-green-50 dark:bg-green-950/30'
+                  : 'border-gray-200 dark:border-zinc-800 hover:border-gray-300 dark:hover:border-zinc-700'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900 dark:text-white">{b.label}</span>
+                {active && <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{b.description}</div>
+              <div className={`mt-2 text-xs ${status?.authenticated ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                {status === undefined ? 'Checking…' : status === null ? 'Unavailable' : status.message}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected !== 'robinhood' && (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          Trade and P&amp;L pages still read the Robinhood engine snapshot and the trading DB, whichever broker is selected here.
+        </p>
+      )}
+
+      {summaryLoading && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading account…
+        </div>
+      )}
+      {summaryError && (
+        <div className="mt-4 p-2 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+          {summaryError}
+        </div>
+      )}
+      {summary && !summaryLoading && (
+        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Account</div>
+            <div className="font-medium text-gray-900 dark:text-white">{summary.portfolio.accountNumber}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Value</div>
+            <div className="font-medium text-gray-900 dark:text-white">{formatCurrency(summary.portfolio.portfolioValue)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Positions / Options</div>
+            <div className="font-medium text-gray-900 dark:text-white">
+              {summary.portfolio.positions.length} / {summary.optionPositions}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Open orders</div>
+            <div className="font-medium text-gray-900 dark:text-white">{summary.openOrders}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function ConfigurePage() {
   const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null);
   const [plaidStatus, setPlaidStatus] = useState<PlaidAuthStatus | null>(null);
   const [loading, setLoading] = useState(true);
+  const { refresh: refreshHealth } = useConnectionHealth();
 
   const fetchAuthStatus = useCallback(async () => {
     try {
@@ -396,6 +549,17 @@ export default function ConfigurePage() {
     }
   }, []);
 
+  // Connect/disconnect changes what the health panel and banner should say
+  const onAuthChange = useCallback(() => {
+    fetchAuthStatus();
+    refreshHealth();
+  }, [fetchAuthStatus, refreshHealth]);
+
+  const onPlaidChange = useCallback(() => {
+    fetchPlaidStatus();
+    refreshHealth();
+  }, [fetchPlaidStatus, refreshHealth]);
+
   useEffect(() => {
     Promise.all([fetchAuthStatus(), fetchPlaidStatus()]).then(() => {
       setLoading(false);
@@ -431,9 +595,17 @@ export default function ConfigurePage() {
         </p>
       </div>
 
+      <ConnectionHealthPanel />
+
+      <BrokerSelector onBrokerChange={refreshHealth} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <PlaidOnboarding plaidStatus={plaidStatus} onPlaidChange={fetchPlaidStatus} />
-        <AgentOnboarding authStatus={authStatus} onAuthChange={fetchAuthStatus} portfolioConnected={plaidStatus?.connected ?? false} />
+        <PlaidOnboarding plaidStatus={plaidStatus} onPlaidChange={onPlaidChange} />
+        <AgentOnboarding authStatus={authStatus} onAuthChange={onAuthChange} portfolioConnected={plaidStatus?.connected ?? false} />
+      </div>
+
+      <div className="mt-6">
+        <CacheInspector />
       </div>
     </div>
   );
@@ -6,6 +6,8 @@ import BitcoinPriceChart from '../components/BitcoinPriceChart';
 import MarketStats from '../components/MarketStats';
 import NewsSummary from '../components/NewsSummary';
 import MarketIndicators from '../components/MarketIndicators';
+import PriceAlerts from '../components/PriceAlerts';
+import SourceTag from '../components/SourceTag';
 import {
   getBitcoinQuote,
   BitcoinQuote,
@@ -100,6 +102,7 @@ export default function DashboardPage() {
               Updated {lastUpdated.toLocaleTimeString()}
             </span>
           )}
+          <SourceTag source={quoteData?.source} />
           <button
             onClick={() => fetchData(true)}
             disabled={refreshing}
@@ -157,6 +160,11 @@ export default function DashboardPage() {
         <MarketIndicators />
       </div>
 
+      {/* Price & indicator alerts — evaluated on this page's poll */}
+      <div className="mb-8">
+        <PriceAlerts btcQuote={quoteData} updatedAt={lastUpdated} />
+      </div>
+
       {/* News Summary */}
       <div className="mb-8">
         <NewsSummary />
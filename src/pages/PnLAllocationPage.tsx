@@ -1,12 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
-import { RefreshCw, XCircle } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AlertTriangle, RefreshCw, XCircle } from 'lucide-react';
 import {
   getEnrichedSnapshot,
   getDbPnl,
+  getDbOrderHistory,
+  DbOrders,
   DbPnlData,
   EnrichedSnapshot,
   PnLPeriod,
+  Portfolio,
 } from '../services/robinhoodService';
+import { getPlaidStatus, getPlaidPortfolio } from '../services/plaidService';
+import { aggregatePortfolios, enrichedToPortfolio } from '../utils/portfolioAggregation';
 import {
   PortfolioAllocation,
   RealizedPnLSummary,
@@ -14,14 +19,25 @@ import {
   PNL_PERIODS,
   PERIOD_LABEL,
 } from './TradePage';
+import CostBasisLots from '../components/CostBasisLots';
+import TaxLotReport from '../components/TaxLotReport';
+import AllocationOptimizer from '../components/AllocationOptimizer';
+import RebalancePanel from '../components/RebalancePanel';
+import EquityCurve from '../components/EquityCurve';
+import BenchmarkAttribution from '../components/BenchmarkAttribution';
+import ConsolidatedHoldings from '../components/ConsolidatedHoldings';
 
 export default function PnLAllocationPage() {
   const [snapshot,   setSnapshot]   = useState<EnrichedSnapshot | null>(null);
   const [dbPnl,      setDbPnl]      = useState<DbPnlData | null>(null);
+  const [dbHistory,  setDbHistory]  = useState<DbOrders | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const [loading,    setLoading]    = useState(true);
   const [error,      setError]      = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [pnlPeriod,  setPnlPeriod]  = useState<PnLPeriod>('1Y');
+  const [targets,    setTargets]    = useState<Record<string, number> | null>(null);
+  const [plaid,      setPlaid]      = useState<Portfolio | null>(null);
 
   // The trading DB is the primary P&L source once it holds filled orders; fall
   // back to the blob snapshot's pre-computed pnl_by_period until then.
@@ -37,17 +53,34 @@ export default function PnLAllocationPage() {
       ? (snapshot.portfolio.open_orders.length > 0 ? snapshot.portfolio.open_orders : snapshot.order_book)
       : [];
 
+  // Robinhood from the snapshot plus any Plaid-linked brokerage
+  const consolidated = useMemo(() => (snapshot
+    ? aggregatePortfolios([
+        { source: 'robinhood', portfolio: enrichedToPortfolio(snapshot.portfolio) },
+        ...(plaid ? [{ source: 'plaid' as const, portfolio: plaid }] : []),
+      ])
+    : null), [snapshot, plaid]);
+
   const fetchData = useCallback(async (isRefresh = false) => {
     if (isRefresh) setRefreshing(true); else setLoading(true);
     setError(null);
 
-    const [snapshotResult, dbPnlResult] = await Promise.allSettled([
+    const [snapshotResult, dbPnlResult, dbHistoryResult, plaidResult] = await Promise.allSettled([
       getEnrichedSnapshot(),
       getDbPnl(),
+      // Fills for the lot engine — matched client-side per cost-basis method,
+      // so it needs all of them, not the first page
+      getDbOrderHistory(),
+      getPlaidStatus().then(s => (s.connected ? getPlaidPortfolio() : null)),
     ]);
 
     if (snapshotResult.status === 'fulfilled') setSnapshot(snapshotResult.value);
     setDbPnl(dbPnlResult.status === 'fulfilled' ? dbPnlResult.value : null);
+    setDbHistory(dbHistoryResult.status === 'fulfilled' ? dbHistoryResult.value : null);
+    setHistoryError(dbHistoryResult.status === 'rejected'
+      ? (dbHistoryResult.reason instanceof Error ? dbHistoryResult.reason.message : 'Failed to load order history')
+      : null);
+    setPlaid(plaidResult.status === 'fulfilled' ? plaidResult.value : null);
 
     if (snapshotResult.status === 'rejected') {
       setError(snapshotResult.reason instanceof Error ? snapshotResult.reason.message : 'Failed to fetch snapshot');
@@ -107,10 +140,35 @@ export default function PnLAllocationPage() {
 
       {snapshot && (
         <>
+          {/* ── Account equity (deposits kept out of returns) ──────── */}
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Account Performance</h2>
+            <EquityCurve refreshKey={snapshot.timestamp} />
+            <div className="mt-6">
+              <BenchmarkAttribution portfolio={snapshot.portfolio} />
+            </div>
+          </div>
+
           {/* ── Asset Allocation ───────────────────────────────────── */}
           <div className="mb-8">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Asset Allocation</h2>
-            <PortfolioAllocation portfolio={snapshot.portfolio} />
+            <PortfolioAllocation portfolio={snapshot.portfolio} consolidated={consolidated} />
+            {consolidated && consolidated.sources.length > 1 && (
+              <div className="mt-6">
+                <ConsolidatedHoldings consolidated={consolidated} />
+              </div>
+            )}
+            <div className="mt-6">
+              <AllocationOptimizer positions={snapshot.portfolio.positions} onRecommend={setTargets} />
+            </div>
+            <div className="mt-6">
+              <RebalancePanel
+                portfolio={snapshot.portfolio}
+                orderHistory={dbHistory?.historical_orders ?? []}
+                recommended={targets}
+                marketData={snapshot.market_data}
+              />
+            </div>
           </div>
 
           {/* ── Order P&L with period selector ─────────────────────── */}
@@ -154,6 +212,33 @@ export default function PnLAllocationPage() {
               <PnLBySymbolTable stock={pnl.stock} option={pnl.option} />
             </>
           )}
+
+          {(historyError || dbPnl?.truncated) && (
+            <div className="mt-6 flex items-start gap-2 px-4 py-3 rounded-xl border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/30 text-sm text-red-700 dark:text-red-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <div>
+                {historyError && <p>Order history didn't load, so cost basis lots and the tax lot report are unavailable: {historyError}</p>}
+                {dbPnl?.truncated && <p>Realized P&amp;L above is computed from the most recent orders only — the trading DB holds more than it can total at once.</p>}
+              </div>
+            </div>
+          )}
+
+          {/* ── Cost basis lots (all history, not period-filtered) ─── */}
+          {dbHistory && dbHistory.historical_orders.length > 0 && (
+            <div className="mt-6">
+              <CostBasisLots orders={dbHistory.historical_orders} />
+            </div>
+          )}
+
+          {/* ── Year-end tax lots ──────────────────────────────────── */}
+          {dbHistory && dbHistory.historical_orders.length > 0 && (
+            <div className="mt-6">
+              <TaxLotReport
+                stockOrders={dbHistory.historical_orders}
+                optionOrders={dbHistory.historical_option_orders}
+              />
+            </div>
+          )}
         </>
       )}
     </div>
@@ -42,6 +42,12 @@ import {
   getGainColor,
 } from '../services/robinhoodService';
 import OptionPositionsHistory from '../components/OptionPositionsHistory';
+import OrderTicket from '../components/OrderTicket';
+import StopCoveragePanel from '../components/StopCoveragePanel';
+import GreeksRiskPanel from '../components/GreeksRiskPanel';
+import WhatIfSimulator from '../components/WhatIfSimulator';
+import AlertTray from '../components/AlertTray';
+import { SOURCE_LABEL, type AggregatedPortfolio, type PortfolioSource } from '../utils/portfolioAggregation';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -178,32 +184,53 @@ function PortfolioSummary({ portfolio }: { portfolio: EnrichedPortfolio }) {
 
 // ─── PortfolioAllocation ──────────────────────────────────────────────────────
 
-export function PortfolioAllocation({ portfolio }: { portfolio: EnrichedPortfolio }) {
-  const pieData = portfolio.positions.map((pos, i) => ({
-    name: pos.symbol,
-    value: pos.equity,
-    color: COLORS[i % COLORS.length],
-  }));
-
-  const bp = portfolio.cash.buying_power;
+export function PortfolioAllocation({ portfolio, consolidated }: {
+  portfolio: EnrichedPortfolio;
+  /** Holdings across every connected broker; replaces the Robinhood-only book when it spans more than one source */
+  consolidated?: AggregatedPortfolio | null;
+}) {
+  const multiSource = consolidated != null && consolidated.sources.length > 1;
+  const pieData: { name: string; value: number; color: string; sources?: PortfolioSource[] }[] = multiSource
+    ? consolidated.holdings.map((h, i) => ({
+        name: h.symbol,
+        value: h.currentValue,
+        color: COLORS[i % COLORS.length],
+        sources: h.sources,
+      }))
+    : portfolio.positions.map((pos, i) => ({
+        name: pos.symbol,
+        value: pos.equity,
+        color: COLORS[i % COLORS.length],
+      }));
+
+  const bp = multiSource ? consolidated.buyingPower : portfolio.cash.buying_power;
   if (bp > 0) pieData.push({ name: 'Cash', value: bp, color: '#9CA3AF' });
 
   const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ name: string; value: number }> }) => {
     if (!active || !payload?.length) return null;
     const d = payload[0];
     const total = pieData.reduce((s, x) => s + x.value, 0);
+    const sources = pieData.find(x => x.name === d.name)?.sources;
     return (
       <div className="bg-white dark:bg-zinc-900 border border-gray-200 dark:border-zinc-700 rounded-xl shadow-lg p-3">
         <p className="font-medium text-gray-900 dark:text-gray-100">{d.name}</p>
         <p className="text-sm text-gray-600 dark:text-gray-400">{formatCurrency(d.value)}</p>
         <p className="text-sm text-gray-500">{(total > 0 ? (d.value / total) * 100 : 0).toFixed(1)}%</p>
+        {sources && <p className="text-xs text-gray-400">{sources.map(s => SOURCE_LABEL[s]).join(' + ')}</p>}
       </div>
     );
   };
 
   return (
     <div className="bg-white dark:bg-zinc-900 rounded-xl border border-gray-200 dark:border-zinc-700 p-4">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Portfolio Allocation</h3>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+        Portfolio Allocation
+        {multiSource && (
+          <span className="ml-2 px-2 py-0.5 text-xs font-normal bg-gray-100 dark:bg-zinc-800 text-gray-500 dark:text-gray-400 rounded" title="Data sources">
+            {consolidated.sources.map(s => SOURCE_LABEL[s]).join(' + ')}
+          </span>
+        )}
+      </h3>
       <ResponsiveContainer width="100%" height={300}>
         <PieChart>
           <Pie data={pieData} cx="50%" cy="50%" innerRadius={60} outerRadius={100} paddingAngle={2} dataKey="value">
@@ -769,6 +796,12 @@ function OrderBookSnapshotView({ snapshot, dbOrders }: { snapshot: EnrichedSnaps
       {portfolio.options.length > 0 && (
         <div className="mt-6">
           <OptionsPositions options={portfolio.options} summary={portfolio.options_summary} />
+          <div className="mt-6">
+            <GreeksRiskPanel options={portfolio.options} positions={portfolio.positions} />
+          </div>
+          <div className="mt-6">
+            <WhatIfSimulator options={portfolio.options} />
+          </div>
         </div>
       )}
 
@@ -992,8 +1025,22 @@ export default function TradePage() {
 
       {snapshot && (
         <>
+          <AlertTray snapshot={snapshot} />
+
           <OrderBookSnapshotView snapshot={snapshot} dbOrders={dbOrders} />
 
+          <div className="mb-6">
+            <OrderTicket
+              snapshot={snapshot}
+              openOrders={dbOrders?.open_orders.length ? dbOrders.open_orders : snapshot.portfolio.open_orders}
+              onSubmitted={() => fetchData(true)}
+            />
+          </div>
+
+          <div className="mb-6">
+            <StopCoveragePanel refreshKey={snapshot.orders_as_of ?? snapshot.timestamp} />
+          </div>
+
           <PortfolioSummary portfolio={snapshot.portfolio} />
 
           <div className="mb-6">
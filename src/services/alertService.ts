@@ -0,0 +1,36 @@
+// Alert Service
+// Forwards alerts to Slack through the alert-slack Netlify function
+
+import { API_BASE } from '../config/api';
+
+export interface SlackAlert {
+  message: string;
+  source?: string;
+  error?: string;
+  severity?: 'warning' | 'critical';
+  /** Repeats of this key inside cooldownS are dropped server-side */
+  dedupKey?: string;
+  cooldownS?: number;
+}
+
+export interface SlackAlertResult {
+  sent: boolean;
+  suppressed?: boolean;
+}
+
+export async function sendSlackAlert(alert: SlackAlert): Promise<SlackAlertResult> {
+  const response = await fetch(`${API_BASE}/alert-slack`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message: alert.message,
+      source: alert.source,
+      error: alert.error,
+      severity: alert.severity,
+      dedup_key: alert.dedupKey,
+      cooldown_s: alert.cooldownS,
+    }),
+  });
+  if (!response.ok) throw new Error(`Slack alert failed: ${response.status}`);
+  return response.json().catch(() => ({ sent: false }));
+}
@@ -0,0 +1,52 @@
+// Alpaca Service
+// Frontend service layer for the alpaca-broker Netlify function (paper
+// trading by default — keys live server-side)
+
+import type { AuthStatus, Portfolio, Position } from './robinhoodService';
+import type { BrokerAdapter, BrokerOptionPosition, BrokerOrder } from './brokerAdapter';
+import { API_BASE } from '../config/api';
+
+async function fetchApi<T>(endpoint: string): Promise<T> {
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || `Request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export async function getAlpacaStatus(): Promise<AuthStatus> {
+  return fetchApi<AuthStatus>('/alpaca-broker?action=status');
+}
+
+export async function getAlpacaPortfolio(): Promise<Portfolio> {
+  return fetchApi<Portfolio>('/alpaca-broker?action=portfolio');
+}
+
+export async function getAlpacaPositions(): Promise<Position[]> {
+  return (await getAlpacaPortfolio()).positions;
+}
+
+export async function getAlpacaOrders(): Promise<BrokerOrder[]> {
+  return fetchApi<BrokerOrder[]>('/alpaca-broker?action=orders');
+}
+
+export async function getAlpacaOptionPositions(): Promise<BrokerOptionPosition[]> {
+  const data = await fetchApi<{ positions: BrokerOptionPosition[] }>('/alpaca-broker?action=options');
+  return data.positions;
+}
+
+export const alpacaAdapter: BrokerAdapter = {
+  id: 'alpaca',
+  label: 'Alpaca',
+  description: 'Paper trading via API keys',
+  getAuthStatus: getAlpacaStatus,
+  getPortfolio: getAlpacaPortfolio,
+  getPositions: getAlpacaPositions,
+  getOrders: getAlpacaOrders,
+  getOptionPositions: getAlpacaOptionPositions,
+};
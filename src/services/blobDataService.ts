@@ -40,6 +40,7 @@ export interface OptionSnapshot {
   latestQuote?: OptionQuote;
   greeks?: OptionGreeks | null;
   impliedVolatility?: number | null;
+  openInterest?: number | null;
 }
 
 export interface OptionBar {
@@ -0,0 +1,81 @@
+// Broker Adapter
+// Common surface every brokerage service exposes to the UI, plus the
+// registry ConfigurePage picks the active broker from. Each adapter talks to
+// its own Netlify function; the function maps the broker's payloads onto
+// these shapes so pages never branch on which broker is connected.
+//
+// The selection drives ConfigurePage's account summary and connection
+// health. Trade and P&L read the engine snapshot and trading DB instead,
+// which are Robinhood-only.
+
+import { robinhoodAdapter, type AuthStatus, type Portfolio, type Position } from './robinhoodService';
+import { alpacaAdapter } from './alpacaService';
+
+export type BrokerId = 'robinhood' | 'alpaca';
+
+export interface BrokerOrder {
+  id: string;
+  symbol: string;
+  name: string;
+  side: string;
+  type: string;
+  quantity: number;
+  price: number;
+  state: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrokerOptionPosition {
+  /** Underlying ticker */
+  symbol: string;
+  strategy: string | null;
+  direction: string | null;
+  optionType: string | null;
+  strike: number | null;
+  expiration: string | null;
+  quantity: number;
+  avgOpenPrice: number;
+  markPrice: number | null;
+  multiplier: number;
+  totalCost: number;
+  currentValue: number;
+  gain: number;
+  gainPercent: number;
+}
+
+export interface BrokerAdapter {
+  id: BrokerId;
+  label: string;
+  /** Shown under the label, e.g. "Paper trading" */
+  description: string;
+  getAuthStatus(): Promise<AuthStatus>;
+  getPortfolio(): Promise<Portfolio>;
+  getPositions(): Promise<Position[]>;
+  getOrders(): Promise<BrokerOrder[]>;
+  getOptionPositions(): Promise<BrokerOptionPosition[]>;
+}
+
+export const BROKERS: BrokerAdapter[] = [robinhoodAdapter, alpacaAdapter];
+
+export function getBrokerAdapter(id: BrokerId): BrokerAdapter {
+  return BROKERS.find(b => b.id === id) ?? robinhoodAdapter;
+}
+
+const BROKER_KEY = 'broker';
+
+export function getSelectedBroker(): BrokerId {
+  try {
+    return localStorage.getItem(BROKER_KEY) === 'alpaca' ? 'alpaca' : 'robinhood';
+  } catch {
+    return 'robinhood';
+  }
+}
+
+export function setSelectedBroker(id: BrokerId): void {
+  try {
+    localStorage.setItem(BROKER_KEY, id);
+  } catch {
+    // Private mode — selection lasts for this page view only
+  }
+}
@@ -0,0 +1,138 @@
+// CoinGecko provider — crypto pairs only, called directly (public API, no
+// key). Fallback for BTC/USD and friends when TwelveData is down or rate
+// limited. CoinGecko returns price points rather than bars, at a granularity
+// it picks from the span requested, so points are bucketed into OHLC bars at
+// the interval the caller asked for.
+
+import {
+  providerError,
+  INTERVAL_MS,
+  formatBarDatetime,
+  MarketDataProvider,
+  Bar,
+  BarInterval,
+  ProviderQuote,
+  RequestOptions,
+} from './marketDataProvider';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+// App symbol → CoinGecko coin id. Only USD pairs: a bare "BTC" is the
+// Grayscale Mini Trust ETF, not the coin.
+const COIN_IDS: Record<string, string> = {
+  'BTC/USD': 'bitcoin',
+  'ETH/USD': 'ethereum',
+  'SOL/USD': 'solana',
+};
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Bucket [ms, price] points into OHLC bars of `interval` (UTC-aligned) and
+ * keep the last `outputsize`. Volume is not available per bar and is 0.
+ */
+export function resampleToBars(points: [number, number][], interval: BarInterval, outputsize: number): Bar[] {
+  const size = INTERVAL_MS[interval];
+  const bars: Bar[] = [];
+  let current: Bar | null = null;
+  for (const [ts, price] of [...points].sort((a, b) => a[0] - b[0])) {
+    if (!Number.isFinite(price)) continue;
+    const start = Math.floor(ts / size) * size;
+    if (!current || current.timestamp !== start) {
+      current = { datetime: formatBarDatetime(start, interval), timestamp: start, open: price, high: price, low: price, close: price, volume: 0 };
+      bars.push(current);
+    } else {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+    }
+  }
+  return bars.slice(-outputsize);
+}
+
+// TwelveData-style "YYYY-MM-DD[ HH:mm:ss]" (taken as UTC) or full ISO
+function parseEndDate(endDate: string): number {
+  if (endDate.includes('T')) return Date.parse(endDate);
+  return Date.parse(endDate.length > 10 ? `${endDate.replace(' ', 'T')}Z` : `${endDate}T23:59:59Z`);
+}
+
+async function cgGet<T>(path: string, what: string, opts: RequestOptions = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${COINGECKO_API}${path}`, { signal: opts.signal });
+  } catch (err) {
+    if (opts.signal?.aborted) throw err;
+    throw providerError('coingecko', null, `${what}: ${err instanceof Error ? err.message : 'network error'}`);
+  }
+  if (!response.ok) throw providerError('coingecko', response.status, `Failed to fetch ${what}: ${response.status}`);
+  return response.json() as Promise<T>;
+}
+
+function coinId(symbol: string): string {
+  const id = COIN_IDS[symbol];
+  if (!id) throw providerError('coingecko', 404, `Unsupported symbol ${symbol}`);
+  return id;
+}
+
+export const coinGeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+
+  mapSymbol: (symbol) => COIN_IDS[symbol] ?? null,
+
+  async timeSeries(symbol, req, opts) {
+    const id = coinId(symbol);
+    // One extra interval so the oldest bucket is complete
+    const spanMs = (req.outputsize + 1) * INTERVAL_MS[req.interval];
+    const daily = req.interval === '1day' || req.interval === '1week';
+    let path: string;
+    if (req.endDate) {
+      const to = parseEndDate(req.endDate);
+      path = `/coins/${id}/market_chart/range?vs_currency=usd&from=${Math.floor((to - spanMs) / 1000)}&to=${Math.floor(to / 1000)}`;
+    } else {
+      const days = Math.max(1, Math.ceil(spanMs / DAY_MS));
+      path = `/coins/${id}/market_chart?vs_currency=usd&days=${days}${daily ? '&interval=daily' : ''}`;
+    }
+    const data = await cgGet<{ prices?: [number, number][] }>(path, `${symbol} history`, opts);
+    return resampleToBars(data.prices ?? [], req.interval, req.outputsize);
+  },
+
+  async quote(symbol, opts) {
+    const id = coinId(symbol);
+    const rows = await cgGet<Record<string, unknown>[]>(
+      `/coins/markets?vs_currency=usd&ids=${id}&price_change_percentage=24h`,
+      `${symbol} quote`,
+      opts,
+    );
+    const row = rows[0];
+    if (!row) throw providerError('coingecko', 404, `No quote for ${symbol}`);
+    const num = (k: string) => (typeof row[k] === 'number' ? (row[k] as number) : NaN);
+    const close = num('current_price');
+    const change = num('price_change_24h');
+    const updated = typeof row.last_updated === 'string' ? Date.parse(row.last_updated) : Date.now();
+    const quote: ProviderQuote = {
+      symbol,
+      name: typeof row.name === 'string' ? row.name : undefined,
+      // CoinGecko has no session open; the 24h-ago price stands in for it
+      open: close - change,
+      high: num('high_24h'),
+      low: num('low_24h'),
+      close,
+      volume: num('total_volume'),
+      previous_close: close - change,
+      change,
+      percent_change: num('price_change_percentage_24h'),
+      datetime: new Date(updated).toISOString(),
+      timestamp: updated,
+      is_market_open: true,
+    };
+    return quote;
+  },
+
+  async price(symbol, opts) {
+    const id = coinId(symbol);
+    const data = await cgGet<Record<string, { usd?: number }>>(`/simple/price?ids=${id}&vs_currencies=usd`, `${symbol} price`, opts);
+    const price = data[id]?.usd;
+    if (price == null) throw providerError('coingecko', 404, `No price for ${symbol}`);
+    return price;
+  },
+};
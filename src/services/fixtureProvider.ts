@@ -0,0 +1,118 @@
+// Local fixture provider — last-resort source for offline dev and demos
+// (enabled via VITE_MARKET_DATA_FIXTURES or in `vite dev`). Bars are a
+// deterministic random walk per symbol ending at a recorded close, so charts
+// render and stay stable across reloads. Never a substitute for real data:
+// everything it serves is tagged `fixture` and labelled in the UI.
+
+import {
+  INTERVAL_MS,
+  formatBarDatetime,
+  providerError,
+  MarketDataProvider,
+  Bar,
+  BarInterval,
+} from './marketDataProvider';
+
+// Recorded closes the walks end on
+const FIXTURE_CLOSES: Record<string, number> = {
+  'BTC/USD': 70885.88,
+  BTC: 30.85,
+  GBTC: 56.2,
+  MSTR: 312.4,
+  SPY: 612.3,
+  VOO: 562.8,
+  QQQ: 541.1,
+  IWM: 221.6,
+  IWN: 168.9,
+  GLD: 301.7,
+  AAPL: 228.5,
+  MSFT: 468.2,
+  AMZN: 221.9,
+  GOOGL: 184.3,
+  META: 702.4,
+  NVDA: 176.1,
+  AVGO: 289.6,
+  NBIS: 48.7,
+  NET: 182.4,
+  TSLA: 331.8,
+  CRWD: 452.3,
+};
+
+// Daily volatility of the walk; crypto moves more than equities
+const DAILY_VOL = (symbol: string) => (symbol.includes('/') ? 0.03 : 0.015);
+
+function seededRandom(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    h = Math.imul(h ^ (h >>> 15), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return ((h ^= h >>> 16) >>> 0) / 4294967296;
+  };
+}
+
+/** `outputsize` bars ending at the bucket containing `endMs`, oldest first. */
+export function fixtureBars(symbol: string, interval: BarInterval, outputsize: number, endMs: number): Bar[] {
+  const anchor = FIXTURE_CLOSES[symbol];
+  if (anchor == null) return [];
+  const size = INTERVAL_MS[interval];
+  const step = DAILY_VOL(symbol) * Math.sqrt(size / INTERVAL_MS['1day']);
+  const rand = seededRandom(`${symbol}:${interval}`);
+
+  // Walk backwards from the anchor so the latest close is always the recorded one
+  const bars: Bar[] = [];
+  let close = anchor;
+  const last = Math.floor(endMs / size) * size;
+  for (let i = 0; i < outputsize; i++) {
+    const ts = last - i * size;
+    const open = close / (1 + (rand() - 0.5) * 2 * step);
+    const wick = Math.abs(close - open) * rand();
+    bars.push({
+      datetime: formatBarDatetime(ts, interval),
+      timestamp: ts,
+      open,
+      high: Math.max(open, close) + wick,
+      low: Math.min(open, close) - wick,
+      close,
+      volume: Math.round(1e6 * (0.5 + rand())),
+    });
+    close = open;
+  }
+  return bars.reverse();
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  id: 'fixture',
+
+  mapSymbol: (symbol) => (symbol in FIXTURE_CLOSES ? symbol : null),
+
+  async timeSeries(symbol, req) {
+    const end = req.endDate ? Date.parse(req.endDate.replace(' ', 'T')) : Date.now();
+    return fixtureBars(symbol, req.interval, req.outputsize, end);
+  },
+
+  async quote(symbol) {
+    const [prev, last] = fixtureBars(symbol, '1day', 2, Date.now());
+    if (!last) throw providerError('fixture', 404, `No fixture for ${symbol}`);
+    return {
+      symbol,
+      open: last.open,
+      high: last.high,
+      low: last.low,
+      close: last.close,
+      volume: last.volume,
+      previous_close: prev.close,
+      change: last.close - prev.close,
+      percent_change: ((last.close - prev.close) / prev.close) * 100,
+      datetime: last.datetime,
+      timestamp: Date.now(),
+      is_market_open: false,
+    };
+  },
+
+  async price(symbol) {
+    const close = FIXTURE_CLOSES[symbol];
+    if (close == null) throw providerError('fixture', 404, `No fixture for ${symbol}`);
+    return close;
+  },
+};
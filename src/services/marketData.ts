@@ -0,0 +1,40 @@
+// Market data entry points. Every time series, quote and price the app shows
+// goes through here rather than straight at tdProxyUrl or CoinGecko, so one
+// provider being down or rate limited falls through to the next instead of
+// breaking the page. Results are tagged with the provider that served them.
+
+import {
+  withFailover,
+  Bar,
+  ProviderQuote,
+  RequestOptions,
+  SeriesRequest,
+  Sourced,
+  MarketDataProvider,
+} from './marketDataProvider';
+import { twelveDataProvider } from './twelveDataProvider';
+import { coinGeckoProvider } from './coinGeckoProvider';
+import { fixtureProvider } from './fixtureProvider';
+
+// Fixtures are opt-in outside `vite dev` — a production page should error
+// rather than quietly chart made-up numbers.
+const FIXTURES_ENABLED = import.meta.env.DEV || import.meta.env.VITE_MARKET_DATA_FIXTURES === 'true';
+
+/** Providers in preference order */
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [
+  twelveDataProvider,
+  coinGeckoProvider,
+  ...(FIXTURES_ENABLED ? [fixtureProvider] : []),
+];
+
+export function fetchTimeSeries(symbol: string, req: SeriesRequest, opts?: RequestOptions): Promise<Sourced<Bar[]>> {
+  return withFailover(MARKET_DATA_PROVIDERS, symbol, (p) => p.timeSeries(symbol, req, opts));
+}
+
+export function fetchQuote(symbol: string, opts?: RequestOptions): Promise<Sourced<ProviderQuote>> {
+  return withFailover(MARKET_DATA_PROVIDERS, symbol, (p) => p.quote(symbol, opts));
+}
+
+export function fetchPrice(symbol: string, opts?: RequestOptions): Promise<Sourced<number>> {
+  return withFailover(MARKET_DATA_PROVIDERS, symbol, (p) => p.price(symbol, opts));
+}
@@ -0,0 +1,83 @@
+import { PROVIDER_COOLDOWN_MS, cacheTtlFor, providerError, resetProviderCooldowns, withFailover } from './marketDataProvider';
+import type { MarketDataProvider, ProviderId } from './marketDataProvider';
+import { coinGeckoProvider, resampleToBars } from './coinGeckoProvider';
+import { fixtureBars } from './fixtureProvider';
+
+function fake(id: ProviderId, price: () => Promise<number>, supports = true): MarketDataProvider & { calls: number } {
+  const provider = {
+    id,
+    calls: 0,
+    mapSymbol: (symbol: string) => (supports ? symbol : null),
+    timeSeries: async () => [],
+    quote: async () => { throw new Error('unused'); },
+    price: () => { provider.calls++; return price(); },
+  };
+  return provider;
+}
+
+describe('marketDataProvider', () => {
+  beforeEach(() => resetProviderCooldowns());
+
+  it('fails over on an outage and skips the down provider until its cooldown ends', async () => {
+    let t = 0;
+    const now = () => t;
+    const primary = fake('twelvedata', () => Promise.reject(providerError('twelvedata', 429, 'rate limited')));
+    const backup = fake('coingecko', () => Promise.resolve(101));
+    const unsupported = fake('fixture', () => Promise.resolve(0), false);
+    const providers = [primary, backup, unsupported];
+
+    await expect(withFailover(providers, 'BTC/USD', p => p.price('BTC/USD'), now)).resolves.toEqual({ data: 101, source: 'coingecko' });
+    expect(primary.calls).toBe(1);
+
+    // Cooling down: the backup is asked first and the primary is not touched
+    await withFailover(providers, 'BTC/USD', p => p.price('BTC/USD'), now);
+    expect(primary.calls).toBe(1);
+
+    t = PROVIDER_COOLDOWN_MS + 1;
+    await withFailover(providers, 'BTC/USD', p => p.price('BTC/USD'), now);
+    expect(primary.calls).toBe(2);
+    expect(unsupported.calls).toBe(0);
+  });
+
+  it('reports every provider error when all fail', async () => {
+    const providers = [
+      fake('twelvedata', () => Promise.reject(providerError('twelvedata', 500, 'down'))),
+      fake('coingecko', () => Promise.reject(providerError('coingecko', 404, 'no such coin'))),
+    ];
+    await expect(withFailover(providers, 'X', p => p.price('X'))).rejects.toThrow('TwelveData: down; CoinGecko: no such coin');
+    await expect(withFailover([], 'X', p => p.price('X'))).rejects.toThrow('No market data provider supports X');
+  });
+
+  it('caches fallback results only until the primary cools down, and fixtures not at all', () => {
+    const day = 24 * 60 * 60_000;
+    expect(cacheTtlFor('twelvedata', day)).toBe(day);
+    expect(cacheTtlFor(undefined, day)).toBe(day);
+    expect(cacheTtlFor('coingecko', day)).toBe(PROVIDER_COOLDOWN_MS);
+    expect(cacheTtlFor('coingecko', 1000)).toBe(1000);
+    expect(cacheTtlFor('fixture', day)).toBe(0);
+  });
+
+  it('maps only crypto pairs to CoinGecko and buckets its points into bars', () => {
+    expect(coinGeckoProvider.mapSymbol('BTC/USD')).toBe('bitcoin');
+    // A bare "BTC" is the Mini Trust ETF, not the coin
+    expect(coinGeckoProvider.mapSymbol('BTC')).toBeNull();
+
+    const h = 3_600_000;
+    const bars = resampleToBars([[2 * h + 10, 12], [h, 10], [h + 60_000, 14], [h + 120_000, 9], [2 * h, 11]], '1h', 5);
+    expect(bars).toEqual([
+      { datetime: '1970-01-01 01:00:00', timestamp: h, open: 10, high: 14, low: 9, close: 9, volume: 0 },
+      { datetime: '1970-01-01 02:00:00', timestamp: 2 * h, open: 11, high: 12, low: 11, close: 12, volume: 0 },
+    ]);
+    expect(resampleToBars([[h, 10], [2 * h, 11]], '1h', 1)).toHaveLength(1);
+  });
+
+  it('serves deterministic fixture bars ending on the recorded close', () => {
+    const end = Date.UTC(2026, 0, 10);
+    const bars = fixtureBars('IWM', '1day', 5, end);
+    expect(bars).toHaveLength(5);
+    expect(bars[4]).toMatchObject({ datetime: '2026-01-10', close: 221.6 });
+    expect(bars[0].timestamp).toBeLessThan(bars[4].timestamp);
+    expect(fixtureBars('IWM', '1day', 5, end)).toEqual(bars);
+    expect(fixtureBars('NOPE', '1day', 5, end)).toEqual([]);
+  });
+});
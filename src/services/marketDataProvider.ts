@@ -0,0 +1,165 @@
+// Market data provider abstraction. Services ask for a time series, quote or
+// price by app symbol ("BTC/USD", "IWM"); each provider maps that to its own
+// symbology and the failover runner tries providers in order until one
+// answers. Results carry the id of the provider that served them so the UI
+// can show where a number came from when it was not the primary source.
+
+export type ProviderId = 'twelvedata' | 'coingecko' | 'fixture';
+
+export const PROVIDER_LABEL: Record<ProviderId, string> = {
+  twelvedata: 'TwelveData',
+  coingecko: 'CoinGecko',
+  fixture: 'Local fixture',
+};
+
+/** TwelveData interval names; other providers resample to match. */
+export type BarInterval = '5min' | '15min' | '1h' | '1day' | '1week';
+
+export const INTERVAL_MS: Record<BarInterval, number> = {
+  '5min': 5 * 60_000,
+  '15min': 15 * 60_000,
+  '1h': 60 * 60_000,
+  '1day': 86_400_000,
+  '1week': 7 * 86_400_000,
+};
+
+export function formatBarDatetime(ms: number, interval: BarInterval): string {
+  const iso = new Date(ms).toISOString();
+  return interval === '1day' || interval === '1week' ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+export interface SeriesRequest {
+  interval: BarInterval;
+  outputsize: number;
+  /** Last bar at or before this datetime ("YYYY-MM-DD HH:mm:ss") */
+  endDate?: string;
+  /** Ask the provider to bypass its own cache (TwelveData proxy only) */
+  refresh?: boolean;
+}
+
+/** Scheduling hint for rate-limited providers: what's on screen goes first. */
+export type RequestPriority = 'visible' | 'quote' | 'prefetch';
+
+export interface RequestOptions {
+  priority?: RequestPriority;
+  /** Abort when the requesting component unmounts; drops it from any queue */
+  signal?: AbortSignal;
+}
+
+export interface Bar {
+  /** "YYYY-MM-DD" for daily/weekly bars, "YYYY-MM-DD HH:mm:ss" intraday */
+  datetime: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ProviderQuote {
+  symbol: string;
+  name?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  previous_close: number;
+  change: number;
+  percent_change: number;
+  datetime: string;
+  /** Last trade, ms epoch */
+  timestamp: number;
+  is_market_open?: boolean;
+}
+
+export interface MarketDataProvider {
+  id: ProviderId;
+  /** Provider-native symbol, or null when the provider cannot serve it */
+  mapSymbol(symbol: string): string | null;
+  /** Bars oldest first */
+  timeSeries(symbol: string, req: SeriesRequest, opts?: RequestOptions): Promise<Bar[]>;
+  quote(symbol: string, opts?: RequestOptions): Promise<ProviderQuote>;
+  price(symbol: string, opts?: RequestOptions): Promise<number>;
+}
+
+export interface Sourced<T> {
+  data: T;
+  source: ProviderId;
+}
+
+/** Error carrying the upstream HTTP status, so failover can tell a 429 from a bad symbol. */
+export function providerError(provider: ProviderId, status: number | null, message: string): Error & { status: number | null } {
+  return Object.assign(new Error(`${PROVIDER_LABEL[provider]}: ${message}`), { status });
+}
+
+// After a rate limit, server error or network failure a provider sits out
+// this long, so a TwelveData outage costs one failed request rather than one
+// per symbol on a fan-out page
+export const PROVIDER_COOLDOWN_MS = 60_000;
+
+const cooldownUntil = new Map<ProviderId, number>();
+
+/**
+ * Cache lifetime for a result `source` served, given the usual `ttl`. A
+ * fallback's answer is only kept until TwelveData's cooldown is up, so the
+ * next read asks it again; fixtures are never cached. `undefined` is a
+ * result cached before sources were tracked, which was TwelveData.
+ */
+export function cacheTtlFor(source: ProviderId | undefined, ttl: number): number {
+  if (source === 'fixture') return 0;
+  return source === 'coingecko' ? Math.min(ttl, PROVIDER_COOLDOWN_MS) : ttl;
+}
+
+export function abortError(): Error {
+  return Object.assign(new Error('Request cancelled'), { name: 'AbortError' });
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === 'AbortError';
+}
+
+function isOutage(err: unknown): boolean {
+  const status = (err as { status?: number | null } | null)?.status;
+  return status == null || status === 429 || status >= 500;
+}
+
+export function resetProviderCooldowns(): void {
+  cooldownUntil.clear();
+}
+
+/**
+ * Run `call` against each provider that can serve `symbol`, in order, and
+ * return the first success tagged with its source. Providers cooling down
+ * from an outage are tried last rather than skipped, so a request still
+ * goes out when every provider is marked down.
+ */
+export async function withFailover<T>(
+  providers: MarketDataProvider[],
+  symbol: string,
+  call: (provider: MarketDataProvider) => Promise<T>,
+  now: () => number = Date.now,
+): Promise<Sourced<T>> {
+  const eligible = providers.filter(p => p.mapSymbol(symbol) != null);
+  if (eligible.length === 0) throw new Error(`No market data provider supports ${symbol}`);
+
+  const t = now();
+  const cooling = (p: MarketDataProvider) => (cooldownUntil.get(p.id) ?? 0) > t;
+  const ordered = [...eligible.filter(p => !cooling(p)), ...eligible.filter(cooling)];
+
+  const errors: string[] = [];
+  for (const provider of ordered) {
+    try {
+      const data = await call(provider);
+      cooldownUntil.delete(provider.id);
+      return { data, source: provider.id };
+    } catch (err) {
+      // The caller went away — not the provider's fault, and no one to fail over for
+      if (isAbortError(err)) throw err;
+      if (isOutage(err)) cooldownUntil.set(provider.id, now() + PROVIDER_COOLDOWN_MS);
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  throw new Error(errors.join('; '));
+}
@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+// IndexedDB comes from fake-indexeddb; node, not jsdom, so structuredClone exists
+import { IDBFactory } from 'fake-indexeddb';
+import { ENTRY_BUDGET_BYTES, STORE_BUDGET_BYTES, applyMigrations, pickEvictions } from './marketDataStore';
+import type { StoredMeta } from './marketDataStore';
+
+function meta(key: string, size: number, lastAccess: number): StoredMeta {
+  return { key, size, storedAt: 0, expires: 0, lastAccess };
+}
+
+// The store caches its connection per module instance; each test gets a
+// fresh module over a fresh database
+const loadStore = () => import('./marketDataStore');
+const loadCache = () => import('./twelveDataCache');
+
+function openRaw(name: string, version: number, migrations: ((db: IDBDatabase) => void)[]): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = (event) => applyMigrations(req.result, event.oldVersion, migrations);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+describe('marketDataStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('evicts least-recently-used entries until the rest fit the budget', () => {
+    const metas = [meta('recent', 40, 300), meta('oldest', 30, 100), meta('middle', 50, 200)];
+    expect(pickEvictions(metas, 120)).toEqual([]);
+    expect(pickEvictions(metas, 90)).toEqual(['oldest']);
+    expect(pickEvictions(metas, 40)).toEqual(['oldest', 'middle']);
+  });
+
+  it('degrades to a no-op without IndexedDB', async () => {
+    delete (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    const { writeStored, readStored, listStored } = await loadStore();
+    await writeStored('series:SPY:1day', [1, 2, 3], now + 1000);
+    await expect(readStored('series:SPY:1day')).resolves.toBeNull();
+    await expect(listStored()).resolves.toEqual([]);
+  });
+
+  it('round-trips a value and marks it used on read', async () => {
+    const { writeStored, readStored, listStored } = await loadStore();
+    await writeStored('quote:SPY', { price: 500 }, now + 60_000);
+
+    now += 5_000;
+    const entry = await readStored<{ price: number }>('quote:SPY');
+    expect(entry?.value).toEqual({ price: 500 });
+    expect(entry?.meta).toEqual({
+      key: 'quote:SPY', size: JSON.stringify({ price: 500 }).length,
+      storedAt: 1_000_000, expires: 1_060_000, lastAccess: 1_005_000,
+    });
+    expect((await listStored())[0].lastAccess).toBe(1_005_000);
+  });
+
+  it('keeps oversized entries out and evicts the least recently used past the budget', async () => {
+    const { writeStored, readStored, listStored } = await loadStore();
+    const payload = 'x'.repeat(ENTRY_BUDGET_BYTES - 10);
+
+    await writeStored('too-big', 'x'.repeat(ENTRY_BUDGET_BYTES + 1), now + 60_000);
+    expect(await listStored()).toEqual([]);
+
+    const keys = ['a', 'b', 'c', 'd', 'e', 'f'];
+    for (const key of keys.slice(0, 5)) {
+      now += 1_000;
+      await writeStored(key, payload, now + 60_000);
+    }
+    // Touch the oldest so the next-oldest is the one to go
+    now += 1_000;
+    await readStored('a');
+    now += 1_000;
+    await writeStored('f', payload, now + 60_000);
+
+    const stored = await listStored();
+    expect(stored.map((m) => m.key).sort()).toEqual(['a', 'c', 'd', 'e', 'f']);
+    expect(stored.reduce((sum, m) => sum + m.size, 0)).toBeLessThanOrEqual(STORE_BUDGET_BYTES);
+    await expect(readStored('b')).resolves.toBeNull();
+  });
+
+  it('upgrades an older database by running only the missing migrations', async () => {
+    const calls: number[] = [];
+    const v1 = (db: IDBDatabase) => {
+      calls.push(1);
+      db.createObjectStore('meta', { keyPath: 'key' });
+    };
+    const v2 = (db: IDBDatabase) => {
+      calls.push(2);
+      db.createObjectStore('values', { keyPath: 'key' });
+    };
+
+    const old = await openRaw('upgrade-test', 1, [v1]);
+    old.transaction('meta', 'readwrite').objectStore('meta').put({ key: 'kept' });
+    old.close();
+
+    const upgraded = await openRaw('upgrade-test', 2, [v1, v2]);
+    expect(calls).toEqual([1, 2]);
+    expect([...upgraded.objectStoreNames].sort()).toEqual(['meta', 'values']);
+    const row = await new Promise((resolve) => {
+      const req = upgraded.transaction('meta').objectStore('meta').get('kept');
+      req.onsuccess = () => resolve(req.result);
+    });
+    expect(row).toEqual({ key: 'kept' });
+    upgraded.close();
+  });
+
+  it('hydrates the cache from a fresh stored entry and tops up from an expired one', async () => {
+    const { writeStored } = await loadStore();
+    await writeStored('quote:SPY', 500, now + 60_000);
+    await writeStored('series:SPY:1day', [1, 2], now - 1);
+
+    // A new page load: empty memory, same database
+    jest.resetModules();
+    const { cachedJson } = await loadCache();
+    const fetcher = jest.fn(async (previous: number[] | undefined) => [...(previous ?? []), 3]);
+
+    await expect(cachedJson('quote:SPY', 60_000, async () => 0)).resolves.toBe(500);
+    await expect(cachedJson('series:SPY:1day', 60_000, fetcher)).resolves.toEqual([1, 2, 3]);
+    expect(fetcher).toHaveBeenCalledWith([1, 2], expect.anything());
+  });
+});
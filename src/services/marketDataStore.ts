@@ -0,0 +1,189 @@
+/**
+ * IndexedDB persistence for the market data cache (see twelveDataCache).
+ *
+ * localStorage caps out around 5 MB per origin and fails silently past it,
+ * which multi-year hourly series hit quickly. IndexedDB has room, but not
+ * unlimited room, so the store keeps itself inside a byte budget:
+ *
+ *   - `meta` holds key, approximate size, stored/expiry/last-access times
+ *   - `values` holds the payloads, read only on a lookup
+ *
+ * so listing entries and picking LRU victims never loads the payloads.
+ * Entries over ENTRY_BUDGET_BYTES are not persisted at all (memory only).
+ * Every call degrades to a no-op when IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'market-data';
+const META = 'meta';
+const VALUES = 'values';
+
+export const STORE_BUDGET_BYTES = 25 * 1024 * 1024;
+export const ENTRY_BUDGET_BYTES = 5 * 1024 * 1024;
+
+export interface StoredMeta {
+  key: string;
+  /** Serialized JSON length — close to bytes for ASCII payloads */
+  size: number;
+  storedAt: number;
+  expires: number;
+  lastAccess: number;
+}
+
+export interface StoredEntry<T> {
+  meta: StoredMeta;
+  value: T;
+}
+
+// Schema migrations; MIGRATIONS[i] upgrades a database at version i to i + 1.
+// Add a step (never edit a shipped one) and the version follows.
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    db.createObjectStore(META, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+    db.createObjectStore(VALUES, { keyPath: 'key' });
+  },
+];
+const DB_VERSION = MIGRATIONS.length;
+
+/** Run the steps a database at `oldVersion` is missing, in order. */
+export function applyMigrations(
+  db: IDBDatabase,
+  oldVersion: number,
+  migrations: ((db: IDBDatabase) => void)[] = MIGRATIONS,
+): void {
+  for (let v = oldVersion; v < migrations.length; v++) migrations[v](db);
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = (event) => applyMigrations(req.result, event.oldVersion);
+        req.onsuccess = () => resolve(req.result);
+        // Private mode, disabled storage or a newer schema in another tab
+        req.onerror = () => resolve(null);
+        req.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Least-recently-used entries to drop so the rest fit in `budget` bytes.
+ */
+export function pickEvictions(metas: StoredMeta[], budget: number): string[] {
+  let total = metas.reduce((sum, m) => sum + m.size, 0);
+  const victims: string[] = [];
+  for (const meta of [...metas].sort((a, b) => a.lastAccess - b.lastAccess)) {
+    if (total <= budget) break;
+    victims.push(meta.key);
+    total -= meta.size;
+  }
+  return victims;
+}
+
+/** Read an entry (expired or not) and mark it recently used. */
+export async function readStored<T>(key: string): Promise<StoredEntry<T> | null> {
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    const tx = db.transaction([META, VALUES], 'readwrite');
+    const [meta, row] = await Promise.all([
+      done<StoredMeta | undefined>(tx.objectStore(META).get(key)),
+      done<{ key: string; value: T } | undefined>(tx.objectStore(VALUES).get(key)),
+    ]);
+    if (!meta || !row) return null;
+    const touched = { ...meta, lastAccess: Date.now() };
+    tx.objectStore(META).put(touched);
+    await committed(tx);
+    return { meta: touched, value: row.value };
+  } catch {
+    return null;
+  }
+}
+
+/** Persist an entry, then evict LRU entries past the store budget. */
+export async function writeStored<T>(key: string, value: T, expires: number): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const size = JSON.stringify(value).length;
+    if (size > ENTRY_BUDGET_BYTES) {
+      await deleteStored(key);
+      return;
+    }
+    const now = Date.now();
+    const meta: StoredMeta = { key, size, storedAt: now, expires, lastAccess: now };
+    const tx = db.transaction([META, VALUES], 'readwrite');
+    tx.objectStore(META).put(meta);
+    tx.objectStore(VALUES).put({ key, value });
+    await committed(tx);
+
+    const victims = pickEvictions(await listStored(), STORE_BUDGET_BYTES);
+    if (victims.length > 0) await deleteStored(...victims);
+  } catch {
+    // Quota or a closed connection — the memory cache still has it
+  }
+}
+
+export async function listStored(): Promise<StoredMeta[]> {
+  const db = await openDb();
+  if (!db) return [];
+  try {
+    return await done<StoredMeta[]>(db.transaction(META, 'readonly').objectStore(META).getAll());
+  } catch {
+    return [];
+  }
+}
+
+export async function deleteStored(...keys: string[]): Promise<void> {
+  const db = await openDb();
+  if (!db || keys.length === 0) return;
+  try {
+    const tx = db.transaction([META, VALUES], 'readwrite');
+    for (const key of keys) {
+      tx.objectStore(META).delete(key);
+      tx.objectStore(VALUES).delete(key);
+    }
+    await committed(tx);
+  } catch {
+    // ignore
+  }
+}
+
+export async function clearStored(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction([META, VALUES], 'readwrite');
+    tx.objectStore(META).clear();
+    tx.objectStore(VALUES).clear();
+    await committed(tx);
+  } catch {
+    // ignore
+  }
+}
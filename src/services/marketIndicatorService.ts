@@ -2,7 +2,8 @@
 // Fetches and calculates IV z-score, ETF flows, 200-week MA, historical vol
 
 import { API_BASE } from '../config/api';
-import { tdProxyUrl } from './tdProxy';
+import { fetchTimeSeries } from './marketData';
+import type { BarInterval } from './marketDataProvider';
 
 const BTC_ETFS = ['BTC'];
 
@@ -86,31 +87,18 @@ function stddev(arr: number[]): number {
 async function fetchOHLCV(
   symbol: string,
   outputsize: number,
-  interval: string = '1day',
+  interval: BarInterval = '1day',
 ): Promise<OHLCVData[]> {
-  const url = tdProxyUrl('time_series');
-  url.searchParams.set('symbol', symbol);
-  url.searchParams.set('interval', interval);
-  url.searchParams.set('outputsize', outputsize.toString());
-
-  const response = await fetch(url.toString());
-  if (!response.ok) throw new Error(`Failed to fetch ${symbol}: ${response.status}`);
-
-  const data = await response.json();
-  if (data.status === 'error') throw new Error(data.message || `API error for ${symbol}`);
-  if (!data.values || !Array.isArray(data.values)) return [];
-
-  return data.values
-    .map((item: Record<string, string>) => ({
-      date: item.datetime,
-      timestamp: new Date(item.datetime).getTime(),
-      open: parseFloat(item.open),
-      high: parseFloat(item.high),
-      low: parseFloat(item.low),
-      close: parseFloat(item.close),
-      volume: parseFloat(item.volume || '0'),
-    }))
-    .reverse();
+  const { data } = await fetchTimeSeries(symbol, { interval, outputsize });
+  return data.map((bar) => ({
+    date: bar.datetime,
+    timestamp: bar.timestamp,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  }));
 }
 
 async function fetchDeribitDVOL(days: number): Promise<DVOLDataPoint[]> {
@@ -2,6 +2,7 @@
 // Connects to Netlify functions for Robinhood data
 
 import { API_BASE } from '../config/api';
+import type { BrokerAdapter, BrokerOptionPosition, BrokerOrder } from './brokerAdapter';
 
 // Auth types
 export interface AuthStatus {
@@ -220,6 +221,19 @@ export async function getPortfolio(): Promise<Portfolio> {
   return fetchApi<Portfolio>('/robinhood-portfolio?action=portfolio');
 }
 
+export async function getPositions(): Promise<Position[]> {
+  return (await getPortfolio()).positions;
+}
+
+export async function getOrders(): Promise<BrokerOrder[]> {
+  return fetchApi<BrokerOrder[]>('/robinhood-portfolio?action=orders');
+}
+
+export async function getOptionPositions(): Promise<BrokerOptionPosition[]> {
+  const data = await fetchApi<{ positions: BrokerOptionPosition[] }>('/robinhood-portfolio?action=options');
+  return data.positions;
+}
+
 // ── Trading DB endpoints (Postgres via db-* functions) ─────────────────────────────────────
 // db-orders / db-bot-activity / db-pnl all return this envelope. The same
 // endpoints are the write path for the Robinhood MCP service.
@@ -281,11 +295,43 @@ async function fetchDb<T>(endpoint: string): Promise<DbEnvelope<T>> {
   return body;
 }
 
-export async function getDbOrders(scope: 'open' | 'historical' | 'all' = 'all'): Promise<DbOrders> {
-  const env = await fetchDb<DbOrders>(`/db-orders?scope=${scope}`);
+export async function getDbOrders(
+  scope: 'open' | 'historical' | 'all' = 'all',
+  page: { limit?: number; offset?: number } = {}
+): Promise<DbOrders> {
+  const params = new URLSearchParams({ scope });
+  if (page.limit != null) params.set('limit', String(page.limit));
+  if (page.offset != null) params.set('offset', String(page.offset));
+  const env = await fetchDb<DbOrders>(`/db-orders?${params}`);
   return env.data;
 }
 
+// db-orders serves at most 1000 rows per table per page
+const ORDER_PAGE_SIZE = 1000;
+const ORDER_HISTORY_CEILING = 20_000;
+
+/**
+ * Every historical order, paged through db-orders. Throws rather than
+ * return part of the history — lot matching and the tax report silently
+ * misstate basis on a partial one.
+ */
+export async function getDbOrderHistory(): Promise<DbOrders> {
+  const history: DbOrders = { open_orders: [], open_option_orders: [], historical_orders: [], historical_option_orders: [] };
+  // Orders synced mid-walk shift the newest-first pages; skip the repeats
+  const seen = new Set<string>();
+  const fresh = <T extends { order_id: string }>(o: T) => !seen.has(o.order_id) && !!seen.add(o.order_id);
+
+  for (let offset = 0; ; offset += ORDER_PAGE_SIZE) {
+    if (offset >= ORDER_HISTORY_CEILING) {
+      throw new Error(`Order history is over ${ORDER_HISTORY_CEILING.toLocaleString()} orders per type — too many to load for lots and tax reports`);
+    }
+    const page = await getDbOrders('historical', { limit: ORDER_PAGE_SIZE, offset });
+    history.historical_orders.push(...page.historical_orders.filter(fresh));
+    history.historical_option_orders.push(...page.historical_option_orders.filter(fresh));
+    if (!page.page?.has_more) return history;
+  }
+}
+
 /** Bot activity from the trading DB, mapped onto the existing BotAction shape. */
 export async function getDbBotActivity(limit: number = 50): Promise<{ actions: BotAction[]; total: number }> {
   const env = await fetchDb<{ events: DbBotEvent[] }>(`/db-bot-activity?limit=${limit}`);
@@ -305,6 +351,65 @@ export async function getDbBotActivity(limit: number = 50): Promise<{ actions: B
   return { actions, total: actions.length };
 }
 
+// ── Order ticket writes ───────────────────────────────────────────────────────
+// The db-* POSTs are for the MCP service and may require TRADING_DB_TOKEN,
+// which can't live in the bundle. The ticket writes through order-ticket,
+// which holds DB access server-side and requires a connected Robinhood session.
+
+export interface DbOrderUpsert {
+  stock_upserted: number;
+  option_upserted: number;
+  skipped: number;
+  order_ids: string[];
+}
+
+export interface DbBotEventInput {
+  event_type: string;
+  status: string;
+  order_id?: string | null;
+  symbol?: string | null;
+  quantity?: number | null;
+  price?: number | null;
+  message?: string | null;
+  dry_run?: boolean;
+  metadata?: Record<string, unknown> | null;
+  created_at?: string | null;
+}
+
+export interface DbBotAppend {
+  inserted: number;
+  skipped: number;
+  ids: number[];
+}
+
+async function writeTicket<T>(body: unknown, headers: Record<string, string> = {}): Promise<DbEnvelope<T>> {
+  const response = await fetch(`${API_BASE}/order-ticket`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  const env = await response.json().catch(() => null) as DbEnvelope<T> | null;
+  if (!response.ok || !env || env.ok === false) {
+    throw new Error(env?.error?.message || `Request failed: ${response.status}`);
+  }
+  return env;
+}
+
+/**
+ * Stage a pending order intent for the engine to place. `ticketKey` is the
+ * site's ORDER_TICKET_SECRET, entered by the operator — never bundled.
+ */
+export async function stageTicketOrder(order: SnapshotOrder, ticketKey: string): Promise<DbOrderUpsert> {
+  const env = await writeTicket<DbOrderUpsert>({ order }, { 'X-Order-Ticket-Key': ticketKey });
+  return env.data;
+}
+
+/** Record a dry-run ticket in bot activity. */
+export async function recordTicketDryRun(event: DbBotEventInput): Promise<DbBotAppend> {
+  const env = await writeTicket<DbBotAppend>({ event });
+  return env.data;
+}
+
 // Bot functions
 export async function getBotActions(limit: number = 50): Promise<{ actions: BotAction[]; total: number }> {
   return fetchApi<{ actions: BotAction[]; total: number }>(`/robinhood-bot?action=actions&limit=${limit}`);
@@ -465,6 +570,96 @@ export async function getDbPnl(): Promise<DbPnlData> {
   return env.data;
 }
 
+// ── Stop coverage audit (db-stop-coverage) ───────────────────────────────────
+
+export type StopCoverageStatus = 'naked' | 'partial' | 'covered';
+
+export interface StopCoverageOrder {
+  order_id: string;
+  /** Unfilled remainder */
+  quantity: number;
+  stop_price: number | null;
+  order_type: string;
+  trigger: string;
+  state: string;
+}
+
+export interface StopCoverageRow {
+  symbol: string;
+  status: StopCoverageStatus;
+  quantity: number;
+  current_price: number;
+  market_value: number;
+  covered_quantity: number;
+  uncovered_quantity: number;
+  uncovered_value: number;
+  coverage_pct: number;
+  /** Stop shares beyond the held quantity */
+  excess_quantity: number;
+  /** Shares on untracked placement stubs — sent, never confirmed by RH */
+  unconfirmed_quantity: number;
+  /** Highest trigger across the symbol's stops (the first to fire) */
+  nearest_stop_price: number | null;
+  stop_distance_usd: number | null;
+  stop_distance_pct: number | null;
+  stop_above_market: boolean;
+  /** Loss absorbed between the current price and each stop's trigger */
+  at_risk_usd: number;
+  stop_orders: StopCoverageOrder[];
+}
+
+export interface StopCoverageData {
+  symbols: StopCoverageRow[];
+  summary: {
+    positions: number;
+    covered: number;
+    partial: number;
+    naked: number;
+    naked_symbols: string[];
+    market_value: number;
+    uncovered_value: number;
+    at_risk_usd: number;
+    coverage_pct: number | null;
+  };
+  positions_as_of: string | null;
+  orders_as_of: string | null;
+  /** Working-order cap hit — coverage can't be proven for naked/partial rows */
+  truncated: boolean;
+}
+
+export async function getStopCoverage(status?: StopCoverageStatus): Promise<StopCoverageData> {
+  const qs = status ? `?status=${status}` : '';
+  const env = await fetchDb<StopCoverageData>(`/db-stop-coverage${qs}`);
+  return env.data;
+}
+
+// ── Account equity curve (db-account-history) ────────────────────────────────
+
+export interface AccountHistoryPoint {
+  captured_at: string;
+  equity: number;
+  cash: number | null;
+  market_value: number | null;
+  /** Deposits minus withdrawals since the previous point (posted plus recorded ACH transfers) */
+  net_flow: number;
+}
+
+export interface AccountHistoryData {
+  points: AccountHistoryPoint[];
+  granularity: 'day' | 'raw';
+  net_flows: number;
+  first_at: string | null;
+  last_at: string | null;
+  /** False until any flow has been recorded — returns then include deposits */
+  flows_tracked: boolean;
+}
+
+export async function getAccountHistory(since?: string): Promise<AccountHistoryData> {
+  const qs = since ? `?since=${encodeURIComponent(since)}` : '';
+  const env = await fetchDb<AccountHistoryData>(`/db-account-history${qs}`);
+  return env.data;
+}
+
 // Auth functions
 export async function getAuthStatus(): Promise<AuthStatus> {
   return fetchApi<AuthStatus>('/robinhood-auth?action=status');
@@ -485,3 +680,14 @@ export async function submitMFA(code: string): Promise<AuthResult> {
 export async function disconnectRobinhood(): Promise<AuthResult> {
   return fetchApi<AuthResult>('/robinhood-auth?action=disconnect');
 }
+
+export const robinhoodAdapter: BrokerAdapter = {
+  id: 'robinhood',
+  label: 'Robinhood',
+  description: 'Live account via device-verified login',
+  getAuthStatus,
+  getPortfolio,
+  getPositions,
+  getOrders,
+  getOptionPositions,
+};
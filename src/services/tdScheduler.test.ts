@@ -0,0 +1,69 @@
+import { getTdQueueStats, resetTdScheduler, tdFetch } from './tdScheduler';
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return { status, ok: status < 400, headers: new Map(Object.entries(headers)) } as unknown as Response;
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe('tdScheduler', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetTdScheduler();
+    fetchMock = jest.fn(() => Promise.resolve(response(200)));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    resetTdScheduler();
+    jest.useRealTimers();
+  });
+
+  it('spends a burst of tokens, then releases queued work by priority as they refill', () => {
+    const urls = Array.from({ length: 8 }, (_, i) => `/burst/${i}`);
+    urls.forEach(u => tdFetch(u));
+    tdFetch('/background', { priority: 'prefetch' });
+    tdFetch('/quote', { priority: 'quote' });
+    tdFetch('/chart');
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+    expect(getTdQueueStats().queued).toEqual({ visible: 1, quote: 1, prefetch: 1 });
+
+    jest.advanceTimersByTime(7_500);
+    expect(fetchMock.mock.calls.map(c => c[0]).slice(8)).toEqual(['/chart']);
+    jest.advanceTimersByTime(15_000);
+    expect(fetchMock.mock.calls.map(c => c[0]).slice(8)).toEqual(['/chart', '/quote', '/background']);
+  });
+
+  it('pauses the queue for Retry-After after a rate-limited response', async () => {
+    fetchMock.mockResolvedValueOnce(response(502, { 'Retry-After': '30' }));
+    await tdFetch('/limited');
+    await flush();
+    expect(getTdQueueStats().pausedUntil).toBe(Date.now() + 30_000);
+
+    ['/a', '/b', '/c'].forEach(u => tdFetch(u));
+    jest.advanceTimersByTime(29_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    // Resumes one token at a time, not with a burst earned during the pause
+    jest.advanceTimersByTime(1_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(7_500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    Array.from({ length: 8 }, (_, i) => tdFetch(`/burst/${i}`));
+    const controller = new AbortController();
+    const pending = tdFetch('/unmounted', { signal: controller.signal });
+    expect(getTdQueueStats().queued.visible).toBe(1);
+
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(getTdQueueStats().queued.visible).toBe(0);
+    jest.advanceTimersByTime(60_000);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+});
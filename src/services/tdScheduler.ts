@@ -0,0 +1,178 @@
+/**
+ * Client-side scheduler for TwelveData proxy requests.
+ *
+ * The proxy and cachedJson absorb repeats, but cache misses still go straight
+ * out — a Compare page with a dozen symbols enabled fires them all at once
+ * and blows through the ~8 requests/min budget. Every proxy fetch goes
+ * through here instead:
+ *
+ *   1. Token bucket  — BUCKET_SIZE requests up front, then one per REFILL_MS
+ *   2. Priorities    — visible charts > live quotes > background prefetch;
+ *                      FIFO within a priority
+ *   3. Retry-After   — a rate-limited response pauses the whole queue until
+ *                      the provider's window resets
+ *   4. Cancellation  — an aborted signal drops a queued request without
+ *                      spending a token, and aborts it if already in flight
+ *
+ * Queue depth is observable so pages can show why data is slow to arrive.
+ */
+
+import { abortError } from './marketDataProvider';
+import type { RequestOptions, RequestPriority } from './marketDataProvider';
+
+const BUCKET_SIZE = 8;
+const REFILL_MS = 60_000 / BUCKET_SIZE;
+// When a 429 arrives without a usable Retry-After
+const DEFAULT_RETRY_AFTER_MS = 60_000;
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { visible: 0, quote: 1, prefetch: 2 };
+
+export interface TdQueueStats {
+  queued: Record<RequestPriority, number>;
+  inFlight: number;
+  /** Whole tokens available right now */
+  tokens: number;
+  /** Set while honouring a Retry-After, ms epoch */
+  pausedUntil: number | null;
+}
+
+interface Job {
+  priority: RequestPriority;
+  start: () => void;
+}
+
+let tokens = BUCKET_SIZE;
+let lastRefill = Date.now();
+let pausedUntil = 0;
+let inFlight = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const queue: Job[] = [];
+const listeners = new Set<(stats: TdQueueStats) => void>();
+
+function refill(now: number): void {
+  const earned = Math.floor((now - lastRefill) / REFILL_MS);
+  if (earned <= 0) return;
+  tokens = Math.min(BUCKET_SIZE, tokens + earned);
+  lastRefill = tokens === BUCKET_SIZE ? now : lastRefill + earned * REFILL_MS;
+}
+
+export function getTdQueueStats(): TdQueueStats {
+  const queued: Record<RequestPriority, number> = { visible: 0, quote: 0, prefetch: 0 };
+  for (const job of queue) queued[job.priority]++;
+  const now = Date.now();
+  refill(now);
+  return { queued, inFlight, tokens, pausedUntil: pausedUntil > now ? pausedUntil : null };
+}
+
+/** Listen for queue changes; returns the unsubscribe function. */
+export function subscribeTdQueue(listener: (stats: TdQueueStats) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(): void {
+  if (listeners.size === 0) return;
+  const stats = getTdQueueStats();
+  listeners.forEach((l) => l(stats));
+}
+
+function pump(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  const now = Date.now();
+  refill(now);
+  while (queue.length > 0 && tokens > 0 && now >= pausedUntil) {
+    tokens--;
+    queue.shift()!.start();
+  }
+  if (queue.length > 0) {
+    const wait = now < pausedUntil ? pausedUntil - now : lastRefill + REFILL_MS - now;
+    timer = setTimeout(pump, Math.max(wait, 0));
+  }
+  notify();
+}
+
+function retryAfterMs(response: Response): number {
+  const header = response.headers.get('Retry-After');
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const at = Date.parse(header);
+    if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  }
+  return DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Rate-limited fetch of a proxy URL. Resolves with the raw Response (errors
+ * included — callers keep their own status handling); rejects with an
+ * AbortError when `opts.signal` fires.
+ */
+export function tdFetch(url: string, opts: RequestOptions = {}): Promise<Response> {
+  const { priority = 'visible', signal } = opts;
+  return new Promise<Response>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      const i = queue.indexOf(job);
+      if (i >= 0) {
+        queue.splice(i, 1);
+        notify();
+      }
+      reject(abortError());
+    };
+
+    const job: Job = {
+      priority,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        inFlight++;
+        fetch(url, { signal })
+          .then((response) => {
+            // The proxy only reaches TwelveData on a cache miss, so a
+            // Retry-After means the account-wide budget is spent — hold
+            // everything, not just this symbol
+            if (response.status === 429 || response.headers.get('Retry-After')) {
+              pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs(response));
+              tokens = 0;
+              // Refill restarts at the pause end with a single token — the
+              // pause itself earns nothing, so resuming isn't a full burst
+              lastRefill = pausedUntil - REFILL_MS;
+            } else if (/^(hit|stale)$/.test(response.headers.get('X-Cache') ?? '')) {
+              // Served from the proxy's cache: no upstream credit spent
+              tokens = Math.min(BUCKET_SIZE, tokens + 1);
+            }
+            resolve(response);
+          }, (err) => reject(signal?.aborted ? abortError() : err))
+          .finally(() => {
+            inFlight--;
+            pump();
+          });
+      },
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // Ahead of the first lower-priority job; behind its own priority (FIFO)
+    const at = queue.findIndex((q) => PRIORITY_RANK[q.priority] > PRIORITY_RANK[priority]);
+    queue.splice(at < 0 ? queue.length : at, 0, job);
+    pump();
+  });
+}
+
+/** Drop queued work and refill the bucket (tests). */
+export function resetTdScheduler(): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  queue.length = 0;
+  tokens = BUCKET_SIZE;
+  lastRefill = Date.now();
+  pausedUntil = 0;
+  inFlight = 0;
+}
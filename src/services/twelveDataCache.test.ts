@@ -0,0 +1,104 @@
+import { cachedJson, clearTwelveDataCache } from './twelveDataCache';
+import { resetTdScheduler, tdFetch } from './tdScheduler';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('twelveDataCache', () => {
+  beforeEach(() => clearTwelveDataCache());
+
+  it('keeps a shared fetch alive when one of its callers aborts', async () => {
+    const upstream = deferred<number>();
+    let fetchSignal: AbortSignal | undefined;
+    const fetcher = jest.fn((_prev: number | undefined, signal: AbortSignal) => {
+      fetchSignal = signal;
+      return upstream.promise;
+    });
+
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = cachedJson('quote:SPY', 60_000, fetcher, { signal: a.signal });
+    const second = cachedJson('quote:SPY', 60_000, fetcher, { signal: b.signal });
+    await Promise.resolve();
+
+    a.abort();
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchSignal?.aborted).toBe(false);
+
+    upstream.resolve(42);
+    await expect(second).resolves.toBe(42);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the shared fetch once every caller has gone, and starts afresh after', async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const hanging = jest.fn((_prev: number | undefined, signal: AbortSignal) => {
+      fetchSignal = signal;
+      return new Promise<number>(() => {});
+    });
+
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = cachedJson('quote:QQQ', 60_000, hanging, { signal: a.signal });
+    const second = cachedJson('quote:QQQ', 60_000, hanging, { signal: b.signal });
+    a.abort();
+    b.abort();
+    await expect(Promise.allSettled([first, second])).resolves.toHaveLength(2);
+    expect(fetchSignal?.aborted).toBe(true);
+
+    await expect(cachedJson('quote:QQQ', 60_000, async () => 7)).resolves.toBe(7);
+  });
+
+  it('caches by the TTL the fetched value asks for, and not at all for 0', async () => {
+    const fixture = jest.fn(async () => ({ price: 1, source: 'fixture' }));
+    const ttl = (v: { source: string }) => (v.source === 'fixture' ? 0 : 60_000);
+
+    await cachedJson('quote:IWM', ttl, fixture);
+    await cachedJson('quote:IWM', ttl, fixture);
+    expect(fixture).toHaveBeenCalledTimes(2);
+
+    const live = jest.fn(async () => ({ price: 2, source: 'twelvedata' }));
+    await cachedJson('quote:IWM', ttl, live);
+    await expect(cachedJson('quote:IWM', ttl, fixture)).resolves.toMatchObject({ price: 2 });
+    expect(live).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with the request scheduler', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      resetTdScheduler();
+      global.fetch = jest.fn(() => Promise.resolve({ status: 200, ok: true, headers: new Map() } as unknown as Response));
+    });
+
+    afterEach(() => {
+      resetTdScheduler();
+      jest.useRealTimers();
+    });
+
+    it('serves the new range when the old one is abandoned while its shared fetch is queued', async () => {
+      // Use up the burst so the series request waits for a token
+      Array.from({ length: 8 }, (_, i) => tdFetch(`/burst/${i}`));
+      const fetcher = jest.fn(async (_prev: number[] | undefined, signal: AbortSignal) => {
+        await tdFetch('/time_series?symbol=SPY&interval=1day', { signal });
+        return [1, 2, 3];
+      });
+
+      // ComparePage on 1M asks for the daily series, then the user switches to 1Y
+      const oneMonth = new AbortController();
+      const oneYear = new AbortController();
+      const stale = cachedJson('series:SPY:1day', 60_000, fetcher, { signal: oneMonth.signal });
+      const current = cachedJson('series:SPY:1day', 60_000, fetcher, { signal: oneYear.signal });
+      await Promise.resolve();
+      oneMonth.abort();
+      await expect(stale).rejects.toMatchObject({ name: 'AbortError' });
+
+      await jest.advanceTimersByTimeAsync(7_500);
+      await expect(current).resolves.toEqual([1, 2, 3]);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledTimes(9);
+    });
+  });
+});
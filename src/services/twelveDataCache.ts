@@ -6,13 +6,17 @@
  * hit HTTP 429. This wraps fetches with three layers:
  *
  *   1. In-memory map        — instant hits within a session, survives remounts
- *   2. localStorage         — survives reloads / navigation, keyed with a TTL
+ *   2. IndexedDB            — survives reloads / navigation, keyed with a TTL,
+ *                             size-budgeted with LRU eviction (marketDataStore)
  *   3. In-flight dedup       — concurrent callers for the same key share one request
  *
  * On a fetch error (typically 429) we fall back to the last cached value if we
  * have one — stale data beats a broken chart.
  */
 
+import { abortError } from './marketDataProvider';
+import { clearStored, deleteStored, listStored, readStored, writeStored } from './marketDataStore';
+
 interface CacheEntry<T> {
   value: T;
   expires: number; // ms epoch
@@ -21,98 +25,218 @@ interface CacheEntry<T> {
 interface Slot {
   entry?: CacheEntry<unknown>;
   inflight?: Promise<unknown>;
+  /** Aborts the shared fetch; fired only once every waiter has gone */
+  controller?: AbortController;
+  waiters?: number;
+}
+
+export interface CacheOptions {
+  /**
+   * The caller's cancellation. Callers of one key share a fetch, so it is
+   * aborted only when every caller waiting on it has aborted.
+   */
+  signal?: AbortSignal;
 }
 
 const memory = new Map<string, Slot>();
+// Hit/miss counts for the inspector; this session only
+const counters = new Map<string, { hits: number; misses: number }>();
+
+// Entries persisted before the IndexedDB store lived in localStorage
 const LS_PREFIX = 'td-cache:';
+let legacyMigration: Promise<void> | null = null;
 
-function readLS<T>(key: string): CacheEntry<T> | null {
+function count(key: string, outcome: 'hits' | 'misses'): void {
+  const c = counters.get(key) ?? { hits: 0, misses: 0 };
+  c[outcome]++;
+  counters.set(key, c);
+}
+
+function legacyKeys(): string[] {
+  const keys: string[] = [];
   try {
-    const raw = localStorage.getItem(LS_PREFIX + key);
-    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      if (k && k.startsWith(LS_PREFIX)) keys.push(k);
+    }
   } catch {
-    return null;
+    // localStorage unavailable
   }
+  return keys;
 }
 
-function writeLS<T>(key: string, entry: CacheEntry<T>): void {
-  try {
-    localStorage.setItem(LS_PREFIX + key, JSON.stringify(entry));
-  } catch {
-    // localStorage unavailable or over quota — memory cache still works
+/** Move any localStorage entries into IndexedDB once, freeing the quota. */
+function migrateLegacyEntries(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      for (const k of legacyKeys()) {
+        try {
+          const entry = JSON.parse(localStorage.getItem(k) ?? 'null') as CacheEntry<unknown> | null;
+          if (entry && entry.expires > Date.now()) await writeStored(k.slice(LS_PREFIX.length), entry.value, entry.expires);
+          localStorage.removeItem(k);
+        } catch {
+          // unreadable entry — leave it for clearTwelveDataCache
+        }
+      }
+    })();
   }
+  return legacyMigration;
+}
+
+// Wait on a slot's shared fetch. A caller with a signal can leave early;
+// the last one out aborts the fetch. Callers without one never leave.
+function join<T>(key: string, slot: Slot, signal?: AbortSignal): Promise<T> {
+  const inflight = slot.inflight as Promise<T>;
+  slot.waiters = (slot.waiters ?? 0) + 1;
+  if (!signal) return inflight;
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      reject(abortError());
+      slot.waiters = (slot.waiters ?? 1) - 1;
+      if (slot.waiters > 0) return;
+      slot.controller?.abort();
+      // Later callers start a fresh fetch rather than join the aborted one
+      const current = memory.get(key);
+      if (current?.inflight === inflight) memory.set(key, { entry: current.entry });
+    };
+    signal.addEventListener('abort', leave, { once: true });
+    inflight
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', leave));
+  });
 }
 
 /**
  * Return a cached value for `key` if fresh, otherwise call `fetcher`, cache the
  * result for `ttlMs`, and return it. Concurrent calls for the same key share a
  * single in-flight request. On fetcher error, serve stale cache if present.
+ * The fetcher receives the expired value, if any, so it can top it up
+ * instead of starting over, and the shared fetch's signal (see CacheOptions).
+ * `ttlMs` may depend on the fetched value; a TTL of 0 or less returns the
+ * value without caching it anywhere.
  */
 export async function cachedJson<T>(
   key: string,
-  ttlMs: number,
-  fetcher: () => Promise<T>,
+  ttlMs: number | ((value: T) => number),
+  fetcher: (previous: T | undefined, signal: AbortSignal) => Promise<T>,
+  opts: CacheOptions = {},
 ): Promise<T> {
-  const now = Date.now();
+  const { signal } = opts;
+  if (signal?.aborted) throw abortError();
   const slot = memory.get(key);
 
   // 1. Fresh in-memory hit
-  if (slot?.entry && slot.entry.expires > now) {
+  if (slot?.entry && slot.entry.expires > Date.now()) {
+    count(key, 'hits');
     return slot.entry.value as T;
   }
 
-  // 2. Share an in-flight request
+  // 2. Share an in-flight request (which includes the IndexedDB lookup)
   if (slot?.inflight) {
-    return slot.inflight as Promise<T>;
-  }
-
-  // 3. Fresh localStorage hit → hydrate memory
-  const persisted = readLS<T>(key);
-  if (persisted && persisted.expires > now) {
-    memory.set(key, { entry: persisted });
-    return persisted.value;
+    return join<T>(key, slot, signal);
   }
 
+  const controller = new AbortController();
   const inflight = (async (): Promise<T> => {
+    // 3. Fresh IndexedDB hit → hydrate memory
+    await migrateLegacyEntries();
+    const stored = await readStored<T>(key);
+    const persisted: CacheEntry<T> | undefined = stored
+      ? { value: stored.value, expires: stored.meta.expires }
+      : undefined;
+    if (persisted && persisted.expires > Date.now()) {
+      memory.set(key, { entry: persisted });
+      count(key, 'hits');
+      return persisted.value;
+    }
+
+    count(key, 'misses');
+    const stale = (slot?.entry as CacheEntry<T> | undefined) ?? persisted;
     try {
-      const value = await fetcher();
-      const entry: CacheEntry<T> = { value, expires: Date.now() + ttlMs };
+      const value = await fetcher(stale?.value, controller.signal);
+      const ttl = typeof ttlMs === 'function' ? ttlMs(value) : ttlMs;
+      if (ttl <= 0) {
+        // Keep the stale entry (if any) for the next stale-on-error fallback
+        if (stale) memory.set(key, { entry: stale });
+        else memory.delete(key);
+        return value;
+      }
+      const entry: CacheEntry<T> = { value, expires: Date.now() + ttl };
       memory.set(key, { entry });
-      writeLS(key, entry);
+      void writeStored(key, value, entry.expires);
       return value;
     } catch (err) {
+      // Everyone waiting has gone; leave the cache as it was
+      if (controller.signal.aborted) throw err;
       // Stale-on-error: prefer last known value over a hard failure (e.g. 429)
-      const stale = memory.get(key)?.entry ?? readLS<T>(key);
       if (stale) {
-        memory.set(key, { entry: stale as CacheEntry<T> });
-        return stale.value as T;
+        memory.set(key, { entry: stale });
+        return stale.value;
       }
       memory.delete(key);
       throw err;
     }
   })();
 
-  memory.set(key, { entry: slot?.entry, inflight });
+  const shared: Slot = { entry: slot?.entry, inflight, controller, waiters: 0 };
+  memory.set(key, shared);
   void inflight.finally(() => {
     const s = memory.get(key);
     if (s?.inflight === inflight) {
       memory.set(key, { entry: s.entry });
     }
+  }).catch(() => {});
+
+  return join<T>(key, shared, signal);
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  /** Approximate persisted size in bytes; null when held in memory only */
+  size: number | null;
+  storedAt: number | null;
+  expires: number | null;
+  lastAccess: number | null;
+  inMemory: boolean;
+  hits: number;
+  misses: number;
+}
+
+/** Every cache entry, persisted or memory-only, for the cache inspector. */
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  await migrateLegacyEntries();
+  const byKey = new Map<string, CacheEntryInfo>();
+  const blank = (key: string): CacheEntryInfo => ({
+    key, size: null, storedAt: null, expires: null, lastAccess: null, inMemory: false,
+    ...(counters.get(key) ?? { hits: 0, misses: 0 }),
   });
 
-  return inflight;
+  for (const meta of await listStored()) {
+    byKey.set(meta.key, { ...blank(meta.key), size: meta.size, storedAt: meta.storedAt, expires: meta.expires, lastAccess: meta.lastAccess });
+  }
+  memory.forEach((slot, key) => {
+    if (!slot.entry) return;
+    const info = byKey.get(key) ?? { ...blank(key), expires: slot.entry.expires };
+    byKey.set(key, { ...info, inMemory: true });
+  });
+  return [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** Drop one key from every layer. */
+export async function purgeCacheEntry(key: string): Promise<void> {
+  memory.delete(key);
+  counters.delete(key);
+  await deleteStored(key);
 }
 
-/** Clear all cached Twelve Data entries (memory + localStorage). */
+/** Clear all cached Twelve Data entries (memory + IndexedDB + legacy localStorage). */
 export function clearTwelveDataCache(): void {
   memory.clear();
+  counters.clear();
+  void clearStored();
   try {
-    const keys: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const k = localStorage.key(i);
-      if (k && k.startsWith(LS_PREFIX)) keys.push(k);
-    }
-    keys.forEach((k) => localStorage.removeItem(k));
+    legacyKeys().forEach((k) => localStorage.removeItem(k));
   } catch {
     // ignore
   }
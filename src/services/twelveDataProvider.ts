@@ -0,0 +1,102 @@
+// TwelveData provider — the primary source for every symbol, fetched through
+// the server-side proxy (see tdProxy.ts).
+
+import { tdProxyUrl, TdEndpoint } from './tdProxy';
+import { tdFetch } from './tdScheduler';
+import { providerError, MarketDataProvider, Bar, ProviderQuote, RequestOptions } from './marketDataProvider';
+
+interface TdValue {
+  datetime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+}
+
+async function tdGet<T>(
+  endpoint: TdEndpoint,
+  params: Record<string, string>,
+  what: string,
+  opts: RequestOptions,
+): Promise<T> {
+  const url = tdProxyUrl(endpoint);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+
+  let response: Response;
+  try {
+    response = await tdFetch(url.toString(), opts);
+  } catch (err) {
+    if (opts.signal?.aborted) throw err;
+    throw providerError('twelvedata', null, `${what}: ${err instanceof Error ? err.message : 'network error'}`);
+  }
+  if (!response.ok) throw providerError('twelvedata', response.status, `Failed to fetch ${what}: ${response.status}`);
+
+  const data = await response.json();
+  // Errors come back as 200 with {status: 'error', code, message}
+  if (data.status === 'error') {
+    throw providerError('twelvedata', typeof data.code === 'number' ? data.code : 400, data.message || `API error for ${what}`);
+  }
+  return data as T;
+}
+
+export const twelveDataProvider: MarketDataProvider = {
+  id: 'twelvedata',
+
+  mapSymbol: (symbol) => symbol,
+
+  async timeSeries(symbol, req, opts = {}) {
+    const params: Record<string, string> = {
+      symbol,
+      interval: req.interval,
+      outputsize: req.outputsize.toString(),
+    };
+    if (req.endDate) params.end_date = req.endDate;
+    // Propagate an explicit user refresh so the proxy re-pulls upstream
+    if (req.refresh) params.refresh = '1';
+    const data = await tdGet<{ values?: TdValue[] }>('time_series', params, symbol, opts);
+    if (!data.values || !Array.isArray(data.values)) return [];
+
+    // Newest first upstream; callers want chronological order
+    return data.values
+      .map((item): Bar => ({
+        datetime: item.datetime,
+        timestamp: new Date(item.datetime).getTime(),
+        open: parseFloat(item.open),
+        high: parseFloat(item.high),
+        low: parseFloat(item.low),
+        close: parseFloat(item.close),
+        volume: parseFloat(item.volume || '0'),
+      }))
+      .reverse();
+  },
+
+  async quote(symbol, opts = {}) {
+    const data = await tdGet<Record<string, unknown>>('quote', { symbol }, `${symbol} quote`, { priority: 'quote', ...opts });
+    const num = (k: string) => parseFloat(String(data[k] ?? 'NaN'));
+    const quote: ProviderQuote = {
+      symbol: String(data.symbol ?? symbol),
+      name: typeof data.name === 'string' ? data.name : undefined,
+      open: num('open'),
+      high: num('high'),
+      low: num('low'),
+      close: num('close'),
+      volume: parseFloat(String(data.volume ?? '0')),
+      previous_close: num('previous_close'),
+      change: num('change'),
+      percent_change: num('percent_change'),
+      datetime: String(data.datetime ?? ''),
+      // TwelveData quote `timestamp` is epoch seconds for the last trade.
+      timestamp: typeof data.timestamp === 'number' ? data.timestamp * 1000 : Date.now(),
+      is_market_open: typeof data.is_market_open === 'boolean' ? data.is_market_open : undefined,
+    };
+    return quote;
+  },
+
+  async price(symbol, opts = {}) {
+    const data = await tdGet<{ price?: string }>('price', { symbol }, `${symbol} price`, { priority: 'quote', ...opts });
+    const price = parseFloat(data.price ?? 'NaN');
+    if (Number.isNaN(price)) throw providerError('twelvedata', 404, `No price for ${symbol}`);
+    return price;
+  },
+};
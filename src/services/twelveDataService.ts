@@ -3,7 +3,10 @@
 
 import { API_BASE } from '../config/api';
 import { cachedJson } from './twelveDataCache';
-import { tdProxyUrl } from './tdProxy';
+import { fetchQuote, fetchTimeSeries } from './marketData';
+import { barsToFetch, mergeBars } from '../utils/barSeries';
+import { cacheTtlFor } from './marketDataProvider';
+import type { Bar, BarInterval, ProviderId, RequestOptions, Sourced } from './marketDataProvider';
 
 // Cache TTLs (ms). Daily/weekly bars change at most once per day; intraday
 // series and quotes refresh faster. Historical point lookups are immutable.
@@ -12,28 +15,6 @@ const TTL_INTRADAY = 3 * 60_000;
 const TTL_QUOTE = 60_000;
 const TTL_HISTORICAL_POINT = 24 * 60 * 60_000;
 
-export interface TimeSeriesData {
-  datetime: string;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
-}
-
-export interface TimeSeriesResponse {
-  meta: {
-    symbol: string;
-    interval: string;
-    currency: string;
-    exchange: string;
-    type: string;
-  };
-  values: TimeSeriesData[];
-  status?: string;
-  message?: string;
-}
-
 export interface NormalizedPriceData {
   date: string;
   timestamp: number;
@@ -63,7 +44,7 @@ const SMA_DAYS = 150;
 
 // Map time ranges to output sizes and intervals
 // outputsize includes extra warm-up data so the SMA covers the entire visible chart
-const RANGE_CONFIG: Record<string, { outputsize: number; interval: string; smaWindow: number; visibleSize: number }> = {
+const RANGE_CONFIG: Record<string, { outputsize: number; interval: BarInterval; smaWindow: number; visibleSize: number }> = {
   '1D':  { outputsize: 78,                         interval: '5min',  smaWindow: 0,                           visibleSize: 78 },
   '1W':  { outputsize: 7 + SMA_DAYS,               interval: '1day',  smaWindow: SMA_DAYS,                    visibleSize: 7 },
   '1M':  { outputsize: 22 + SMA_DAYS,              interval: '1day',  smaWindow: SMA_DAYS,                    visibleSize: 22 },
@@ -77,44 +58,82 @@ export function getRangeConfig(range: string) {
   return RANGE_CONFIG[range] || RANGE_CONFIG['1Y'];
 }
 
-export async function getTimeSeries(
-  symbol: string,
-  range: string = '1Y',
-  forceRefresh: boolean = false
-): Promise<NormalizedPriceData[]> {
-  const config = RANGE_CONFIG[range] || RANGE_CONFIG['1Y'];
-  const ttl = config.interval === '1day' || config.interval === '1week' ? TTL_DAILY : TTL_INTRADAY;
+function toPriceData(bars: Bar[]): NormalizedPriceData[] {
+  return bars.map((bar) => ({ date: bar.datetime, timestamp: bar.timestamp, price: bar.close }));
+}
 
-  return cachedJson(`ts:${symbol}:${range}`, ttl, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', symbol);
-    url.searchParams.set('interval', config.interval);
-    url.searchParams.set('outputsize', config.outputsize.toString());
-    // Propagate an explicit user refresh to the proxy so it re-pulls upstream
-    // (subject to its own 15s floor) instead of serving its cached payload.
-    if (forceRefresh) url.searchParams.set('refresh', '1');
+function toOHLCV(bars: Bar[]): OHLCVPriceData[] {
+  return bars.map((bar) => ({
+    date: bar.datetime,
+    timestamp: bar.timestamp,
+    price: bar.close,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+  }));
+}
 
-    const response = await fetch(url.toString());
+// Every range on an interval reads one stored series, kept at the deepest
+// of those ranges' sizes — 1W..1Y on ComparePage are slices of one daily series
+function seriesDepth(interval: BarInterval): number {
+  return Math.max(
+    ...Object.values(RANGE_CONFIG).filter((c) => c.interval === interval).map((c) => c.outputsize)
+  );
+}
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${symbol}: ${response.status}`);
+/**
+ * Bar series for a symbol/interval, topped up incrementally: once cached,
+ * an expired entry only fetches the bars after its last one and merges them.
+ */
+async function getBarSeries(
+  symbol: string,
+  interval: BarInterval,
+  forceRefresh: boolean,
+  opts: RequestOptions
+): Promise<Sourced<Bar[]>> {
+  const depth = seriesDepth(interval);
+  const ttl = interval === '1day' || interval === '1week' ? TTL_DAILY : TTL_INTRADAY;
+
+  return cachedJson<Sourced<Bar[]>>(`series:${symbol}:${interval}`, (v) => cacheTtlFor(v.source, ttl), async (previous, signal) => {
+    // Every range on this interval may be waiting on this fetch; it follows
+    // the shared signal, not the first caller's
+    const request = { ...opts, signal };
+    // Propagate an explicit user refresh to the proxy so it re-pulls upstream
+    // (subject to its own 15s floor) instead of serving its cached payload.
+    const full = { interval, outputsize: depth, refresh: forceRefresh };
+    const cached = previous?.data ?? [];
+    const outputsize = barsToFetch(cached, interval, Date.now(), depth);
+
+    const { data, source } = await fetchTimeSeries(symbol, { ...full, outputsize }, request);
+    if (previous && source !== previous.source) {
+      // Don't splice one provider's bars onto another's history
+      return outputsize === depth ? { data, source } : fetchTimeSeries(symbol, full, request);
     }
+    return { data: mergeBars(cached, data, depth), source };
+  }, { signal: opts.signal });
+}
 
-    const data: TimeSeriesResponse = await response.json();
-
-    if (data.status === 'error') {
-      throw new Error(data.message || `API error for ${symbol}`);
-    }
+/** Like getTimeSeries, plus which provider served it. */
+export async function getTimeSeriesWithSource(
+  symbol: string,
+  range: string = '1Y',
+  forceRefresh: boolean = false,
+  opts: RequestOptions = {}
+): Promise<Sourced<NormalizedPriceData[]>> {
+  const config = RANGE_CONFIG[range] || RANGE_CONFIG['1Y'];
+  const { data, source } = await getBarSeries(symbol, config.interval, forceRefresh, opts);
+  return { data: toPriceData(data.slice(-config.outputsize)), source };
+}
 
-    // Normalize and reverse to chronological order (oldest first)
-    return data.values
-      .map((item) => ({
-        date: item.datetime,
-        timestamp: new Date(item.datetime).getTime(),
-        price: parseFloat(item.close),
-      }))
-      .reverse();
-  });
+export async function getTimeSeries(
+  symbol: string,
+  range: string = '1Y',
+  forceRefresh: boolean = false,
+  opts: RequestOptions = {}
+): Promise<NormalizedPriceData[]> {
+  return (await getTimeSeriesWithSource(symbol, range, forceRefresh, opts)).data;
 }
 
 // Portfolio assets configuration
@@ -142,7 +161,8 @@ export const PORTFOLIO_ASSETS = [
 export async function getPortfolioData(
   range: string = '1Y',
   symbols?: string[],
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  opts: RequestOptions = {}
 ): Promise<PortfolioAsset[]> {
   // Only fetch the requested symbols (defaults to all) to keep bursts small.
   const assets = symbols
@@ -154,7 +174,7 @@ export async function getPortfolioData(
   const results = await Promise.allSettled(
     assets.map(async (asset) => ({
       ...asset,
-      data: await getTimeSeries(asset.symbol, range, forceRefresh),
+      data: await getTimeSeries(asset.symbol, range, forceRefresh, opts),
     }))
   );
 
@@ -167,36 +187,24 @@ export interface Quote {
   symbol: string;
   price: number;
   timestamp: number; // ms epoch
+  source?: ProviderId;
 }
 
 /**
- * Fetch the latest quote for a symbol through the proxy (`quote` endpoint).
+ * Fetch the latest quote for a symbol (`quote` endpoint, with failover).
  * Works on plans without WebSocket streaming — the proxy caches quotes for
  * ~60s, so polling callers share one upstream credit per symbol per window.
  */
-export async function getQuote(symbol: string): Promise<Quote> {
-  return cachedJson(`quote:${symbol}`, TTL_QUOTE, async () => {
-    const url = tdProxyUrl('quote');
-    url.searchParams.set('symbol', symbol);
-
-    const response = await fetch(url.toString());
-    if (!response.ok) throw new Error(`Failed to fetch quote ${symbol}: ${response.status}`);
-
-    const data = await response.json();
-    if (data.status === 'error') throw new Error(data.message || `Quote error for ${symbol}`);
-
-    return {
-      symbol,
-      price: parseFloat(data.close),
-      // TwelveData quote `timestamp` is epoch seconds for the last trade.
-      timestamp: typeof data.timestamp === 'number' ? data.timestamp * 1000 : Date.now(),
-    };
-  });
+export async function getQuote(symbol: string, opts: RequestOptions = {}): Promise<Quote> {
+  return cachedJson<Quote>(`quote:${symbol}`, (q) => cacheTtlFor(q.source, TTL_QUOTE), async (_previous, signal) => {
+    const { data, source } = await fetchQuote(symbol, { ...opts, signal });
+    return { symbol, price: data.close, timestamp: data.timestamp, source };
+  }, { signal: opts.signal });
 }
 
 /** Fetch quotes for several symbols, tolerating per-symbol failures. */
-export async function getQuotes(symbols: string[]): Promise<Record<string, Quote>> {
-  const results = await Promise.allSettled(symbols.map((s) => getQuote(s)));
+export async function getQuotes(symbols: string[], opts: RequestOptions = {}): Promise<Record<string, Quote>> {
+  const results = await Promise.allSettled(symbols.map((s) => getQuote(s, opts)));
   const out: Record<string, Quote> = {};
   results.forEach((r) => {
     if (r.status === 'fulfilled' && !Number.isNaN(r.value.price)) out[r.value.symbol] = r.value;
@@ -249,36 +257,26 @@ export interface BitcoinQuote {
   change: number;
   percent_change: number;
   datetime: string;
+  source?: ProviderId;
 }
 
 export async function getBitcoinQuote(): Promise<BitcoinQuote> {
-  return cachedJson('quote:BTC/USD', TTL_QUOTE, async () => {
-  const url = tdProxyUrl('quote');
-  url.searchParams.set('symbol', 'BTC/USD');
-
-  const response = await fetch(url.toString());
-  if (!response.ok) {
-    throw new Error(`Failed to fetch BTC quote: ${response.status}`);
-  }
-
-  const data = await response.json();
-  if (data.status === 'error') {
-    throw new Error(data.message || 'API error fetching BTC quote');
-  }
-
-  return {
-    symbol: data.symbol,
-    name: data.name || 'Bitcoin',
-    open: parseFloat(data.open),
-    high: parseFloat(data.high),
-    low: parseFloat(data.low),
-    close: parseFloat(data.close),
-    volume: parseFloat(data.volume || '0'),
-    previous_close: parseFloat(data.previous_close),
-    change: parseFloat(data.change),
-    percent_change: parseFloat(data.percent_change),
-    datetime: data.datetime,
-  };
+  return cachedJson<BitcoinQuote>('quote:BTC/USD', (q) => cacheTtlFor(q.source, TTL_QUOTE), async () => {
+    const { data, source } = await fetchQuote('BTC/USD');
+    return {
+      symbol: data.symbol,
+      name: data.name || 'Bitcoin',
+      open: data.open,
+      high: data.high,
+      low: data.low,
+      close: data.close,
+      volume: data.volume,
+      previous_close: data.previous_close,
+      change: data.change,
+      percent_change: data.percent_change,
+      datetime: data.datetime,
+      source,
+    };
   });
 }
 
@@ -293,64 +291,40 @@ export interface EtfQuote {
   percent_change: number;
   datetime: string;
   is_market_open: boolean;
+  source?: ProviderId;
 }
 
 export async function getEtfQuote(symbol: string = 'BTC'): Promise<EtfQuote> {
-  return cachedJson(`quote:${symbol}`, TTL_QUOTE, async () => {
-  const url = tdProxyUrl('quote');
-  url.searchParams.set('symbol', symbol);
-
-  const response = await fetch(url.toString());
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${symbol} quote: ${response.status}`);
-  }
-
-  const data = await response.json();
-  if (data.status === 'error') {
-    throw new Error(data.message || `API error fetching ${symbol} quote`);
-  }
-
-  return {
-    symbol: data.symbol,
-    name: data.name || 'Grayscale Bitcoin Mini Trust ETF',
-    close: parseFloat(data.close),
-    previous_close: parseFloat(data.previous_close),
-    change: parseFloat(data.change),
-    percent_change: parseFloat(data.percent_change),
-    datetime: data.datetime,
-    is_market_open: data.is_market_open,
-  };
+  return cachedJson<EtfQuote>(`quote:${symbol}`, (q) => cacheTtlFor(q.source, TTL_QUOTE), async () => {
+    const { data, source } = await fetchQuote(symbol);
+    return {
+      symbol: data.symbol,
+      name: data.name || 'Grayscale Bitcoin Mini Trust ETF',
+      close: data.close,
+      previous_close: data.previous_close,
+      change: data.change,
+      percent_change: data.percent_change,
+      datetime: data.datetime,
+      is_market_open: data.is_market_open ?? false,
+      source,
+    };
   });
 }
 
 export async function getBtcPriceAtTime(datetime: string): Promise<number> {
-  return cachedJson(`btcAt:${datetime}`, TTL_HISTORICAL_POINT, async () => {
-  const url = tdProxyUrl('time_series');
-  url.searchParams.set('symbol', 'BTC/USD');
-  url.searchParams.set('interval', '1h');
-  url.searchParams.set('outputsize', '1');
-  url.searchParams.set('end_date', datetime);
-
-  const response = await fetch(url.toString());
-  if (!response.ok) {
-    throw new Error(`Failed to fetch BTC price at ${datetime}: ${response.status}`);
-  }
-
-  const data: TimeSeriesResponse = await response.json();
-  if (data.status === 'error') {
-    throw new Error(data.message || 'API error fetching BTC historical price');
-  }
-
-  if (!data.values || data.values.length === 0) {
-    throw new Error('No BTC price data available for the specified time');
-  }
-
-  return parseFloat(data.values[0].close);
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`btcAt:${datetime}`, () => cacheTtlFor(servedBy, TTL_HISTORICAL_POINT), async () => {
+    const { data, source } = await fetchTimeSeries('BTC/USD', { interval: '1h', outputsize: 1, endDate: datetime });
+    servedBy = source;
+    if (data.length === 0) {
+      throw new Error('No BTC price data available for the specified time');
+    }
+    return data[data.length - 1].close;
   });
 }
 
 // Map days-based ranges to TwelveData config (including intraday for short ranges)
-const BTC_RANGE_CONFIG: Record<number, { outputsize: number; interval: string }> = {
+const BTC_RANGE_CONFIG: Record<number, { outputsize: number; interval: BarInterval }> = {
   1: { outputsize: 96, interval: '15min' },
   7: { outputsize: 168, interval: '1h' },
   30: { outputsize: 30, interval: '1day' },
@@ -359,39 +333,39 @@ const BTC_RANGE_CONFIG: Record<number, { outputsize: number; interval: string }>
   1095: { outputsize: 780, interval: '1day' },
 };
 
-export async function getBitcoinPriceHistory(
+/** Like getBitcoinPriceHistory, plus which provider served it. */
+export async function getBitcoinPriceHistoryWithSource(
   days: number = 30
-): Promise<OHLCVPriceData[]> {
+): Promise<Sourced<OHLCVPriceData[]>> {
   const config = BTC_RANGE_CONFIG[days] || BTC_RANGE_CONFIG[30];
   const ttl = config.interval === '1day' || config.interval === '1week' ? TTL_DAILY : TTL_INTRADAY;
 
-  return cachedJson(`btcHist:${days}`, ttl, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', 'BTC/USD');
-    url.searchParams.set('interval', config.interval);
-    url.searchParams.set('outputsize', config.outputsize.toString());
-
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      throw new Error(`Failed to fetch BTC price history: ${response.status}`);
-    }
+  const cached: Sourced<OHLCVPriceData[]> | OHLCVPriceData[] = await cachedJson(`btcHist:${days}`, (v) => cacheTtlFor(Array.isArray(v) ? undefined : v.source, ttl), async () => {
+    const { data, source } = await fetchTimeSeries('BTC/USD', {
+      interval: config.interval,
+      outputsize: config.outputsize,
+    });
+    return { data: toOHLCV(data), source };
+  });
+  // Entries persisted before the provider layer are bare TwelveData arrays
+  return Array.isArray(cached) ? { data: cached, source: 'twelvedata' } : cached;
+}
 
-    const data: TimeSeriesResponse = await response.json();
-    if (data.status === 'error') {
-      throw new Error(data.message || 'API error fetching BTC history');
-    }
+export async function getBitcoinPriceHistory(
+  days: number = 30
+): Promise<OHLCVPriceData[]> {
+  return (await getBitcoinPriceHistoryWithSource(days)).data;
+}
 
-    return data.values
-      .map((item) => ({
-        date: item.datetime,
-        timestamp: new Date(item.datetime).getTime(),
-        price: parseFloat(item.close),
-        open: parseFloat(item.open),
-        high: parseFloat(item.high),
-        low: parseFloat(item.low),
-        close: parseFloat(item.close),
-        volume: parseFloat(item.volume || '0'),
-      }))
-      .reverse();
+/** Daily OHLCV bars, oldest first — backtests and anything else that needs opens. */
+export async function getDailyBars(
+  symbol: string,
+  outputsize: number = 1000
+): Promise<OHLCVPriceData[]> {
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`bars:${symbol}:1day:${outputsize}`, () => cacheTtlFor(servedBy, TTL_DAILY), async () => {
+    const { data, source } = await fetchTimeSeries(symbol, { interval: '1day', outputsize });
+    servedBy = source;
+    return toOHLCV(data);
   });
 }
@@ -6,10 +6,12 @@
 // Trust gaps Monday after BTC moves over the weekend).
 
 import { WeekendData, WeekendMetrics, HourlyBar } from './weekendMomentumService';
-import { tdProxyUrl } from './tdProxy';
+import { fetchTimeSeries } from './marketData';
+import { cacheTtlFor } from './marketDataProvider';
+import type { Bar, ProviderId } from './marketDataProvider';
 import { cachedJson } from './twelveDataCache';
 
-// Reuse the shared cache (memory + localStorage + in-flight dedup) so switching
+// Reuse the shared cache (memory + IndexedDB + in-flight dedup) so switching
 // tickers / remounting the panel doesn't re-download full bar histories.
 const TTL_DAILY = 30 * 60_000;
 const TTL_HOURLY = 3 * 60_000;
@@ -34,39 +36,23 @@ interface DailyBar {
   close: number;
 }
 
+function toDailyBar(bar: Bar): DailyBar {
+  return { datetime: bar.datetime, open: bar.open, high: bar.high, low: bar.low, close: bar.close };
+}
+
 function getDayOfWeek(dateStr: string): number {
   const d = new Date(dateStr + 'T00:00:00');
   return d.getDay(); // 0=Sun, 1=Mon, ..., 5=Fri, 6=Sat
 }
 
 async function fetchHourlyBars(symbol: string, outputsize: number): Promise<HourlyBar[]> {
-  return cachedJson(`wg:hourly:${symbol}:${outputsize}`, TTL_HOURLY, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', symbol);
-    url.searchParams.set('interval', '1h');
-    url.searchParams.set('outputsize', outputsize.toString());
-
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${symbol} hourly: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.status === 'error') {
-      throw new Error(data.message || `API error for ${symbol} hourly`);
-    }
-
-    const bars = data.values
-      .map((v: { datetime: string; open: string; high: string; low: string; close: string }) => ({
-        datetime: v.datetime,
-        open: parseFloat(v.open),
-        high: parseFloat(v.high),
-        low: parseFloat(v.low),
-        close: parseFloat(v.close),
-      }))
-      .reverse(); // oldest first
-
-    return bars.map((bar: DailyBar, i: number) => ({
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`wg:hourly:${symbol}:${outputsize}`, () => cacheTtlFor(servedBy, TTL_HOURLY), async () => {
+    const { data, source } = await fetchTimeSeries(symbol, { interval: '1h', outputsize });
+    servedBy = source;
+    const bars = data.map(toDailyBar); // oldest first
+
+    return bars.map((bar, i) => ({
       ...bar,
       change: i === 0 ? 0 : ((bar.close - bars[i - 1].close) / bars[i - 1].close) * 100,
     }));
@@ -74,38 +60,18 @@ async function fetchHourlyBars(symbol: string, outputsize: number): Promise<Hour
 }
 
 async function fetchDailyBars(symbol: string, outputsize: number): Promise<DailyBar[]> {
-  return cachedJson(`wg:daily:${symbol}:${outputsize}`, TTL_DAILY, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', symbol);
-    url.searchParams.set('interval', '1day');
-    url.searchParams.set('outputsize', outputsize.toString());
-
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${symbol}: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.status === 'error') {
-      throw new Error(data.message || `API error for ${symbol}`);
-    }
-
-    return data.values
-      .map((v: { datetime: string; open: string; high: string; low: string; close: string }) => ({
-        datetime: v.datetime,
-        open: parseFloat(v.open),
-        high: parseFloat(v.high),
-        low: parseFloat(v.low),
-        close: parseFloat(v.close),
-      }))
-      .reverse(); // oldest first
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`wg:daily:${symbol}:${outputsize}`, () => cacheTtlFor(servedBy, TTL_DAILY), async () => {
+    const { data, source } = await fetchTimeSeries(symbol, { interval: '1day', outputsize });
+    servedBy = source;
+    return data.map(toDailyBar); // oldest first
   });
 }
 
 // For an equity/ETF, the "weekend" is the gap from each Friday close to the next
 // trading session's open (normally Monday, but the next bar handles holidays too).
 // Saturday/Sunday have no bars, so those drifts are null.
-function buildGapData(bars: DailyBar[]): WeekendData[] {
+export function buildGapData(bars: DailyBar[]): WeekendData[] {
   const weekends: WeekendData[] = [];
 
   for (let i = 0; i < bars.length; i++) {
@@ -1,11 +1,13 @@
 // Weekend Momentum Strategy Service
 // Fetches BTC/USD daily history and computes weekend metrics
 
-import { tdProxyUrl } from './tdProxy';
+import { fetchTimeSeries } from './marketData';
+import { cacheTtlFor } from './marketDataProvider';
+import type { Bar, ProviderId } from './marketDataProvider';
 import { cachedJson } from './twelveDataCache';
 
 // Bar histories change at most once per day (daily) / per hour (hourly), so
-// reuse the shared cache — memory + localStorage + in-flight dedup — instead of
+// reuse the shared cache — memory + IndexedDB + in-flight dedup — instead of
 // re-downloading multi-thousand-bar payloads on every tab remount.
 const TTL_DAILY = 30 * 60_000;
 const TTL_HOURLY = 3 * 60_000;
@@ -57,39 +59,23 @@ export interface WeekendMetrics {
   mondayRecoveryPositivePct: number;
 }
 
+function toDailyBar(bar: Bar): DailyBar {
+  return { datetime: bar.datetime, open: bar.open, high: bar.high, low: bar.low, close: bar.close };
+}
+
 function getDayOfWeek(dateStr: string): number {
   const d = new Date(dateStr + 'T00:00:00');
   return d.getDay(); // 0=Sun, 1=Mon, ..., 5=Fri, 6=Sat
 }
 
 async function fetchHourlyBars(symbol: string, outputsize: number): Promise<HourlyBar[]> {
-  return cachedJson(`wm:hourly:${symbol}:${outputsize}`, TTL_HOURLY, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', symbol);
-    url.searchParams.set('interval', '1h');
-    url.searchParams.set('outputsize', outputsize.toString());
-
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${symbol} hourly: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.status === 'error') {
-      throw new Error(data.message || `API error for ${symbol} hourly`);
-    }
-
-    const bars = data.values
-      .map((v: { datetime: string; open: string; high: string; low: string; close: string }) => ({
-        datetime: v.datetime,
-        open: parseFloat(v.open),
-        high: parseFloat(v.high),
-        low: parseFloat(v.low),
-        close: parseFloat(v.close),
-      }))
-      .reverse(); // oldest first
-
-    return bars.map((bar: DailyBar, i: number) => ({
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`wm:hourly:${symbol}:${outputsize}`, () => cacheTtlFor(servedBy, TTL_HOURLY), async () => {
+    const { data, source } = await fetchTimeSeries(symbol, { interval: '1h', outputsize });
+    servedBy = source;
+    const bars = data.map(toDailyBar); // oldest first
+
+    return bars.map((bar, i) => ({
       ...bar,
       change: i === 0 ? 0 : ((bar.close - bars[i - 1].close) / bars[i - 1].close) * 100,
     }));
@@ -97,35 +83,15 @@ async function fetchHourlyBars(symbol: string, outputsize: number): Promise<Hour
 }
 
 async function fetchDailyBars(symbol: string, outputsize: number): Promise<DailyBar[]> {
-  return cachedJson(`wm:daily:${symbol}:${outputsize}`, TTL_DAILY, async () => {
-    const url = tdProxyUrl('time_series');
-    url.searchParams.set('symbol', symbol);
-    url.searchParams.set('interval', '1day');
-    url.searchParams.set('outputsize', outputsize.toString());
-
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${symbol}: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.status === 'error') {
-      throw new Error(data.message || `API error for ${symbol}`);
-    }
-
-    return data.values
-      .map((v: { datetime: string; open: string; high: string; low: string; close: string }) => ({
-        datetime: v.datetime,
-        open: parseFloat(v.open),
-        high: parseFloat(v.high),
-        low: parseFloat(v.low),
-        close: parseFloat(v.close),
-      }))
-      .reverse(); // oldest first
+  let servedBy: ProviderId | undefined;
+  return cachedJson(`wm:daily:${symbol}:${outputsize}`, () => cacheTtlFor(servedBy, TTL_DAILY), async () => {
+    const { data, source } = await fetchTimeSeries(symbol, { interval: '1day', outputsize });
+    servedBy = source;
+    return data.map(toDailyBar); // oldest first
   });
 }
 
-function buildWeekendData(bars: DailyBar[]): WeekendData[] {
+export function buildWeekendData(bars: DailyBar[]): WeekendData[] {
   const byDate = new Map<string, DailyBar>();
   for (const bar of bars) {
     byDate.set(bar.datetime, bar);
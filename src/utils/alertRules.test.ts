@@ -0,0 +1,73 @@
+import { evaluateAlerts, selectForDispatch, AlertInputs, COOLDOWN_MS } from './alertRules';
+import type { OptionHistoryPositionRow } from '../services/blobDataService';
+
+const NOW = Date.parse('2026-03-02T15:00:00Z');
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString();
+
+const CLEAN: AlertInputs = {
+  now: NOW,
+  snapshot: {
+    timestamp: minutesAgo(5),
+    orders_source: 'db',
+    orders_as_of: minutesAgo(3),
+    portfolio: { reconciliation: { rh_equity: 100_000, computed_equity: 100_010 } },
+  },
+};
+
+function mark(chain_symbol: string, strike: number, mark_stale: boolean): OptionHistoryPositionRow {
+  return {
+    chain_symbol, option_type: 'put', strike, expiration: '2026-06-19', dte: 100, quantity: 1, avg_price: 2,
+    mark_price: 2, multiplier: 100, cost_basis: 200, current_value: 200, unrealized_pl: 0, unrealized_pl_pct: 0,
+    mark_stale,
+  };
+}
+
+describe('evaluateAlerts', () => {
+  it('stays quiet on a fresh, reconciled snapshot', () => {
+    expect(evaluateAlerts(CLEAN)).toEqual([]);
+  });
+
+  it('flags drift, stale marks and stale data, critical first', () => {
+    const alerts = evaluateAlerts({
+      now: NOW,
+      snapshot: {
+        timestamp: minutesAgo(30),
+        orders_source: 'db',
+        orders_as_of: minutesAgo(120),
+        portfolio: { reconciliation: { rh_equity: 100_000, computed_equity: 99_000 } },
+      },
+      optionMarks: { timestamp: minutesAgo(5), count: 2, positions: [mark('SPY', 500, true), mark('QQQ', 400, false)] },
+    });
+    expect(alerts.map(a => [a.id, a.severity])).toEqual([
+      ['orders_stale', 'critical'],
+      ['recon_drift', 'warning'],
+      ['mark_stale', 'warning'],
+      ['snapshot_age', 'warning'],
+    ]);
+    expect(alerts[1].message).toBe('Engine equity is $1,000 below Robinhood (1.00%)');
+    expect(alerts[2].message).toBe('1 position marked at cost: SPY 500P');
+  });
+
+  it('treats never-written DB orders as critical but ignores rounding-sized drift', () => {
+    const alerts = evaluateAlerts({
+      ...CLEAN,
+      snapshot: { ...CLEAN.snapshot, orders_as_of: undefined, portfolio: { reconciliation: { rh_equity: 1000, computed_equity: 1020 } } },
+    });
+    expect(alerts.map(a => a.id)).toEqual(['orders_stale']);
+  });
+});
+
+describe('selectForDispatch', () => {
+  const [warning] = evaluateAlerts({ ...CLEAN, snapshot: { ...CLEAN.snapshot, timestamp: minutesAgo(30) } });
+
+  it('sends once, holds for the cooldown, and lets escalations through', () => {
+    const first = selectForDispatch([warning], {}, NOW);
+    expect(first.send).toEqual([warning]);
+
+    expect(selectForDispatch([warning], first.log, NOW + 60_000).send).toEqual([]);
+    expect(selectForDispatch([warning], first.log, NOW + COOLDOWN_MS.warning).send).toEqual([warning]);
+
+    const critical = { ...warning, severity: 'critical' as const };
+    expect(selectForDispatch([critical], first.log, NOW + 60_000).send).toEqual([critical]);
+  });
+});
@@ -0,0 +1,166 @@
+// Rule-based data-quality alerts for the Trade page. Each rule looks at the
+// enriched snapshot (or the latest option-positions history blob) and yields
+// at most one alert, keyed by rule, so the tray and Slack both see a stable
+// id per problem.
+//
+// Slack forwarding is gated twice: selectForDispatch holds a per-browser
+// cooldown log, and alert-slack drops repeats of the same dedup key across
+// browsers. An escalation (warning → critical) always goes through.
+
+import type { EnrichedSnapshot } from '../services/robinhoodService';
+import type { OptionPositionsHistoryBlob } from '../services/blobDataService';
+import { SNAPSHOT_STALE_MS, SNAPSHOT_WARN_MS, formatAge } from './connectionHealth';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertRuleId = 'recon_drift' | 'mark_stale' | 'orders_stale' | 'snapshot_age';
+
+export interface Alert {
+  id: AlertRuleId;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+}
+
+export interface AlertThresholds {
+  /** |rh_equity − computed_equity| / rh_equity, as a fraction */
+  reconWarnPct: number;
+  reconCriticalPct: number;
+  /** Drift below this many dollars is rounding, whatever the percentage */
+  reconMinUsd: number;
+  staleWarnMs: number;
+  staleCriticalMs: number;
+}
+
+export const DEFAULT_THRESHOLDS: AlertThresholds = {
+  reconWarnPct: 0.005,
+  reconCriticalPct: 0.02,
+  reconMinUsd: 25,
+  staleWarnMs: SNAPSHOT_WARN_MS,
+  staleCriticalMs: SNAPSHOT_STALE_MS,
+};
+
+export interface AlertInputs {
+  now: number;
+  snapshot: Pick<EnrichedSnapshot, 'timestamp' | 'orders_source' | 'orders_as_of'> & {
+    portfolio: Pick<EnrichedSnapshot['portfolio'], 'reconciliation'>;
+  };
+  /** Latest option-positions-history blob, when it loaded */
+  optionMarks?: OptionPositionsHistoryBlob | null;
+}
+
+export const SEVERITY_RANK: Record<AlertSeverity, number> = { warning: 1, critical: 2 };
+
+/** How long an unchanged alert waits before Slack hears about it again. */
+export const COOLDOWN_MS: Record<AlertSeverity, number> = {
+  warning: 4 * 3600_000,
+  critical: 30 * 60_000,
+};
+
+const usd = (n: number) => `$${Math.abs(n).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+function ageAlert(
+  id: 'orders_stale' | 'snapshot_age',
+  title: string,
+  asOf: string | undefined,
+  now: number,
+  th: AlertThresholds,
+): Alert | null {
+  const t = asOf ? Date.parse(asOf) : NaN;
+  if (!Number.isFinite(t)) {
+    return { id, severity: 'critical', title, message: 'No timestamp on the snapshot' };
+  }
+  const age = now - t;
+  if (age <= th.staleWarnMs) return null;
+  return {
+    id,
+    severity: age > th.staleCriticalMs ? 'critical' : 'warning',
+    title,
+    message: `Last updated ${formatAge(age)} (${new Date(t).toLocaleString()})`,
+  };
+}
+
+export function evaluateAlerts(inputs: AlertInputs, th: AlertThresholds = DEFAULT_THRESHOLDS): Alert[] {
+  const { now, snapshot, optionMarks } = inputs;
+  const alerts: Alert[] = [];
+
+  const { rh_equity, computed_equity } = snapshot.portfolio.reconciliation;
+  const drift = computed_equity - rh_equity;
+  if (rh_equity > 0 && Math.abs(drift) >= th.reconMinUsd) {
+    const pct = Math.abs(drift) / rh_equity;
+    if (pct > th.reconWarnPct) {
+      alerts.push({
+        id: 'recon_drift',
+        severity: pct > th.reconCriticalPct ? 'critical' : 'warning',
+        title: 'Reconciliation drift',
+        message: `Engine equity is ${usd(drift)} ${drift > 0 ? 'above' : 'below'} Robinhood (${(pct * 100).toFixed(2)}%)`,
+      });
+    }
+  }
+
+  const stale = (optionMarks?.positions ?? []).filter(p => p.mark_stale);
+  if (stale.length > 0) {
+    const names = [...new Set(stale.map(p => `${p.chain_symbol} ${p.strike}${p.option_type === 'put' ? 'P' : 'C'}`))];
+    alerts.push({
+      id: 'mark_stale',
+      severity: 'warning',
+      title: 'Stale option marks',
+      message: `${stale.length} position${stale.length === 1 ? '' : 's'} marked at cost: ${names.slice(0, 6).join(', ')}${names.length > 6 ? '…' : ''}`,
+    });
+  }
+
+  const snap = ageAlert('snapshot_age', 'Snapshot is stale', snapshot.timestamp, now, th);
+  if (snap) alerts.push(snap);
+
+  // orders_as_of is the last DB write, never the read time. Null from the DB
+  // means the write path has never run; a blob order book just shares the
+  // snapshot's age, which snapshot_age already covers.
+  if (snapshot.orders_as_of) {
+    const orders = ageAlert('orders_stale', 'Order data is stale', snapshot.orders_as_of, now, th);
+    if (orders) alerts.push(orders);
+  } else if (snapshot.orders_source === 'db') {
+    alerts.push({
+      id: 'orders_stale',
+      severity: 'critical',
+      title: 'Order data is stale',
+      message: 'No orders have ever been written to the trading DB',
+    });
+  }
+
+  return alerts.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+export interface DispatchRecord {
+  sentAt: number;
+  severity: AlertSeverity;
+}
+
+export type DispatchLog = Partial<Record<AlertRuleId, DispatchRecord>>;
+
+/**
+ * Which alerts Slack should hear about now: new ones, escalations, and
+ * anything still firing after its cooldown. Records outlive a resolved
+ * alert so a flapping rule cannot re-page inside the cooldown.
+ */
+export function selectForDispatch(
+  alerts: Alert[],
+  log: DispatchLog,
+  now: number,
+): { send: Alert[]; log: DispatchLog } {
+  const next: DispatchLog = {};
+  const maxCooldown = Math.max(...Object.values(COOLDOWN_MS));
+  for (const [id, rec] of Object.entries(log) as [AlertRuleId, DispatchRecord][]) {
+    if (now - rec.sentAt < maxCooldown) next[id] = rec;
+  }
+
+  const send: Alert[] = [];
+  for (const alert of alerts) {
+    const prev = next[alert.id];
+    const escalated = prev != null && SEVERITY_RANK[alert.severity] > SEVERITY_RANK[prev.severity];
+    if (!prev || escalated || now - prev.sentAt >= COOLDOWN_MS[alert.severity]) {
+      send.push(alert);
+      next[alert.id] = { sentAt: now, severity: alert.severity };
+    }
+  }
+  return { send, log: next };
+}
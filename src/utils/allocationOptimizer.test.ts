@@ -0,0 +1,81 @@
+import { describeAllocation, estimateInputs, optimizeAllocation } from './allocationOptimizer';
+import { calculateReturns, PortfolioReturnData } from './portfolioCalculations';
+
+const DAY_MS = 86_400_000;
+const START = Date.UTC(2026, 0, 1);
+
+function series(symbol: string, dailyMoves: number[]): PortfolioReturnData {
+  let price = 100;
+  const data = [0, ...dailyMoves].map((move, i) => {
+    price *= 1 + move;
+    const timestamp = START + i * DAY_MS;
+    return { date: new Date(timestamp).toISOString().slice(0, 10), timestamp, price };
+  });
+  return { symbol, displayName: symbol, color: '#000', returns: calculateReturns(data) };
+}
+
+// Deterministic, uncorrelated-ish noise
+const noise = (seed: number, n: number, scale: number, drift = 0) =>
+  Array.from({ length: n }, (_, i) => drift + scale * Math.sin(seed * (i + 1) * 1.7 + seed));
+
+const calm = series('CALM', noise(1, 120, 0.005, 0.0003));
+const wild = series('WILD', noise(2, 120, 0.03, 0.0015));
+const mid = series('MID', noise(3, 120, 0.015, 0.0008));
+
+const sum = (w: Record<string, number>) => Object.values(w).reduce((s, v) => s + v, 0);
+
+describe('optimizeAllocation', () => {
+  const result = optimizeAllocation([calm, wild, mid], { longOnly: true, maxWeight: 1 });
+
+  it('returns fully invested long-only portfolios', () => {
+    for (const p of [result.minVariance, result.maxSharpe, result.riskParity]) {
+      expect(sum(p.weights)).toBeCloseTo(1, 6);
+      Object.values(p.weights).forEach((w) => expect(w).toBeGreaterThanOrEqual(-1e-9));
+    }
+  });
+
+  it('puts the minimum-variance portfolio mostly in the calm asset', () => {
+    expect(result.minVariance.weights.CALM).toBeGreaterThan(0.7);
+    expect(result.minVariance.volatility).toBeLessThanOrEqual(result.riskParity.volatility + 1e-9);
+  });
+
+  it('orders the frontier by rising return and risk', () => {
+    expect(result.frontier.length).toBeGreaterThan(2);
+    for (let i = 1; i < result.frontier.length; i++) {
+      expect(result.frontier[i].expectedReturn).toBeGreaterThan(result.frontier[i - 1].expectedReturn);
+      expect(result.frontier[i].volatility).toBeGreaterThanOrEqual(result.frontier[i - 1].volatility - 1e-6);
+    }
+    const bestSharpe = Math.max(...result.frontier.map((p) => p.sharpe));
+    expect(result.maxSharpe.sharpe).toBe(bestSharpe);
+  });
+
+  it('equalizes risk contributions for risk parity', () => {
+    const { inputs } = result;
+    const w = inputs.symbols.map((s) => result.riskParity.weights[s]);
+    const sigmaW = inputs.cov.map((row) => row.reduce((s, x, j) => s + x * w[j], 0));
+    const contributions = w.map((x, i) => x * sigmaW[i]);
+    const total = contributions.reduce((s, v) => s + v, 0);
+    contributions.forEach((c) => expect(c / total).toBeCloseTo(1 / 3, 2));
+  });
+
+  it('respects the max-weight cap, raising it to 1/n when infeasible', () => {
+    const capped = optimizeAllocation([calm, wild, mid], { longOnly: true, maxWeight: 0.4 });
+    Object.values(capped.minVariance.weights).forEach((w) => expect(w).toBeLessThanOrEqual(0.4 + 1e-9));
+    expect(optimizeAllocation([calm, wild, mid], { longOnly: true, maxWeight: 0.1 }).effectiveMaxWeight).toBeCloseTo(1 / 3, 9);
+  });
+
+  it('allows shorts when long-only is off', () => {
+    const free = optimizeAllocation([calm, wild, mid], { longOnly: false, maxWeight: 1 });
+    expect(sum(free.minVariance.weights)).toBeCloseTo(1, 6);
+    expect(free.minVariance.volatility).toBeLessThanOrEqual(result.minVariance.volatility + 1e-9);
+  });
+});
+
+describe('describeAllocation', () => {
+  it('annualizes a single-asset portfolio to that asset', () => {
+    const inputs = estimateInputs([calm, wild]);
+    const p = describeAllocation(inputs, [1, 0], 0);
+    expect(p.volatility).toBeCloseTo(Math.sqrt(inputs.cov[0][0]) * 100, 9);
+    expect(p.expectedReturn).toBeCloseTo(inputs.mean[0] * 100, 9);
+  });
+});
@@ -0,0 +1,198 @@
+// Allocation optimizer: minimum-variance, max-Sharpe, risk-parity and an
+// efficient frontier over the date-aligned daily returns the Compare page's
+// correlation matrix uses. Inputs are sample means/covariances annualized by
+// the series' own observation frequency — noisy, so treat the output as a
+// starting point rather than a prescription.
+//
+// Everything is solved by projected gradient descent onto the box-constrained
+// simplex (sum w = 1, lo <= w <= hi), which handles long-only and max-weight
+// caps uniformly and is plenty fast for a couple of dozen holdings.
+
+import { alignedDailyReturns, PortfolioReturnData } from './portfolioCalculations';
+import { RISK_FREE_RATE } from './blackScholes';
+
+export interface OptimizerConstraints {
+  /** No short positions (weights >= 0) */
+  longOnly: boolean;
+  /** Per-asset cap as a fraction, e.g. 0.4; also the short cap when shorts are allowed */
+  maxWeight: number;
+}
+
+export interface OptimizerInputs {
+  symbols: string[];
+  /** Annualized mean return per asset (fraction) */
+  mean: number[];
+  /** Annualized covariance matrix */
+  cov: number[][];
+  observations: number;
+}
+
+export interface AllocationPoint {
+  weights: Record<string, number>;
+  /** Annualized, % */
+  expectedReturn: number;
+  volatility: number;
+  sharpe: number;
+}
+
+export interface OptimizationResult {
+  inputs: OptimizerInputs;
+  minVariance: AllocationPoint;
+  maxSharpe: AllocationPoint;
+  riskParity: AllocationPoint;
+  frontier: AllocationPoint[];
+  /** Cap actually applied — raised to 1/n when the requested one can't sum to 100% */
+  effectiveMaxWeight: number;
+}
+
+const DAY_MS = 86_400_000;
+const MAX_ITERATIONS = 3000;
+const TOLERANCE = 1e-10;
+
+export function estimateInputs(data: PortfolioReturnData[]): OptimizerInputs {
+  const symbols = data.map((a) => a.symbol);
+  const { dates, returns } = alignedDailyReturns(data);
+  const n = dates.length;
+  const ts = (date: string) => new Date(date).getTime();
+  const years = n > 1 ? (ts(dates[n - 1]) - ts(dates[0])) / DAY_MS / 365.25 : 0;
+  const periodsPerYear = years > 0 ? (n - 1) / years : 252;
+
+  const series = symbols.map((s) => returns.get(s)!);
+  const means = series.map((r) => (n ? r.reduce((sum, v) => sum + v, 0) / n : 0));
+  const cov = series.map((ri, i) =>
+    series.map((rj, j) => {
+      if (n < 2) return 0;
+      let sum = 0;
+      for (let k = 0; k < n; k++) sum += (ri[k] - means[i]) * (rj[k] - means[j]);
+      return (sum / (n - 1)) * periodsPerYear;
+    })
+  );
+
+  return { symbols, mean: means.map((m) => m * periodsPerYear), cov, observations: n };
+}
+
+function matVec(m: number[][], v: number[]): number[] {
+  return m.map((row) => row.reduce((sum, x, j) => sum + x * v[j], 0));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+// Euclidean projection onto { sum w = 1, lo <= w_i <= hi } — bisect on the shift tau
+function projectCappedSimplex(v: number[], lo: number, hi: number): number[] {
+  const clip = (tau: number) => v.map((x) => Math.min(Math.max(x - tau, lo), hi));
+  let a = Math.min(...v) - hi - 1;
+  let b = Math.max(...v) - lo + 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (a + b) / 2;
+    const total = clip(mid).reduce((sum, x) => sum + x, 0);
+    if (total > 1) a = mid;
+    else b = mid;
+  }
+  return clip((a + b) / 2);
+}
+
+function bounds(n: number, c: OptimizerConstraints): { lo: number; hi: number } {
+  const hi = Math.min(Math.max(c.maxWeight, 1 / n), 1);
+  return { lo: c.longOnly ? 0 : -hi, hi };
+}
+
+// maximize  mean·w − (gamma / 2)·w'Σw  over the constraint set
+function meanVariance(inputs: OptimizerInputs, gamma: number, c: OptimizerConstraints): number[] {
+  const n = inputs.symbols.length;
+  const { lo, hi } = bounds(n, c);
+  const trace = inputs.cov.reduce((sum, row, i) => sum + row[i], 0);
+  // trace(Σ) bounds the largest eigenvalue, so this step never overshoots
+  const step = 1 / Math.max(gamma * trace, 1e-12);
+  let w = projectCappedSimplex(new Array(n).fill(1 / n), lo, hi);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const sigmaW = matVec(inputs.cov, w);
+    const next = projectCappedSimplex(
+      w.map((x, i) => x + step * (inputs.mean[i] - gamma * sigmaW[i])),
+      lo,
+      hi
+    );
+    const moved = next.reduce((sum, x, i) => sum + (x - w[i]) ** 2, 0);
+    w = next;
+    if (moved < TOLERANCE) break;
+  }
+  return w;
+}
+
+function minVarianceWeights(inputs: OptimizerInputs, c: OptimizerConstraints): number[] {
+  return meanVariance({ ...inputs, mean: inputs.mean.map(() => 0) }, 1, c);
+}
+
+// Equal risk contribution, long-only; multiplicative updates toward 1/n of total variance
+function riskParityWeights(inputs: OptimizerInputs, c: OptimizerConstraints): number[] {
+  const n = inputs.symbols.length;
+  const { hi } = bounds(n, { ...c, longOnly: true });
+  const vols = inputs.cov.map((row, i) => Math.sqrt(Math.max(row[i], 1e-16)));
+  const inv = vols.map((v) => 1 / v);
+  const invSum = inv.reduce((sum, x) => sum + x, 0);
+  let w = projectCappedSimplex(inv.map((x) => x / invSum), 0, hi);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const sigmaW = matVec(inputs.cov, w);
+    const variance = dot(w, sigmaW);
+    if (variance <= 0) break;
+    const scaled = w.map((x, i) => x * Math.sqrt(1 / n / Math.max((x * sigmaW[i]) / variance, 1e-16)));
+    const total = scaled.reduce((sum, x) => sum + x, 0);
+    const next = projectCappedSimplex(scaled.map((x) => x / total), 0, hi);
+    const moved = next.reduce((sum, x, i) => sum + (x - w[i]) ** 2, 0);
+    w = next;
+    if (moved < TOLERANCE) break;
+  }
+  return w;
+}
+
+export function describeAllocation(
+  inputs: OptimizerInputs,
+  w: number[],
+  riskFreeRate: number = RISK_FREE_RATE
+): AllocationPoint {
+  const ret = dot(inputs.mean, w);
+  const vol = Math.sqrt(Math.max(dot(w, matVec(inputs.cov, w)), 0));
+  return {
+    weights: Object.fromEntries(inputs.symbols.map((s, i) => [s, w[i]])),
+    expectedReturn: ret * 100,
+    volatility: vol * 100,
+    sharpe: vol > 0 ? (ret - riskFreeRate) / vol : 0,
+  };
+}
+
+/**
+ * Frontier from a log-spaced sweep of risk aversion, low-risk end first.
+ * Max-Sharpe is the best frontier point (the tangency portfolio lies on it).
+ */
+export function optimizeAllocation(
+  data: PortfolioReturnData[],
+  constraints: OptimizerConstraints,
+  frontierPoints: number = 30,
+  riskFreeRate: number = RISK_FREE_RATE
+): OptimizationResult {
+  const inputs = estimateInputs(data);
+  const n = inputs.symbols.length;
+  const describe = (w: number[]) => describeAllocation(inputs, w, riskFreeRate);
+
+  const minVariance = describe(minVarianceWeights(inputs, constraints));
+  const frontier: AllocationPoint[] = [minVariance];
+  for (let i = 0; i < frontierPoints; i++) {
+    // gamma from 1000 (≈ min variance) down to 0.1 (≈ max return)
+    const gamma = Math.pow(10, 3 - (4 * i) / Math.max(frontierPoints - 1, 1));
+    const point = describe(meanVariance(inputs, gamma, constraints));
+    if (point.expectedReturn > frontier[frontier.length - 1].expectedReturn + 1e-6) frontier.push(point);
+  }
+  const maxSharpe = frontier.reduce((best, p) => (p.sharpe > best.sharpe ? p : best), frontier[0]);
+
+  return {
+    inputs,
+    minVariance,
+    maxSharpe,
+    riskParity: describe(riskParityWeights(inputs, constraints)),
+    frontier,
+    effectiveMaxWeight: n ? bounds(n, constraints).hi : constraints.maxWeight,
+  };
+}
@@ -0,0 +1,66 @@
+import { attributePerformance, AttributionInputs, DEFAULT_BENCHMARK } from './attribution';
+import type { SnapshotPosition } from '../services/robinhoodService';
+
+function position(symbol: string, equity: number): SnapshotPosition {
+  return {
+    symbol, quantity: equity / 100, current_price: 100, avg_buy_price: 100, equity,
+    profit_loss: 0, profit_loss_pct: 0,
+  };
+}
+
+// $6,000 AAA + $2,000 BBB + $1,000 of options + $1,000 cash
+const INPUTS: AttributionInputs = {
+  portfolio: {
+    cash: { cash: 1000, cash_available_for_withdrawal: 1000, buying_power: 1000, tradeable_cash: 1000 },
+    positions: [position('AAA', 6000), position('BBB', 2000)],
+    stock_market_value: 8000,
+    options_market_value: 1000,
+  },
+  holdingReturns: { AAA: 0.1, BBB: -0.05 },
+  benchmarkReturns: { SPY: 0.08 },
+  benchmark: DEFAULT_BENCHMARK,
+  cashReturn: 0.01,
+};
+
+describe('attributePerformance', () => {
+  const result = attributePerformance(INPUTS);
+  const sleeve = (id: string) => result.sleeves.find(s => s.sleeve === id)!;
+
+  it('weights the sleeves by market value and measures stocks over the period', () => {
+    expect(sleeve('stock')).toMatchObject({ portfolioWeight: 0.8, benchmarkWeight: 1 });
+    expect(sleeve('stock').portfolioReturn).toBeCloseTo(0.0625, 12);
+    // No period history for options: the sleeve earns the benchmark
+    expect(sleeve('option')).toMatchObject({ portfolioWeight: 0.1, portfolioReturn: null });
+    expect(result.portfolioReturn).toBeCloseTo(0.059, 12);
+    expect(result.benchmarkReturn).toBeCloseTo(0.08, 12);
+  });
+
+  it('splits the active return into allocation and selection exactly', () => {
+    expect(sleeve('stock').selection).toBeCloseTo(-0.014, 12);
+    expect(sleeve('option').selection).toBeCloseTo(0, 12);
+    expect(sleeve('option').allocation).toBeCloseTo(0, 12);
+    // Holding cash the benchmark does not costs the spread to the benchmark
+    expect(sleeve('cash').allocation).toBeCloseTo(-0.007, 12);
+    expect(result.allocation + result.selection).toBeCloseTo(result.activeReturn, 12);
+    expect(result.activeReturn).toBeCloseTo(-0.021, 12);
+  });
+
+  it('breaks stock selection down by symbol', () => {
+    expect(result.symbols.map(s => s.symbol)).toEqual(['AAA', 'BBB']);
+    expect(result.symbols[0].selection).toBeCloseTo(0.012, 12);
+    expect(result.symbols[1].selection).toBeCloseTo(-0.026, 12);
+  });
+
+  it('blends the benchmark over the assets that have data and reports the rest', () => {
+    const blended = attributePerformance({
+      ...INPUTS,
+      holdingReturns: { AAA: 0.1 },
+      benchmark: { weights: { SPY: 0.5, 'BTC/USD': 0.3, GLD: 0.2 }, cashPct: 10 },
+      benchmarkReturns: { SPY: 0.08, 'BTC/USD': 0.4 },
+    });
+    // SPY 5/8, BTC 3/8 of the invested 90%, plus 10% cash
+    expect(blended.benchmarkReturn).toBeCloseTo(0.9 * (0.625 * 0.08 + 0.375 * 0.4) + 0.1 * 0.01, 12);
+    expect(blended.missing).toEqual(['BBB', 'GLD']);
+    expect(blended.allocation + blended.selection).toBeCloseTo(blended.activeReturn, 12);
+  });
+});
@@ -0,0 +1,151 @@
+// Benchmark-relative attribution: splits the account into stock, option and
+// cash sleeves and explains the gap to a benchmark blend of PORTFOLIO_ASSETS
+// as Brinson allocation (being over/underweight a sleeve) and selection
+// (what was held inside it). Selection is measured on portfolio weights, so
+// the usual interaction term is folded in and the effects sum exactly to the
+// active return.
+//
+// Holdings-based: the stock sleeve is today's book held over the whole
+// period. Options have no price history to measure over the period, so the
+// option sleeve is left unmeasured: it earns the benchmark's total return
+// and claims no selection, and only its weight shows up in the result.
+
+import type { EnrichedPortfolio } from '../services/robinhoodService';
+
+export type SleeveId = 'stock' | 'option' | 'cash';
+
+export const SLEEVES: { id: SleeveId; label: string }[] = [
+  { id: 'stock', label: 'Stocks' },
+  { id: 'option', label: 'Options' },
+  { id: 'cash', label: 'Cash' },
+];
+
+export interface BenchmarkConfig {
+  /** PORTFOLIO_ASSETS symbol → weight within the benchmark's invested part */
+  weights: Record<string, number>;
+  /** Share of the benchmark held as cash, in percent */
+  cashPct: number;
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkConfig = { weights: { SPY: 1 }, cashPct: 0 };
+
+export interface AttributionInputs {
+  portfolio: Pick<EnrichedPortfolio, 'cash' | 'positions' | 'stock_market_value' | 'options_market_value'>;
+  /** Period return per held stock symbol (0.05 = +5%); symbols without one are left out */
+  holdingReturns: Record<string, number>;
+  /** Period return per benchmark asset */
+  benchmarkReturns: Record<string, number>;
+  benchmark: BenchmarkConfig;
+  /** What cash earned over the period, for both sides */
+  cashReturn: number;
+}
+
+export interface SleeveAttribution {
+  sleeve: SleeveId;
+  portfolioWeight: number;
+  benchmarkWeight: number;
+  /** null when the account holds nothing measurable in the sleeve */
+  portfolioReturn: number | null;
+  benchmarkReturn: number;
+  allocation: number;
+  selection: number;
+  total: number;
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  /** Share of the whole account */
+  weight: number;
+  return: number;
+  /** This symbol's part of the stock sleeve's selection effect */
+  selection: number;
+}
+
+export interface AttributionResult {
+  sleeves: SleeveAttribution[];
+  symbols: SymbolContribution[];
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  activeReturn: number;
+  allocation: number;
+  selection: number;
+  /** Held symbols and benchmark assets with no period return */
+  missing: string[];
+}
+
+// Normalized benchmark asset weights over the assets that have a return
+function benchmarkBlend(config: BenchmarkConfig, returns: Record<string, number>) {
+  const entries = Object.entries(config.weights).filter(([s, w]) => w > 0 && returns[s] != null);
+  const sum = entries.reduce((s, [, w]) => s + w, 0);
+  return sum > 0 ? entries.reduce((r, [s, w]) => r + (w / sum) * returns[s], 0) : 0;
+}
+
+export function attributePerformance(inputs: AttributionInputs): AttributionResult {
+  const { portfolio, holdingReturns, benchmarkReturns, benchmark, cashReturn } = inputs;
+
+  const missing = [
+    ...portfolio.positions.filter(p => p.equity > 0 && holdingReturns[p.symbol] == null).map(p => p.symbol),
+    ...Object.keys(benchmark.weights).filter(s => benchmark.weights[s] > 0 && benchmarkReturns[s] == null),
+  ];
+
+  // Stock sleeve: equity-weighted over the symbols that have a return
+  const measured = portfolio.positions.filter(p => p.equity > 0 && holdingReturns[p.symbol] != null);
+  const measuredEquity = measured.reduce((s, p) => s + p.equity, 0);
+  const stockReturn = measuredEquity > 0
+    ? measured.reduce((s, p) => s + (p.equity / measuredEquity) * holdingReturns[p.symbol], 0)
+    : null;
+
+  const cash = portfolio.cash.cash;
+  const total = portfolio.stock_market_value + portfolio.options_market_value + cash;
+  const wp: Record<SleeveId, number> = total !== 0
+    ? { stock: portfolio.stock_market_value / total, option: portfolio.options_market_value / total, cash: cash / total }
+    : { stock: 0, option: 0, cash: 0 };
+
+  const benchCash = Math.min(Math.max(benchmark.cashPct, 0), 100) / 100;
+  const wb: Record<SleeveId, number> = { stock: 1 - benchCash, option: 0, cash: benchCash };
+  const rbStock = benchmarkBlend(benchmark, benchmarkReturns);
+  const rb = wb.stock * rbStock + wb.cash * cashReturn;
+  const rbSleeve: Record<SleeveId, number> = { stock: rbStock, option: rb, cash: cashReturn };
+  // Options are never measured over the period (see header)
+  const rpSleeve: Record<SleeveId, number | null> = { stock: stockReturn, option: null, cash: cashReturn };
+
+  const sleeves = SLEEVES.map(({ id }) => {
+    // An unmeasured sleeve is assumed to match its benchmark — no selection claimed
+    const rp = rpSleeve[id] ?? rbSleeve[id];
+    const allocation = (wp[id] - wb[id]) * (rbSleeve[id] - rb);
+    const selection = wp[id] * (rp - rbSleeve[id]);
+    return {
+      sleeve: id,
+      portfolioWeight: wp[id],
+      benchmarkWeight: wb[id],
+      portfolioReturn: rpSleeve[id],
+      benchmarkReturn: rbSleeve[id],
+      allocation,
+      selection,
+      total: allocation + selection,
+    };
+  });
+
+  const symbols = measured
+    .map(p => {
+      const r = holdingReturns[p.symbol];
+      const weight = total !== 0 ? (p.equity / measuredEquity) * wp.stock : 0;
+      return { symbol: p.symbol, weight, return: r, selection: weight * (r - rbStock) };
+    })
+    .sort((a, b) => b.selection - a.selection);
+
+  const portfolioReturn = sleeves.reduce((s, x) => s + x.portfolioWeight * (x.portfolioReturn ?? x.benchmarkReturn), 0);
+  const allocation = sleeves.reduce((s, x) => s + x.allocation, 0);
+  const selection = sleeves.reduce((s, x) => s + x.selection, 0);
+
+  return {
+    sleeves,
+    symbols,
+    portfolioReturn,
+    benchmarkReturn: rb,
+    activeReturn: portfolioReturn - rb,
+    allocation,
+    selection,
+    missing,
+  };
+}
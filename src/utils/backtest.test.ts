@@ -0,0 +1,84 @@
+import { runBacktest, smaCrossoverSignals, weekendSignals } from './backtest';
+import type { OHLCVPriceData } from '../services/twelveDataService';
+
+const NO_COSTS = { initialCapital: 1000, feeBps: 0, slippageBps: 0 };
+
+/** Weekday-only daily bars starting Monday 2026-01-05. */
+function bars(closes: number[], opens: number[] = closes): OHLCVPriceData[] {
+  const out: OHLCVPriceData[] = [];
+  const d = new Date('2026-01-05T00:00:00Z');
+  closes.forEach((close, i) => {
+    while ([0, 6].includes(d.getUTCDay())) d.setUTCDate(d.getUTCDate() + 1);
+    const date = d.toISOString().slice(0, 10);
+    out.push({ date, timestamp: d.getTime(), price: close, open: opens[i], high: Math.max(close, opens[i]), low: Math.min(close, opens[i]), close, volume: 0 });
+    d.setUTCDate(d.getUTCDate() + 1);
+  });
+  return out;
+}
+
+describe('runBacktest', () => {
+  it('compounds trades and stays flat in cash between them', () => {
+    const b = bars([100, 100, 110, 110, 121, 121]);
+    const r = runBacktest(b, [
+      { entryIndex: 0, entryPrice: 100, exitIndex: 2, exitPrice: 110 },
+      { entryIndex: 3, entryPrice: 110, exitIndex: 4, exitPrice: 121 },
+    ], NO_COSTS);
+    expect(r.trades).toHaveLength(2);
+    expect(r.trades[0].returnPct).toBeCloseTo(10, 8);
+    expect(r.equity[r.equity.length - 1].equity).toBeCloseTo(1210, 2);
+    expect(r.stats.totalReturnPct).toBeCloseTo(21, 6);
+    expect(r.stats.winRatePct).toBe(100);
+    expect(r.stats.exposurePct).toBeCloseTo(50, 6);
+  });
+
+  it('charges fees and slippage on both sides', () => {
+    const b = bars([100, 100]);
+    const signal = [{ entryIndex: 0, entryPrice: 100, exitIndex: 1, exitPrice: 100 }];
+    const r = runBacktest(b, signal, { initialCapital: 1000, feeBps: 10, slippageBps: 10 });
+    // 0.999 × (0.999 / 1.001) × 0.999
+    expect(r.trades[0].pnl).toBeCloseTo(1000 * (0.999 * 0.999 / 1.001 * 0.999 - 1), 6);
+    expect(r.trades[0].pnl).toBeLessThan(0);
+  });
+
+  it('skips overlapping signals and reports the drawdown', () => {
+    const b = bars([100, 80, 90, 100]);
+    const r = runBacktest(b, [
+      { entryIndex: 0, entryPrice: 100, exitIndex: 3, exitPrice: 100 },
+      { entryIndex: 1, entryPrice: 80, exitIndex: 2, exitPrice: 90 },
+    ], NO_COSTS);
+    expect(r.trades).toHaveLength(1);
+    expect(r.stats.maxDrawdownPct).toBeCloseTo(-20, 6);
+    expect(r.stats.benchmarkReturnPct).toBe(0);
+  });
+});
+
+describe('weekendSignals', () => {
+  // Mon 5 … Fri 9, Mon 12
+  const b = bars([10, 10, 10, 10, 11, 12], [10, 10, 10, 10, 10, 12]);
+
+  it('enters at the Friday close and exits at the next weekday open', () => {
+    const s = weekendSignals(b, [{ fridayDate: '2026-01-09', friOpenToCloseDrift: 10 }]);
+    expect(s).toEqual([{ entryIndex: 4, entryPrice: 11, exitIndex: 5, exitPrice: 12 }]);
+  });
+
+  it('applies the Friday-up filter for momentum', () => {
+    const weekends = [{ fridayDate: '2026-01-09', friOpenToCloseDrift: -1 }];
+    expect(weekendSignals(b, weekends, true)).toEqual([]);
+    expect(weekendSignals(b, weekends, false)).toHaveLength(1);
+  });
+});
+
+describe('smaCrossoverSignals', () => {
+  it('buys the open after the fast SMA crosses above and sells after it crosses back', () => {
+    const closes = [10, 10, 10, 10, 12, 14, 16, 14, 10, 8, 6, 6];
+    const b = bars(closes, closes.map(c => c + 0.5));
+    const s = smaCrossoverSignals(b, 2, 4);
+    expect(s.length).toBeGreaterThan(0);
+    const first = s[0];
+    // Crossing above on bar 4 (12 > avg of last 4) → fill at bar 5's open
+    expect(first.entryIndex).toBe(5);
+    expect(first.entryPrice).toBe(14.5);
+    expect(first.exitIndex).toBeGreaterThan(first.entryIndex);
+    expect(first.exitPrice).toBe(b[first.exitIndex].open);
+  });
+});
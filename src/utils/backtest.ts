@@ -0,0 +1,239 @@
+// Backtest runner for the Strategies page. Strategies turn daily OHLCV bars
+// into entry/exit signals; the runner fills them with slippage and fees,
+// compounds a single all-in position and reports an equity curve, trade list
+// and the usual return/risk stats.
+//
+// Fills are never on the signal bar's own close when the signal needs that
+// close to exist — SMA crossovers trade the next bar's open, weekend trades
+// enter at Friday's close and exit at the next weekday open.
+
+import type { OHLCVPriceData } from '../services/twelveDataService';
+import type { WeekendData } from '../services/weekendMomentumService';
+import { calculateReturns, calculateSMA } from './portfolioCalculations';
+
+export type StrategyId = 'weekend-gap' | 'weekend-momentum' | 'sma-crossover';
+
+export const STRATEGIES: { id: StrategyId; label: string; description: string }[] = [
+  { id: 'weekend-gap',      label: 'Weekend Gap',      description: 'Long Friday close → next weekday open, every weekend' },
+  { id: 'weekend-momentum', label: 'Weekend Momentum', description: 'Long Friday close → Monday open when Friday closed above its open' },
+  { id: 'sma-crossover',    label: 'SMA Crossover',    description: 'Long while the fast SMA is above the slow SMA' },
+];
+
+export interface Signal {
+  entryIndex: number;
+  entryPrice: number;
+  exitIndex: number;
+  exitPrice: number;
+}
+
+export interface BacktestConfig {
+  initialCapital: number;
+  /** Commission per side, basis points of notional */
+  feeBps: number;
+  /** Adverse fill per side, basis points of price */
+  slippageBps: number;
+}
+
+export interface BacktestTrade {
+  entryDate: string;
+  exitDate: string;
+  entryPrice: number;
+  exitPrice: number;
+  /** Net of fees and slippage */
+  returnPct: number;
+  pnl: number;
+  bars: number;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  /** Buy-and-hold over the same bars, same starting capital */
+  benchmark: number;
+  drawdownPct: number;
+}
+
+export interface BacktestStats {
+  totalReturnPct: number;
+  cagrPct: number;
+  sharpe: number;
+  sortino: number;
+  maxDrawdownPct: number;
+  trades: number;
+  winRatePct: number;
+  /** Share of bars spent in a position */
+  exposurePct: number;
+  benchmarkReturnPct: number;
+}
+
+export interface BacktestResult {
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+}
+
+export const DEFAULT_CONFIG: BacktestConfig = { initialCapital: 10_000, feeBps: 5, slippageBps: 5 };
+
+const DAY_MS = 86_400_000;
+
+function getDayOfWeek(dateStr: string): number {
+  return new Date(dateStr.slice(0, 10) + 'T00:00:00').getDay(); // 0=Sun … 6=Sat
+}
+
+/**
+ * Weekend trades from the weekend tables the Weekend Gap / Momentum tabs
+ * build: enter at Friday's close, exit at the open of the first weekday bar
+ * after it (Monday, or Tuesday after a holiday). `requireFridayUp` keeps only
+ * weekends where Friday closed above its open — the momentum filter.
+ */
+export function weekendSignals(
+  bars: OHLCVPriceData[],
+  weekends: Pick<WeekendData, 'fridayDate' | 'friOpenToCloseDrift'>[],
+  requireFridayUp: boolean = false,
+): Signal[] {
+  const indexByDate = new Map(bars.map((b, i) => [b.date.slice(0, 10), i]));
+  const signals: Signal[] = [];
+  for (const w of weekends) {
+    if (requireFridayUp && !(w.friOpenToCloseDrift > 0)) continue;
+    const fri = indexByDate.get(w.fridayDate.slice(0, 10));
+    if (fri == null) continue;
+    let exit = fri + 1;
+    while (exit < bars.length && [0, 6].includes(getDayOfWeek(bars[exit].date))) exit++;
+    if (exit >= bars.length) continue;
+    signals.push({ entryIndex: fri, entryPrice: bars[fri].close, exitIndex: exit, exitPrice: bars[exit].open });
+  }
+  return signals;
+}
+
+/**
+ * SMA crossover on closes. calculateSMA runs over cumulative return from the
+ * first bar, a linear map of price, so the crossings are the same as on price.
+ */
+export function smaCrossoverSignals(bars: OHLCVPriceData[], fast: number, slow: number): Signal[] {
+  const returns = calculateReturns(bars);
+  const fastSma = calculateSMA(returns, fast);
+  const slowSma = calculateSMA(returns, slow);
+  const signals: Signal[] = [];
+  let entry: number | null = null;
+
+  for (let i = 0; i < bars.length - 1; i++) {
+    const f = fastSma[i].smaReturnPercent;
+    const s = slowSma[i].smaReturnPercent;
+    if (f === undefined || s === undefined) continue;
+    if (entry === null && f > s) {
+      entry = i + 1;
+    } else if (entry !== null && f < s) {
+      signals.push({ entryIndex: entry, entryPrice: bars[entry].open, exitIndex: i + 1, exitPrice: bars[i + 1].open });
+      entry = null;
+    }
+  }
+  // Still long at the end — mark out at the last close
+  if (entry !== null && entry < bars.length - 1) {
+    const last = bars.length - 1;
+    signals.push({ entryIndex: entry, entryPrice: bars[entry].open, exitIndex: last, exitPrice: bars[last].close });
+  }
+  return signals;
+}
+
+function mean(xs: number[]): number {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function stdev(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+export function runBacktest(
+  bars: OHLCVPriceData[],
+  signals: Signal[],
+  config: BacktestConfig = DEFAULT_CONFIG,
+): BacktestResult {
+  const empty: BacktestStats = {
+    totalReturnPct: 0, cagrPct: 0, sharpe: 0, sortino: 0, maxDrawdownPct: 0,
+    trades: 0, winRatePct: 0, exposurePct: 0, benchmarkReturnPct: 0,
+  };
+  if (bars.length < 2) return { equity: [], trades: [], stats: empty };
+
+  const slip = config.slippageBps / 10_000;
+  const fee = config.feeBps / 10_000;
+  const ordered = [...signals]
+    .filter(s => s.exitIndex > s.entryIndex)
+    .sort((a, b) => a.entryIndex - b.entryIndex);
+
+  // Equity marked at each bar's close; positions never overlap
+  const equityAt = new Array<number>(bars.length).fill(NaN);
+  const trades: BacktestTrade[] = [];
+  let cash = config.initialCapital;
+  let cursor = 0;
+  let barsInMarket = 0;
+
+  for (const s of ordered) {
+    if (s.entryIndex < cursor) continue;
+    for (; cursor < s.entryIndex; cursor++) equityAt[cursor] = cash;
+
+    const entryFill = s.entryPrice * (1 + slip);
+    const exitFill = s.exitPrice * (1 - slip);
+    const shares = (cash * (1 - fee)) / entryFill;
+    // In the market from the entry bar's close up to (not incl.) the exit bar
+    for (let i = s.entryIndex; i < s.exitIndex; i++) {
+      equityAt[i] = shares * bars[i].close;
+      barsInMarket++;
+    }
+    const proceeds = shares * exitFill * (1 - fee);
+    trades.push({
+      entryDate: bars[s.entryIndex].date,
+      exitDate: bars[s.exitIndex].date,
+      entryPrice: s.entryPrice,
+      exitPrice: s.exitPrice,
+      returnPct: (proceeds / cash - 1) * 100,
+      pnl: proceeds - cash,
+      bars: s.exitIndex - s.entryIndex,
+    });
+    cash = proceeds;
+    cursor = s.exitIndex;
+  }
+  for (; cursor < bars.length; cursor++) equityAt[cursor] = cash;
+
+  const startPrice = bars[0].close;
+  let peak = -Infinity;
+  let maxDd = 0;
+  const equity: EquityPoint[] = bars.map((b, i) => {
+    const eq = equityAt[i];
+    peak = Math.max(peak, eq);
+    const dd = peak > 0 ? (eq / peak - 1) * 100 : 0;
+    maxDd = Math.min(maxDd, dd);
+    return {
+      date: b.date,
+      equity: Math.round(eq * 100) / 100,
+      benchmark: Math.round((config.initialCapital * b.close / startPrice) * 100) / 100,
+      drawdownPct: dd,
+    };
+  });
+
+  const periodReturns = equity.slice(1).map((p, i) => p.equity / equity[i].equity - 1);
+  const years = Math.max((bars[bars.length - 1].timestamp - bars[0].timestamp) / DAY_MS / 365.25, 1 / 365.25);
+  // 24/7 assets print ~365 bars a year, equities ~252
+  const periodsPerYear = bars.length / years > 300 ? 365 : 252;
+  const avg = mean(periodReturns);
+  const sd = stdev(periodReturns);
+  const downside = Math.sqrt(mean(periodReturns.map(r => Math.min(r, 0) ** 2)));
+  const final = equity[equity.length - 1].equity;
+
+  return {
+    equity,
+    trades,
+    stats: {
+      totalReturnPct: (final / config.initialCapital - 1) * 100,
+      cagrPct: (Math.pow(final / config.initialCapital, 1 / years) - 1) * 100,
+      sharpe: sd > 0 ? (avg / sd) * Math.sqrt(periodsPerYear) : 0,
+      sortino: downside > 0 ? (avg / downside) * Math.sqrt(periodsPerYear) : 0,
+      maxDrawdownPct: maxDd,
+      trades: trades.length,
+      winRatePct: trades.length ? (trades.filter(t => t.pnl > 0).length / trades.length) * 100 : 0,
+      exposurePct: (barsInMarket / bars.length) * 100,
+      benchmarkReturnPct: (bars[bars.length - 1].close / startPrice - 1) * 100,
+    },
+  };
+}
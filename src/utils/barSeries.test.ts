@@ -0,0 +1,39 @@
+import { barsToFetch, mergeBars } from './barSeries';
+import type { Bar } from '../services/marketDataProvider';
+
+const DAY = 86_400_000;
+
+function bar(day: number, close: number): Bar {
+  return { datetime: `d${day}`, timestamp: day * DAY, open: close, high: close, low: close, close, volume: 0 };
+}
+
+describe('barSeries', () => {
+  it('requests only the bars since the last cached one', () => {
+    const cached = [bar(9, 10), bar(10, 11)];
+    // Same day: just the forming bar again, plus the next
+    expect(barsToFetch(cached, '1day', 10 * DAY + 3_600_000, 402)).toBe(2);
+    expect(barsToFetch(cached, '1day', 13 * DAY, 402)).toBe(4);
+  });
+
+  it('falls back to a full refetch for an empty cache or a gap longer than the series', () => {
+    expect(barsToFetch([], '1day', 10 * DAY, 402)).toBe(402);
+    expect(barsToFetch([bar(0, 10)], '1day', 1000 * DAY, 402)).toBe(402);
+    // 5-minute bars after a weekend: far more elapsed intervals than the 1D series holds
+    expect(barsToFetch([bar(0, 10)], '5min', 3 * DAY, 78)).toBe(78);
+  });
+
+  it('merges by timestamp, preferring the refetched bar, and trims to depth', () => {
+    const cached = [bar(1, 10), bar(2, 11), bar(3, 12)];
+    const merged = mergeBars(cached, [bar(4, 14), bar(3, 12.5)], 3);
+    expect(merged.map(b => [b.timestamp / DAY, b.close])).toEqual([[2, 11], [3, 12.5], [4, 14]]);
+  });
+
+  it('collapses duplicates and overlaps into one bar per timestamp, oldest first', () => {
+    const cached = [bar(1, 10), bar(2, 11), bar(3, 12)];
+    // Overlaps the whole cache, out of order, with a duplicate of its own
+    const incoming = [bar(3, 13), bar(1, 10), bar(2, 11.5), bar(3, 13.5)];
+    expect(mergeBars(cached, incoming, 10).map(b => [b.timestamp / DAY, b.close])).toEqual([[1, 10], [2, 11.5], [3, 13.5]]);
+    expect(mergeBars([], incoming, 10)).toHaveLength(3);
+    expect(mergeBars(cached, [], 10)).toEqual(cached);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Incremental bar series helpers. A cached series only ever needs the bars
+ * after its last one (plus that last bar, which is still forming), so the
+ * top-up request is a handful of bars instead of the full history.
+ */
+
+import { INTERVAL_MS } from '../services/marketDataProvider';
+import type { Bar, BarInterval } from '../services/marketDataProvider';
+
+/**
+ * How many bars to request to bring `cached` (oldest first) up to `now`:
+ * every interval elapsed since its last bar, plus that bar again so an
+ * in-progress bar gets its final values. An empty cache, or a gap longer
+ * than `depth` bars, is a full refetch of `depth`.
+ */
+export function barsToFetch(cached: Bar[], interval: BarInterval, now: number, depth: number): number {
+  const last = cached[cached.length - 1];
+  if (!last) return depth;
+  const elapsed = Math.max(0, now - last.timestamp);
+  return Math.min(depth, Math.ceil(elapsed / INTERVAL_MS[interval]) + 1);
+}
+
+/**
+ * Merge `incoming` into `existing` by bar timestamp — incoming wins, since a
+ * refetched bar may have been revised — and keep the newest `depth` bars,
+ * oldest first.
+ */
+export function mergeBars(existing: Bar[], incoming: Bar[], depth: number): Bar[] {
+  const byTime = new Map<number, Bar>();
+  for (const bar of existing) byTime.set(bar.timestamp, bar);
+  for (const bar of incoming) byTime.set(bar.timestamp, bar);
+  return [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp).slice(-depth);
+}
@@ -0,0 +1,69 @@
+import { bsPrice, normCdf, pnlSurface, repricePositions } from './blackScholes';
+import type { OptionPosition } from '../services/robinhoodService';
+
+const NOW = new Date('2026-01-02T20:00:00Z');
+
+function option(overrides: Partial<OptionPosition> = {}): OptionPosition {
+  return {
+    chain_symbol: 'TSLA', option_type: 'call', strike: 100, expiration: '2027-01-02', quantity: 1,
+    position_type: 'long', multiplier: 100, cost_basis: 1000, current_value: 1000, unrealized_pl: 0,
+    underlying_price: 100, greeks: { delta: 0.5, gamma: 0.02, theta: -0.05, vega: 0.4, iv: 0.2 },
+    ...overrides,
+  };
+}
+
+describe('bsPrice', () => {
+  it('matches the textbook at-the-money values', () => {
+    expect(normCdf(0)).toBeCloseTo(0.5, 7);
+    // S=K=100, T=1, σ=20%, r=4%
+    expect(bsPrice('call', 100, 100, 1, 0.2, 0.04)).toBeCloseTo(9.925, 2);
+    expect(bsPrice('put', 100, 100, 1, 0.2, 0.04)).toBeCloseTo(6.004, 2);
+  });
+
+  it('satisfies put-call parity', () => {
+    const c = bsPrice('call', 110, 100, 0.5, 0.3, 0.04);
+    const p = bsPrice('put', 110, 100, 0.5, 0.3, 0.04);
+    expect(c - p).toBeCloseTo(110 - 100 * Math.exp(-0.04 * 0.5), 6);
+  });
+
+  it('falls back to intrinsic value at expiry', () => {
+    expect(bsPrice('call', 120, 100, 0, 0.3)).toBe(20);
+    expect(bsPrice('put', 120, 100, -0.1, 0.3)).toBe(0);
+  });
+});
+
+describe('repricePositions', () => {
+  it('is flat with no scenario change', () => {
+    const r = repricePositions([option()], { spotShockPct: 0, ivShiftPts: 0, daysForward: 0 }, NOW);
+    expect(r.total_pnl).toBe(0);
+    expect(r.positions[0].base_value).toBeCloseTo(992.5, 0);
+  });
+
+  it('prices long calls up on a rally and short calls down', () => {
+    const scenario = { spotShockPct: 10, ivShiftPts: 0, daysForward: 0 };
+    const long = repricePositions([option()], scenario, NOW).total_pnl;
+    const short = repricePositions([option({ position_type: 'short' })], scenario, NOW).total_pnl;
+    expect(long).toBeGreaterThan(0);
+    expect(short).toBeCloseTo(-long, 2);
+  });
+
+  it('decays with days forward and gains with higher IV', () => {
+    expect(repricePositions([option()], { spotShockPct: 0, ivShiftPts: 0, daysForward: 30 }, NOW).total_pnl).toBeLessThan(0);
+    expect(repricePositions([option()], { spotShockPct: 0, ivShiftPts: 5, daysForward: 0 }, NOW).total_pnl).toBeGreaterThan(0);
+  });
+
+  it('skips positions it cannot price', () => {
+    const r = repricePositions([option({ greeks: undefined }), option({ underlying_price: undefined })], { spotShockPct: 0, ivShiftPts: 0, daysForward: 0 }, NOW);
+    expect(r.positions).toEqual([]);
+    expect(r.skipped).toHaveLength(2);
+  });
+});
+
+describe('pnlSurface', () => {
+  it('returns a spot × days grid', () => {
+    const grid = pnlSurface([option()], [-10, 0, 10], [0, 30], 0, NOW);
+    expect(grid).toHaveLength(3);
+    expect(grid[1][0]).toBe(0);
+    expect(grid[2][0]).toBeGreaterThan(grid[0][0]);
+  });
+});
@@ -0,0 +1,148 @@
+// Black-Scholes repricer for the what-if simulator. Reprices the snapshot's
+// option positions under a moved spot, shifted IV and calendar days forward.
+// European, no dividends — close enough for the short-dated equity options
+// the bot holds; scenario P&L is taken model-vs-model so the gap between the
+// model and the RH mark cancels out.
+
+import type { OptionPosition } from '../services/robinhoodService';
+import { optionExposure } from './optionGreeks';
+
+export const RISK_FREE_RATE = 0.04;
+
+const DAY_MS = 86_400_000;
+const YEAR_DAYS = 365;
+
+export interface Scenario {
+  /** Relative spot move, e.g. -5 for -5% */
+  spotShockPct: number;
+  /** Absolute IV change in vol points, e.g. 5 for +5 vols */
+  ivShiftPts: number;
+  daysForward: number;
+}
+
+export interface RepricedPosition {
+  key: string;
+  symbol: string;
+  option_type: 'call' | 'put';
+  strike: number;
+  expiration: string;
+  /** Signed share exposure (quantity × multiplier, negative when short) */
+  exposure: number;
+  /** Model value of the position today */
+  base_value: number;
+  /** Model value under the scenario */
+  scenario_value: number;
+  pnl: number;
+}
+
+export interface RepriceResult {
+  positions: RepricedPosition[];
+  total_pnl: number;
+  /** Positions with no spot, IV, strike or expiration to price from */
+  skipped: string[];
+}
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26, |error| < 7.5e-8). */
+export function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const d = 0.3989422804014327 * Math.exp(-x * x / 2);
+  const p = d * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - p : p;
+}
+
+/** Per-share Black-Scholes price; intrinsic value at or past expiry. */
+export function bsPrice(
+  type: 'call' | 'put',
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number,
+  rate: number = RISK_FREE_RATE,
+): number {
+  if (years <= 0 || vol <= 0) {
+    return Math.max(type === 'call' ? spot - strike : strike - spot, 0);
+  }
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + vol * vol / 2) * years) / (vol * sqrtT);
+  const d2 = d1 - vol * sqrtT;
+  const df = Math.exp(-rate * years);
+  return type === 'call'
+    ? spot * normCdf(d1) - strike * df * normCdf(d2)
+    : strike * df * normCdf(-d2) - spot * normCdf(-d1);
+}
+
+function num(v: number | string | null | undefined): number {
+  if (v == null) return NaN;
+  return typeof v === 'string' ? parseFloat(v) : v;
+}
+
+/** Expiry at the 4pm ET close, same convention as snapshot-refresh's DTE. */
+function expiryMs(expiration: string): number {
+  return new Date(`${expiration}T20:00:00Z`).getTime();
+}
+
+export function positionKey(opt: OptionPosition): string {
+  return `${opt.chain_symbol ?? opt.symbol}-${opt.option_type}-${opt.strike ?? opt.strike_price}-${opt.expiration ?? opt.expiration_date}`;
+}
+
+export function repricePositions(
+  options: OptionPosition[],
+  scenario: Scenario,
+  now: Date = new Date(),
+): RepriceResult {
+  const positions: RepricedPosition[] = [];
+  const skipped: string[] = [];
+
+  for (const opt of options) {
+    const key = positionKey(opt);
+    const spot = num(opt.underlying_price);
+    const strike = num(opt.strike ?? opt.strike_price);
+    const iv = num(opt.greeks?.iv);
+    const expiration = opt.expiration ?? opt.expiration_date;
+    if (!(spot > 0) || !(strike > 0) || !(iv > 0) || !expiration || expiration === 'N/A') {
+      skipped.push(key);
+      continue;
+    }
+
+    const type = (opt.option_type || '').toLowerCase() === 'put' ? 'put' : 'call';
+    const exposure = optionExposure(opt);
+    const yearsNow = (expiryMs(expiration) - now.getTime()) / DAY_MS / YEAR_DAYS;
+    const yearsThen = yearsNow - scenario.daysForward / YEAR_DAYS;
+    const shockedSpot = spot * (1 + scenario.spotShockPct / 100);
+    const shockedVol = Math.max(iv + scenario.ivShiftPts / 100, 0.01);
+
+    const base = bsPrice(type, spot, strike, yearsNow, iv) * exposure;
+    const then = bsPrice(type, shockedSpot, strike, yearsThen, shockedVol) * exposure;
+
+    positions.push({
+      key,
+      symbol: (opt.chain_symbol ?? opt.symbol)!,
+      option_type: type,
+      strike,
+      expiration,
+      exposure,
+      base_value: Math.round(base * 100) / 100,
+      scenario_value: Math.round(then * 100) / 100,
+      pnl: Math.round((then - base) * 100) / 100,
+    });
+  }
+
+  return {
+    positions,
+    total_pnl: Math.round(positions.reduce((s, p) => s + p.pnl, 0) * 100) / 100,
+    skipped,
+  };
+}
+
+/** Total book P&L over a spot-shock × days-forward grid at a fixed IV shift. */
+export function pnlSurface(
+  options: OptionPosition[],
+  spotShocks: number[],
+  days: number[],
+  ivShiftPts: number,
+  now: Date = new Date(),
+): number[][] {
+  return spotShocks.map(spotShockPct =>
+    days.map(daysForward => repricePositions(options, { spotShockPct, ivShiftPts, daysForward }, now).total_pnl),
+  );
+}
@@ -0,0 +1,77 @@
+import { evaluateHealth, recordAuthFailures, staleSources, HealthInputs } from './connectionHealth';
+
+const NOW = Date.parse('2026-03-02T15:00:00Z');
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString();
+
+const HEALTHY: HealthInputs = {
+  now: NOW,
+  robinhood: {
+    authenticated: true, message: 'Connected to Robinhood', hasRefreshToken: true,
+    expiresAt: new Date(NOW + 5 * 3600_000).toISOString(),
+  },
+  plaid: { connected: true, institutionName: 'Fidelity', message: 'ok' },
+  snapshot: { timestamp: minutesAgo(5), orders_source: 'db', orders_as_of: minutesAgo(1) },
+};
+
+const byId = (inputs: HealthInputs) => Object.fromEntries(evaluateHealth(inputs).map(r => [r.id, r]));
+
+describe('evaluateHealth', () => {
+  it('reports every source healthy with a token countdown', () => {
+    const rows = byId(HEALTHY);
+    expect(rows.robinhood).toMatchObject({ level: 'ok', expiresIn: 5 * 3600, detail: 'Token valid for 5h 0m' });
+    expect(rows.plaid.level).toBe('ok');
+    expect(rows.snapshot).toMatchObject({ level: 'ok', detail: 'Updated 5m ago' });
+    expect(rows.orders.label).toBe('Orders (DB)');
+    expect(rows.alpaca).toBeUndefined();
+    expect(staleSources(evaluateHealth(HEALTHY))).toEqual([]);
+  });
+
+  it('grades snapshot age and short-lived tokens without a refresh token', () => {
+    const rows = byId({
+      ...HEALTHY,
+      robinhood: { authenticated: true, message: 'ok', expiresIn: 3600, hasRefreshToken: false },
+      snapshot: { timestamp: minutesAgo(90), orders_source: 'blob' },
+    });
+    expect(rows.robinhood.level).toBe('warning');
+    expect(rows.snapshot.level).toBe('stale');
+    // Blob orders inherit the snapshot's age
+    expect(rows.orders).toMatchObject({ label: 'Orders (blob)', level: 'stale' });
+    expect(byId({ ...HEALTHY, snapshot: { timestamp: minutesAgo(30) } }).snapshot.level).toBe('warning');
+  });
+
+  it('treats a never-connected broker as off, and only a lapsed or rejected one as stale', () => {
+    const notConnected = evaluateHealth({ ...HEALTHY, robinhood: { authenticated: false, message: 'Not connected to Robinhood' } });
+    expect(notConnected.find(r => r.id === 'robinhood')!.level).toBe('off');
+    expect(staleSources(notConnected)).toEqual([]);
+    expect(recordAuthFailures([], notConnected, NOW)).toEqual([]);
+
+    const expired = byId({ ...HEALTHY, robinhood: { authenticated: false, message: 'Token expired, reconnect required', expiresAt: minutesAgo(5) } });
+    expect(expired.robinhood.level).toBe('stale');
+    const rejected = byId({ ...HEALTHY, robinhood: undefined, alpaca: { authenticated: false, message: 'bad keys', error: 'Alpaca rejected the API keys' } });
+    expect(rejected.alpaca).toMatchObject({ level: 'stale', detail: 'Alpaca rejected the API keys' });
+  });
+
+  it('only grades the broker it was given', () => {
+    const rows = byId({ ...HEALTHY, robinhood: undefined, alpaca: { authenticated: true, message: 'Alpaca account active' } });
+    expect(rows.robinhood).toBeUndefined();
+    expect(rows.alpaca.level).toBe('ok');
+  });
+
+  it('treats an unlinked Plaid as off, not stale', () => {
+    const rows = evaluateHealth({ ...HEALTHY, plaid: { connected: false, message: 'Not connected' } });
+    expect(rows.find(r => r.id === 'plaid')!.level).toBe('off');
+    expect(staleSources(rows)).toEqual([]);
+  });
+});
+
+describe('recordAuthFailures', () => {
+  const down = evaluateHealth({ ...HEALTHY, robinhood: { authenticated: false, message: 'Token expired, reconnect required', expiresAt: minutesAgo(1) } });
+
+  it('logs a failure once per incident window', () => {
+    const first = recordAuthFailures([], down, NOW);
+    expect(first).toEqual([{ source: 'robinhood', at: new Date(NOW).toISOString(), message: 'Token expired, reconnect required' }]);
+    expect(recordAuthFailures(first, down, NOW + 10 * 60_000)).toBe(first);
+    expect(recordAuthFailures(first, down, NOW + 2 * 3600_000)).toHaveLength(2);
+    expect(recordAuthFailures([], evaluateHealth(HEALTHY), NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+// Connection health across every data source the dashboard leans on: broker
+// auth tokens, the Plaid link, and the freshness of the order-book snapshot
+// (refreshed every 10 minutes by snapshot-refresh-cron) and its order data.
+//
+// Evaluation is pure so the banner in AppShell and the ConfigurePage panel
+// agree on what "stale" means; the context does the polling.
+
+import type { AuthStatus } from '../services/robinhoodService';
+import type { PlaidAuthStatus } from '../services/plaidService';
+
+export type HealthLevel = 'ok' | 'warning' | 'stale' | 'off';
+
+export type HealthSourceId = 'robinhood' | 'alpaca' | 'plaid' | 'snapshot' | 'orders';
+
+export interface SourceHealth {
+  id: HealthSourceId;
+  label: string;
+  level: HealthLevel;
+  detail: string;
+  /** When the underlying data was produced (snapshot/orders) */
+  asOf?: string;
+  /** Seconds until the auth token expires */
+  expiresIn?: number;
+  hasRefreshToken?: boolean;
+}
+
+export interface AuthFailure {
+  source: HealthSourceId;
+  at: string;
+  message: string;
+}
+
+export interface HealthInputs {
+  now: number;
+  /** Each broker is only passed when it is the selected one */
+  robinhood?: AuthStatus | null;
+  alpaca?: AuthStatus | null;
+  plaid: PlaidAuthStatus | null;
+  snapshot: { timestamp: string; orders_source?: 'db' | 'blob'; orders_as_of?: string } | null;
+}
+
+/** Two missed cron runs is worth a look; an hour means the refresh is down. */
+export const SNAPSHOT_WARN_MS = 20 * 60_000;
+export const SNAPSHOT_STALE_MS = 60 * 60_000;
+/** Token lifetime left before the panel nags about reconnecting */
+export const TOKEN_WARN_S = 2 * 3600;
+/** Same failure repeated inside this window is one incident, not many */
+export const FAILURE_DEDUP_MS = 60 * 60_000;
+export const MAX_FAILURES = 25;
+
+export function formatAge(ms: number): string {
+  const m = Math.floor(ms / 60_000);
+  if (m < 1) return 'just now';
+  if (m < 60) return `${m}m ago`;
+  const h = Math.floor(m / 60);
+  if (h < 48) return `${h}h ${m % 60}m ago`;
+  return `${Math.floor(h / 24)}d ago`;
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return 'expired';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+// Token expiry from expiresAt when present (it keeps counting down between
+// polls), else the expiresIn the server computed at fetch time
+function secondsLeft(status: AuthStatus, now: number, fetchedAt: number): number | undefined {
+  if (status.expiresAt) return Math.floor((Date.parse(status.expiresAt) - now) / 1000);
+  if (status.expiresIn != null) return status.expiresIn - Math.floor((now - fetchedAt) / 1000);
+  return undefined;
+}
+
+function brokerHealth(
+  id: 'robinhood' | 'alpaca',
+  label: string,
+  status: AuthStatus | null,
+  now: number,
+  fetchedAt: number,
+): SourceHealth {
+  if (!status) return { id, label, level: 'stale', detail: 'Status check failed' };
+  if (!status.authenticated) {
+    // A session that lapsed, or credentials the broker rejected, need a
+    // reconnect; a broker that was never connected is simply off
+    const lapsed = status.expiresAt != null || status.expiresIn != null || status.error != null;
+    return { id, label, level: lapsed ? 'stale' : 'off', detail: status.error || status.message };
+  }
+
+  const expiresIn = secondsLeft(status, now, fetchedAt);
+  const base = { id, label, expiresIn, hasRefreshToken: status.hasRefreshToken };
+  if (expiresIn != null && expiresIn <= 0) return { ...base, level: 'stale', detail: 'Token expired' };
+  if (expiresIn != null && expiresIn < TOKEN_WARN_S && !status.hasRefreshToken) {
+    return { ...base, level: 'warning', detail: `Token expires in ${formatCountdown(expiresIn)}, no refresh token` };
+  }
+  return {
+    ...base,
+    level: 'ok',
+    detail: expiresIn != null ? `Token valid for ${formatCountdown(expiresIn)}` : status.message,
+  };
+}
+
+function freshness(id: 'snapshot' | 'orders', label: string, asOf: string | undefined, now: number): SourceHealth {
+  const t = asOf ? Date.parse(asOf) : NaN;
+  if (!Number.isFinite(t)) return { id, label, level: 'stale', detail: 'No timestamp' };
+  const age = now - t;
+  const level: HealthLevel = age > SNAPSHOT_STALE_MS ? 'stale' : age > SNAPSHOT_WARN_MS ? 'warning' : 'ok';
+  return { id, label, level, detail: `Updated ${formatAge(age)}`, asOf };
+}
+
+/**
+ * One row per source. `fetchedAt` is when the auth statuses were polled, so
+ * an expiresIn-only countdown stays honest between polls.
+ */
+export function evaluateHealth(inputs: HealthInputs, fetchedAt: number = inputs.now): SourceHealth[] {
+  const { now, robinhood, alpaca, plaid, snapshot } = inputs;
+  const rows: SourceHealth[] = [];
+  if (robinhood !== undefined) rows.push(brokerHealth('robinhood', 'Robinhood', robinhood, now, fetchedAt));
+  if (alpaca !== undefined) rows.push(brokerHealth('alpaca', 'Alpaca', alpaca, now, fetchedAt));
+
+  rows.push(
+    plaid?.connected
+      ? { id: 'plaid', label: 'Plaid', level: 'ok', detail: plaid.institutionName ?? plaid.message }
+      : { id: 'plaid', label: 'Plaid', level: 'off', detail: plaid ? 'Not linked' : 'Status check failed' },
+  );
+
+  if (!snapshot) {
+    rows.push({ id: 'snapshot', label: 'Snapshot', level: 'stale', detail: 'Snapshot unavailable' });
+  } else {
+    rows.push(freshness('snapshot', 'Snapshot', snapshot.timestamp, now));
+    // orders_as_of is the last DB write; a blob order book is only as fresh
+    // as the snapshot it came with
+    rows.push(freshness('orders', snapshot.orders_source === 'db' ? 'Orders (DB)' : 'Orders (blob)',
+      snapshot.orders_as_of ?? snapshot.timestamp, now));
+  }
+  return rows;
+}
+
+export function staleSources(rows: SourceHealth[]): SourceHealth[] {
+  return rows.filter(r => r.level === 'stale');
+}
+
+/**
+ * Newest-first failure log for every stale broker row. A repeat of
+ * the latest failure for a source within FAILURE_DEDUP_MS is dropped.
+ */
+export function recordAuthFailures(history: AuthFailure[], rows: SourceHealth[], now: number): AuthFailure[] {
+  let next = history;
+  for (const row of rows) {
+    if ((row.id !== 'robinhood' && row.id !== 'alpaca') || row.level !== 'stale') continue;
+    const last = next.find(f => f.source === row.id);
+    if (last && last.message === row.detail && now - Date.parse(last.at) < FAILURE_DEDUP_MS) continue;
+    next = [{ source: row.id, at: new Date(now).toISOString(), message: row.detail }, ...next];
+  }
+  // Unchanged history keeps its identity so callers can skip a re-render
+  return next === history ? history : next.slice(0, MAX_FAILURES);
+}
@@ -0,0 +1,70 @@
+import { buildEquityCurve, moneyWeightedReturn } from './equityCurve';
+import type { AccountHistoryPoint } from '../services/robinhoodService';
+
+const DAY_MS = 86_400_000;
+const START = Date.UTC(2026, 0, 2, 20);
+
+// [day offset, equity, net flow]
+function history(rows: [number, number, number][]): AccountHistoryPoint[] {
+  return rows.map(([day, equity, net_flow]) => ({
+    captured_at: new Date(START + day * DAY_MS).toISOString(),
+    equity,
+    cash: null,
+    market_value: null,
+    net_flow,
+  }));
+}
+
+describe('buildEquityCurve', () => {
+  it('does not count deposits and withdrawals as performance', () => {
+    const curve = buildEquityCurve(history([[0, 1000, 0], [1, 2000, 1000], [2, 1500, -500]]))!;
+    expect(curve.stats.twrPct).toBeCloseTo(0, 9);
+    expect(curve.stats.investmentGain).toBe(0);
+    expect(curve.stats.netFlows).toBe(500);
+    expect(curve.stats.maxDrawdownPct).toBeCloseTo(0, 9);
+    expect(curve.series.map(p => p.contributions)).toEqual([1000, 2000, 1500]);
+  });
+
+  it('links sub-period returns net of each flow', () => {
+    // +10%, then a 690 deposit lands alongside another +10%
+    const curve = buildEquityCurve(history([[0, 1000, 0], [30, 1100, 0], [60, 1900, 690]]))!;
+    expect(curve.series.map(p => p.growthPct)).toEqual([0, expect.closeTo(10, 9), expect.closeTo(21, 9)]);
+    expect(curve.stats.investmentGain).toBe(210);
+    expect(curve.stats.twrAnnualPct).toBeNull();
+  });
+
+  it('penalizes a badly timed deposit in the money-weighted return only', () => {
+    // +20% on 1,000, then 10,000 arrives just before a 10% drop
+    const curve = buildEquityCurve(history([[0, 1000, 0], [100, 1200, 0], [101, 11200, 10000], [200, 10080, 0]]))!;
+    expect(curve.stats.twrPct).toBeCloseTo(8, 9);
+    expect(curve.stats.investmentGain).toBe(-920);
+    expect(curve.stats.mwrPct!).toBeLessThan(0);
+  });
+
+  it('annualizes once the history spans a year', () => {
+    const curve = buildEquityCurve(history([[0, 1000, 0], [365.25, 1100, 0]]))!;
+    expect(curve.stats.twrAnnualPct).toBeCloseTo(10, 9);
+    expect(curve.stats.mwrAnnualPct).toBeCloseTo(10, 6);
+    expect(curve.stats.days).toBe(365);
+  });
+
+  it('lists drawdowns deepest first with their recovery', () => {
+    const curve = buildEquityCurve(history([[0, 100, 0], [1, 120, 0], [2, 90, 0], [3, 130, 0], [4, 117, 0]]))!;
+    expect(curve.stats.maxDrawdownPct).toBeCloseTo(-25, 9);
+    expect(curve.stats.currentDrawdownPct).toBeCloseTo(-10, 9);
+    expect(curve.drawdowns).toEqual([
+      { peakDate: '2026-01-03', troughDate: '2026-01-04', recoveryDate: '2026-01-05', depthPct: expect.closeTo(-25, 9), days: 2 },
+      { peakDate: '2026-01-05', troughDate: '2026-01-06', recoveryDate: null, depthPct: expect.closeTo(-10, 9), days: 1 },
+    ]);
+  });
+
+  it('needs at least two points', () => {
+    expect(buildEquityCurve(history([[0, 1000, 0]]))).toBeNull();
+  });
+});
+
+describe('moneyWeightedReturn', () => {
+  it('matches simple growth when there are no flows', () => {
+    expect(moneyWeightedReturn(1000, [], 1250)).toBeCloseTo(0.25, 9);
+  });
+});
@@ -0,0 +1,188 @@
+// Account equity curve: db-account-history points → a performance series that
+// keeps deposits and withdrawals out of the return. The time-weighted return
+// links the returns between syncs, each measured after removing that period's
+// flow, so it reflects only how the holdings did. The money-weighted return is
+// the IRR of the actual cash flows, so contribution timing counts too.
+// Drawdowns run on the time-weighted index — a withdrawal is not a loss.
+//
+// Flow convention: a point's net_flow arrived before that point was captured,
+// so its equity already includes it. The first point's flow is part of the
+// starting equity.
+
+import type { AccountHistoryPoint } from '../services/robinhoodService';
+
+export interface EquityCurvePoint {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  timestamp: number;
+  equity: number;
+  flow: number;
+  /** Starting equity plus every flow to date — what was put in */
+  contributions: number;
+  /** Cumulative time-weighted return, % */
+  growthPct: number;
+  /** Distance below the time-weighted peak, % (≤ 0) */
+  drawdownPct: number;
+}
+
+export interface DrawdownPeriod {
+  peakDate: string;
+  troughDate: string;
+  /** null while still under water */
+  recoveryDate: string | null;
+  depthPct: number;
+  /** Peak to recovery, or to the last point when not yet recovered */
+  days: number;
+}
+
+export interface EquityCurveStats {
+  startEquity: number;
+  endEquity: number;
+  netFlows: number;
+  /** Equity change not explained by flows */
+  investmentGain: number;
+  twrPct: number;
+  mwrPct: number | null;
+  /** Annualized; null for spans under a year, where annualizing exaggerates */
+  twrAnnualPct: number | null;
+  mwrAnnualPct: number | null;
+  maxDrawdownPct: number;
+  currentDrawdownPct: number;
+  days: number;
+}
+
+export interface EquityCurve {
+  series: EquityCurvePoint[];
+  stats: EquityCurveStats;
+  /** Deepest first */
+  drawdowns: DrawdownPeriod[];
+}
+
+const DAY_MS = 86_400_000;
+const YEAR_DAYS = 365.25;
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+// IRR of an investor's flows over the whole span: start equity and deposits
+// in, end equity out. Flow times are fractions of the span (0 → 1), so the
+// result is the period rate — annualize it separately. Bisection, since
+// withdrawals can make Newton's method wander; null when there is no root.
+export function moneyWeightedReturn(
+  startEquity: number,
+  flows: { at: number; amount: number }[],
+  endEquity: number,
+): number | null {
+  const npv = (rate: number) => {
+    const v = 1 / (1 + rate);
+    return endEquity * v - startEquity - flows.reduce((s, f) => s + f.amount * v ** f.at, 0);
+  };
+  let lo = -0.9999;
+  let hi = 100;
+  let fLo = npv(lo);
+  if (!Number.isFinite(fLo) || fLo * npv(hi) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid);
+    if (fMid * fLo > 0) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+// Under-water stretches of the series, deepest first
+function drawdownPeriods(series: EquityCurvePoint[]): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = [];
+  let peak = -1;
+  let trough = -1;
+  const close = (endIdx: number, recovered: boolean) => {
+    periods.push({
+      peakDate: series[peak].date,
+      troughDate: series[trough].date,
+      recoveryDate: recovered ? series[endIdx].date : null,
+      depthPct: series[trough].drawdownPct,
+      days: Math.round((series[endIdx].timestamp - series[peak].timestamp) / DAY_MS),
+    });
+    peak = -1;
+  };
+  for (let i = 0; i < series.length; i++) {
+    const dd = series[i].drawdownPct;
+    if (dd < 0) {
+      if (peak < 0) {
+        peak = i - 1;
+        trough = i;
+      } else if (dd < series[trough].drawdownPct) {
+        trough = i;
+      }
+    } else if (peak >= 0) {
+      close(i, true);
+    }
+  }
+  if (peak >= 0) close(series.length - 1, false);
+  return periods.sort((a, b) => a.depthPct - b.depthPct);
+}
+
+export function buildEquityCurve(points: AccountHistoryPoint[]): EquityCurve | null {
+  const clean = points
+    .filter(p => p.captured_at && Number.isFinite(p.equity))
+    .map(p => ({ ...p, timestamp: new Date(p.captured_at).getTime() }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (clean.length < 2) return null;
+
+  const start = clean[0];
+  let index = 1;
+  let peak = 1;
+  let contributions = start.equity;
+  const series: EquityCurvePoint[] = clean.map((p, i) => {
+    const flow = i === 0 ? 0 : p.net_flow;
+    if (i > 0) {
+      const prev = clean[i - 1].equity;
+      // An empty account has no return to measure until money arrives
+      if (prev > 0) index *= (p.equity - flow) / prev;
+      contributions += flow;
+    }
+    peak = Math.max(peak, index);
+    return {
+      date: p.captured_at.slice(0, 10),
+      timestamp: p.timestamp,
+      equity: p.equity,
+      flow,
+      contributions: r2(contributions),
+      growthPct: (index - 1) * 100,
+      drawdownPct: (index / peak - 1) * 100,
+    };
+  });
+
+  const end = clean[clean.length - 1];
+  const span = end.timestamp - start.timestamp;
+  const years = span / DAY_MS / YEAR_DAYS;
+  const netFlows = series.reduce((s, p) => s + p.flow, 0);
+  const mwr = span > 0
+    ? moneyWeightedReturn(
+        start.equity,
+        series.slice(1).map(p => ({ at: (p.timestamp - start.timestamp) / span, amount: p.flow })),
+        end.equity,
+      )
+    : null;
+  const annualize = years >= 1;
+
+  return {
+    series,
+    stats: {
+      startEquity: start.equity,
+      endEquity: end.equity,
+      netFlows: r2(netFlows),
+      investmentGain: r2(end.equity - start.equity - netFlows),
+      twrPct: (index - 1) * 100,
+      mwrPct: mwr != null ? mwr * 100 : null,
+      twrAnnualPct: annualize ? (index ** (1 / years) - 1) * 100 : null,
+      mwrAnnualPct: annualize && mwr != null ? ((1 + mwr) ** (1 / years) - 1) * 100 : null,
+      maxDrawdownPct: Math.min(...series.map(p => p.drawdownPct)),
+      currentDrawdownPct: series[series.length - 1].drawdownPct,
+      days: Math.round(years * YEAR_DAYS),
+    },
+    drawdowns: drawdownPeriods(series),
+  };
+}
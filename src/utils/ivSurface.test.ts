@@ -0,0 +1,57 @@
+import { buildSurface, diffSurface, previousSurface } from './ivSurface';
+import type { OptionSnapshot, OptionsChainBlob } from '../services/blobDataService';
+
+function leg(symbol: string, delta: number, iv: number): [string, OptionSnapshot] {
+  return [symbol, { symbol, greeks: { delta }, impliedVolatility: iv }];
+}
+
+// One expiry with a put wing, ATM call and a call wing
+function chain(expiry: string, shift = 0): [string, OptionSnapshot][] {
+  return [
+    leg(`IWN${expiry}P00190000`, -0.1, 0.34 + shift),
+    leg(`IWN${expiry}P00195000`, -0.3, 0.28 + shift),
+    leg(`IWN${expiry}P00200000`, -0.5, 0.24 + shift),
+    leg(`IWN${expiry}C00200000`, 0.5, 0.24 + shift),
+    leg(`IWN${expiry}C00205000`, 0.3, 0.22 + shift),
+    leg(`IWN${expiry}C00210000`, 0.2, 0.21 + shift),
+  ];
+}
+
+describe('ivSurface', () => {
+  it('interpolates delta buckets and derives RR/BF per expiry', () => {
+    const [near, far] = buildSurface([...chain('260515', 0.02), ...chain('260417')], '2026-04-10T20:00:00Z');
+
+    expect(near.dte).toBe(7);
+    expect(far.dte).toBe(35);
+    expect(near.iv.ATM).toBeCloseTo(0.24);
+    // 25Δ put sits between −0.3 (28%) and −0.1 (34%)
+    expect(near.iv['25P']).toBeCloseTo(0.295);
+    // 25Δ call sits between 0.2 (21%) and 0.3 (22%)
+    expect(near.iv['25C']).toBeCloseTo(0.215);
+    // Outside the quoted range is left blank rather than extrapolated
+    expect(near.iv['10C']).toBeNull();
+    expect(near.rr25).toBeCloseTo(0.215 - 0.295);
+    expect(near.bf25).toBeCloseTo((0.215 + 0.295) / 2 - 0.24);
+  });
+
+  it('diffs against the latest prior history entry', () => {
+    const blob = {
+      timestamp: '2026-04-10T20:00:00Z',
+      latestChain: Object.fromEntries(chain('260417', 0.03)),
+      history: [
+        { timestamp: '2026-04-10T14:00:00Z', underlying: 'IWN', numContracts: 6, snapshots: chain('260417', 0.05).map(([, s]) => s) },
+        { timestamp: '2026-04-10T18:00:00Z', underlying: 'IWN', numContracts: 6, snapshots: chain('260417').map(([, s]) => s) },
+        { timestamp: '2026-04-10T20:00:00Z', underlying: 'IWN', numContracts: 0, snapshots: [] },
+      ],
+    } as unknown as OptionsChainBlob;
+
+    const prev = previousSurface(blob);
+    expect(prev?.timestamp).toBe('2026-04-10T18:00:00Z');
+    const current = buildSurface(Object.entries(blob.latestChain), blob.timestamp);
+    const [change] = diffSurface(current, prev!.slices);
+    expect(change.iv.ATM).toBeCloseTo(0.03);
+    // A parallel shift leaves skew and convexity unchanged
+    expect(change.rr25).toBeCloseTo(0);
+    expect(change.bf25).toBeCloseTo(0);
+  });
+});
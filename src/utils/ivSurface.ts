@@ -0,0 +1,134 @@
+// Implied volatility surface across every expiry in an options-chain blob.
+// The surface is laid out by delta rather than strike so expiries with
+// different strike grids line up column for column; each expiry is reduced to
+// ATM IV plus the 25-delta risk reversal and butterfly.
+
+import type { OptionSnapshot, OptionsChainBlob } from '../services/blobDataService';
+import { parseContractSymbol } from './optionsChain';
+
+/** Put deltas are negative, call deltas positive; 0.5 is ATM (call side). */
+export const DELTA_BUCKETS = [
+  { id: '10P', label: '10Δ P', delta: -0.1 },
+  { id: '25P', label: '25Δ P', delta: -0.25 },
+  { id: 'ATM', label: 'ATM', delta: 0.5 },
+  { id: '25C', label: '25Δ C', delta: 0.25 },
+  { id: '10C', label: '10Δ C', delta: 0.1 },
+] as const;
+
+export type DeltaBucket = (typeof DELTA_BUCKETS)[number]['id'];
+
+export interface ExpirySlice {
+  expiry: string;
+  /** Calendar days from the snapshot to expiry */
+  dte: number;
+  /** Decimal IV per bucket; null when the chain does not span that delta */
+  iv: Record<DeltaBucket, number | null>;
+  /** 25Δ call IV − 25Δ put IV */
+  rr25: number | null;
+  /** Mean of the 25Δ wings − ATM IV */
+  bf25: number | null;
+}
+
+const DAY_MS = 86_400_000;
+
+/** Linear interpolation of IV at `target` delta; no extrapolation past the quoted range. */
+function ivAtDelta(points: { delta: number; iv: number }[], target: number): number | null {
+  if (points.length === 0) return null;
+  const sorted = [...points].sort((a, b) => a.delta - b.delta);
+  for (let i = 0; i < sorted.length; i++) {
+    const p = sorted[i];
+    if (p.delta === target) return p.iv;
+    if (p.delta > target) {
+      if (i === 0) return null;
+      const lo = sorted[i - 1];
+      return lo.iv + ((target - lo.delta) / (p.delta - lo.delta)) * (p.iv - lo.iv);
+    }
+  }
+  return null;
+}
+
+/**
+ * One slice per expiry, ascending by DTE. Contracts without IV or delta are
+ * skipped. `asOf` is the snapshot time used for DTE.
+ */
+export function buildSurface(snapshots: Iterable<[string, OptionSnapshot]>, asOf: string): ExpirySlice[] {
+  const asOfDay = Date.parse(asOf.slice(0, 10));
+  const byExpiry = new Map<string, { calls: { delta: number; iv: number }[]; puts: { delta: number; iv: number }[] }>();
+
+  for (const [contract, snap] of snapshots) {
+    const parsed = parseContractSymbol(contract);
+    const iv = snap?.impliedVolatility;
+    const delta = snap?.greeks?.delta;
+    if (!parsed || iv == null || !(iv > 0) || delta == null || !Number.isFinite(delta)) continue;
+    let legs = byExpiry.get(parsed.expiry);
+    if (!legs) byExpiry.set(parsed.expiry, (legs = { calls: [], puts: [] }));
+    (parsed.type === 'call' ? legs.calls : legs.puts).push({ delta, iv });
+  }
+
+  const slices: ExpirySlice[] = [];
+  for (const [expiry, { calls, puts }] of byExpiry) {
+    const iv = {} as Record<DeltaBucket, number | null>;
+    for (const b of DELTA_BUCKETS) {
+      iv[b.id] = b.delta < 0 ? ivAtDelta(puts, b.delta) : ivAtDelta(calls, b.delta);
+    }
+    // Fall back to the −50Δ put when calls do not straddle the money
+    if (iv.ATM == null) iv.ATM = ivAtDelta(puts, -0.5);
+
+    const c25 = iv['25C'];
+    const p25 = iv['25P'];
+    slices.push({
+      expiry,
+      dte: Math.max(0, Math.round((Date.parse(expiry) - asOfDay) / DAY_MS)),
+      iv,
+      rr25: c25 != null && p25 != null ? c25 - p25 : null,
+      bf25: c25 != null && p25 != null && iv.ATM != null ? (c25 + p25) / 2 - iv.ATM : null,
+    });
+  }
+  return slices.sort((a, b) => a.dte - b.dte);
+}
+
+/** Surface from the blob's latest chain. */
+export function latestSurface(blob: OptionsChainBlob): ExpirySlice[] {
+  return buildSurface(
+    Object.entries(blob.latestChain || {}).filter(([k]) => k !== '_meta'),
+    blob.timestamp,
+  );
+}
+
+/**
+ * Surface from the most recent `history` entry taken before the latest chain,
+ * or null when there is none to compare against.
+ */
+export function previousSurface(blob: OptionsChainBlob): { timestamp: string; slices: ExpirySlice[] } | null {
+  const latest = Date.parse(blob.timestamp);
+  const prior = (blob.history || [])
+    .filter(h => h.snapshots.length > 0 && Date.parse(h.timestamp) < latest)
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))[0];
+  if (!prior) return null;
+  const slices = buildSurface(prior.snapshots.map(s => [s.symbol, s] as [string, OptionSnapshot]), prior.timestamp);
+  return slices.length > 0 ? { timestamp: prior.timestamp, slices } : null;
+}
+
+/**
+ * Per-expiry change (current − previous), in the same shape as the slices.
+ * Expiries missing from `previous` are dropped.
+ */
+export function diffSurface(current: ExpirySlice[], previous: ExpirySlice[]): ExpirySlice[] {
+  const prevByExpiry = new Map(previous.map(s => [s.expiry, s]));
+  const sub = (a: number | null, b: number | null) => (a != null && b != null ? a - b : null);
+  const changes: ExpirySlice[] = [];
+  for (const cur of current) {
+    const prev = prevByExpiry.get(cur.expiry);
+    if (!prev) continue;
+    const iv = {} as Record<DeltaBucket, number | null>;
+    for (const b of DELTA_BUCKETS) iv[b.id] = sub(cur.iv[b.id], prev.iv[b.id]);
+    changes.push({
+      expiry: cur.expiry,
+      dte: cur.dte,
+      iv,
+      rr25: sub(cur.rr25, prev.rr25),
+      bf25: sub(cur.bf25, prev.bf25),
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,76 @@
+import { matchLots, ordersToFills } from './lotEngine';
+import type { SnapshotOrder } from '../services/robinhoodService';
+
+function fill(id: string, side: 'BUY' | 'SELL', quantity: number, price: number, day: number, symbol = 'TSLA'): SnapshotOrder {
+  const ts = new Date(Date.UTC(2026, 0, day)).toISOString();
+  return {
+    order_id: id, symbol, side, order_type: 'limit', trigger: 'immediate', state: 'filled',
+    quantity, limit_price: price, stop_price: null, created_at: ts, updated_at: ts,
+    filled_quantity: quantity, average_price: price,
+  };
+}
+
+// Buy 10 @ 100, buy 10 @ 120, buy 10 @ 90, sell 15 @ 130
+const ORDERS = [
+  fill('b1', 'BUY', 10, 100, 1),
+  fill('b2', 'BUY', 10, 120, 5),
+  fill('b3', 'BUY', 10, 90, 10),
+  fill('s1', 'SELL', 15, 130, 20),
+];
+
+describe('ordersToFills', () => {
+  it('keeps filled orders only, oldest first, preferring fill quantity/price', () => {
+    const orders = [
+      { ...fill('late', 'BUY', 5, 10, 9), filled_quantity: 3, average_price: 11 },
+      fill('early', 'BUY', 1, 10, 2),
+      { ...fill('open', 'BUY', 1, 10, 3), state: 'confirmed' },
+    ];
+    expect(ordersToFills(orders).map(f => [f.order_id, f.quantity, f.price])).toEqual([
+      ['early', 1, 10], ['late', 3, 11],
+    ]);
+  });
+});
+
+describe('matchLots', () => {
+  it('FIFO closes the oldest lots first', () => {
+    const [tsla] = matchLots(ORDERS, 'fifo').symbols;
+    expect(tsla.closed_lots.map(c => [c.lot_id, c.quantity])).toEqual([['b1', 10], ['b2', 5]]);
+    expect(tsla.realized_pnl).toBe(10 * 30 + 5 * 10);
+    expect(tsla.open_lots.map(l => [l.lot_id, l.quantity])).toEqual([['b2', 5], ['b3', 10]]);
+    expect(tsla.closed_lots[0].holding_days).toBe(19);
+  });
+
+  it('LIFO closes the newest lots first', () => {
+    const [tsla] = matchLots(ORDERS, 'lifo').symbols;
+    expect(tsla.closed_lots.map(c => [c.lot_id, c.quantity])).toEqual([['b3', 10], ['b2', 5]]);
+    expect(tsla.realized_pnl).toBe(10 * 40 + 5 * 10);
+  });
+
+  it('HIFO closes the highest-cost lots first', () => {
+    const [tsla] = matchLots(ORDERS, 'hifo').symbols;
+    expect(tsla.closed_lots.map(c => [c.lot_id, c.quantity])).toEqual([['b2', 10], ['b1', 5]]);
+    expect(tsla.shares_held).toBe(15);
+    expect(tsla.cost_basis).toBe(5 * 100 + 10 * 90);
+  });
+
+  it('average cost reproduces the pooled computeStockPnl result', () => {
+    const [tsla] = matchLots(ORDERS, 'average').symbols;
+    // avg cost 103.33 → (130 - 103.33) * 15
+    expect(tsla.realized_pnl).toBe(400);
+    expect(tsla.avg_cost).toBe(103.33);
+    expect(tsla.shares_held).toBe(15);
+  });
+
+  it('reports sells with no open lot as unmatched instead of realizing them', () => {
+    const report = matchLots([fill('s0', 'SELL', 5, 50, 1, 'NVDA'), fill('b1', 'BUY', 2, 40, 2, 'NVDA')], 'fifo');
+    expect(report.symbols[0]).toMatchObject({ unmatched_quantity: 5, realized_pnl: 0, shares_held: 2 });
+  });
+
+  it('totals across symbols', () => {
+    const report = matchLots([...ORDERS, fill('n1', 'BUY', 1, 500, 1, 'NVDA')], 'fifo');
+    expect(report.symbols.map(s => s.symbol)).toEqual(['TSLA', 'NVDA']);
+    expect(report.total_realized_pnl).toBe(350);
+    expect(report.total_cost_basis).toBe(5 * 120 + 10 * 90 + 500);
+    expect(report.fill_count).toBe(5);
+  });
+});
@@ -0,0 +1,198 @@
+// Tax-lot matching over filled stock orders. Each BUY fill opens a lot; each
+// SELL fill closes shares out of the open lots in the order the chosen method
+// dictates. db-pnl only reports average-cost P&L (computeStockPnl) — this is
+// the per-lot view behind it, so the 'average' method reproduces its numbers.
+
+import type { SnapshotOrder } from '../services/robinhoodService';
+
+export type LotMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export const LOT_METHODS: { label: string; value: LotMethod; description: string }[] = [
+  { label: 'FIFO',     value: 'fifo',    description: 'Oldest lots sold first' },
+  { label: 'LIFO',     value: 'lifo',    description: 'Newest lots sold first' },
+  { label: 'HIFO',     value: 'hifo',    description: 'Highest-cost lots sold first' },
+  { label: 'Avg cost', value: 'average', description: 'Pooled average cost (matches db-pnl)' },
+];
+
+export interface Fill {
+  order_id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  filled_at: string;
+}
+
+export interface OpenLot {
+  /** The BUY order that opened the lot */
+  lot_id: string;
+  symbol: string;
+  opened_at: string;
+  original_quantity: number;
+  /** Shares still open */
+  quantity: number;
+  cost_per_share: number;
+  cost_basis: number;
+}
+
+export interface ClosedLot {
+  lot_id: string;
+  /** The SELL order that closed these shares */
+  close_order_id: string;
+  symbol: string;
+  opened_at: string;
+  closed_at: string;
+  quantity: number;
+  cost_per_share: number;
+  proceeds_per_share: number;
+  cost_basis: number;
+  proceeds: number;
+  realized_pnl: number;
+  holding_days: number;
+}
+
+export interface SymbolLots {
+  symbol: string;
+  open_lots: OpenLot[];
+  closed_lots: ClosedLot[];
+  realized_pnl: number;
+  shares_held: number;
+  cost_basis: number;
+  avg_cost: number | null;
+  /**
+   * Shares sold with no open lot to match — history predates the fetched
+   * window, or the position was short. Left out of realized P&L.
+   */
+  unmatched_quantity: number;
+}
+
+export interface LotReport {
+  method: LotMethod;
+  symbols: SymbolLots[];
+  total_realized_pnl: number;
+  total_cost_basis: number;
+  fill_count: number;
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+// Share quantities can be fractional — round off float dust before comparing
+const rq = (n: number) => Math.round(n * 1e6) / 1e6;
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Filled stock orders as fills, oldest first. Same filter and price/quantity
+ * fallbacks as computeStockPnl so both paths agree on what a fill is.
+ */
+export function ordersToFills(orders: SnapshotOrder[]): Fill[] {
+  return orders
+    .filter(o => o.state === 'filled' && o.symbol && o.created_at)
+    .map(o => ({
+      order_id: o.order_id,
+      symbol: o.symbol,
+      side: (o.side || '').toUpperCase() === 'BUY' ? 'BUY' as const : 'SELL' as const,
+      quantity: o.filled_quantity ?? o.quantity ?? 0,
+      price: o.average_price ?? o.limit_price ?? 0,
+      filled_at: o.created_at!,
+    }))
+    .filter(f => f.quantity > 0)
+    .sort((a, b) => new Date(a.filled_at).getTime() - new Date(b.filled_at).getTime());
+}
+
+/** Open lots in the order `method` closes them. */
+function closeOrder(lots: OpenLot[], method: LotMethod): OpenLot[] {
+  switch (method) {
+    case 'lifo': return [...lots].reverse();
+    case 'hifo': return [...lots].sort((a, b) => b.cost_per_share - a.cost_per_share);
+    // Average cost pools the basis; shares still leave oldest-first so the
+    // holding period on each closed slice stays meaningful
+    default:     return lots;
+  }
+}
+
+function matchSymbol(symbol: string, fills: Fill[], method: LotMethod): SymbolLots {
+  let open: OpenLot[] = [];
+  const closed: ClosedLot[] = [];
+  let unmatched = 0;
+
+  for (const f of fills) {
+    if (f.side === 'BUY') {
+      open.push({
+        lot_id: f.order_id,
+        symbol,
+        opened_at: f.filled_at,
+        original_quantity: f.quantity,
+        quantity: f.quantity,
+        cost_per_share: f.price,
+        cost_basis: f.quantity * f.price,
+      });
+      if (method === 'average') {
+        // Re-pool: every open lot carries the running average cost
+        const shares = open.reduce((s, l) => s + l.quantity, 0);
+        const avg = shares > 0 ? open.reduce((s, l) => s + l.cost_basis, 0) / shares : 0;
+        for (const l of open) { l.cost_per_share = avg; l.cost_basis = l.quantity * avg; }
+      }
+      continue;
+    }
+
+    let remaining = f.quantity;
+    for (const lot of closeOrder(open, method)) {
+      if (remaining <= 0) break;
+      const qty = Math.min(lot.quantity, remaining);
+      remaining = rq(remaining - qty);
+      lot.quantity = rq(lot.quantity - qty);
+      lot.cost_basis = lot.quantity * lot.cost_per_share;
+      closed.push({
+        lot_id: lot.lot_id,
+        close_order_id: f.order_id,
+        symbol,
+        opened_at: lot.opened_at,
+        closed_at: f.filled_at,
+        quantity: qty,
+        cost_per_share: lot.cost_per_share,
+        proceeds_per_share: f.price,
+        cost_basis: r2(qty * lot.cost_per_share),
+        proceeds: r2(qty * f.price),
+        realized_pnl: r2(qty * (f.price - lot.cost_per_share)),
+        holding_days: Math.floor((new Date(f.filled_at).getTime() - new Date(lot.opened_at).getTime()) / DAY_MS),
+      });
+    }
+    unmatched += remaining;
+    open = open.filter(l => l.quantity > 0);
+  }
+
+  const sharesHeld = rq(open.reduce((s, l) => s + l.quantity, 0));
+  const costBasis  = open.reduce((s, l) => s + l.cost_basis, 0);
+  return {
+    symbol,
+    open_lots: open.map(l => ({ ...l, cost_basis: r2(l.cost_basis) })),
+    closed_lots: closed,
+    realized_pnl: r2(closed.reduce((s, c) => s + c.realized_pnl, 0)),
+    shares_held: sharesHeld,
+    cost_basis: r2(costBasis),
+    avg_cost: sharesHeld > 0 ? r2(costBasis / sharesHeld) : null,
+    unmatched_quantity: rq(unmatched),
+  };
+}
+
+/** Match every symbol's fills into lots under `method`. */
+export function matchLots(orders: SnapshotOrder[], method: LotMethod): LotReport {
+  const fills = ordersToFills(orders);
+  const bySymbol = new Map<string, Fill[]>();
+  for (const f of fills) {
+    const list = bySymbol.get(f.symbol);
+    if (list) list.push(f); else bySymbol.set(f.symbol, [f]);
+  }
+
+  const symbols = [...bySymbol.entries()]
+    .map(([symbol, list]) => matchSymbol(symbol, list, method))
+    .sort((a, b) => Math.abs(b.realized_pnl) - Math.abs(a.realized_pnl));
+
+  return {
+    method,
+    symbols,
+    total_realized_pnl: r2(symbols.reduce((s, x) => s + x.realized_pnl, 0)),
+    total_cost_basis: r2(symbols.reduce((s, x) => s + x.cost_basis, 0)),
+    fill_count: fills.length,
+  };
+}
@@ -0,0 +1,68 @@
+import { aggregateGreeks, optionExposure, shockPnl } from './optionGreeks';
+import type { OptionPosition, SnapshotPosition } from '../services/robinhoodService';
+
+function option(overrides: Partial<OptionPosition> = {}): OptionPosition {
+  return {
+    chain_symbol: 'TSLA', option_type: 'call', strike: 260, expiration: '2026-12-18', quantity: 2,
+    position_type: 'long', multiplier: 100, cost_basis: 1000, current_value: 1200, unrealized_pl: 200,
+    underlying_price: 250, greeks: { delta: 0.5, gamma: 0.02, theta: -0.1, vega: 0.3, iv: 0.6 },
+    ...overrides,
+  };
+}
+
+const STOCK: SnapshotPosition = {
+  symbol: 'TSLA', quantity: 50, avg_buy_price: 200, current_price: 250, equity: 12500, profit_loss: 2500, profit_loss_pct: 25,
+};
+
+describe('optionExposure', () => {
+  it('signs short positions negative and scales by the multiplier', () => {
+    expect(optionExposure(option())).toBe(200);
+    expect(optionExposure(option({ position_type: 'short', multiplier: undefined }))).toBe(-200);
+  });
+});
+
+describe('aggregateGreeks', () => {
+  it('folds stock shares into option delta per underlying', () => {
+    const { underlyings } = aggregateGreeks([option()], [STOCK]);
+    expect(underlyings[0]).toMatchObject({
+      symbol: 'TSLA', spot: 250, stock_shares: 50, option_count: 1,
+      delta_shares: 150, delta_usd: 37500, gamma_shares: 4, vega_usd: 60, theta_usd: -20,
+      // 4 shares/$ × 250² × 1%
+      gamma_usd_1pct: 2500,
+    });
+  });
+
+  it('nets a short call against a long call and totals across underlyings', () => {
+    const book = aggregateGreeks(
+      [option(), option({ position_type: 'short', quantity: 1, greeks: { delta: 0.3, gamma: 0.01, theta: -0.2, vega: 0.2 } }),
+       option({ chain_symbol: 'IWM', option_type: 'put', underlying_price: 200, quantity: 1, greeks: { delta: -0.4, gamma: 0.03, theta: -0.05, vega: 0.1 } })],
+      [],
+    );
+    const tsla = book.underlyings.find(u => u.symbol === 'TSLA')!;
+    expect(tsla.delta_shares).toBe(100 - 30);
+    expect(tsla.theta_usd).toBe(-20 + 20);
+    expect(book.total.delta_usd).toBe(70 * 250 + -40 * 200);
+    expect(book.total.vega_usd).toBe(60 - 20 + 10);
+  });
+
+  it('counts contracts without Greeks separately', () => {
+    const { underlyings } = aggregateGreeks([option({ greeks: undefined })], []);
+    expect(underlyings[0]).toMatchObject({ missing_greeks: 1, delta_shares: 0 });
+  });
+
+  it('builds a symmetric shock ladder with a convex gamma term', () => {
+    const { ladder } = aggregateGreeks([option()], []);
+    const up = ladder.find(r => r.shock_pct === 10)!;
+    const down = ladder.find(r => r.shock_pct === -10)!;
+    // delta 100 × 25 ± ½ × 4 × 25²
+    expect(up.total).toBe(2500 + 1250);
+    expect(down.total).toBe(-2500 + 1250);
+    expect(up.by_symbol.TSLA).toBe(up.total);
+  });
+});
+
+describe('shockPnl', () => {
+  it('is zero without a spot price', () => {
+    expect(shockPnl({ delta_shares: 100, gamma_shares: 1, spot: null }, 5)).toBe(0);
+  });
+});
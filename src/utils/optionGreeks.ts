@@ -0,0 +1,146 @@
+// Portfolio Greeks: per-contract Greeks from the snapshot scaled to position
+// size and summed per underlying, with stock holdings folded in as pure delta.
+// The spot-shock ladder is a delta-gamma (second-order Taylor) estimate —
+// good for small moves, increasingly off for ±10% on short-dated options.
+//
+// Snapshot conventions (snapshot-refresh / rh-snapshot-job): greeks are per
+// share, `quantity` is a positive contract count, `position_type: 'short'`
+// flips the sign, and `multiplier` is 100 unless the contract says otherwise.
+
+import type { OptionPosition, SnapshotPosition } from '../services/robinhoodService';
+
+export const SPOT_SHOCKS = [-10, -5, -2, -1, 1, 2, 5, 10] as const;
+
+export interface GreekTotals {
+  /** Share-equivalent delta (stock shares + option delta × multiplier) */
+  delta_shares: number;
+  /** Delta in dollars — P&L per 1.00 (100%) move, i.e. delta_shares × spot */
+  delta_usd: number;
+  /** Change in delta_shares per $1 move in the underlying */
+  gamma_shares: number;
+  /** Change in delta_usd for a 1% move */
+  gamma_usd_1pct: number;
+  /** P&L per 1 vol point */
+  vega_usd: number;
+  /** P&L per calendar day */
+  theta_usd: number;
+}
+
+export interface UnderlyingGreeks extends GreekTotals {
+  symbol: string;
+  spot: number | null;
+  stock_shares: number;
+  option_count: number;
+  /** Contracts with no Greeks in the snapshot — excluded from the totals */
+  missing_greeks: number;
+}
+
+export interface ShockRow {
+  shock_pct: number;
+  /** Per underlying, keyed by symbol */
+  by_symbol: Record<string, number>;
+  total: number;
+}
+
+export interface BookGreeks {
+  underlyings: UnderlyingGreeks[];
+  total: GreekTotals;
+  ladder: ShockRow[];
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+function num(v: number | string | null | undefined): number {
+  if (v == null) return 0;
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  return Number.isNaN(n) ? 0 : n;
+}
+
+function emptyTotals(): GreekTotals {
+  return { delta_shares: 0, delta_usd: 0, gamma_shares: 0, gamma_usd_1pct: 0, vega_usd: 0, theta_usd: 0 };
+}
+
+/** Signed share count a contract position controls: quantity × multiplier, negative when short. */
+export function optionExposure(opt: OptionPosition): number {
+  const sign = (opt.position_type || '').toLowerCase() === 'short' ? -1 : 1;
+  return sign * num(opt.quantity) * (opt.multiplier ?? 100);
+}
+
+/** Delta-gamma P&L estimate for a relative spot move. */
+export function shockPnl(g: Pick<UnderlyingGreeks, 'delta_shares' | 'gamma_shares' | 'spot'>, shockPct: number): number {
+  if (!g.spot) return 0;
+  const dS = g.spot * (shockPct / 100);
+  return g.delta_shares * dS + 0.5 * g.gamma_shares * dS * dS;
+}
+
+export function aggregateGreeks(options: OptionPosition[], positions: SnapshotPosition[]): BookGreeks {
+  const book = new Map<string, UnderlyingGreeks>();
+  const entry = (symbol: string): UnderlyingGreeks => {
+    let u = book.get(symbol);
+    if (!u) {
+      u = { symbol, spot: null, stock_shares: 0, option_count: 0, missing_greeks: 0, ...emptyTotals() };
+      book.set(symbol, u);
+    }
+    return u;
+  };
+
+  for (const p of positions) {
+    if (!p.symbol || !num(p.quantity)) continue;
+    const u = entry(p.symbol);
+    u.stock_shares += num(p.quantity);
+    u.delta_shares += num(p.quantity);
+    if (p.current_price > 0) u.spot = p.current_price;
+  }
+
+  for (const opt of options) {
+    const symbol = opt.chain_symbol ?? opt.symbol;
+    if (!symbol) continue;
+    const u = entry(symbol);
+    u.option_count++;
+    // Stock quote wins; the option's underlying_price fills in when not held
+    if (u.spot == null && num(opt.underlying_price) > 0) u.spot = num(opt.underlying_price);
+    if (!opt.greeks) { u.missing_greeks++; continue; }
+    const exposure = optionExposure(opt);
+    u.delta_shares += num(opt.greeks.delta) * exposure;
+    u.gamma_shares += num(opt.greeks.gamma) * exposure;
+    u.vega_usd     += num(opt.greeks.vega)  * exposure;
+    u.theta_usd    += num(opt.greeks.theta) * exposure;
+  }
+
+  const underlyings = [...book.values()].map(u => {
+    const spot = u.spot ?? 0;
+    return {
+      ...u,
+      delta_shares:   r2(u.delta_shares),
+      delta_usd:      r2(u.delta_shares * spot),
+      gamma_shares:   Math.round(u.gamma_shares * 1e4) / 1e4,
+      gamma_usd_1pct: r2(u.gamma_shares * spot * spot * 0.01),
+      vega_usd:       r2(u.vega_usd),
+      theta_usd:      r2(u.theta_usd),
+    };
+  }).sort((a, b) => Math.abs(b.delta_usd) - Math.abs(a.delta_usd));
+
+  const total = emptyTotals();
+  for (const u of underlyings) {
+    total.delta_shares   += u.delta_shares;
+    total.delta_usd      += u.delta_usd;
+    total.gamma_shares   += u.gamma_shares;
+    total.gamma_usd_1pct += u.gamma_usd_1pct;
+    total.vega_usd       += u.vega_usd;
+    total.theta_usd      += u.theta_usd;
+  }
+  (Object.keys(total) as (keyof GreekTotals)[]).forEach(k => { total[k] = r2(total[k]); });
+
+  const ladder = SPOT_SHOCKS.map(shock => {
+    const by_symbol: Record<string, number> = {};
+    let sum = 0;
+    for (const u of underlyings) {
+      const pl = r2(shockPnl(u, shock));
+      by_symbol[u.symbol] = pl;
+      sum += pl;
+    }
+    return { shock_pct: shock, by_symbol, total: r2(sum) };
+  });
+
+  return { underlyings, total, ladder };
+}
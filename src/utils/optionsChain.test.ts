@@ -0,0 +1,51 @@
+import { buildChain, findAtmStrike, parseContractSymbol } from './optionsChain';
+import type { OptionSnapshot } from '../services/blobDataService';
+
+function snap(symbol: string, partial: Partial<OptionSnapshot> = {}): OptionSnapshot {
+  return {
+    symbol,
+    latestQuote: { bid: 1, ask: 1.2, bidSize: 5, askSize: 5, timestamp: '2026-04-13T20:00:00Z' },
+    greeks: { delta: 0.5 },
+    impliedVolatility: 0.4,
+    ...partial,
+  };
+}
+
+describe('optionsChain', () => {
+  it('parses OCC contract symbols', () => {
+    expect(parseContractSymbol('IWN260418C00205500')).toEqual({
+      underlying: 'IWN', expiry: '2026-04-18', type: 'call', strike: 205.5,
+    });
+    expect(parseContractSymbol('_meta')).toBeNull();
+  });
+
+  it('pairs calls and puts by strike within each expiry', () => {
+    const chain = buildChain({
+      CRWD260515P00400000: snap('CRWD260515P00400000'),
+      CRWD260417C00410000: snap('CRWD260417C00410000', { openInterest: 820 }),
+      CRWD260417P00400000: snap('CRWD260417P00400000'),
+      CRWD260417C00400000: snap('CRWD260417C00400000', {
+        latestQuote: { bid: 0, ask: 2, bidSize: 0, askSize: 3, timestamp: '2026-04-13T20:00:00Z' },
+        latestTrade: { price: 1.7, size: 1, timestamp: '2026-04-13T19:59:00Z' },
+      }),
+    });
+
+    expect(chain.map(e => e.expiry)).toEqual(['2026-04-17', '2026-05-15']);
+    const [near] = chain;
+    expect(near.rows.map(r => r.strike)).toEqual([400, 410]);
+    expect(near.rows[0].call).toMatchObject({ bid: null, ask: 2, mid: 1.7 });
+    expect(near.rows[0].put).toMatchObject({ contract: 'CRWD260417P00400000', mid: 1.1, openInterest: null });
+    expect(near.rows[1]).toMatchObject({ call: { openInterest: 820 }, put: null });
+  });
+
+  it('picks the ATM strike from spot, else from call delta', () => {
+    const rows = buildChain({
+      IWN260417C00200000: snap('IWN260417C00200000', { greeks: { delta: 0.62 } }),
+      IWN260417C00205000: snap('IWN260417C00205000', { greeks: { delta: 0.48 } }),
+      IWN260417C00210000: snap('IWN260417C00210000', { greeks: { delta: 0.31 } }),
+    })[0].rows;
+    expect(findAtmStrike(rows, 208.1)).toBe(210);
+    expect(findAtmStrike(rows, null)).toBe(205);
+    expect(findAtmStrike([], 200)).toBeNull();
+  });
+});
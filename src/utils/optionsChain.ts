@@ -0,0 +1,111 @@
+// Options chain layout for the chain explorer. Turns the flat
+// `OptionsChainBlob.latestChain` map (keyed by OCC contract symbol) into
+// expirations → strikes, with the call and put at each strike side by side.
+
+import type { OptionSnapshot } from '../services/blobDataService';
+
+export type OptionSide = 'call' | 'put';
+
+export interface ParsedContract {
+  underlying: string;
+  /** YYYY-MM-DD */
+  expiry: string;
+  type: OptionSide;
+  strike: number;
+}
+
+export interface ChainQuote {
+  contract: string;
+  bid: number | null;
+  ask: number | null;
+  /** Bid/ask midpoint, falling back to the last trade when one side is missing */
+  mid: number | null;
+  /** Decimal, e.g. 0.35 for 35% */
+  iv: number | null;
+  delta: number | null;
+  openInterest: number | null;
+}
+
+export interface ChainRow {
+  strike: number;
+  call: ChainQuote | null;
+  put: ChainQuote | null;
+}
+
+export interface ChainExpiry {
+  expiry: string;
+  rows: ChainRow[];
+}
+
+export function parseContractSymbol(sym: string): ParsedContract | null {
+  // OCC format: IWN260418C00205000 → underlying=IWN, expiry=2026-04-18, type=call, strike=205.00
+  const m = sym.match(/^([A-Z]+)(\d{6})([CP])(\d{8})$/);
+  if (!m) return null;
+  const [, underlying, dateStr, cp, strikeStr] = m;
+  const y = 2000 + parseInt(dateStr.slice(0, 2));
+  const mo = dateStr.slice(2, 4);
+  const d = dateStr.slice(4, 6);
+  return {
+    underlying,
+    expiry: `${y}-${mo}-${d}`,
+    type: cp === 'C' ? 'call' : 'put',
+    strike: parseInt(strikeStr) / 1000,
+  };
+}
+
+const positive = (n: number | null | undefined) => (n != null && Number.isFinite(n) && n > 0 ? n : null);
+const finite = (n: number | null | undefined) => (n != null && Number.isFinite(n) ? n : null);
+
+function toChainQuote(contract: string, snap: OptionSnapshot): ChainQuote {
+  const bid = positive(snap.latestQuote?.bid);
+  const ask = positive(snap.latestQuote?.ask);
+  return {
+    contract,
+    bid,
+    ask,
+    mid: bid != null && ask != null ? (bid + ask) / 2 : positive(snap.latestTrade?.price),
+    iv: positive(snap.impliedVolatility),
+    delta: finite(snap.greeks?.delta),
+    openInterest: finite(snap.openInterest),
+  };
+}
+
+/** Group a latestChain map by expiry (ascending), then strike (ascending). */
+export function buildChain(chain: Record<string, OptionSnapshot>): ChainExpiry[] {
+  const byExpiry = new Map<string, Map<number, ChainRow>>();
+  for (const [key, snap] of Object.entries(chain)) {
+    if (key === '_meta' || !snap) continue;
+    const parsed = parseContractSymbol(key);
+    if (!parsed) continue;
+    let strikes = byExpiry.get(parsed.expiry);
+    if (!strikes) byExpiry.set(parsed.expiry, (strikes = new Map()));
+    let row = strikes.get(parsed.strike);
+    if (!row) strikes.set(parsed.strike, (row = { strike: parsed.strike, call: null, put: null }));
+    row[parsed.type] = toChainQuote(key, snap);
+  }
+  return Array.from(byExpiry.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([expiry, strikes]) => ({
+      expiry,
+      rows: Array.from(strikes.values()).sort((a, b) => a.strike - b.strike),
+    }));
+}
+
+/**
+ * Strike closest to the underlying price. Without a spot quote, falls back to
+ * the strike whose call delta is nearest 0.50.
+ */
+export function findAtmStrike(rows: ChainRow[], spot: number | null): number | null {
+  let best: number | null = null;
+  let bestDist = Infinity;
+  for (const row of rows) {
+    const dist = spot != null
+      ? Math.abs(row.strike - spot)
+      : row.call?.delta != null ? Math.abs(row.call.delta - 0.5) : Infinity;
+    if (dist < bestDist) {
+      best = row.strike;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
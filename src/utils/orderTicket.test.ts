@@ -0,0 +1,78 @@
+import {
+  buildOrderIntent,
+  committedSellQuantity,
+  intentToBotEvent,
+  trailingStopPrice,
+  validateOrderTicket,
+  OrderTicket,
+} from './orderTicket';
+import type { EnrichedPortfolio, SnapshotOrder } from '../services/robinhoodService';
+
+const PORTFOLIO: Pick<EnrichedPortfolio, 'cash' | 'positions'> = {
+  cash: { cash: 1000, cash_available_for_withdrawal: 1000, buying_power: 1000, tradeable_cash: 1000 },
+  positions: [
+    { symbol: 'TSLA', quantity: 10, avg_buy_price: 200, current_price: 250, equity: 2500, profit_loss: 500, profit_loss_pct: 25 },
+  ],
+};
+
+const OPEN_SELL: SnapshotOrder = {
+  order_id: 'o1', symbol: 'TSLA', side: 'SELL', order_type: 'market', trigger: 'stop', state: 'confirmed',
+  quantity: 4, limit_price: 0, stop_price: 230, created_at: null, updated_at: null,
+};
+
+function ticket(overrides: Partial<OrderTicket> = {}): OrderTicket {
+  return { symbol: 'TSLA', side: 'SELL', kind: 'limit', quantity: 5, limitPrice: 260, timeInForce: 'gfd', ...overrides };
+}
+
+describe('validateOrderTicket', () => {
+  it('accepts a sell within held shares', () => {
+    const v = validateOrderTicket(ticket(), PORTFOLIO, [], 250);
+    expect(v.errors).toEqual([]);
+    expect(v.estimatedNotional).toBe(1300);
+  });
+
+  it('counts open sell orders against available shares', () => {
+    expect(committedSellQuantity([OPEN_SELL], 'TSLA')).toBe(4);
+    const v = validateOrderTicket(ticket({ quantity: 7 }), PORTFOLIO, [OPEN_SELL], 250);
+    expect(v.availableToSell).toBe(6);
+    expect(v.errors[0]).toMatch(/Only 6 TSLA shares available/);
+  });
+
+  it('rejects buys above buying power', () => {
+    const v = validateOrderTicket(ticket({ side: 'BUY', quantity: 5, limitPrice: 250 }), PORTFOLIO, [], 250);
+    expect(v.errors[0]).toMatch(/exceeds buying power/);
+  });
+
+  it('rejects a sell stop above the market', () => {
+    const v = validateOrderTicket(ticket({ kind: 'stop', stopPrice: 255 }), PORTFOLIO, [], 250);
+    expect(v.errors).toContain('Sell stop must be below the current price (250.00)');
+  });
+
+  it('requires a reference price for trailing stops', () => {
+    const v = validateOrderTicket(ticket({ kind: 'trailing_stop', trailPercent: 5 }), PORTFOLIO, [], null);
+    expect(v.errors[0]).toMatch(/cannot peg a trailing stop/);
+  });
+});
+
+describe('buildOrderIntent', () => {
+  const NOW = new Date('2026-10-01T14:00:00Z');
+
+  it('maps a trailing stop to a pending market/stop order', () => {
+    const intent = buildOrderIntent(ticket({ kind: 'trailing_stop', trailPercent: 5, timeInForce: 'gtc' }), 250, NOW);
+    expect(intent).toMatchObject({
+      symbol: 'TSLA', side: 'SELL', order_type: 'market', trigger: 'stop', state: 'pending',
+      quantity: 5, limit_price: 0, stop_price: 237.5, created_at: NOW.toISOString(),
+      time_in_force: 'gtc', trailing_peg: { type: 'percentage', percentage: 5 },
+    });
+    expect(intent.order_id).toMatch(/^ui-/);
+  });
+
+  it('pegs buy-side trailing stops above the reference', () => {
+    expect(trailingStopPrice('BUY', 100, 2.5)).toBe(102.5);
+  });
+
+  it('turns a dry run into a simulated bot event', () => {
+    const event = intentToBotEvent(buildOrderIntent(ticket(), 250, NOW));
+    expect(event).toMatchObject({ event_type: 'SELL_ORDER', status: 'simulated', dry_run: true, price: 260 });
+  });
+});
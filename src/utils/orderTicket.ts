@@ -0,0 +1,214 @@
+// Order ticket math for the TradePage order-entry panel: validation against
+// buying power / held shares, and conversion of a ticket into the
+// SnapshotOrder shape that db-orders accepts as a pending intent.
+
+import type { DbBotEventInput, EnrichedPortfolio, SnapshotOrder } from '../services/robinhoodService';
+
+export type OrderSide = 'BUY' | 'SELL';
+export type TicketKind = 'limit' | 'stop' | 'trailing_stop';
+/** Robinhood time-in-force codes */
+export type TimeInForce = 'gfd' | 'gtc' | 'ioc' | 'opg';
+
+export const TICKET_KINDS: { label: string; value: TicketKind }[] = [
+  { label: 'Limit', value: 'limit' },
+  { label: 'Stop', value: 'stop' },
+  { label: 'Trailing Stop %', value: 'trailing_stop' },
+];
+
+export const TIME_IN_FORCE: { label: string; value: TimeInForce }[] = [
+  { label: 'Good for day', value: 'gfd' },
+  { label: 'Good till cancelled', value: 'gtc' },
+  { label: 'Immediate or cancel', value: 'ioc' },
+  { label: 'At the open', value: 'opg' },
+];
+
+export interface OrderTicket {
+  symbol: string;
+  side: OrderSide;
+  kind: TicketKind;
+  quantity: number;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailPercent?: number | null;
+  timeInForce: TimeInForce;
+}
+
+/**
+ * A SnapshotOrder plus the placement fields the db-orders contract does not
+ * surface. db-orders keeps them in the `raw` column for the engine.
+ */
+export interface OrderIntent extends SnapshotOrder {
+  time_in_force: TimeInForce;
+  trailing_peg?: { type: 'percentage'; percentage: number };
+  source: 'trade-page' | 'rebalancer';
+}
+
+export interface TicketValidation {
+  errors: string[];
+  warnings: string[];
+  /** Price the notional is estimated at — limit, stop, or reference */
+  estimatedPrice: number | null;
+  estimatedNotional: number;
+  /** Shares held minus shares already committed to open sell orders */
+  availableToSell: number;
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+const positive = (v: number | null | undefined): v is number =>
+  v != null && Number.isFinite(v) && v > 0;
+
+/** Initial trigger for a trailing stop — the engine re-pegs it as price moves. */
+export function trailingStopPrice(side: OrderSide, referencePrice: number, trailPercent: number): number {
+  const offset = referencePrice * (trailPercent / 100);
+  return r2(side === 'SELL' ? referencePrice - offset : referencePrice + offset);
+}
+
+/** Shares of `symbol` already spoken for by working sell orders. */
+export function committedSellQuantity(openOrders: SnapshotOrder[], symbol: string): number {
+  return openOrders
+    .filter(o => o.symbol === symbol && (o.side || '').toUpperCase() === 'SELL')
+    .reduce((s, o) => s + Math.max((o.quantity ?? 0) - (o.filled_quantity ?? 0), 0), 0);
+}
+
+export function validateOrderTicket(
+  ticket: OrderTicket,
+  portfolio: Pick<EnrichedPortfolio, 'cash' | 'positions'>,
+  openOrders: SnapshotOrder[],
+  referencePrice: number | null,
+): TicketValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const symbol = ticket.symbol.trim().toUpperCase();
+
+  if (!symbol) errors.push('Symbol is required');
+  if (!positive(ticket.quantity)) errors.push('Quantity must be greater than 0');
+
+  let estimatedPrice: number | null = null;
+
+  if (ticket.kind === 'limit') {
+    if (!positive(ticket.limitPrice)) errors.push('Limit price must be greater than 0');
+    else estimatedPrice = ticket.limitPrice;
+  }
+
+  if (ticket.kind === 'stop') {
+    if (!positive(ticket.stopPrice)) {
+      errors.push('Stop price must be greater than 0');
+    } else {
+      estimatedPrice = ticket.stopPrice;
+      if (referencePrice != null) {
+        // A stop on the wrong side of the market triggers immediately
+        if (ticket.side === 'SELL' && ticket.stopPrice >= referencePrice) {
+          errors.push(`Sell stop must be below the current price (${referencePrice.toFixed(2)})`);
+        }
+        if (ticket.side === 'BUY' && ticket.stopPrice <= referencePrice) {
+          errors.push(`Buy stop must be above the current price (${referencePrice.toFixed(2)})`);
+        }
+      }
+    }
+  }
+
+  if (ticket.kind === 'trailing_stop') {
+    const pct = ticket.trailPercent;
+    if (!positive(pct) || pct >= 100) {
+      errors.push('Trailing percent must be between 0 and 100');
+    } else if (referencePrice == null) {
+      errors.push(`No current price for ${symbol || 'symbol'} — cannot peg a trailing stop`);
+    } else {
+      estimatedPrice = trailingStopPrice(ticket.side, referencePrice, pct);
+    }
+  }
+
+  if (ticket.kind !== 'limit' && (ticket.timeInForce === 'ioc' || ticket.timeInForce === 'opg')) {
+    errors.push('Stop orders support only good-for-day or good-till-cancelled');
+  }
+
+  const held = portfolio.positions.find(p => p.symbol === symbol)?.quantity ?? 0;
+  const committed = committedSellQuantity(openOrders, symbol);
+  const availableToSell = Math.max(held - committed, 0);
+  const quantity = positive(ticket.quantity) ? ticket.quantity : 0;
+  const estimatedNotional = estimatedPrice != null ? r2(estimatedPrice * quantity) : 0;
+
+  if (ticket.side === 'BUY' && estimatedNotional > portfolio.cash.buying_power) {
+    errors.push(`Estimated cost ${estimatedNotional.toFixed(2)} exceeds buying power ${portfolio.cash.buying_power.toFixed(2)}`);
+  }
+
+  if (ticket.side === 'SELL' && symbol && quantity > 0) {
+    if (held <= 0) {
+      errors.push(`No ${symbol} shares held`);
+    } else if (quantity > availableToSell) {
+      errors.push(committed > 0
+        ? `Only ${availableToSell} ${symbol} shares available (${held} held, ${committed} committed to open sell orders)`
+        : `Only ${held} ${symbol} shares held`);
+    }
+  }
+
+  if (ticket.kind === 'limit' && referencePrice != null && estimatedPrice != null) {
+    const away = Math.abs(estimatedPrice - referencePrice) / referencePrice;
+    if (away > 0.1) warnings.push(`Limit is ${(away * 100).toFixed(1)}% away from the current price`);
+  }
+
+  return { errors, warnings, estimatedPrice, estimatedNotional, availableToSell };
+}
+
+/**
+ * The ticket as a pending SnapshotOrder intent. `pending` is an open state in
+ * tradingDb, so the intent shows up in the open book until the engine places
+ * it and the next sync overwrites the row with the broker's lifecycle state.
+ */
+export function buildOrderIntent(
+  ticket: OrderTicket,
+  referencePrice: number | null,
+  now: Date = new Date(),
+): OrderIntent {
+  const ts = now.toISOString();
+  const isTrailing = ticket.kind === 'trailing_stop';
+  const stopPrice =
+    ticket.kind === 'stop' ? ticket.stopPrice ?? null :
+    isTrailing && referencePrice != null && ticket.trailPercent != null
+      ? trailingStopPrice(ticket.side, referencePrice, ticket.trailPercent)
+      : null;
+
+  const intent: OrderIntent = {
+    order_id: `ui-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    symbol: ticket.symbol.trim().toUpperCase(),
+    side: ticket.side,
+    // RH models stops as market orders with a stop trigger
+    order_type: ticket.kind === 'limit' ? 'limit' : 'market',
+    trigger: ticket.kind === 'limit' ? 'immediate' : 'stop',
+    state: 'pending',
+    quantity: ticket.quantity,
+    limit_price: ticket.kind === 'limit' ? ticket.limitPrice ?? 0 : 0,
+    stop_price: stopPrice,
+    created_at: ts,
+    updated_at: ts,
+    filled_quantity: null,
+    average_price: null,
+    time_in_force: ticket.timeInForce,
+    source: 'trade-page',
+  };
+  if (isTrailing && ticket.trailPercent != null) {
+    intent.trailing_peg = { type: 'percentage', percentage: ticket.trailPercent };
+  }
+  return intent;
+}
+
+/** Dry-run ticket → db-bot-activity event (mirrors robinhood-bot's simulated orders). */
+export function intentToBotEvent(intent: OrderIntent): DbBotEventInput {
+  const price = intent.limit_price || intent.stop_price || null;
+  const kind = intent.trailing_peg
+    ? `trailing stop ${intent.trailing_peg.percentage}%`
+    : intent.trigger === 'stop' ? 'stop' : 'limit';
+  return {
+    event_type: intent.side === 'BUY' ? 'BUY_ORDER' : 'SELL_ORDER',
+    status: 'simulated',
+    order_id: intent.order_id,
+    symbol: intent.symbol,
+    quantity: intent.quantity,
+    price,
+    message: `Dry run: ${intent.side} ${intent.quantity} ${intent.symbol} ${kind} (${intent.time_in_force.toUpperCase()})`,
+    dry_run: true,
+    metadata: { order: intent },
+    created_at: intent.created_at,
+  };
+}
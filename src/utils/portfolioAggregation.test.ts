@@ -0,0 +1,72 @@
+import { aggregatePortfolios, enrichedToPortfolio } from './portfolioAggregation';
+import type { EnrichedPortfolio, Portfolio, Position } from '../services/robinhoodService';
+
+function position(symbol: string, quantity: number, averageCost: number, currentPrice: number, name = symbol): Position {
+  const totalCost = quantity * averageCost;
+  const currentValue = quantity * currentPrice;
+  return {
+    symbol, name, quantity, averageCost, currentPrice, totalCost, currentValue,
+    gain: currentValue - totalCost, gainPercent: ((currentValue - totalCost) / totalCost) * 100,
+  };
+}
+
+function portfolio(accountNumber: string, positions: Position[], cash: number): Portfolio {
+  const value = positions.reduce((s, p) => s + p.currentValue, 0);
+  return {
+    accountNumber, buyingPower: cash, cash, portfolioValue: value + cash, extendedHoursValue: value + cash,
+    totalGain: positions.reduce((s, p) => s + p.gain, 0), positions,
+  };
+}
+
+describe('aggregatePortfolios', () => {
+  const rh = portfolio('RH-1', [position('AAPL', 10, 150, 200), position('BRK.B', 2, 400, 450)], 1000);
+  const plaid = portfolio('ira-9', [
+    position('aapl', 5, 180, 200, 'Apple Inc.'),
+    position('BRK-B', 1, 420, 450, 'Berkshire Hathaway'),
+    position('VOO', 4, 400, 500, 'Vanguard S&P 500 ETF'),
+  ], 500);
+  const result = aggregatePortfolios([
+    { source: 'robinhood', portfolio: rh },
+    { source: 'plaid', portfolio: plaid },
+  ]);
+
+  it('merges the same symbol across brokers with a per-account breakdown', () => {
+    const aapl = result.holdings.find(h => h.symbol === 'AAPL')!;
+    expect(aapl).toMatchObject({
+      name: 'Apple Inc.', quantity: 15, totalCost: 2400, currentValue: 3000, averageCost: 160, gain: 600, gainPercent: 25,
+      sources: ['robinhood', 'plaid'],
+    });
+    expect(aapl.accounts.map(a => [a.source, a.accountNumber, a.quantity])).toEqual([
+      ['robinhood', 'RH-1', 10],
+      ['plaid', 'ira-9', 5],
+    ]);
+    // BRK-B and BRK.B are the same class B share
+    expect(result.holdings.find(h => h.symbol === 'BRK.B')!.quantity).toBe(3);
+  });
+
+  it('weights holdings by value across every source and sums the accounts', () => {
+    expect(result.holdings.map(h => h.symbol)).toEqual(['AAPL', 'VOO', 'BRK.B']);
+    expect(result.positionsValue).toBe(3000 + 2000 + 1350);
+    expect(result.holdings.reduce((s, h) => s + h.weight, 0)).toBeCloseTo(1, 12);
+    expect(result.cash).toBe(1500);
+    expect(result.sources).toEqual(['robinhood', 'plaid']);
+    expect(result.accounts.map(a => a.positionsValue)).toEqual([2900, 3450]);
+  });
+});
+
+describe('enrichedToPortfolio', () => {
+  it('maps the snapshot book onto the Portfolio shape', () => {
+    const enriched = {
+      cash: { cash: 250, cash_available_for_withdrawal: 250, buying_power: 300, tradeable_cash: 250 },
+      equity: 2250,
+      total_pl: 500,
+      positions: [{
+        symbol: 'TSLA', quantity: 10, avg_buy_price: 150, current_price: 200, equity: 2000,
+        profit_loss: 500, profit_loss_pct: 33.33,
+      }],
+    } as EnrichedPortfolio;
+    const p = enrichedToPortfolio(enriched);
+    expect(p).toMatchObject({ buyingPower: 300, cash: 250, portfolioValue: 2250 });
+    expect(p.positions[0]).toMatchObject({ symbol: 'TSLA', totalCost: 1500, currentValue: 2000, gain: 500 });
+  });
+});
@@ -0,0 +1,170 @@
+// Consolidated holdings across brokers. Each connected source (Robinhood, and
+// Plaid-linked brokerages) reports a `Portfolio`; this unions their positions,
+// merges rows that share a symbol and keeps the per-account breakdown so a
+// merged row can still say where the shares sit.
+//
+// The Robinhood side on the P&L page comes from the enriched snapshot, which
+// is always available — `enrichedToPortfolio` maps it onto the same shape the
+// live robinhood-portfolio endpoint returns.
+
+import type { EnrichedPortfolio, Portfolio } from '../services/robinhoodService';
+
+export type PortfolioSource = 'robinhood' | 'plaid';
+
+export const SOURCE_LABEL: Record<PortfolioSource, string> = {
+  robinhood: 'Robinhood',
+  plaid: 'Plaid',
+};
+
+export interface SourcePortfolio {
+  source: PortfolioSource;
+  portfolio: Portfolio;
+}
+
+export interface AccountHolding {
+  source: PortfolioSource;
+  accountNumber: string;
+  quantity: number;
+  averageCost: number;
+  currentValue: number;
+  gain: number;
+}
+
+export interface AggregatedHolding {
+  symbol: string;
+  name: string;
+  quantity: number;
+  averageCost: number;
+  currentPrice: number;
+  totalCost: number;
+  currentValue: number;
+  gain: number;
+  gainPercent: number;
+  /** Share of all positions' value across every source */
+  weight: number;
+  sources: PortfolioSource[];
+  accounts: AccountHolding[];
+}
+
+export interface AggregatedAccount {
+  source: PortfolioSource;
+  accountNumber: string;
+  positionsValue: number;
+  cash: number;
+  buyingPower: number;
+}
+
+export interface AggregatedPortfolio {
+  holdings: AggregatedHolding[];
+  accounts: AggregatedAccount[];
+  sources: PortfolioSource[];
+  positionsValue: number;
+  cash: number;
+  buyingPower: number;
+  totalGain: number;
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Same symbol spelled differently by two brokers still merges. */
+function symbolKey(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/-/g, '.');
+}
+
+export function enrichedToPortfolio(p: EnrichedPortfolio): Portfolio {
+  return {
+    accountNumber: 'robinhood',
+    buyingPower: p.cash.buying_power,
+    cash: p.cash.cash,
+    portfolioValue: p.equity,
+    extendedHoursValue: p.equity,
+    totalGain: p.total_pl,
+    positions: p.positions.map(pos => ({
+      symbol: pos.symbol,
+      name: pos.symbol,
+      quantity: pos.quantity,
+      averageCost: pos.avg_buy_price,
+      currentPrice: pos.current_price,
+      totalCost: r2(pos.quantity * pos.avg_buy_price),
+      currentValue: pos.equity,
+      gain: pos.profit_loss,
+      gainPercent: pos.profit_loss_pct,
+    })),
+  };
+}
+
+export function aggregatePortfolios(inputs: SourcePortfolio[]): AggregatedPortfolio {
+  const merged = new Map<string, AggregatedHolding>();
+  const accounts: AggregatedAccount[] = [];
+
+  for (const { source, portfolio } of inputs) {
+    let positionsValue = 0;
+    for (const pos of portfolio.positions) {
+      if (!pos.symbol || !(pos.quantity > 0)) continue;
+      positionsValue += pos.currentValue;
+      const key = symbolKey(pos.symbol);
+      const row = merged.get(key) ?? {
+        symbol: key,
+        name: pos.name || key,
+        quantity: 0,
+        averageCost: 0,
+        currentPrice: 0,
+        totalCost: 0,
+        currentValue: 0,
+        gain: 0,
+        gainPercent: 0,
+        weight: 0,
+        sources: [],
+        accounts: [],
+      };
+      // Prefer a real company name over a ticker echoed back as the name
+      if (row.name === key && pos.name && pos.name !== pos.symbol) row.name = pos.name;
+      row.quantity += pos.quantity;
+      row.totalCost += pos.totalCost;
+      row.currentValue += pos.currentValue;
+      row.gain += pos.gain;
+      if (!row.sources.includes(source)) row.sources.push(source);
+      row.accounts.push({
+        source,
+        accountNumber: portfolio.accountNumber,
+        quantity: pos.quantity,
+        averageCost: pos.averageCost,
+        currentValue: pos.currentValue,
+        gain: pos.gain,
+      });
+      merged.set(key, row);
+    }
+    accounts.push({
+      source,
+      accountNumber: portfolio.accountNumber,
+      positionsValue: r2(positionsValue),
+      cash: portfolio.cash,
+      buyingPower: portfolio.buyingPower,
+    });
+  }
+
+  const positionsValue = [...merged.values()].reduce((s, h) => s + h.currentValue, 0);
+  const holdings = [...merged.values()]
+    .map(h => ({
+      ...h,
+      quantity: Math.round(h.quantity * 1e6) / 1e6,
+      totalCost: r2(h.totalCost),
+      currentValue: r2(h.currentValue),
+      gain: r2(h.gain),
+      averageCost: h.quantity > 0 ? r2(h.totalCost / h.quantity) : 0,
+      currentPrice: h.quantity > 0 ? r2(h.currentValue / h.quantity) : 0,
+      gainPercent: h.totalCost > 0 ? r2((h.gain / h.totalCost) * 100) : 0,
+      weight: positionsValue > 0 ? h.currentValue / positionsValue : 0,
+    }))
+    .sort((a, b) => b.currentValue - a.currentValue);
+
+  return {
+    holdings,
+    accounts,
+    sources: [...new Set(inputs.map(i => i.source))],
+    positionsValue: r2(positionsValue),
+    cash: r2(accounts.reduce((s, a) => s + a.cash, 0)),
+    buyingPower: r2(accounts.reduce((s, a) => s + a.buyingPower, 0)),
+    totalGain: r2(holdings.reduce((s, h) => s + h.gain, 0)),
+  };
+}
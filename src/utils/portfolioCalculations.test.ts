@@ -0,0 +1,110 @@
+import {
+  calculateCorrelations,
+  calculateRiskMetrics,
+  calculateReturns,
+  normalizeWeights,
+  rollingCorrelation,
+  simulatePortfolio,
+  PortfolioReturnData,
+} from './portfolioCalculations';
+
+const DAY_MS = 86_400_000;
+const START = Date.UTC(2026, 0, 1);
+
+function series(symbol: string, prices: number[]): PortfolioReturnData {
+  const data = prices.map((price, i) => {
+    const timestamp = START + i * DAY_MS;
+    return { date: new Date(timestamp).toISOString().slice(0, 10), timestamp, price };
+  });
+  return { symbol, displayName: symbol, color: '#000', returns: calculateReturns(data) };
+}
+
+describe('calculateRiskMetrics', () => {
+  it('measures drawdown depth and the longest underwater stretch', () => {
+    const [m] = calculateRiskMetrics([series('X', [100, 120, 90, 100, 130, 125])]);
+    expect(m.totalReturn).toBeCloseTo(25, 6);
+    expect(m.maxDrawdown).toBeCloseTo(-25, 6);
+    // Peak on day 1, back above it on day 4
+    expect(m.maxDrawdownDays).toBe(2);
+    expect(m.calmar).toBeCloseTo(m.cagr / 25, 6);
+    expect(m.beta).toBeNull();
+  });
+
+  it('computes beta and correlation against the benchmark', () => {
+    const spyPrices = [100, 101, 99, 102, 100, 103, 101, 104];
+    // Twice SPY's daily moves
+    const levered = [100];
+    for (let i = 1; i < spyPrices.length; i++) {
+      levered.push(levered[i - 1] * (1 + 2 * (spyPrices[i] / spyPrices[i - 1] - 1)));
+    }
+    const [spy, lev] = calculateRiskMetrics([series('SPY', spyPrices), series('LEV', levered)]);
+    expect(spy.beta).toBeCloseTo(1, 6);
+    expect(lev.beta).toBeCloseTo(2, 6);
+    expect(lev.volatility).toBeCloseTo(2 * spy.volatility, 6);
+    // Fewer than 30 aligned periods
+    expect(lev.correlation30).toBeNull();
+  });
+
+  it('treats a straight line as drawdown-free', () => {
+    const [m] = calculateRiskMetrics([series('UP', [100, 101, 102, 103])]);
+    expect(m.maxDrawdown).toBe(0);
+    expect(m.calmar).toBeNull();
+    expect(m.sortino).toBe(0);
+  });
+});
+
+describe('rollingCorrelation', () => {
+  it('emits one point per full window on aligned dates', () => {
+    const a = series('A', [100, 102, 101, 104, 103, 106]);
+    const b = series('B', [50, 51, 50.5, 52, 51.5, 53]);
+    const points = rollingCorrelation(a, b, 3);
+    expect(points).toHaveLength(3);
+    expect(points[points.length - 1].date).toBe(a.returns[a.returns.length - 1].date);
+    points.forEach((p) => expect(p.correlation).toBeCloseTo(1, 2));
+  });
+});
+
+describe('calculateCorrelations', () => {
+  it('weights the variance decomposition', () => {
+    const a = series('A', [100, 102, 99, 103, 101]);
+    const b = series('B', [100, 100.5, 100, 100.5, 100]);
+    const equal = calculateCorrelations([a, b]);
+    const heavyA = calculateCorrelations([a, b], { A: 90, B: 10 });
+    expect(heavyA[0].varianceA).toBeGreaterThan(equal[0].varianceA);
+    const shares = heavyA[0].varianceA + heavyA[0].varianceB + heavyA[0].varianceContribution;
+    expect(shares).toBeCloseTo(100, 6);
+  });
+});
+
+describe('simulatePortfolio', () => {
+  // A doubles then halves back; B is flat
+  const a = series('A', [100, 200, 100]);
+  const b = series('B', [100, 100, 100]);
+
+  it('lets weights drift without rebalancing', () => {
+    const { series: s, rebalances, finalWeights } = simulatePortfolio([a, b], { A: 50, B: 50 }, 'none');
+    expect(s.returns.map((p) => p.returnPercent)).toEqual([0, 50, 0]);
+    expect(rebalances).toBe(0);
+    expect(finalWeights.A).toBeCloseTo(0.5, 9);
+  });
+
+  it('resets to target when a band is breached', () => {
+    const { series: s, rebalances } = simulatePortfolio([a, b], { A: 50, B: 50 }, 'threshold', 5);
+    // Day 1: 50/50 drifts to 67/33, reset at 1.5; day 2: A halves → 0.375 + 0.75, drifts to 33/67, reset again
+    expect(rebalances).toBe(2);
+    expect(s.returns[2].returnPercent).toBeCloseTo(12.5, 9);
+  });
+
+  it('rebalances at the first close of each new month', () => {
+    const monthly = series('M', [100, 110, 120]);
+    monthly.returns = monthly.returns.map((p, i) => ({ ...p, date: ['2026-01-30', '2026-01-31', '2026-02-02'][i] }));
+    const flat = { ...b, returns: b.returns.map((p, i) => ({ ...p, date: monthly.returns[i].date })) };
+    expect(simulatePortfolio([monthly, flat], {}, 'monthly').rebalances).toBe(1);
+    expect(simulatePortfolio([monthly, flat], {}, 'quarterly').rebalances).toBe(0);
+  });
+
+  it('falls back to equal weight when no weights are set', () => {
+    expect(normalizeWeights(['A', 'B'], {})).toEqual({ A: 0.5, B: 0.5 });
+    expect(normalizeWeights(['A', 'B'], { A: 3, B: -1 })).toEqual({ A: 1, B: 0 });
+  });
+});
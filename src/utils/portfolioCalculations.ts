@@ -230,21 +230,16 @@ export interface CorrelationPair {
   colorA: string;
   colorB: string;
   correlation: number;
-  varianceContribution: number; // % of total equal-weight portfolio variance from this pair
-  varianceA: number; // asset A's own variance contribution (w^2 * var_A) as % of total
-  varianceB: number; // asset B's own variance contribution (w^2 * var_B) as % of total
+  varianceContribution: number; // % of total (weighted) portfolio variance from this pair
+  varianceA: number; // asset A's own variance contribution (w_A^2 * var_A) as % of total
+  varianceB: number; // asset B's own variance contribution (w_B^2 * var_B) as % of total
 }
 
-// Calculate pairwise correlations between all portfolio return series
-// Uses daily returns (day-over-day changes) aligned by date
-// varianceContribution assumes equal-weight portfolio: 2 * w_i * w_j * cov(i,j) / totalVariance
-export function calculateCorrelations(data: PortfolioReturnData[]): CorrelationPair[] {
-  if (data.length < 2) return [];
-
-  const n = data.length;
-  const w = 1 / n; // equal weight
-
-  // Build date-aligned daily returns for each asset
+// Daily returns for every asset on the dates all of them share, in the
+// order the dates first appear (chronological for series that are sorted)
+export function alignedDailyReturns(
+  data: PortfolioReturnData[]
+): { dates: string[]; returns: Map<string, number[]> } {
   const dateMap = new Map<string, Map<string, number>>();
 
   for (const asset of data) {
@@ -258,33 +253,163 @@ export function calculateCorrelations(data: PortfolioReturnData[]): CorrelationP
 
   // Get common dates across all assets
   const symbols = data.map((a) => a.symbol);
-  const commonDates = Array.from(dateMap.keys()).filter((date) => {
+  const dates = Array.from(dateMap.keys()).filter((date) => {
     const m = dateMap.get(date)!;
     return symbols.every((s) => m.has(s));
   });
 
-  // Extract aligned daily return vectors per asset
-  const alignedReturns = new Map<string, number[]>();
+  const returns = new Map<string, number[]>();
   for (const s of symbols) {
-    alignedReturns.set(s, commonDates.map((d) => dateMap.get(d)!.get(s)!));
+    returns.set(s, dates.map((d) => dateMap.get(d)!.get(s)!));
+  }
+  return { dates, returns };
+}
+
+// Long-only weights over `symbols`, summing to 1. Negative or missing weights
+// count as 0; an all-zero set falls back to equal weight.
+export function normalizeWeights(
+  symbols: string[],
+  weights: Record<string, number> = {}
+): Record<string, number> {
+  const raw = symbols.map((s) => Math.max(weights[s] ?? 0, 0));
+  const total = raw.reduce((sum, v) => sum + v, 0);
+  return Object.fromEntries(
+    symbols.map((s, i) => [s, total > 0 ? raw[i] / total : 1 / symbols.length])
+  );
+}
+
+export type RebalanceMode = 'none' | 'monthly' | 'quarterly' | 'threshold';
+
+export const REBALANCE_MODES: { value: RebalanceMode; label: string }[] = [
+  { value: 'none', label: 'Buy & hold' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'threshold', label: 'Threshold band' },
+];
+
+export const BLENDED_SYMBOL = 'PORTFOLIO';
+// Blended "price" is the value of this starting notional, so the chart tooltip reads in dollars
+const BLENDED_NOTIONAL = 10_000;
+
+export interface BlendedPortfolio {
+  series: PortfolioReturnData;
+  rebalances: number;
+  // Weights at the last date, after drift
+  finalWeights: Record<string, number>;
+}
+
+function rebalancePeriod(date: string, mode: RebalanceMode): string {
+  if (mode === 'monthly') return date.slice(0, 7);
+  if (mode === 'quarterly') return `${date.slice(0, 4)}-Q${Math.floor((parseInt(date.slice(5, 7), 10) - 1) / 3)}`;
+  return '';
+}
+
+// Simulate a weighted portfolio of the given series on their common dates.
+// Holdings drift with prices and are reset to target weights at the first
+// close of each new month/quarter, or whenever any weight drifts more than
+// `thresholdPct` percentage points from target in threshold mode.
+export function simulatePortfolio(
+  data: PortfolioReturnData[],
+  weights: Record<string, number>,
+  mode: RebalanceMode,
+  thresholdPct: number = 5,
+  color: string = '#EC4899'
+): BlendedPortfolio {
+  const symbols = data.map((a) => a.symbol);
+  const target = normalizeWeights(symbols, weights);
+
+  // Growth factor (1 + return) per asset per date, common dates only
+  const growthByDate = new Map<string, Map<string, number>>();
+  const timestampByDate = new Map<string, number>();
+  for (const asset of data) {
+    for (const point of asset.returns) {
+      if (!growthByDate.has(point.date)) growthByDate.set(point.date, new Map());
+      growthByDate.get(point.date)!.set(asset.symbol, 1 + point.returnPercent / 100);
+      timestampByDate.set(point.date, point.timestamp);
+    }
+  }
+  const dates = Array.from(growthByDate.keys())
+    .filter((date) => symbols.every((s) => growthByDate.get(date)!.has(s)))
+    .sort((a, b) => (timestampByDate.get(a) || 0) - (timestampByDate.get(b) || 0));
+
+  const series: PortfolioReturnData = {
+    symbol: BLENDED_SYMBOL,
+    displayName: 'Custom Portfolio',
+    color,
+    returns: [],
+  };
+  if (dates.length === 0 || symbols.length === 0) {
+    return { series, rebalances: 0, finalWeights: target };
+  }
+
+  // Units held per asset; portfolio value starts at 1
+  const first = growthByDate.get(dates[0])!;
+  let units = new Map(symbols.map((s) => [s, target[s] / first.get(s)!]));
+  let rebalances = 0;
+  let value = 1;
+  let current: Record<string, number> = { ...target };
+  let period = rebalancePeriod(dates[0], mode);
+
+  for (const date of dates) {
+    const growth = growthByDate.get(date)!;
+    value = symbols.reduce((sum, s) => sum + units.get(s)! * growth.get(s)!, 0);
+    current = Object.fromEntries(symbols.map((s) => [s, (units.get(s)! * growth.get(s)!) / value]));
+
+    let rebalance = false;
+    if (mode === 'monthly' || mode === 'quarterly') {
+      const p = rebalancePeriod(date, mode);
+      rebalance = p !== period;
+      period = p;
+    } else if (mode === 'threshold') {
+      rebalance = symbols.some((s) => Math.abs(current[s] - target[s]) * 100 > thresholdPct);
+    }
+    if (rebalance) {
+      units = new Map(symbols.map((s) => [s, (target[s] * value) / growth.get(s)!]));
+      current = { ...target };
+      rebalances++;
+    }
+
+    series.returns.push({
+      date,
+      timestamp: timestampByDate.get(date) || 0,
+      returnPercent: (value - 1) * 100,
+      price: value * BLENDED_NOTIONAL,
+    });
   }
 
+  return { series, rebalances, finalWeights: current };
+}
+
+// Calculate pairwise correlations between all portfolio return series
+// Uses daily returns (day-over-day changes) aligned by date
+// varianceContribution uses the given weights (equal weight when omitted):
+// 2 * w_i * w_j * cov(i,j) / totalVariance
+export function calculateCorrelations(
+  data: PortfolioReturnData[],
+  weights?: Record<string, number>
+): CorrelationPair[] {
+  if (data.length < 2) return [];
+
+  const w = normalizeWeights(data.map((a) => a.symbol), weights);
+  const symbols = data.map((a) => a.symbol);
+  const { returns: alignedReturns } = alignedDailyReturns(data);
+
   // Compute std devs
   const stds = new Map<string, number>();
   for (const s of symbols) {
     stds.set(s, stdDev(alignedReturns.get(s)!));
   }
 
-  // Compute total equal-weight portfolio variance:
+  // Compute total portfolio variance:
   // sum of w_i * w_j * cov(i,j) for all i,j (including diagonal)
   // cov(i,j) = corr(i,j) * std_i * std_j, and corr(i,i) = 1
   let totalVariance = 0;
 
-  // Diagonal terms: w^2 * var_i
+  // Diagonal terms: w_i^2 * var_i
   const assetVariance = new Map<string, number>();
   for (const s of symbols) {
     const sd = stds.get(s)!;
-    const v = w * w * sd * sd;
+    const v = w[s] * w[s] * sd * sd;
     assetVariance.set(s, v);
     totalVariance += v;
   }
@@ -299,7 +424,7 @@ export function calculateCorrelations(data: PortfolioReturnData[]): CorrelationP
       const yVals = alignedReturns.get(b.symbol)!;
       const corr = pearsonCorrelation(xVals, yVals);
       const cov = corr * stds.get(a.symbol)! * stds.get(b.symbol)!;
-      const pairVariance = 2 * w * w * cov;
+      const pairVariance = 2 * w[a.symbol] * w[b.symbol] * cov;
       totalVariance += pairVariance;
 
       pairs.push({
@@ -331,6 +456,150 @@ export function calculateCorrelations(data: PortfolioReturnData[]): CorrelationP
   return pairs;
 }
 
+const DAY_MS = 86_400_000;
+
+export interface RiskMetrics {
+  symbol: string;
+  displayName: string;
+  color: string;
+  totalReturn: number; // % over the visible range
+  cagr: number; // %
+  volatility: number; // annualized stdev of period returns, %
+  sharpe: number; // annualized, 0% risk-free
+  sortino: number; // annualized, downside deviation vs 0
+  maxDrawdown: number; // worst peak-to-trough, % (<= 0)
+  maxDrawdownDays: number; // longest underwater stretch in calendar days (incl. an open one)
+  calmar: number | null; // CAGR / |max drawdown|, null without a drawdown
+  beta: number | null; // vs benchmark, null when the benchmark isn't loaded
+  correlation30: number | null; // vs benchmark over the last 30 aligned periods
+  correlation90: number | null;
+}
+
+export interface RollingCorrelationPoint {
+  date: string;
+  correlation: number;
+}
+
+// Daily returns keyed by the date they land on
+function dailyReturnsByDate(asset: PortfolioReturnData): Map<string, number> {
+  const dr = dailyReturns(asset.returns);
+  return new Map(dr.map((r, i) => [asset.returns[i + 1].date, r]));
+}
+
+// Date-aligned daily return pairs for two series (common dates only, chronological)
+function alignDailyReturns(
+  a: PortfolioReturnData,
+  b: PortfolioReturnData
+): { dates: string[]; x: number[]; y: number[] } {
+  const byDateB = dailyReturnsByDate(b);
+  const dates: string[] = [];
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const [date, r] of dailyReturnsByDate(a)) {
+    const other = byDateB.get(date);
+    if (other === undefined) continue;
+    dates.push(date);
+    x.push(r);
+    y.push(other);
+  }
+  return { dates, x, y };
+}
+
+// Pearson correlation over a trailing window of aligned daily returns.
+// Windows count aligned periods, so on the weekly 5Y range "30" is 30 weeks.
+export function rollingCorrelation(
+  a: PortfolioReturnData,
+  b: PortfolioReturnData,
+  window: number
+): RollingCorrelationPoint[] {
+  const { dates, x, y } = alignDailyReturns(a, b);
+  const out: RollingCorrelationPoint[] = [];
+  for (let i = window; i <= x.length; i++) {
+    out.push({
+      date: dates[i - 1],
+      correlation: pearsonCorrelation(x.slice(i - window, i), y.slice(i - window, i)),
+    });
+  }
+  return out;
+}
+
+// Worst drawdown (%) and the longest time spent below a prior peak (calendar days)
+function drawdownStats(returns: ReturnDataPoint[]): { maxDrawdown: number; maxDrawdownDays: number } {
+  let peak = -Infinity;
+  let peakTs = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownDays = 0;
+  for (const point of returns) {
+    const value = 1 + point.returnPercent / 100;
+    if (value >= peak) {
+      peak = value;
+      peakTs = point.timestamp;
+      continue;
+    }
+    maxDrawdown = Math.min(maxDrawdown, (value / peak - 1) * 100);
+    maxDrawdownDays = Math.max(maxDrawdownDays, Math.round((point.timestamp - peakTs) / DAY_MS));
+  }
+  return { maxDrawdown, maxDrawdownDays };
+}
+
+// Risk/return statistics per series. Periods per year come from the series'
+// own spacing, so BTC's 7-day week and the weekly 5Y range annualize correctly.
+export function calculateRiskMetrics(
+  data: PortfolioReturnData[],
+  benchmarkSymbol: string = 'SPY'
+): RiskMetrics[] {
+  const benchmark = data.find((a) => a.symbol === benchmarkSymbol);
+
+  return data.map((asset) => {
+    const { returns } = asset;
+    const first = returns[0];
+    const last = returns[returns.length - 1];
+    const daily = dailyReturns(returns);
+    const years = first && last ? (last.timestamp - first.timestamp) / DAY_MS / 365.25 : 0;
+    const periodsPerYear = years > 0 ? daily.length / years : 252;
+
+    const growth = last ? (1 + last.returnPercent / 100) / (1 + first.returnPercent / 100) : 1;
+    const totalReturn = (growth - 1) * 100;
+    const cagr = years > 0 && growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : totalReturn;
+
+    const mean = daily.length ? daily.reduce((s, r) => s + r, 0) / daily.length : 0;
+    const sd = stdDev(daily);
+    const downside = daily.length
+      ? Math.sqrt(daily.reduce((s, r) => s + Math.min(r, 0) ** 2, 0) / daily.length)
+      : 0;
+    const annualize = Math.sqrt(periodsPerYear);
+    const { maxDrawdown, maxDrawdownDays } = drawdownStats(returns);
+
+    let beta: number | null = null;
+    let correlation30: number | null = null;
+    let correlation90: number | null = null;
+    if (benchmark) {
+      const { x, y } = alignDailyReturns(asset, benchmark);
+      const benchSd = stdDev(y);
+      if (benchSd > 0) beta = (pearsonCorrelation(x, y) * stdDev(x)) / benchSd;
+      if (x.length >= 30) correlation30 = pearsonCorrelation(x.slice(-30), y.slice(-30));
+      if (x.length >= 90) correlation90 = pearsonCorrelation(x.slice(-90), y.slice(-90));
+    }
+
+    return {
+      symbol: asset.symbol,
+      displayName: asset.displayName,
+      color: asset.color,
+      totalReturn,
+      cagr,
+      volatility: sd * annualize * 100,
+      sharpe: sd > 0 ? (mean / sd) * annualize : 0,
+      sortino: downside > 0 ? (mean / downside) * annualize : 0,
+      maxDrawdown,
+      maxDrawdownDays,
+      calmar: maxDrawdown < 0 ? cagr / Math.abs(maxDrawdown) : null,
+      beta,
+      correlation30,
+      correlation90,
+    };
+  });
+}
+
 // Format percentage for display
 export function formatReturnPercent(value: number): string {
   const sign = value >= 0 ? '+' : '';
@@ -0,0 +1,123 @@
+import { planRebalance, planToOrders, RebalanceConfig } from './rebalancer';
+import type { EnrichedPortfolio, SnapshotOrder, SnapshotPosition } from '../services/robinhoodService';
+
+const NOW = new Date('2026-06-01T15:00:00Z');
+
+function position(symbol: string, quantity: number, price: number): SnapshotPosition {
+  return {
+    symbol, quantity, current_price: price, avg_buy_price: price, equity: quantity * price,
+    profit_loss: 0, profit_loss_pct: 0,
+  };
+}
+
+function portfolio(positions: SnapshotPosition[], cash: number): Pick<EnrichedPortfolio, 'cash' | 'positions'> {
+  return {
+    cash: { cash, cash_available_for_withdrawal: cash, buying_power: cash, tradeable_cash: cash },
+    positions,
+  };
+}
+
+function fill(order_id: string, symbol: string, side: 'BUY' | 'SELL', quantity: number, price: number, at: string): SnapshotOrder {
+  return {
+    order_id, symbol, side, order_type: 'limit', trigger: 'immediate', state: 'filled', quantity,
+    limit_price: price, stop_price: null, created_at: at, updated_at: at, filled_quantity: quantity, average_price: price,
+  };
+}
+
+const BASE: RebalanceConfig = { targets: {}, driftBandPct: 0, minTradeUsd: 0, cashReservePct: 0, lotMethod: 'fifo' };
+
+describe('planRebalance', () => {
+  // $6,000 AAA + $2,000 BBB + $2,000 cash = $10,000
+  const book = portfolio([position('AAA', 60, 100), position('BBB', 40, 50)], 2000);
+
+  it('sells the overweight name to fund the underweight one', () => {
+    const plan = planRebalance(book, { ...BASE, targets: { AAA: 0.5, BBB: 0.5 } }, [], NOW);
+    expect(plan.trades.map(t => [t.side, t.symbol, t.quantity])).toEqual([
+      ['SELL', 'AAA', 10],
+      ['BUY', 'BBB', 60],
+    ]);
+    expect(plan.cash_after).toBe(0);
+    expect(plan.trades[1].post_weight).toBeCloseTo(0.5, 9);
+  });
+
+  it('leaves symbols inside the drift band and small trades alone', () => {
+    const banded = planRebalance(book, { ...BASE, targets: { AAA: 0.58, BBB: 0.22 }, driftBandPct: 3 }, [], NOW);
+    expect(banded.trades).toEqual([]);
+    expect(banded.skipped.map(s => s.symbol)).toEqual(['AAA', 'BBB']);
+
+    const small = planRebalance(book, { ...BASE, targets: { AAA: 0.58, BBB: 0.22 }, minTradeUsd: 500 }, [], NOW);
+    expect(small.trades).toEqual([]);
+  });
+
+  it('rounds to lot sizes and holds back the cash reserve', () => {
+    const plan = planRebalance(book, {
+      ...BASE,
+      targets: { AAA: 0.6, BBB: 0.4 },
+      lotSizes: { BBB: 25 },
+      cashReservePct: 5,
+    }, [], NOW);
+    // Targets scale to 57% / 38%; BBB wants +$1,800 → 36 shares → 25
+    const buy = plan.trades.find(t => t.symbol === 'BBB')!;
+    expect(buy.quantity).toBe(25);
+    expect(plan.cash_after).toBeGreaterThanOrEqual(500 - 1e-9);
+  });
+
+  it('sells out of positions with no target', () => {
+    const plan = planRebalance(book, { ...BASE, targets: { AAA: 1 } }, [], NOW);
+    const sell = plan.trades.find(t => t.symbol === 'BBB')!;
+    expect(sell).toMatchObject({ side: 'SELL', quantity: 40 });
+  });
+
+  it('draws down lots in the preferred order and estimates the gain', () => {
+    const history = [
+      fill('b1', 'AAA', 'BUY', 30, 60, '2024-01-02T15:00:00Z'),
+      fill('b2', 'AAA', 'BUY', 30, 120, '2026-03-02T15:00:00Z'),
+    ];
+    const targets = { AAA: 0.4, BBB: 0.2 };
+    const fifo = planRebalance(book, { ...BASE, targets }, history, NOW).trades.find(t => t.side === 'SELL')!;
+    expect(fifo.quantity).toBe(20);
+    expect(fifo.lots).toEqual([expect.objectContaining({ lot_id: 'b1', quantity: 20, term: 'long' })]);
+    expect(fifo.estimated_gain).toBe(800);
+
+    const hifo = planRebalance(book, { ...BASE, targets, lotMethod: 'hifo' }, history, NOW).trades.find(t => t.side === 'SELL')!;
+    expect(hifo.lots).toEqual([expect.objectContaining({ lot_id: 'b2', term: 'short' })]);
+    expect(hifo.estimated_gain).toBe(-400);
+  });
+
+  it('opens a position in an unheld target from the price map', () => {
+    const targets = { AAA: 0.6, BBB: 0.2, CCC: 0.2 };
+    expect(planRebalance(book, { ...BASE, targets }, [], NOW).skipped)
+      .toContainEqual({ symbol: 'CCC', reason: 'No current price' });
+
+    const plan = planRebalance(book, { ...BASE, targets, prices: { CCC: 40, AAA: 1 } }, [], NOW);
+    const buy = plan.trades.find(t => t.symbol === 'CCC')!;
+    expect(buy).toMatchObject({ side: 'BUY', quantity: 50, price: 40, notional: 2000, current_weight: 0 });
+    expect(buy.post_weight).toBeCloseTo(0.2);
+    // Held positions keep their own price
+    expect(plan.skipped.find(s => s.symbol === 'AAA')?.reason).toMatch(/band/);
+    expect(plan.cash_after).toBe(0);
+  });
+
+  it('leaves the gain unknown when history does not cover the shares', () => {
+    const plan = planRebalance(book, { ...BASE, targets: { AAA: 0.4 } }, [], NOW);
+    expect(plan.trades.find(t => t.symbol === 'AAA')!.estimated_gain).toBeNull();
+  });
+});
+
+describe('planToOrders', () => {
+  it('emits pending limit intents in the db-orders shape', () => {
+    const plan = planRebalance(
+      portfolio([position('AAA', 60, 100), position('BBB', 40, 50)], 2000),
+      { ...BASE, targets: { AAA: 0.5, BBB: 0.5 } },
+      [],
+      NOW,
+    );
+    const orders = planToOrders(plan, NOW);
+    expect(orders).toHaveLength(2);
+    expect(orders[0]).toMatchObject({
+      symbol: 'AAA', side: 'SELL', order_type: 'limit', trigger: 'immediate', state: 'pending',
+      quantity: 10, limit_price: 100, source: 'rebalancer', created_at: NOW.toISOString(),
+    });
+    expect(new Set(orders.map(o => o.order_id)).size).toBe(2);
+  });
+});
@@ -0,0 +1,248 @@
+// Rebalance trade list: target weights → the buy/sell orders that move the
+// stock book toward them. Sells go first and fund the buys; symbols inside
+// the drift band and trades under the minimum size are left alone, so the
+// list is as short as the constraints allow. Sells draw down tax lots in the
+// chosen lot order to estimate the gain being realized.
+//
+// Orders come out as pending SnapshotOrder intents, same as the order ticket,
+// so the JSON export can be POSTed to /db-orders as { orders }.
+
+import type { EnrichedPortfolio, SnapshotOrder } from '../services/robinhoodService';
+import { matchLots, LotMethod } from './lotEngine';
+import { holdingTerm, HoldingTerm } from './taxLots';
+import type { OrderIntent } from './orderTicket';
+
+export interface RebalanceConfig {
+  /** Target weight per symbol as a fraction of stock equity + tradeable cash */
+  targets: Record<string, number>;
+  /** Leave a symbol alone while it is within this many percentage points of target */
+  driftBandPct: number;
+  /** Drop trades smaller than this notional */
+  minTradeUsd: number;
+  /** Share of the book to hold back as cash, in percent */
+  cashReservePct: number;
+  /** Order size increment per symbol; whole shares when omitted */
+  lotSizes?: Record<string, number>;
+  /**
+   * Prices for symbols the book doesn't hold (snapshot market data or
+   * quotes), so a target can open a new position. Held positions use their
+   * own current_price.
+   */
+  prices?: Record<string, number>;
+  /** Which open lots sells draw down */
+  lotMethod: LotMethod;
+}
+
+export interface LotDraw {
+  lot_id: string;
+  opened_at: string;
+  quantity: number;
+  cost_per_share: number;
+  term: HoldingTerm;
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  notional: number;
+  current_weight: number;
+  target_weight: number;
+  /** Weight after this trade at today's prices */
+  post_weight: number;
+  /** Sells only: lots consumed in lot-method order */
+  lots: LotDraw[];
+  /** Sells only: estimated realized gain; null when no lot history covers the shares */
+  estimated_gain: number | null;
+}
+
+export interface SkippedSymbol {
+  symbol: string;
+  reason: string;
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  skipped: SkippedSymbol[];
+  total_value: number;
+  cash_before: number;
+  cash_after: number;
+  turnover: number;
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+const rq = (n: number) => Math.round(n * 1e6) / 1e6;
+
+function floorToLot(shares: number, lot: number): number {
+  return rq(Math.floor(rq(shares / lot)) * lot);
+}
+
+// Open lots in the order a sell would consume them under `method`
+function lotQueue(orders: SnapshotOrder[], symbol: string, method: LotMethod) {
+  const lots = matchLots(orders.filter(o => o.symbol === symbol), method)
+    .symbols.find(s => s.symbol === symbol)?.open_lots ?? [];
+  const sorted = [...lots];
+  if (method === 'fifo') sorted.sort((a, b) => a.opened_at.localeCompare(b.opened_at));
+  if (method === 'lifo') sorted.sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+  if (method === 'hifo') sorted.sort((a, b) => b.cost_per_share - a.cost_per_share);
+  return sorted;
+}
+
+function drawLots(
+  orders: SnapshotOrder[],
+  symbol: string,
+  quantity: number,
+  price: number,
+  method: LotMethod,
+  now: Date,
+): { lots: LotDraw[]; gain: number | null } {
+  const lots: LotDraw[] = [];
+  let remaining = quantity;
+  let gain = 0;
+  for (const lot of lotQueue(orders, symbol, method)) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    lots.push({
+      lot_id: lot.lot_id,
+      opened_at: lot.opened_at,
+      quantity: rq(take),
+      cost_per_share: lot.cost_per_share,
+      term: holdingTerm(lot.opened_at, now.toISOString()),
+    });
+    gain += take * (price - lot.cost_per_share);
+    remaining = rq(remaining - take);
+  }
+  return { lots, gain: remaining > 0 ? null : r2(gain) };
+}
+
+export function planRebalance(
+  portfolio: Pick<EnrichedPortfolio, 'cash' | 'positions'>,
+  config: RebalanceConfig,
+  orderHistory: SnapshotOrder[] = [],
+  now: Date = new Date(),
+): RebalancePlan {
+  const cash = portfolio.cash.tradeable_cash;
+  const held = new Map(portfolio.positions.filter(p => p.quantity > 0).map(p => [p.symbol, p]));
+  const total = [...held.values()].reduce((s, p) => s + p.quantity * p.current_price, 0) + cash;
+
+  const rawTargets = Object.entries(config.targets).filter(([, w]) => w > 0);
+  const targetSum = rawTargets.reduce((s, [, w]) => s + w, 0);
+  // Targets are scaled into whatever isn't held back as cash
+  const investable = 1 - Math.min(Math.max(config.cashReservePct, 0), 100) / 100;
+  const scale = targetSum > investable ? investable / targetSum : 1;
+  const targets = new Map(rawTargets.map(([s, w]) => [s, w * scale]));
+
+  const skipped: SkippedSymbol[] = [];
+  const sells: RebalanceTrade[] = [];
+  const buys: RebalanceTrade[] = [];
+  const symbols = [...new Set([...held.keys(), ...targets.keys()])].sort();
+
+  for (const symbol of symbols) {
+    const position = held.get(symbol);
+    const price = position?.current_price || config.prices?.[symbol] || 0;
+    if (!(price > 0)) {
+      skipped.push({ symbol, reason: 'No current price' });
+      continue;
+    }
+    const currentValue = (position?.quantity ?? 0) * price;
+    const current = total > 0 ? currentValue / total : 0;
+    const target = targets.get(symbol) ?? 0;
+    const drift = (current - target) * 100;
+    if (Math.abs(drift) <= config.driftBandPct) {
+      skipped.push({ symbol, reason: `Within ±${config.driftBandPct} pt band (${drift >= 0 ? '+' : ''}${drift.toFixed(1)})` });
+      continue;
+    }
+
+    const lot = config.lotSizes?.[symbol] ?? 1;
+    const side = drift > 0 ? 'SELL' : 'BUY';
+    let quantity = floorToLot(Math.abs(target * total - currentValue) / price, lot);
+    // Selling out of a target-less position takes everything, odd lots included
+    if (side === 'SELL' && target === 0) quantity = position!.quantity;
+    if (side === 'SELL') quantity = Math.min(quantity, position!.quantity);
+
+    const notional = r2(quantity * price);
+    if (quantity <= 0 || notional < config.minTradeUsd) {
+      skipped.push({ symbol, reason: `Trade under ${quantity > 0 ? `$${config.minTradeUsd} minimum` : 'one lot'}` });
+      continue;
+    }
+
+    const trade: RebalanceTrade = {
+      symbol,
+      side,
+      quantity,
+      price,
+      notional,
+      current_weight: current,
+      target_weight: target,
+      post_weight: 0,
+      lots: [],
+      estimated_gain: null,
+    };
+    if (side === 'SELL') {
+      const { lots, gain } = drawLots(orderHistory, symbol, quantity, price, config.lotMethod, now);
+      trade.lots = lots;
+      trade.estimated_gain = gain;
+      sells.push(trade);
+    } else {
+      buys.push(trade);
+    }
+  }
+
+  // Buys are funded by cash plus sell proceeds; the largest shortfalls get filled first
+  let available = cash + sells.reduce((s, t) => s + t.notional, 0) - (config.cashReservePct / 100) * total;
+  buys.sort((a, b) => (b.target_weight - b.current_weight) - (a.target_weight - a.current_weight));
+  const funded: RebalanceTrade[] = [];
+  for (const trade of buys) {
+    const lot = config.lotSizes?.[trade.symbol] ?? 1;
+    const affordable = floorToLot(Math.max(available, 0) / trade.price, lot);
+    const quantity = Math.min(trade.quantity, affordable);
+    const notional = r2(quantity * trade.price);
+    if (quantity <= 0 || notional < config.minTradeUsd) {
+      skipped.push({ symbol: trade.symbol, reason: 'Not enough cash after sells' });
+      continue;
+    }
+    available -= notional;
+    funded.push({ ...trade, quantity, notional });
+  }
+
+  const trades = [...sells, ...funded].map(t => {
+    const currentValue = t.current_weight * total;
+    const delta = t.side === 'BUY' ? t.notional : -t.notional;
+    return { ...t, post_weight: total > 0 ? (currentValue + delta) / total : 0 };
+  });
+  const sold = sells.reduce((s, t) => s + t.notional, 0);
+  const bought = funded.reduce((s, t) => s + t.notional, 0);
+
+  return {
+    trades,
+    skipped,
+    total_value: r2(total),
+    cash_before: r2(cash),
+    cash_after: r2(cash + sold - bought),
+    turnover: r2(sold + bought),
+  };
+}
+
+/** Limit orders at today's price, as pending intents for POST /db-orders. */
+export function planToOrders(plan: RebalancePlan, now: Date = new Date()): OrderIntent[] {
+  const ts = now.toISOString();
+  const batch = now.getTime().toString(36);
+  return plan.trades.map((t, i) => ({
+    order_id: `rebal-${batch}-${i}`,
+    symbol: t.symbol,
+    side: t.side,
+    order_type: 'limit',
+    trigger: 'immediate',
+    state: 'pending',
+    quantity: t.quantity,
+    limit_price: t.price,
+    stop_price: null,
+    created_at: ts,
+    updated_at: ts,
+    filled_quantity: null,
+    average_price: null,
+    time_in_force: 'gfd',
+    source: 'rebalancer',
+  }));
+}
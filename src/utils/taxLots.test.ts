@@ -0,0 +1,145 @@
+import { buildTaxReport, holdingTerm, taxReportToCsv } from './taxLots';
+import type { SnapshotOptionOrder, SnapshotOrder } from '../services/robinhoodService';
+
+function fill(id: string, side: 'BUY' | 'SELL', quantity: number, price: number, date: string, symbol = 'TSLA'): SnapshotOrder {
+  const ts = new Date(`${date}T15:00:00Z`).toISOString();
+  return {
+    order_id: id, symbol, side, order_type: 'limit', trigger: 'immediate', state: 'filled',
+    quantity, limit_price: price, stop_price: null, created_at: ts, updated_at: ts,
+    filled_quantity: quantity, average_price: price,
+  };
+}
+
+function callBuy(id: string, contracts: number, date: string, chain = 'TSLA'): SnapshotOptionOrder {
+  const ts = new Date(`${date}T15:00:00Z`).toISOString();
+  return {
+    order_id: id, chain_symbol: chain, state: 'filled', quantity: contracts, price: 2, direction: 'debit',
+    created_at: ts, updated_at: ts,
+    legs: [{ side: 'buy', position_effect: 'open', option_type: 'call', strike: 300, expiration: '2026-12-18' }],
+  };
+}
+
+describe('holdingTerm', () => {
+  it('is long-term only after the acquisition anniversary', () => {
+    expect(holdingTerm('2025-03-01T00:00:00Z', '2026-03-01T00:00:00Z')).toBe('short');
+    expect(holdingTerm('2025-03-01T00:00:00Z', '2026-03-02T00:00:00Z')).toBe('long');
+  });
+});
+
+describe('buildTaxReport', () => {
+  it('splits realized gains into short- and long-term', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2024-06-01'),
+      fill('b2', 'BUY', 10, 150, '2026-01-05'),
+      fill('s1', 'SELL', 20, 160, '2026-03-01'),
+    ], [], 2026);
+    expect(report.long_term).toMatchObject({ count: 1, gain: 600 });
+    expect(report.short_term).toMatchObject({ count: 1, gain: 100 });
+    expect(report.disallowed_total).toBe(0);
+  });
+
+  it('disallows a loss when the stock is repurchased within 30 days and carries it into the new lot', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-02'),
+      fill('s1', 'SELL', 10, 80, '2026-02-01'),
+      fill('b2', 'BUY', 10, 85, '2026-02-15'),
+    ], [], 2026);
+
+    const [line] = report.lines;
+    expect(line).toMatchObject({ wash_sale: true, adjustment: 200, gain: 0 });
+    expect(report.wash_sales[0]).toMatchObject({ replacement_order_id: 'b2', replacement_kind: 'stock', shares: 10 });
+    expect(report.carried_forward[0]).toMatchObject({
+      lot_id: 'b2', quantity: 10, cost_per_share: 85, adjusted_cost_per_share: 105, deferred_loss: 200,
+    });
+  });
+
+  it('realizes the deferred loss when the replacement lot is sold, with the tacked holding period', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-02'),
+      fill('s1', 'SELL', 10, 80, '2026-02-01'),
+      fill('b2', 'BUY', 10, 85, '2026-02-15'),
+      fill('s2', 'SELL', 10, 90, '2026-06-01'),
+    ], [], 2026);
+
+    const second = report.lines.find(l => l.close_order_id === 's2')!;
+    // 900 proceeds − (850 + 200 deferred)
+    expect(second).toMatchObject({ cost_basis: 1050, gain: -150, wash_sale: false });
+    expect(new Date(second.acquired_at).getTime()).toBeLessThan(new Date('2026-02-15T15:00:00Z').getTime());
+    expect(report.carried_forward).toEqual([]);
+  });
+
+  it('counts call purchases on the same underlying as replacements', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 100, 100, '2026-01-02'),
+      fill('s1', 'SELL', 100, 90, '2026-02-01'),
+    ], [callBuy('c1', 1, '2026-01-20'), callBuy('other', 5, '2026-01-20', 'NVDA')], 2026);
+
+    expect(report.lines[0].adjustment).toBe(1000);
+    expect(report.wash_sales).toEqual([expect.objectContaining({ replacement_order_id: 'c1', replacement_kind: 'option', shares: 100 })]);
+    // No lot to carry it into: reported against the call instead of dropped
+    expect(report.carried_forward).toEqual([]);
+    expect(report.option_deferrals).toEqual([
+      { symbol: 'TSLA', order_id: 'c1', acquired_at: new Date('2026-01-20T15:00:00Z').toISOString(), shares: 100, deferred_loss: 1000 },
+    ]);
+  });
+
+  it('partially disallows when the replacement is smaller than the sale', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-02'),
+      fill('s1', 'SELL', 10, 90, '2026-03-01'),
+      fill('b2', 'BUY', 4, 95, '2026-03-20'),
+    ], [], 2026);
+    expect(report.lines[0]).toMatchObject({ adjustment: 40, gain: -60 });
+  });
+
+  it('does not treat lots closed by the same sale as replacements on a full exit', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-01'),
+      fill('b2', 'BUY', 10, 100, '2026-01-05'),
+      fill('s1', 'SELL', 20, 80, '2026-01-10'),
+    ], [], 2026);
+    expect(report.lines).toHaveLength(2);
+    expect(report.short_term).toMatchObject({ gain: -400, adjustment: 0 });
+    expect(report.wash_sales).toEqual([]);
+    expect(report.carried_forward).toEqual([]);
+  });
+
+  it('only counts replacement shares still held after the sale', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-01'),
+      fill('b2', 'BUY', 10, 100, '2026-01-05'),
+      fill('s1', 'SELL', 15, 80, '2026-01-10'),
+    ], [], 2026);
+    // b1 is gone and 5 of b2 sold with it; the 5 left wash 5 of b1's 10 shares
+    const first = report.lines.find(l => l.lot_id === 'b1')!;
+    expect(first).toMatchObject({ adjustment: 100, gain: -100 });
+    expect(report.carried_forward).toEqual([
+      expect.objectContaining({ lot_id: 'b2', quantity: 5, adjusted_cost_per_share: 120, deferred_loss: 100 }),
+    ]);
+  });
+
+  it('ignores repurchases outside the 30-day window and filters to the tax year', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2025-11-01'),
+      fill('s1', 'SELL', 5, 90, '2025-12-01'),
+      fill('s2', 'SELL', 5, 90, '2026-01-15'),
+      fill('b2', 'BUY', 5, 90, '2026-03-01'),
+    ], [], 2026);
+    expect(report.years).toEqual([2026, 2025]);
+    expect(report.lines.map(l => l.close_order_id)).toEqual(['s2']);
+    expect(report.lines[0].wash_sale).toBe(false);
+  });
+});
+
+describe('taxReportToCsv', () => {
+  it('writes Form 8949 columns with the W code on washed lines', () => {
+    const report = buildTaxReport([
+      fill('b1', 'BUY', 10, 100, '2026-01-02'),
+      fill('s1', 'SELL', 10, 80, '2026-02-01'),
+      fill('b2', 'BUY', 10, 85, '2026-02-15'),
+    ], [], 2026);
+    const [header, row] = taxReportToCsv(report).trim().split('\n');
+    expect(header).toMatch(/^Part,\(a\) Description of property,/);
+    expect(row).toBe('I,10 sh TSLA,01/02/2026,02/01/2026,800.00,1000.00,W,200.00,0.00');
+  });
+});
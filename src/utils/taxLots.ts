@@ -0,0 +1,341 @@
+// Year-end tax lot report over trading DB fills: FIFO-matched stock lots
+// (lotEngine) split short- vs long-term, with wash-sale adjustments and a
+// Form 8949-style CSV. A loss is washed when the same underlying is bought —
+// stock, or a call option — within 30 days either side of the sale; the
+// disallowed loss moves onto the replacement lot's basis and the washed
+// shares' holding period is tacked onto it.
+//
+// Not tax advice: option closes are not lot-matched here (db-pnl nets their
+// premiums per underlying), so a loss washed by a call purchase has no lot to
+// carry into — it is reported in option_deferrals for the option's basis
+// instead. A deferred loss is spread across the replacement lot's shares
+// still held after the sale rather than only the replacement shares.
+
+import type { SnapshotOptionOrder, SnapshotOrder } from '../services/robinhoodService';
+import { matchLots, ordersToFills } from './lotEngine';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface TaxLotLine {
+  symbol: string;
+  lot_id: string;
+  close_order_id: string;
+  quantity: number;
+  /** Acquisition date after any tacked-on wash-sale holding period */
+  acquired_at: string;
+  sold_at: string;
+  proceeds: number;
+  /** Cost basis including deferred losses carried in from earlier wash sales */
+  cost_basis: number;
+  /** Form 8949 column (g): the disallowed loss, as a positive amount */
+  adjustment: number;
+  /** Form 8949 column (h): proceeds - cost_basis + adjustment */
+  gain: number;
+  term: HoldingTerm;
+  wash_sale: boolean;
+}
+
+export interface WashSaleReplacement {
+  symbol: string;
+  /** The loss sale that was washed */
+  sale_order_id: string;
+  sold_at: string;
+  /** The purchase that triggered the wash */
+  replacement_order_id: string;
+  replacement_kind: 'stock' | 'option';
+  acquired_at: string;
+  /** Shares matched (option contracts count as 100) */
+  shares: number;
+  disallowed_loss: number;
+}
+
+export interface CarriedBasis {
+  symbol: string;
+  lot_id: string;
+  /** Shares still open */
+  quantity: number;
+  cost_per_share: number;
+  adjusted_cost_per_share: number;
+  deferred_loss: number;
+}
+
+/** A washed loss that belongs in a call's basis, which no lot line here reflects */
+export interface OptionDeferral {
+  symbol: string;
+  /** The call purchase whose basis takes the loss */
+  order_id: string;
+  acquired_at: string;
+  /** Share-equivalents of the call that replaced washed shares */
+  shares: number;
+  deferred_loss: number;
+}
+
+export interface TermTotals {
+  proceeds: number;
+  cost_basis: number;
+  adjustment: number;
+  gain: number;
+  count: number;
+}
+
+export interface TaxReport {
+  year: number;
+  lines: TaxLotLine[];
+  short_term: TermTotals;
+  long_term: TermTotals;
+  disallowed_total: number;
+  wash_sales: WashSaleReplacement[];
+  /** Open lots whose basis carries a deferred wash-sale loss */
+  carried_forward: CarriedBasis[];
+  /** Every loss deferred into a call purchase, whatever the year of the sale */
+  option_deferrals: OptionDeferral[];
+  /** Years with at least one closed lot, newest first */
+  years: number[];
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+const DAY_MS = 86_400_000;
+const WASH_WINDOW_MS = 30 * DAY_MS;
+
+interface Candidate {
+  order_id: string;
+  symbol: string;
+  kind: 'stock' | 'option';
+  at: number;
+  /** Replacement shares not yet used by an earlier wash */
+  capacity: number;
+}
+
+/** Shares of a stock lot still open just after `atMs` — closes at that instant included. */
+function sharesHeldAfter(size: number, closes: { ms: number; quantity: number }[], atMs: number): number {
+  return closes.reduce((held, c) => (c.ms <= atMs ? held - c.quantity : held), size);
+}
+
+/** Long-term means held more than one year — sold after the acquisition anniversary. */
+export function holdingTerm(acquiredAt: string, soldAt: string): HoldingTerm {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return new Date(soldAt).getTime() > anniversary.getTime() ? 'long' : 'short';
+}
+
+/** Filled call purchases, as share-equivalent replacement candidates. */
+function optionCandidates(optionOrders: SnapshotOptionOrder[]): Candidate[] {
+  const out: Candidate[] = [];
+  for (const o of optionOrders) {
+    if (o.state !== 'filled') continue;
+    const leg = (o.legs ?? [])[0];
+    if (!leg) continue;
+    if ((leg.side || '').toLowerCase() !== 'buy' || (leg.option_type || '').toLowerCase() !== 'call') continue;
+    if ((leg.position_effect || '').toLowerCase() === 'close') continue;
+    const symbol = o.chain_symbol || leg.chain_symbol;
+    if (!symbol) continue;
+    out.push({
+      order_id: o.order_id,
+      symbol,
+      kind: 'option',
+      at: new Date(o.created_at).getTime(),
+      capacity: (o.quantity ?? 0) * 100,
+    });
+  }
+  return out;
+}
+
+function emptyTotals(): TermTotals {
+  return { proceeds: 0, cost_basis: 0, adjustment: 0, gain: 0, count: 0 };
+}
+
+export function buildTaxReport(
+  stockOrders: SnapshotOrder[],
+  optionOrders: SnapshotOptionOrder[],
+  year: number,
+): TaxReport {
+  const lots = matchLots(stockOrders, 'fifo');
+
+  const candidates: Candidate[] = [
+    ...ordersToFills(stockOrders)
+      .filter(f => f.side === 'BUY')
+      .map(f => ({ order_id: f.order_id, symbol: f.symbol, kind: 'stock' as const, at: new Date(f.filled_at).getTime(), capacity: f.quantity })),
+    ...optionCandidates(optionOrders),
+  ].sort((a, b) => a.at - b.at);
+
+  // Per replacement lot: deferred loss per share and tacked-on holding period
+  const carried = new Map<string, { perShare: number; tackMs: number }>();
+  // Stock lots are keyed by their BUY order — the fill size is the lot size
+  const lotSize = new Map(candidates.filter(c => c.kind === 'stock').map(c => [c.order_id, c.capacity]));
+
+  const closed = lots.symbols
+    .flatMap(s => s.closed_lots)
+    .sort((a, b) => new Date(a.closed_at).getTime() - new Date(b.closed_at).getTime());
+  // Every close per lot, so a replacement only counts shares not yet sold —
+  // not those this sale or an earlier one consumed
+  const closesByLot = new Map<string, { ms: number; quantity: number }[]>();
+  for (const c of closed) {
+    const list = closesByLot.get(c.lot_id) ?? [];
+    list.push({ ms: new Date(c.closed_at).getTime(), quantity: c.quantity });
+    closesByLot.set(c.lot_id, list);
+  }
+
+  const allLines: TaxLotLine[] = [];
+  const washSales: WashSaleReplacement[] = [];
+
+  for (const c of closed) {
+    const adj = carried.get(c.lot_id);
+    const basis = c.cost_basis + (adj ? adj.perShare * c.quantity : 0);
+    const acquiredAt = adj?.tackMs
+      ? new Date(new Date(c.opened_at).getTime() - adj.tackMs).toISOString()
+      : c.opened_at;
+    const loss = basis - c.proceeds;
+    let disallowed = 0;
+
+    if (loss > 0) {
+      const soldMs = new Date(c.closed_at).getTime();
+      let remaining = c.quantity;
+      for (const cand of candidates) {
+        if (remaining <= 0) break;
+        if (cand.symbol !== c.symbol || cand.order_id === c.lot_id || cand.capacity <= 0) continue;
+        if (Math.abs(cand.at - soldMs) > WASH_WINDOW_MS) continue;
+
+        const held = cand.kind === 'stock'
+          ? sharesHeldAfter(lotSize.get(cand.order_id) ?? 0, closesByLot.get(cand.order_id) ?? [], soldMs)
+          : cand.capacity;
+        const shares = Math.min(cand.capacity, held, remaining);
+        if (shares <= 0) continue;
+        cand.capacity -= shares;
+        remaining -= shares;
+        const deferred = loss * (shares / c.quantity);
+        disallowed += deferred;
+
+        if (cand.kind === 'stock') {
+          // Spread over the shares still open, so the lot's later closes realize all of it
+          const prev = carried.get(cand.order_id) ?? { perShare: 0, tackMs: 0 };
+          carried.set(cand.order_id, {
+            perShare: prev.perShare + deferred / held,
+            tackMs: Math.max(prev.tackMs, soldMs - new Date(acquiredAt).getTime()),
+          });
+        }
+        washSales.push({
+          symbol: c.symbol,
+          sale_order_id: c.close_order_id,
+          sold_at: c.closed_at,
+          replacement_order_id: cand.order_id,
+          replacement_kind: cand.kind,
+          acquired_at: new Date(cand.at).toISOString(),
+          shares,
+          disallowed_loss: r2(deferred),
+        });
+      }
+    }
+
+    allLines.push({
+      symbol: c.symbol,
+      lot_id: c.lot_id,
+      close_order_id: c.close_order_id,
+      quantity: c.quantity,
+      acquired_at: acquiredAt,
+      sold_at: c.closed_at,
+      proceeds: r2(c.proceeds),
+      cost_basis: r2(basis),
+      adjustment: r2(disallowed),
+      gain: r2(c.proceeds - basis + disallowed),
+      term: holdingTerm(acquiredAt, c.closed_at),
+      wash_sale: disallowed > 0,
+    });
+  }
+
+  const inYear = (iso: string) => new Date(iso).getUTCFullYear() === year;
+  const lines = allLines.filter(l => inYear(l.sold_at));
+  const short = emptyTotals();
+  const long  = emptyTotals();
+  for (const l of lines) {
+    const t = l.term === 'long' ? long : short;
+    t.proceeds += l.proceeds;
+    t.cost_basis += l.cost_basis;
+    t.adjustment += l.adjustment;
+    t.gain += l.gain;
+    t.count++;
+  }
+  for (const t of [short, long]) {
+    t.proceeds = r2(t.proceeds); t.cost_basis = r2(t.cost_basis);
+    t.adjustment = r2(t.adjustment); t.gain = r2(t.gain);
+  }
+
+  const carriedForward: CarriedBasis[] = [];
+  for (const s of lots.symbols) {
+    for (const l of s.open_lots) {
+      const adj = carried.get(l.lot_id);
+      if (!adj || adj.perShare <= 0) continue;
+      carriedForward.push({
+        symbol: s.symbol,
+        lot_id: l.lot_id,
+        quantity: l.quantity,
+        cost_per_share: l.cost_per_share,
+        adjusted_cost_per_share: r2(l.cost_per_share + adj.perShare),
+        deferred_loss: r2(adj.perShare * l.quantity),
+      });
+    }
+  }
+
+  const optionDeferrals = new Map<string, OptionDeferral>();
+  for (const w of washSales) {
+    if (w.replacement_kind !== 'option') continue;
+    const prev = optionDeferrals.get(w.replacement_order_id)
+      ?? { symbol: w.symbol, order_id: w.replacement_order_id, acquired_at: w.acquired_at, shares: 0, deferred_loss: 0 };
+    optionDeferrals.set(w.replacement_order_id, {
+      ...prev,
+      shares: prev.shares + w.shares,
+      deferred_loss: r2(prev.deferred_loss + w.disallowed_loss),
+    });
+  }
+
+  const years = [...new Set(allLines.map(l => new Date(l.sold_at).getUTCFullYear()))].sort((a, b) => b - a);
+
+  return {
+    year,
+    lines,
+    short_term: short,
+    long_term: long,
+    disallowed_total: r2(short.adjustment + long.adjustment),
+    wash_sales: washSales.filter(w => inYear(w.sold_at)),
+    carried_forward: carriedForward,
+    option_deferrals: [...optionDeferrals.values()],
+    years,
+  };
+}
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** MM/DD/YYYY, as Form 8949 expects. */
+function formDate(iso: string): string {
+  const d = new Date(iso);
+  const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(d.getUTCDate()).padStart(2, '0');
+  return `${mm}/${dd}/${d.getUTCFullYear()}`;
+}
+
+/** Form 8949-style CSV: Part I (short-term) rows first, then Part II (long-term). */
+export function taxReportToCsv(report: TaxReport): string {
+  const header = [
+    'Part', '(a) Description of property', '(b) Date acquired', '(c) Date sold or disposed of',
+    '(d) Proceeds', '(e) Cost or other basis', '(f) Code(s)', '(g) Amount of adjustment', '(h) Gain or (loss)',
+  ];
+  const ordered = [
+    ...report.lines.filter(l => l.term === 'short'),
+    ...report.lines.filter(l => l.term === 'long'),
+  ];
+  const rows = ordered.map(l => [
+    l.term === 'short' ? 'I' : 'II',
+    `${l.quantity} sh ${l.symbol}`,
+    formDate(l.acquired_at),
+    formDate(l.sold_at),
+    l.proceeds.toFixed(2),
+    l.cost_basis.toFixed(2),
+    l.wash_sale ? 'W' : '',
+    l.adjustment ? l.adjustment.toFixed(2) : '',
+    l.gain.toFixed(2),
+  ]);
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,65 @@
+import { evaluateUserAlerts, describeRule, MetricInputs, UserAlertRule } from './userAlerts';
+import type { BitcoinQuote } from '../services/twelveDataService';
+import type { MarketIndicatorData } from '../services/marketIndicatorService';
+
+const NOW = Date.parse('2026-03-02T15:00:00Z');
+
+function rule(id: string, partial: Partial<UserAlertRule>): UserAlertRule {
+  return {
+    id, metric: { kind: 'btc_price' }, op: 'above', value: 100_000, enabled: true, slack: false,
+    createdAt: '2026-03-01T00:00:00Z', ...partial,
+  };
+}
+
+function inputs(btcClose: number | null, extra: Partial<MetricInputs> = {}): MetricInputs {
+  return {
+    btc: btcClose == null ? null : ({ close: btcClose, percent_change: 2.5 } as BitcoinQuote),
+    indicators: null,
+    quotes: {},
+    ...extra,
+  };
+}
+
+describe('evaluateUserAlerts', () => {
+  const rules = [rule('btc', {})];
+
+  it('fires on the edge and re-arms only after the condition clears', () => {
+    const first = evaluateUserAlerts(rules, inputs(101_000), {}, NOW);
+    expect(first.fired).toEqual([{ ruleId: 'btc', at: new Date(NOW).toISOString(), description: 'BTC price above 100000', observed: 101_000 }]);
+
+    const still = evaluateUserAlerts(rules, inputs(102_000), first.states, NOW);
+    expect(still.fired).toEqual([]);
+
+    const cleared = evaluateUserAlerts(rules, inputs(99_000), still.states, NOW);
+    expect(evaluateUserAlerts(rules, inputs(100_500), cleared.states, NOW).fired).toHaveLength(1);
+  });
+
+  it('keeps state through a failed poll instead of re-firing', () => {
+    const armed = evaluateUserAlerts(rules, inputs(101_000), {}, NOW);
+    const gap = evaluateUserAlerts(rules, inputs(null), armed.states, NOW);
+    expect(gap.states).toEqual({ btc: true });
+    expect(evaluateUserAlerts(rules, inputs(101_000), gap.states, NOW).fired).toEqual([]);
+  });
+
+  it('reads indicator fields, vol regimes and asset quotes', () => {
+    const indicators = {
+      iv: { zscore: -2.1 },
+      ma: { ratio: 1.4 },
+      vol: { windows: [{ label: '30d', vol: 0.62, regime: 'high' }] },
+    } as unknown as MarketIndicatorData;
+    const set = [
+      rule('iv', { metric: { kind: 'iv_zscore' }, op: 'below', value: -2 }),
+      rule('ma', { metric: { kind: 'ma_ratio' }, op: 'above', value: 2 }),
+      rule('vol', { metric: { kind: 'vol_regime', window: '30d' }, op: 'is', value: 'high' }),
+      rule('spy', { metric: { kind: 'quote', symbol: 'SPY' }, op: 'below', value: 600 }),
+      rule('off', { enabled: false }),
+    ];
+    const { fired, states } = evaluateUserAlerts(set, inputs(101_000, {
+      indicators,
+      quotes: { SPY: { symbol: 'SPY', price: 590, timestamp: NOW } },
+    }), {}, NOW);
+    expect(fired.map(f => f.ruleId)).toEqual(['iv', 'vol', 'spy']);
+    expect(states).toEqual({ iv: true, ma: false, vol: true, spy: true });
+    expect(describeRule(set[2])).toBe('Volatility regime (30d) is high');
+  });
+});
@@ -0,0 +1,123 @@
+// User-defined price and indicator alerts. A rule watches one metric — the
+// BTC quote, a MarketIndicatorData field, or any PORTFOLIO_ASSETS quote — and
+// fires when its condition turns true. Rules are edge-triggered: a condition
+// that stays true fires once, and re-arms only after it goes false again, so
+// a 60s poll does not re-notify every minute.
+
+import type { BitcoinQuote, Quote } from '../services/twelveDataService';
+import type { MarketIndicatorData } from '../services/marketIndicatorService';
+
+export type VolWindowLabel = '30d' | '60d' | '90d' | '1Y';
+
+export type UserAlertMetric =
+  | { kind: 'btc_price' }
+  | { kind: 'btc_change_pct' }
+  | { kind: 'iv_zscore' }
+  | { kind: 'ma_ratio' }
+  | { kind: 'vol_regime'; window: VolWindowLabel }
+  | { kind: 'quote'; symbol: string };
+
+export type UserAlertOp = 'above' | 'below' | 'is';
+
+export interface UserAlertRule {
+  id: string;
+  metric: UserAlertMetric;
+  op: UserAlertOp;
+  /** Number for above/below, regime name for `is` */
+  value: number | string;
+  enabled: boolean;
+  slack: boolean;
+  createdAt: string;
+}
+
+export interface UserAlertFiring {
+  ruleId: string;
+  at: string;
+  description: string;
+  observed: number | string;
+}
+
+export interface MetricInputs {
+  btc: BitcoinQuote | null;
+  indicators: MarketIndicatorData | null;
+  quotes: Record<string, Quote>;
+}
+
+/** Last evaluated condition per rule id. Absent = never evaluated. */
+export type RuleStates = Record<string, boolean>;
+
+export const VOL_REGIMES = ['low', 'normal', 'high', 'extreme'] as const;
+
+export const METRIC_LABEL: Record<UserAlertMetric['kind'], string> = {
+  btc_price: 'BTC price',
+  btc_change_pct: 'BTC 24h change %',
+  iv_zscore: 'IV z-score',
+  ma_ratio: '200-week MA ratio',
+  vol_regime: 'Volatility regime',
+  quote: 'Quote',
+};
+
+export function needsIndicators(metric: UserAlertMetric): boolean {
+  return metric.kind === 'iv_zscore' || metric.kind === 'ma_ratio' || metric.kind === 'vol_regime';
+}
+
+export function metricName(metric: UserAlertMetric): string {
+  if (metric.kind === 'quote') return metric.symbol;
+  if (metric.kind === 'vol_regime') return `${METRIC_LABEL.vol_regime} (${metric.window})`;
+  return METRIC_LABEL[metric.kind];
+}
+
+export function describeRule(rule: UserAlertRule): string {
+  if (rule.op === 'is') return `${metricName(rule.metric)} is ${rule.value}`;
+  return `${metricName(rule.metric)} ${rule.op} ${rule.value}`;
+}
+
+/** Current value of a metric, or null when its source has not loaded. */
+export function readMetric(metric: UserAlertMetric, inputs: MetricInputs): number | string | null {
+  const finite = (n: number | null | undefined) => (n != null && Number.isFinite(n) ? n : null);
+  switch (metric.kind) {
+    case 'btc_price': return finite(inputs.btc?.close);
+    case 'btc_change_pct': return finite(inputs.btc?.percent_change);
+    case 'iv_zscore': return finite(inputs.indicators?.iv.zscore);
+    case 'ma_ratio': return finite(inputs.indicators?.ma.ratio);
+    case 'vol_regime':
+      return inputs.indicators?.vol.windows.find(w => w.label === metric.window)?.regime ?? null;
+    case 'quote': return finite(inputs.quotes[metric.symbol]?.price);
+  }
+}
+
+function conditionHolds(rule: UserAlertRule, observed: number | string): boolean {
+  if (rule.op === 'is') return String(observed) === String(rule.value);
+  if (typeof observed !== 'number') return false;
+  const threshold = Number(rule.value);
+  return rule.op === 'above' ? observed > threshold : observed < threshold;
+}
+
+/**
+ * Evaluate enabled rules against the latest metrics. A rule whose metric is
+ * missing keeps its previous state rather than re-arming on a failed poll.
+ */
+export function evaluateUserAlerts(
+  rules: UserAlertRule[],
+  inputs: MetricInputs,
+  states: RuleStates,
+  now: number,
+): { fired: UserAlertFiring[]; states: RuleStates } {
+  const next: RuleStates = {};
+  const fired: UserAlertFiring[] = [];
+  for (const rule of rules) {
+    const prev = states[rule.id];
+    if (!rule.enabled) continue;
+    const observed = readMetric(rule.metric, inputs);
+    if (observed == null) {
+      if (prev !== undefined) next[rule.id] = prev;
+      continue;
+    }
+    const holds = conditionHolds(rule, observed);
+    if (holds && !prev) {
+      fired.push({ ruleId: rule.id, at: new Date(now).toISOString(), description: describeRule(rule), observed });
+    }
+    next[rule.id] = holds;
+  }
+  return { fired, states: next };
+}
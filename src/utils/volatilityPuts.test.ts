@@ -0,0 +1,50 @@
+import { backtestPutHedge, choosePut, regressionBeta, sizeHedge } from './volatilityPuts';
+import type { ChainExpiry, ChainQuote } from './optionsChain';
+
+function put(strike: number, mid: number | null): ChainQuote {
+  return { contract: `IWM260417P${String(strike * 1000).padStart(8, '0')}`, bid: null, ask: null, mid, iv: 0.22, delta: -0.3, openInterest: null };
+}
+
+describe('volatilityPuts', () => {
+  it('regresses asset returns on the hedge and sizes puts to beta × position', () => {
+    const hedge = [0.01, -0.02, 0.015, -0.005];
+    expect(regressionBeta(hedge, hedge.map(r => 2.5 * r + 0.001))).toBeCloseTo(2.5);
+
+    const sizing = sizeHedge({ positionValue: 40_000, beta: 2.5, spot: 200, putMid: 2, putDelta: -0.3, daysToExpiry: 30 });
+    expect(sizing.hedgeNotional).toBe(100_000);
+    expect(sizing.contracts).toBe(5);
+    expect(sizing.premium).toBe(1_000);
+    expect(sizing.costPct).toBeCloseTo(2.5);
+    expect(sizing.annualizedCostPct).toBeCloseTo(2.5 * 365 / 30);
+    expect(sizing.deltaShares).toBeCloseTo(-150);
+  });
+
+  it('picks the quoted put nearest the OTM target', () => {
+    const chain: ChainExpiry[] = [{
+      expiry: '2026-04-17',
+      rows: [185, 190, 195].map(strike => ({ strike, call: null, put: put(strike, strike === 190 ? null : 1.5) })),
+    }];
+    // 5% below 200 is 190, which has no mid, so the nearest priced strike wins
+    expect(choosePut(chain, '2026-04-17', 200, 5)?.strike).toBe(185);
+    expect(choosePut(chain, '2026-05-15', 200, 5)).toBeNull();
+  });
+
+  it('pays out when the hedge sells off alongside the position', () => {
+    const dates = Array.from({ length: 7 }, (_, i) => `2026-01-${String(i + 5).padStart(2, '0')}`);
+    const hedge = [200, 202, 199, 201, 200, 170, 172];
+    const asset = [50, 51, 49, 50, 50, 40, 41];
+    const result = backtestPutHedge({
+      dates, asset, hedge, positionValue: 10_000, beta: 2, otmPct: 5, tenorDays: 2, volWindow: 3,
+    });
+
+    expect(result.periods.map(p => [p.start, p.end])).toEqual([
+      ['2026-01-08', '2026-01-10'],
+    ]);
+    const [crash] = result.periods;
+    expect(crash.assetPnl).toBe(-2_000);
+    // 2 × $10k of index notional at 201 is ~99.5 units; strike 190.95 vs 170
+    expect(crash.putPayout).toBeCloseTo((20_000 / 201) * (190.95 - 170));
+    expect(result.drawdownCoverage).toBeGreaterThan(1);
+    expect(result.maxDrawdownHedged).toBeGreaterThan(result.maxDrawdownUnhedged);
+  });
+});
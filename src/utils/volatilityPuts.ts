@@ -0,0 +1,213 @@
+// Proxy-hedge math for the Volatility Puts tab: protect a BTC Mini Trust
+// position with equity-index puts (IWM by default). BTC and small caps draw
+// down together, so puts on the index are sized by the regression beta of
+// BTC on the index and priced from the options chain where one is available.
+
+import type { NormalizedPriceData } from '../services/twelveDataService';
+import { bsPrice } from './blackScholes';
+import type { ChainExpiry, ChainQuote } from './optionsChain';
+
+const TRADING_DAYS = 252;
+const CONTRACT_SIZE = 100;
+const DAY_MS = 86_400_000;
+
+/** Closes on the dates both series share, oldest first. */
+export function alignCloses(
+  asset: NormalizedPriceData[],
+  hedge: NormalizedPriceData[],
+): { dates: string[]; asset: number[]; hedge: number[] } {
+  const hedgeByDate = new Map(hedge.map(p => [p.date, p.price]));
+  const out = { dates: [] as string[], asset: [] as number[], hedge: [] as number[] };
+  for (const p of [...asset].sort((a, b) => a.timestamp - b.timestamp)) {
+    const h = hedgeByDate.get(p.date);
+    if (h == null) continue;
+    out.dates.push(p.date);
+    out.asset.push(p.price);
+    out.hedge.push(h);
+  }
+  return out;
+}
+
+/** Simple returns between consecutive closes. */
+export function simpleReturns(prices: number[]): number[] {
+  const out: number[] = [];
+  for (let i = 1; i < prices.length; i++) out.push(prices[i - 1] > 0 ? prices[i] / prices[i - 1] - 1 : 0);
+  return out;
+}
+
+/** OLS slope of `asset` returns on `hedge` returns (0 when the hedge is flat). */
+export function regressionBeta(hedge: number[], asset: number[]): number {
+  const n = Math.min(hedge.length, asset.length);
+  if (n < 2) return 0;
+  let mx = 0, my = 0;
+  for (let i = 0; i < n; i++) { mx += hedge[i]; my += asset[i]; }
+  mx /= n; my /= n;
+  let cov = 0, varX = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (hedge[i] - mx) * (asset[i] - my);
+    varX += (hedge[i] - mx) ** 2;
+  }
+  return varX > 0 ? cov / varX : 0;
+}
+
+/** Annualized close-to-close volatility of a price series. */
+export function realizedVol(prices: number[]): number {
+  const rets: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i - 1] > 0 && prices[i] > 0) rets.push(Math.log(prices[i] / prices[i - 1]));
+  }
+  if (rets.length < 2) return 0;
+  const mean = rets.reduce((a, b) => a + b, 0) / rets.length;
+  const variance = rets.reduce((a, r) => a + (r - mean) ** 2, 0) / (rets.length - 1);
+  return Math.sqrt(variance * TRADING_DAYS);
+}
+
+export interface PutCandidate {
+  expiry: string;
+  strike: number;
+  quote: ChainQuote;
+}
+
+/** Listed put on `expiry` whose strike is nearest `spot × (1 − otmPct)`. */
+export function choosePut(chain: ChainExpiry[], expiry: string, spot: number, otmPct: number): PutCandidate | null {
+  const target = spot * (1 - otmPct / 100);
+  let best: PutCandidate | null = null;
+  for (const row of chain.find(e => e.expiry === expiry)?.rows ?? []) {
+    if (!row.put || row.put.mid == null) continue;
+    if (!best || Math.abs(row.strike - target) < Math.abs(best.strike - target)) {
+      best = { expiry, strike: row.strike, quote: row.put };
+    }
+  }
+  return best;
+}
+
+export interface HedgeSizing {
+  /** Index notional the puts must cover: beta × position value */
+  hedgeNotional: number;
+  contracts: number;
+  premium: number;
+  /** Premium as % of the position */
+  costPct: number;
+  /** costPct scaled to a year of rolling the same tenor */
+  annualizedCostPct: number;
+  /** Share-equivalent delta of the put leg (negative) */
+  deltaShares: number | null;
+}
+
+/**
+ * Size index puts against a position: enough contracts to cover
+ * `beta × positionValue` of index notional at the current spot.
+ */
+export function sizeHedge(args: {
+  positionValue: number;
+  beta: number;
+  spot: number;
+  putMid: number;
+  putDelta: number | null;
+  daysToExpiry: number;
+}): HedgeSizing {
+  const { positionValue, beta, spot, putMid, putDelta, daysToExpiry } = args;
+  const hedgeNotional = Math.max(0, beta) * positionValue;
+  const contracts = spot > 0 ? Math.round(hedgeNotional / (spot * CONTRACT_SIZE)) : 0;
+  const premium = contracts * putMid * CONTRACT_SIZE;
+  const costPct = positionValue > 0 ? (premium / positionValue) * 100 : 0;
+  return {
+    hedgeNotional,
+    contracts,
+    premium,
+    costPct,
+    annualizedCostPct: daysToExpiry > 0 ? costPct * (365 / daysToExpiry) : costPct,
+    deltaShares: putDelta != null ? putDelta * contracts * CONTRACT_SIZE : null,
+  };
+}
+
+export interface HedgePeriod {
+  start: string;
+  end: string;
+  assetPnl: number;
+  putCost: number;
+  putPayout: number;
+}
+
+export interface HedgeBacktest {
+  periods: HedgePeriod[];
+  /** Position value at each period end, unhedged vs with the put P&L added */
+  curve: { date: string; unhedged: number; hedged: number }[];
+  totalCost: number;
+  totalPayout: number;
+  /** Share of losing-period losses the puts paid back (0–1+) */
+  drawdownCoverage: number | null;
+  maxDrawdownUnhedged: number;
+  maxDrawdownHedged: number;
+}
+
+function maxDrawdownPct(values: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const v of values) {
+    peak = Math.max(peak, v);
+    if (peak > 0) worst = Math.min(worst, (v / peak - 1) * 100);
+  }
+  return worst;
+}
+
+/**
+ * Roll `otmPct` out-of-the-money index puts every `tenorDays` bars over
+ * date-aligned daily closes. Each roll is priced with Black-Scholes at the
+ * index's trailing realized vol (the chain has no history to price from) and
+ * sized at `beta ×` the position's value at that roll. Puts are held to expiry.
+ */
+export function backtestPutHedge(args: {
+  dates: string[];
+  asset: number[];
+  hedge: number[];
+  positionValue: number;
+  beta: number;
+  otmPct: number;
+  tenorDays: number;
+  volWindow: number;
+}): HedgeBacktest {
+  const { dates, asset, hedge, positionValue, beta, otmPct, tenorDays, volWindow } = args;
+  const periods: HedgePeriod[] = [];
+  const curve: HedgeBacktest['curve'] = [];
+  const start = Math.min(volWindow, dates.length - 1);
+  const shares = asset[start] > 0 ? positionValue / asset[start] : 0;
+  let hedgePnl = 0;
+
+  if (dates.length > 0 && start >= 0) {
+    curve.push({ date: dates[start], unhedged: positionValue, hedged: positionValue });
+  }
+
+  for (let i = start; i + tenorDays < dates.length; i += tenorDays) {
+    const end = i + tenorDays;
+    const s0 = hedge[i];
+    const strike = s0 * (1 - otmPct / 100);
+    const vol = realizedVol(hedge.slice(Math.max(0, i - volWindow), i + 1));
+    const years = Math.max(1, Math.round((Date.parse(dates[end]) - Date.parse(dates[i])) / DAY_MS)) / 365;
+    const units = s0 > 0 ? (Math.max(0, beta) * shares * asset[i]) / s0 : 0;
+    const putCost = units * bsPrice('put', s0, strike, years, vol);
+    const putPayout = units * Math.max(0, strike - hedge[end]);
+    hedgePnl += putPayout - putCost;
+    periods.push({
+      start: dates[i],
+      end: dates[end],
+      assetPnl: shares * (asset[end] - asset[i]),
+      putCost,
+      putPayout,
+    });
+    const unhedged = shares * asset[end];
+    curve.push({ date: dates[end], unhedged, hedged: unhedged + hedgePnl });
+  }
+
+  const losses = periods.filter(p => p.assetPnl < 0);
+  const lossTotal = losses.reduce((s, p) => s - p.assetPnl, 0);
+  return {
+    periods,
+    curve,
+    totalCost: periods.reduce((s, p) => s + p.putCost, 0),
+    totalPayout: periods.reduce((s, p) => s + p.putPayout, 0),
+    drawdownCoverage: lossTotal > 0 ? losses.reduce((s, p) => s + p.putPayout, 0) / lossTotal : null,
+    maxDrawdownUnhedged: maxDrawdownPct(curve.map(c => c.unhedged)),
+    maxDrawdownHedged: maxDrawdownPct(curve.map(c => c.hedged)),
+  };
+}
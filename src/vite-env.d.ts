@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_TWELVE_DATA_API_KEY: string;
+  readonly VITE_MARKET_DATA_FIXTURES?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,45 @@
+// Tests for the Slack alert proxy's dedup / cooldown gate.
+
+const t = require('../../netlify/functions/lib/tradingDb.cjs');
+const slack = require('../../netlify/functions/alert-slack.cjs');
+
+function post(body) {
+  return slack.handler({ httpMethod: 'POST', headers: {}, body: JSON.stringify(body) });
+}
+
+function parse(res) { return JSON.parse(res.body); }
+
+let fetchMock;
+
+beforeEach(() => {
+  t.__resetForTests();
+  t.__setTestClient(t.createMemoryClient());
+  process.env.SLACK_WEBHOOK_URL = 'https://hooks.slack.test/abc';
+  fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true });
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+  delete process.env.SLACK_WEBHOOK_URL;
+});
+
+afterAll(() => t.__resetForTests());
+
+describe('alert-slack', () => {
+  test('forwards plain alerts every time', async () => {
+    expect(parse(await post({ message: 'hello', source: 'Trade Page' }))).toEqual({ sent: true });
+    expect(parse(await post({ message: 'hello', source: 'Trade Page' }))).toEqual({ sent: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).text).toBe(':warning: *Trade Page*\nhello');
+  });
+
+  test('suppresses a repeated dedup key inside the cooldown', async () => {
+    const alert = { message: 'Snapshot is stale', severity: 'critical', dedup_key: 'snapshot_age:critical', cooldown_s: 600 };
+    expect(parse(await post(alert))).toEqual({ sent: true });
+    expect(parse(await post(alert))).toEqual({ sent: false, suppressed: true });
+    // A different key (e.g. an escalation) is its own incident
+    expect(parse(await post({ ...alert, dedup_key: 'recon_drift:critical' }))).toEqual({ sent: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).text).toMatch(/^:rotating_light: /);
+  });
+});
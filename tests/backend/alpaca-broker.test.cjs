@@ -0,0 +1,91 @@
+// Tests for the Alpaca broker proxy (paper endpoint, mapped onto the
+// robinhood-portfolio response shapes).
+
+const alpaca = require('../../netlify/functions/alpaca-broker.cjs');
+
+function makeEvent(action, method = 'GET') {
+  return { httpMethod: method, queryStringParameters: { action }, headers: {} };
+}
+
+function parse(res) { return JSON.parse(res.body); }
+
+const ACCOUNT = {
+  account_number: 'PA3XYZ', status: 'ACTIVE', cash: '2500.5', buying_power: '5001', equity: '12500.5',
+  portfolio_value: '12500.5',
+};
+
+const POSITIONS = [
+  {
+    symbol: 'AAPL', asset_class: 'us_equity', qty: '10', avg_entry_price: '150', current_price: '200',
+    cost_basis: '1500', market_value: '2000', unrealized_pl: '500', unrealized_plpc: '0.3333', side: 'long',
+  },
+  {
+    symbol: 'SPY250620P00500000', asset_class: 'us_option', qty: '-2', avg_entry_price: '4.5', current_price: '3',
+    cost_basis: '-900', market_value: '-600', unrealized_pl: '300', unrealized_plpc: '0.3333', side: 'short',
+  },
+];
+
+const ROUTES = {
+  '/v2/account': ACCOUNT,
+  '/v2/positions': POSITIONS,
+  '/v2/orders?status=all&limit=50&direction=desc': [{
+    id: 'o-1', symbol: 'AAPL', side: 'buy', type: 'limit', qty: '5', limit_price: '180', status: 'new',
+    created_at: '2026-01-02T15:00:00Z', updated_at: '2026-01-02T15:00:00Z',
+  }],
+};
+
+let fetchMock;
+
+beforeEach(() => {
+  process.env.ALPACA_API_KEY_ID = 'key';
+  process.env.ALPACA_API_SECRET_KEY = 'secret';
+  fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (url) => {
+    const path = String(url).replace('https://paper-api.alpaca.markets', '');
+    return { ok: true, status: 200, json: () => Promise.resolve(ROUTES[path]) };
+  });
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+  delete process.env.ALPACA_API_KEY_ID;
+  delete process.env.ALPACA_API_SECRET_KEY;
+});
+
+describe('alpaca-broker', () => {
+  test('defaults to the paper endpoint and sends the key headers', async () => {
+    const res = await alpaca.handler(makeEvent('status'));
+    expect(parse(res)).toMatchObject({ authenticated: true, message: 'Paper account PA3XYZ — ACTIVE' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://paper-api.alpaca.markets/v2/account');
+    expect(init.headers).toMatchObject({ 'APCA-API-KEY-ID': 'key', 'APCA-API-SECRET-KEY': 'secret' });
+  });
+
+  test('maps the account and equity positions onto the Portfolio shape', async () => {
+    const body = parse(await alpaca.handler(makeEvent('portfolio')));
+    expect(body).toMatchObject({ accountNumber: 'PA3XYZ', cash: 2500.5, buyingPower: 5001, portfolioValue: 12500.5 });
+    expect(body.positions).toEqual([{
+      symbol: 'AAPL', name: 'AAPL', quantity: 10, averageCost: 150, currentPrice: 200,
+      totalCost: 1500, currentValue: 2000, gain: 500, gainPercent: 33.33,
+    }]);
+  });
+
+  test('splits OCC option positions out with strike, expiry and type', async () => {
+    const body = parse(await alpaca.handler(makeEvent('options')));
+    expect(body.positions).toEqual([expect.objectContaining({
+      symbol: 'SPY', optionType: 'put', strike: 500, expiration: '2025-06-20',
+      quantity: 2, direction: 'credit', totalCost: 900, currentValue: 600, gain: 300,
+    })]);
+    expect(alpaca.parseOccSymbol('AAPL')).toBeNull();
+  });
+
+  test('maps orders and reports missing keys as an auth error', async () => {
+    const orders = parse(await alpaca.handler(makeEvent('orders')));
+    expect(orders[0]).toMatchObject({ id: 'o-1', quantity: 5, price: 180, state: 'new', type: 'limit' });
+
+    delete process.env.ALPACA_API_KEY_ID;
+    expect(parse(await alpaca.handler(makeEvent('status')))).toMatchObject({ authenticated: false });
+    const res = await alpaca.handler(makeEvent('portfolio'));
+    expect(res.statusCode).toBe(401);
+    expect(parse(res).requiresAuth).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+// db-account-history: every db-positions sync that carries an account appends
+// a point to the equity curve. These tests pin what gets recorded and how
+// intraday points collapse to one per day without losing flows.
+
+const t  = require('../../netlify/functions/lib/tradingDb.cjs');
+const fn = require('../../netlify/functions/db-account-history.cjs');
+const dbPositions = require('../../netlify/functions/db-positions.cjs');
+const snapshotRefresh = require('../../netlify/functions/snapshot-refresh.cjs');
+
+const sync = (body) => dbPositions.handler({ httpMethod: 'POST', body: JSON.stringify(body) });
+const get  = (qs) => fn.handler({ httpMethod: 'GET', queryStringParameters: qs || {} });
+
+async function bodyOf(resPromise) {
+  const res = await resPromise;
+  return { status: res.statusCode, body: JSON.parse(res.body) };
+}
+
+beforeEach(() => {
+  t.__resetForTests();
+  delete process.env.TRADING_DB_TOKEN;
+  t.__setTestClient(t.createMemoryClient());
+});
+
+afterAll(() => t.__resetForTests());
+
+const BOOK = {
+  positions: [{ symbol: 'TSLA', quantity: 10, avg_buy_price: 200, equity: 2500 }],
+  option_positions: [],
+};
+
+describe('recording', () => {
+  test('db-positions appends a point with the book value and net flow', async () => {
+    const res = await bodyOf(sync({
+      ...BOOK,
+      account: { equity: 3000, cash: 500, net_flow: 250, captured_at: '2026-10-16T20:00:00Z' },
+    }));
+    expect(res.body.data.history_recorded).toBe(true);
+
+    const { body } = await bodyOf(get({ granularity: 'raw' }));
+    expect(body.resource).toBe('account-history');
+    expect(body.data.points).toEqual([{
+      captured_at: '2026-10-16T20:00:00.000Z', equity: 3000, cash: 500, market_value: 2500, net_flow: 250,
+    }]);
+  });
+
+  test('falls back to equity less cash when the book is partial, and skips accounts without equity', async () => {
+    await sync({ positions: BOOK.positions, account: { equity: 3000, cash: 400 } });
+    const skipped = await bodyOf(sync({ ...BOOK, account: { cash: 400 } }));
+    expect(skipped.body.data.history_recorded).toBe(false);
+
+    const { body } = await bodyOf(get({ granularity: 'raw' }));
+    expect(body.data.points).toHaveLength(1);
+    expect(body.data.points[0]).toMatchObject({ market_value: 2600, net_flow: 0 });
+  });
+});
+
+describe('GET', () => {
+  beforeEach(async () => {
+    for (const [at, equity, net_flow] of [
+      ['2026-10-15T14:00:00Z', 1000, 0],
+      ['2026-10-16T14:00:00Z', 1100, 50],
+      ['2026-10-16T20:00:00Z', 1200, 25],
+      ['2026-10-17T20:00:00Z', 1150, 0],
+    ]) {
+      await sync({ ...BOOK, account: { equity, cash: 0, net_flow, captured_at: at } });
+    }
+  });
+
+  test('collapses to the last point per day and keeps every flow', async () => {
+    const { body } = await bodyOf(get());
+    expect(body.data.granularity).toBe('day');
+    expect(body.data.points.map(p => [p.captured_at.slice(0, 10), p.equity, p.net_flow])).toEqual([
+      ['2026-10-15', 1000, 0],
+      ['2026-10-16', 1200, 75],
+      ['2026-10-17', 1150, 0],
+    ]);
+    expect(body.data.net_flows).toBe(75);
+    expect(body.data.first_at).toBe('2026-10-15T14:00:00.000Z');
+    expect(body.data.last_at).toBe('2026-10-17T20:00:00.000Z');
+  });
+
+  test('filters by since and rejects bad parameters', async () => {
+    const { body } = await bodyOf(get({ since: '2026-10-16', granularity: 'raw' }));
+    expect(body.count).toBe(3);
+
+    expect((await bodyOf(get({ granularity: 'week' }))).body.error.code).toBe('BAD_GRANULARITY');
+    expect((await bodyOf(get({ since: 'yesterday' }))).status).toBe(400);
+  });
+
+  test('405 on writes', async () => {
+    const { status, body } = await bodyOf(fn.handler({ httpMethod: 'POST', body: '{}' }));
+    expect(status).toBe(405);
+    expect(body.error.code).toBe('METHOD_NOT_ALLOWED');
+  });
+});
+
+describe('ACH transfers', () => {
+  const blob = (timestamp, equity) => ({ timestamp, portfolio: { equity, market_value: equity - 100, cash: { cash: 100 } } });
+  const ach = (id, direction, amount, created_at, state = 'completed') => ({ id, direction, amount: String(amount), created_at, state });
+
+  test('without any flows reported, the curve says so', async () => {
+    await sync({ ...BOOK, account: { equity: 1000, cash: 0, captured_at: '2026-10-15T14:00:00Z' } });
+    await sync({ ...BOOK, account: { equity: 1100, cash: 0, captured_at: '2026-10-16T14:00:00Z' } });
+    const { body } = await bodyOf(get());
+    expect(body.data.flows_tracked).toBe(false);
+    expect(body.data.net_flows).toBe(0);
+  });
+
+  test('snapshot-refresh records transfers and the curve books them as flows', async () => {
+    const db = t.getDb();
+    await snapshotRefresh.recordAccount(db, blob('2026-10-15T14:00:00.000Z', 1000), [
+      ach('before', 'deposit', 5000, '2026-09-01T12:00:00Z'),
+      ach('gone', 'deposit', 700, '2026-10-15T16:00:00Z', 'pending'),
+    ], []);
+    const errors = [];
+    const step = await snapshotRefresh.recordAccount(db, blob('2026-10-16T14:00:00.000Z', 1600), [
+      ach('dep', 'deposit', 500, '2026-10-15T18:00:00Z'),
+      ach('wd', 'withdraw', 200, '2026-10-16T13:00:00Z', 'pending'),
+      ach('gone', 'deposit', 700, '2026-10-15T16:00:00Z', 'cancelled'),
+    ], errors);
+    expect(step).toEqual({ transfers: 2, history_point: true });
+    expect(errors).toEqual([]);
+    await snapshotRefresh.recordAccount(db, blob('2026-10-17T14:00:00.000Z', 0), [], []);
+
+    const { body } = await bodyOf(get({ granularity: 'raw' }));
+    // The pre-curve deposit and the cancelled one are not flows; the zero-equity pull is skipped
+    expect(body.data.points.map(p => [p.equity, p.net_flow])).toEqual([[1000, 0], [1600, 300]]);
+    expect(body.data.points[1].market_value).toBe(1500);
+    expect(body.data.net_flows).toBe(300);
+    expect(body.data.flows_tracked).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+// db-stop-coverage: every held position should sit behind a working sell
+// stop. These tests pin how coverage is counted — partial fills, untracked
+// placement stubs and over-sized stops are the cases the bot alerts on.
+
+const t  = require('../../netlify/functions/lib/tradingDb.cjs');
+const fn = require('../../netlify/functions/db-stop-coverage.cjs');
+const dbOrders    = require('../../netlify/functions/db-orders.cjs');
+const dbPositions = require('../../netlify/functions/db-positions.cjs');
+
+const post = (mod, body) => mod.handler({ httpMethod: 'POST', body: JSON.stringify(body) });
+const get  = (qs) => fn.handler({ httpMethod: 'GET', queryStringParameters: qs || {} });
+
+async function bodyOf(resPromise) {
+  const res = await resPromise;
+  return { status: res.statusCode, body: JSON.parse(res.body) };
+}
+
+beforeEach(() => {
+  t.__resetForTests();
+  delete process.env.TRADING_DB_TOKEN;
+  t.__setTestClient(t.createMemoryClient());
+});
+
+afterAll(() => t.__resetForTests());
+
+const NOW = new Date().toISOString();
+
+function stopSell(id, symbol, quantity, stop_price, extra = {}) {
+  return { order_id: id, symbol, side: 'SELL', order_type: 'market', trigger: 'stop',
+           state: 'confirmed', quantity, limit_price: 0, stop_price,
+           created_at: NOW, updated_at: NOW, ...extra };
+}
+
+// TSLA 10 @ 250, NVDA 20 @ 100, AAPL 5 @ 200
+const BOOK = { positions: [
+  { symbol: 'TSLA', quantity: 10, avg_buy_price: 200, equity: 2500, profit_loss: 500, profit_loss_pct: 25 },
+  { symbol: 'NVDA', quantity: 20, avg_buy_price: 90,  equity: 2000, profit_loss: 200, profit_loss_pct: 11.1 },
+  { symbol: 'AAPL', quantity: 5,  avg_buy_price: 180, equity: 1000, profit_loss: 100, profit_loss_pct: 11.1 },
+] };
+
+describe('computeStopCoverage', () => {
+  test('classifies covered / partial / naked and measures stop distance', () => {
+    const positions = [
+      { symbol: 'TSLA', quantity: 10, current_price: 250 },
+      { symbol: 'NVDA', quantity: 20, current_price: 100 },
+      { symbol: 'AAPL', quantity: 5,  current_price: 200 },
+    ];
+    const open = [
+      stopSell('a', 'TSLA', 6, 230),
+      stopSell('b', 'TSLA', 4, 225),
+      stopSell('c', 'NVDA', 8, 95),
+      // Buy-side and limit sells are not protection
+      { ...stopSell('d', 'AAPL', 5, 210), side: 'BUY' },
+      { ...stopSell('e', 'AAPL', 5, null), trigger: 'immediate', order_type: 'limit', limit_price: 220 },
+    ];
+    const { symbols, summary } = fn.computeStopCoverage(positions, open);
+
+    expect(symbols.map(r => [r.symbol, r.status])).toEqual([
+      ['AAPL', 'naked'], ['NVDA', 'partial'], ['TSLA', 'covered'],
+    ]);
+    const tsla = symbols.find(r => r.symbol === 'TSLA');
+    expect(tsla).toMatchObject({
+      covered_quantity: 10, uncovered_quantity: 0, nearest_stop_price: 230,
+      stop_distance_usd: 20, stop_distance_pct: 8, at_risk_usd: 6 * 20 + 4 * 25,
+    });
+    const nvda = symbols.find(r => r.symbol === 'NVDA');
+    expect(nvda).toMatchObject({ covered_quantity: 8, uncovered_quantity: 12, uncovered_value: 1200, coverage_pct: 40 });
+
+    expect(summary).toMatchObject({ positions: 3, covered: 1, partial: 1, naked: 1, naked_symbols: ['AAPL'] });
+    expect(summary.uncovered_value).toBe(1200 + 1000);
+  });
+
+  test('counts only the unfilled remainder and flags excess / above-market stops', () => {
+    const { symbols } = fn.computeStopCoverage(
+      [{ symbol: 'TSLA', quantity: 10, current_price: 250 }],
+      [stopSell('a', 'TSLA', 8, 255, { state: 'partially_filled', filled_quantity: 3 }),
+       stopSell('b', 'TSLA', 9, 240)],
+    );
+    expect(symbols[0]).toMatchObject({
+      covered_quantity: 10, excess_quantity: 4, nearest_stop_price: 255, stop_above_market: true,
+    });
+  });
+});
+
+describe('db-stop-coverage handler', () => {
+  test('audits the stored book against open stop orders', async () => {
+    await post(dbPositions, BOOK);
+    await post(dbOrders, { orders: [
+      stopSell('tsla-stop', 'TSLA', 10, 230),
+      stopSell('nvda-filled', 'NVDA', 20, 95, { state: 'filled', filled_quantity: 20 }),
+    ] });
+
+    const { status, body } = await bodyOf(get());
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ok: true, resource: 'stop-coverage', action: 'compute', count: 3 });
+    const bySymbol = Object.fromEntries(body.data.symbols.map(r => [r.symbol, r.status]));
+    expect(bySymbol).toEqual({ TSLA: 'covered', NVDA: 'naked', AAPL: 'naked' });
+    expect(body.data.positions_as_of).not.toBeNull();
+    expect(body.data.orders_as_of).not.toBeNull();
+  });
+
+  test('untracked placement stubs are reported but do not count as coverage', async () => {
+    await post(dbPositions, BOOK);
+    await post(dbOrders, { orders: [stopSell('stub', 'TSLA', 10, 230, { state: null })] });
+
+    const { body } = await bodyOf(get({ symbol: 'tsla' }));
+    expect(body.count).toBe(1);
+    expect(body.data.symbols[0]).toMatchObject({ status: 'naked', unconfirmed_quantity: 10 });
+  });
+
+  test('filters by status and rejects unknown ones', async () => {
+    await post(dbPositions, BOOK);
+    await post(dbOrders, { orders: [stopSell('tsla-stop', 'TSLA', 10, 230)] });
+
+    const naked = await bodyOf(get({ status: 'naked' }));
+    expect(naked.body.data.symbols.map(r => r.symbol).sort()).toEqual(['AAPL', 'NVDA']);
+    // Summary always covers the whole book
+    expect(naked.body.data.summary.positions).toBe(3);
+
+    const bad = await bodyOf(get({ status: 'bogus' }));
+    expect(bad.status).toBe(400);
+    expect(bad.body.error.code).toBe('BAD_STATUS');
+  });
+
+  test('counts a GTC stop older than thousands of newer orders', async () => {
+    await post(dbPositions, BOOK);
+    const old = new Date(Date.now() - 200 * 86_400_000).toISOString();
+    const filled = Array.from({ length: 5000 }, (_, i) =>
+      stopSell(`fill-${i}`, 'NVDA', 1, 95, { state: 'filled', filled_quantity: 1 }));
+    await t.upsertStockOrders(t.getDb(), [
+      stopSell('tsla-gtc', 'TSLA', 10, 230, { created_at: old, updated_at: old }),
+      ...filled,
+    ].map(raw => ({ value: t.normalizeStockOrder(raw), raw })));
+
+    const { body } = await bodyOf(get({ symbol: 'TSLA' }));
+    expect(body.data.symbols[0]).toMatchObject({ status: 'covered', covered_quantity: 10 });
+    expect(body.data.truncated).toBe(false);
+  });
+
+  test('flags truncated when the working orders exceed the cap', async () => {
+    await post(dbPositions, BOOK);
+    const row = { order_id: 'x', symbol: 'AAPL', side: 'BUY', order_type: 'limit', trigger_type: 'immediate',
+                  state: 'confirmed', quantity: 1, limit_price: 1, created_at: NOW, updated_at: NOW };
+    const spy = jest.spyOn(t, 'fetchWorkingStockOrders')
+      .mockResolvedValueOnce(Array.from({ length: 5001 }, (_, i) => ({ ...row, order_id: `x-${i}` })));
+
+    const { body } = await bodyOf(get());
+    expect(body.data.truncated).toBe(true);
+    spy.mockRestore();
+  });
+
+  test('rejects writes', async () => {
+    const res = await fn.handler({ httpMethod: 'POST', body: '{}' });
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -21,10 +21,12 @@ describe('openapi.yaml', () => {
   });
 
   test('documents exactly the implemented endpoints and methods', () => {
-    expect(Object.keys(spec.paths).sort()).toEqual(['/db-bot-activity', '/db-orders', '/db-pnl', '/twelvedata/{endpoint}']);
+    expect(Object.keys(spec.paths).sort()).toEqual(['/db-account-history', '/db-bot-activity', '/db-orders', '/db-pnl', '/db-positions', '/db-stop-coverage', '/twelvedata/{endpoint}']);
     expect(Object.keys(spec.paths['/db-orders']).sort()).toEqual(['delete', 'get', 'post']);
     expect(Object.keys(spec.paths['/db-bot-activity']).sort()).toEqual(['get', 'post']);
     expect(Object.keys(spec.paths['/db-pnl'])).toEqual(['get']);
+    expect(Object.keys(spec.paths['/db-stop-coverage'])).toEqual(['get']);
+    expect(Object.keys(spec.paths['/db-account-history'])).toEqual(['get']);
   });
 
   test('envelope schema matches the shared envelope contract', () => {
@@ -35,7 +37,7 @@ describe('openapi.yaml', () => {
 
   test('error codes stay in sync with lib/tradingDb error responses', () => {
     const codes = spec.components.schemas.ApiError.properties.code.enum;
-    for (const code of ['DB_NOT_CONFIGURED', 'UNAUTHORIZED', 'BAD_JSON', 'NO_ORDERS', 'NO_EVENTS', 'MISSING_PARAM', 'BAD_PERIOD', 'METHOD_NOT_ALLOWED', 'DB_ERROR']) {
+    for (const code of ['DB_NOT_CONFIGURED', 'UNAUTHORIZED', 'BAD_JSON', 'NO_ORDERS', 'NO_EVENTS', 'MISSING_PARAM', 'BAD_PERIOD', 'BAD_STATUS', 'BAD_GRANULARITY', 'METHOD_NOT_ALLOWED', 'DB_ERROR']) {
       expect(codes).toContain(code);
     }
   });
@@ -0,0 +1,113 @@
+// order-ticket: the TradePage ticket's write path. Writes go through
+// lib/tradingDb in-process (no TRADING_DB_TOKEN in the browser), gated on
+// a connected Robinhood session, and only in the ticket's own shapes. Live
+// orders also need the operator's ORDER_TICKET_SECRET.
+
+jest.mock('../../netlify/functions/lib/tokenStore.cjs', () => ({
+  getAuthStatus: jest.fn(),
+}));
+
+const tokenStore = require('../../netlify/functions/lib/tokenStore.cjs');
+const t = require('../../netlify/functions/lib/tradingDb.cjs');
+const orderTicket = require('../../netlify/functions/order-ticket.cjs');
+const dbOrders = require('../../netlify/functions/db-orders.cjs');
+const dbBotActivity = require('../../netlify/functions/db-bot-activity.cjs');
+
+const NOW = new Date().toISOString();
+
+const KEY = { 'X-Order-Ticket-Key': 'ticket-secret' };
+
+function post(body, headers = KEY) {
+  return orderTicket.handler({ httpMethod: 'POST', headers, queryStringParameters: null, body: JSON.stringify(body) });
+}
+function get(handler, params) {
+  return handler({ httpMethod: 'GET', headers: {}, queryStringParameters: params, body: null });
+}
+const parse = res => JSON.parse(res.body);
+
+const INTENT = {
+  order_id: 'ui-abc123-x1y2z3', symbol: 'TSLA', side: 'SELL', order_type: 'market', trigger: 'stop',
+  state: 'pending', quantity: 5, limit_price: 0, stop_price: 230, created_at: NOW, updated_at: NOW,
+  filled_quantity: null, average_price: null, time_in_force: 'gtc', source: 'trade-page',
+};
+
+beforeEach(() => {
+  t.__resetForTests();
+  process.env.TRADING_DB_TOKEN = 'secret-token';
+  process.env.ORDER_TICKET_SECRET = 'ticket-secret';
+  process.env.URL = 'https://allocation.example.com';
+  t.__setTestClient(t.createMemoryClient());
+  tokenStore.getAuthStatus.mockResolvedValue({ authenticated: true });
+});
+afterAll(() => {
+  delete process.env.TRADING_DB_TOKEN;
+  delete process.env.ORDER_TICKET_SECRET;
+  delete process.env.URL;
+  t.__resetForTests();
+});
+
+describe('order-ticket', () => {
+  test('stages a pending order without the DB token', async () => {
+    const res = await post({ order: { ...INTENT, state: 'filled' } });
+    expect(res.statusCode).toBe(200);
+    expect(parse(res).data).toEqual({ stock_upserted: 1, option_upserted: 0, skipped: 0, order_ids: [INTENT.order_id] });
+
+    const open = parse(await get(dbOrders.handler, { scope: 'open' })).data.open_orders;
+    expect(open).toHaveLength(1);
+    expect(open[0]).toMatchObject({ order_id: INTENT.order_id, state: 'pending', stop_price: 230 });
+  });
+
+  test('records a dry run as a simulated bot event, without the ticket key', async () => {
+    const res = await post({ event: {
+      event_type: 'SELL_ORDER', status: 'filled', order_id: INTENT.order_id, symbol: 'TSLA',
+      quantity: 5, price: 230, message: 'Dry run', dry_run: false, created_at: NOW,
+    } }, { origin: 'https://allocation.example.com' });
+    expect(res.statusCode).toBe(200);
+    expect(parse(res).data.inserted).toBe(1);
+
+    const events = parse(await get(dbBotActivity.handler, {})).data.events;
+    expect(events[0]).toMatchObject({ order_id: INTENT.order_id, status: 'simulated', dry_run: true });
+  });
+
+  test('refuses writes without a connected Robinhood session', async () => {
+    tokenStore.getAuthStatus.mockResolvedValue({ authenticated: false });
+    const res = await post({ order: INTENT });
+    expect(res.statusCode).toBe(401);
+    expect(parse(res).error.code).toBe('UNAUTHORIZED');
+    expect(parse(await get(dbOrders.handler, {})).data.open_orders).toHaveLength(0);
+  });
+
+  test('refuses live orders without the ticket key, or when no secret is configured', async () => {
+    for (const headers of [{}, { 'x-order-ticket-key': 'guess' }]) {
+      const res = await post({ order: INTENT }, headers);
+      expect(res.statusCode).toBe(401);
+      expect(parse(res).error.message).toMatch(/ticket key/);
+    }
+    delete process.env.ORDER_TICKET_SECRET;
+    const off = await post({ order: INTENT });
+    expect(off.statusCode).toBe(401);
+    expect(parse(off).error.message).toMatch(/ORDER_TICKET_SECRET/);
+    expect(parse(await get(dbOrders.handler, {})).data.open_orders).toHaveLength(0);
+  });
+
+  test('refuses browser requests from another origin', async () => {
+    const res = await post({ event: { event_type: 'SELL_ORDER', status: 'filled', symbol: 'TSLA' } },
+      { origin: 'https://evil.example.net' });
+    expect(res.statusCode).toBe(403);
+    expect(parse(await get(dbBotActivity.handler, {})).data.events).toHaveLength(0);
+  });
+
+  test('only accepts ticket order ids, so broker rows cannot be overwritten', async () => {
+    const res = await post({ order: { ...INTENT, order_id: 'rh-real-order' } });
+    expect(res.statusCode).toBe(400);
+    expect(parse(res).error.code).toBe('NO_ORDERS');
+  });
+
+  test('rejects bad bodies and other methods', async () => {
+    expect((await post({})).statusCode).toBe(400);
+    const bad = await orderTicket.handler({ httpMethod: 'POST', headers: {}, body: '{nope' });
+    expect(parse(bad).error.code).toBe('BAD_JSON');
+    const getRes = await orderTicket.handler({ httpMethod: 'GET', headers: {}, body: null });
+    expect(getRes.statusCode).toBe(405);
+  });
+});
@@ -117,6 +117,9 @@ describe('twelvedata proxy', () => {
     const res = await td.handler(makeEvent({ params: { symbol: 'NEW' } }));
     expect(res.statusCode).toBe(502);
     expect(parse(res).code).toBe(429);
+    const retryAfter = Number(res.headers['Retry-After']);
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60);
   });
 
   test('refresh=1 within the floor still serves cache (hammer guard)', async () => {
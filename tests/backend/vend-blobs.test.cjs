@@ -42,6 +42,7 @@ const rawOptionsBlob = {
       latest_quote: { bid: 5.0, ask: 5.5, bid_size: 10, ask_size: 20, timestamp: '2026-03-20T23:20:00' },
       greeks: { delta: 0.65, gamma: 0.02, theta: -0.05, vega: 0.15 },
       implied_volatility: 0.35,
+      open_interest: 1240,
     },
   },
   latest_bars: {
@@ -153,6 +154,7 @@ describe('vend-blobs: market-data', () => {
     expect(snap.latestQuote.askSize).toBe(20);
     expect(snap.impliedVolatility).toBe(0.35);
     expect(snap.greeks.delta).toBe(0.65);
+    expect(snap.openInterest).toBe(1240);
 
     // Bars camelCase
     const bar = body.options.latestBars['CRWD260320C00100000'][0];
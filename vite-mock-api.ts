@@ -402,11 +402,73 @@ async function getMockResponse(pathname: string, params: URLSearchParams): Promi
       return { status: 200, body: { connected: false, institution: null } };
     }
     if (action === 'holdings') {
-      return { status: 200, body: { positions: [], accounts: [] } };
+      // Same Portfolio shape the live handler builds from investments/holdings
+      return {
+        status: 200,
+        body: {
+          accountNumber: 'mock-plaid-ira',
+          buyingPower: 1200,
+          cash: 1200,
+          portfolioValue: 13200,
+          extendedHoursValue: 13200,
+          totalGain: 1850,
+          positions: [
+            { symbol: 'VOO', name: 'Vanguard S&P 500 ETF', quantity: 20, averageCost: 420, currentPrice: 500, totalCost: 8400, currentValue: 10000, gain: 1600, gainPercent: 19.05 },
+            { symbol: 'AAPL', name: 'Apple Inc.', quantity: 10, averageCost: 175, currentPrice: 200, totalCost: 1750, currentValue: 2000, gain: 250, gainPercent: 14.29 },
+          ],
+        },
+      };
     }
     return { status: 200, body: {} };
   }
 
+  // Alpaca broker (paper) — same shapes alpaca-broker maps onto
+  if (fn === 'alpaca-broker') {
+    const action = params.get('action');
+    const positions = [
+      { symbol: 'SPY', name: 'SPY', quantity: 15, averageCost: 540, currentPrice: 600, totalCost: 8100, currentValue: 9000, gain: 900, gainPercent: 11.11 },
+      { symbol: 'NVDA', name: 'NVDA', quantity: 20, averageCost: 120, currentPrice: 135, totalCost: 2400, currentValue: 2700, gain: 300, gainPercent: 12.5 },
+    ];
+    if (action === 'status') {
+      return { status: 200, body: { authenticated: true, message: 'Paper account PA-MOCK-001 — ACTIVE' } };
+    }
+    if (action === 'portfolio') {
+      return {
+        status: 200,
+        body: {
+          accountNumber: 'PA-MOCK-001',
+          buyingPower: 40600,
+          cash: 20300,
+          portfolioValue: 32000,
+          extendedHoursValue: 32000,
+          totalGain: 1200,
+          positions,
+        },
+      };
+    }
+    if (action === 'orders') {
+      const now = new Date().toISOString();
+      return {
+        status: 200,
+        body: [
+          { id: 'alpaca-mock-1', symbol: 'NVDA', name: 'NVDA', side: 'sell', type: 'limit', quantity: 10, price: 150, state: 'new', createdAt: now, updatedAt: now },
+        ],
+      };
+    }
+    if (action === 'options') {
+      return {
+        status: 200,
+        body: {
+          positions: [{
+            symbol: 'SPY', strategy: null, direction: 'debit', optionType: 'put', strike: 560, expiration: '2026-12-18',
+            quantity: 1, avgOpenPrice: 9.5, markPrice: 7.2, multiplier: 100, totalCost: 950, currentValue: 720, gain: -230, gainPercent: -24.21,
+          }],
+        },
+      };
+    }
+    return { status: 400, body: { error: `Unknown action: ${action}` } };
+  }
+
   // Deribit DVOL
   if (fn === 'deribit-dvol') {
     return {